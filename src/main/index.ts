@@ -10,8 +10,12 @@ import { registerConfigHandlers } from './ipc/configHandlers'
 import { registerGlossarHandlers, reloadGlossar } from './ipc/glossarHandlers'
 import { registerTTSHandlers } from './ipc/ttsHandlers'
 import { registerDraftsHandlers } from './ipc/draftsHandlers'
+import { registerBackupHandlers } from './ipc/backupHandlers'
+import { registerHistoryHandlers } from './ipc/historyHandlers'
 import { loadConfig, getSettings } from './services/config'
 import { initLogging, getLogFilePath, debugLog } from './services/debugLog'
+import { ensurePromptTemplates } from './services/prompts'
+import { replayJournal } from './services/excel'
 
 // Load .env early
 config()
@@ -90,6 +94,14 @@ app.whenReady().then(async () => {
   // Load config FIRST
   await loadConfig()
 
+  // Finish activity inserts interrupted by a crash (before any new save can run)
+  try {
+    const { replayed, failed } = await replayJournal()
+    if (replayed || failed) console.log(`[Journal] Replayed ${replayed}, failed ${failed}`)
+  } catch (err) {
+    console.error('[Journal] Replay failed:', err)
+  }
+
   const window = createWindow()
 
   // Register global hotkey
@@ -104,12 +116,17 @@ app.whenReady().then(async () => {
   registerGlossarHandlers()
   registerTTSHandlers()
   registerDraftsHandlers()
+  registerBackupHandlers()
+  registerHistoryHandlers()
 
   // Non-blocking glossar load
   reloadGlossar().catch((err) => {
     console.error('[Startup] Glossar load failed:', err)
   })
 
+  // Write/upgrade editable LLM prompt templates
+  ensurePromptTemplates()
+
   // DevTools shortcut (Ctrl+Shift+I / Cmd+Option+I)
   globalShortcut.register('CommandOrControl+Shift+I', () => {
     const focusedWindow = BrowserWindow.getFocusedWindow()
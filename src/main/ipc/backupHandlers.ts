@@ -0,0 +1,126 @@
+import { ipcMain } from 'electron'
+import { basename } from 'path'
+import { getBackupUsage, listBackups, parseBackupTimestamp, restoreBackup } from '../services/backup'
+import { diffBackup } from '../services/backupDiff'
+import { findFileByPath, getConfig, type XlsxFileConfig } from '../services/config'
+import { isWorkbookLocked } from '../services/workbook'
+import { validateExcelPath, validatePath } from '../utils/pathValidator'
+import { ExcelPathSchema, FilePathSchema } from '../schemas/ipcSchemas'
+import type { BackupDiffResult, BackupInfo, BackupResult, BackupUsage } from '@shared/types'
+
+// Resolve a configured file and one of its own backups. The backup path is
+// only accepted if listBackups returns it, so no arbitrary file can be copied
+// over a workbook.
+async function resolveBackup(
+  filePath: unknown,
+  backupPath: unknown
+): Promise<{ file: XlsxFileConfig; backupPath: string } | { error: string }> {
+  let safePath: string
+  let safeBackupPath: string
+  try {
+    safePath = validateExcelPath(ExcelPathSchema.parse(filePath))
+    // Not validateExcelPath: compressed backups end in .zip
+    safeBackupPath = validatePath(FilePathSchema.parse(backupPath))
+  } catch (err) {
+    console.error('[Backup] Invalid backup request:', err)
+    return { error: 'Ungültige Backup-Anfrage' }
+  }
+
+  const file = findFileByPath(safePath)
+  if (!file) {
+    return { error: `Datei ist nicht konfiguriert: ${safePath}` }
+  }
+
+  if (!(await listBackups(safePath)).includes(safeBackupPath)) {
+    return { error: `Backup nicht gefunden: ${basename(safeBackupPath)}` }
+  }
+
+  return { file: { ...file, path: safePath }, backupPath: safeBackupPath }
+}
+
+export function registerBackupHandlers(): void {
+  // Backups of a workbook, newest first
+  ipcMain.handle('backup:list', async (_event, filePath: unknown): Promise<BackupInfo[]> => {
+    let safePath: string
+    try {
+      safePath = validateExcelPath(ExcelPathSchema.parse(filePath))
+    } catch (err) {
+      console.error('[Backup] Invalid path for list:', err)
+      return []
+    }
+
+    const backups = await listBackups(safePath)
+    return backups.map((path) => ({
+      path,
+      filename: basename(path),
+      createdAt: parseBackupTimestamp(path)
+    }))
+  })
+
+  // Backup count and size of all configured files
+  ipcMain.handle('backup:usage', async (): Promise<BackupUsage> => {
+    const config = getConfig()
+    const files = await Promise.all(
+      config.xlsxFiles.map(async (file) => ({
+        filePath: file.path,
+        auftraggeber: file.auftraggeber,
+        jahr: file.jahr,
+        ...(await getBackupUsage(file.path))
+      }))
+    )
+
+    return {
+      root: config.settings.backupRoot,
+      files,
+      totalCount: files.reduce((total, file) => total + file.count, 0),
+      totalBytes: files.reduce((total, file) => total + file.bytes, 0)
+    }
+  })
+
+  // Rows that differ between a backup and the current workbook
+  ipcMain.handle(
+    'backup:diff',
+    async (_event, filePath: unknown, backupPath: unknown): Promise<BackupDiffResult> => {
+      const target = await resolveBackup(filePath, backupPath)
+      if ('error' in target) {
+        return { success: false, error: target.error }
+      }
+
+      try {
+        return { success: true, diff: await diffBackup(target.file, target.backupPath) }
+      } catch (err) {
+        console.error('[Backup] Diff failed:', err)
+        return {
+          success: false,
+          error: err instanceof Error ? err.message : 'Unbekannter Fehler'
+        }
+      }
+    }
+  )
+
+  // Copy a backup over the workbook (the current state is backed up first)
+  ipcMain.handle(
+    'backup:restore',
+    async (_event, filePath: unknown, backupPath: unknown): Promise<BackupResult> => {
+      const target = await resolveBackup(filePath, backupPath)
+      if ('error' in target) {
+        return { success: false, error: target.error }
+      }
+
+      if (isWorkbookLocked(target.file.path)) {
+        return { success: false, error: `Datei ist in Excel geöffnet: ${basename(target.file.path)}` }
+      }
+
+      try {
+        await restoreBackup(target.backupPath, target.file.path)
+        return { success: true }
+      } catch (err) {
+        console.error('[Backup] Restore failed:', err)
+        return {
+          success: false,
+          error: err instanceof Error ? err.message : 'Unbekannter Fehler'
+        }
+      }
+    }
+  )
+}
@@ -20,6 +20,7 @@ import {
   removeXlsxFile,
   getActiveFiles,
   findFileForAuftraggeber,
+  findFileByPath,
   getSettings,
   updateSettings,
   type AppConfig,
@@ -27,6 +28,9 @@ import {
   type AppSettings
 } from '../services/config'
 import { scanDirectory, type ScannedFile } from '../services/fileScanner'
+import { detectFileLayout } from '../services/excel'
+import { rolloverYear } from '../services/yearRollover'
+import { resetLLMProvider } from '../services/llmProvider'
 import { validateExcelPath } from '../utils/pathValidator'
 import {
   FilePathSchema,
@@ -36,6 +40,26 @@ import {
   AuftraggeberLookupSchema
 } from '../schemas/ipcSchemas'
 
+type FileUpdates = Partial<Omit<XlsxFileConfig, 'path'>>
+
+// Store the detected sheet layout on first activation so it can be adjusted in config.yaml
+async function withDetectedLayout(path: string, updates: FileUpdates): Promise<FileUpdates> {
+  if (!updates.active || updates.layout || findFileByPath(path)?.layout) {
+    return updates
+  }
+
+  const layout = await detectFileLayout(path).catch((err) => {
+    console.error(`[Config] Layout detection failed for ${path}:`, err)
+    return null
+  })
+  if (!layout) {
+    return updates
+  }
+
+  console.log(`[Config] Detected layout for ${path}:`, JSON.stringify(layout))
+  return { ...updates, layout }
+}
+
 export function registerConfigHandlers(): void {
   // Load config from file
   ipcMain.handle('config:load', async (): Promise<AppConfig> => {
@@ -127,7 +151,7 @@ export function registerConfigHandlers(): void {
         const validatedPath = ExcelPathSchema.parse(path)
         const safePath = validateExcelPath(validatedPath)
         const validatedUpdates = FileConfigUpdateSchema.parse(updates)
-        await updateXlsxFile(safePath, validatedUpdates)
+        await updateXlsxFile(safePath, await withDetectedLayout(safePath, validatedUpdates))
       } catch (err) {
         console.error('[Config] Invalid file update:', err)
         throw err
@@ -167,7 +191,7 @@ export function registerConfigHandlers(): void {
         const validatedPath = ExcelPathSchema.parse(path)
         const safePath = validateExcelPath(validatedPath)
         const validatedActive = typeof active === 'boolean' ? active : false
-        await updateXlsxFile(safePath, { active: validatedActive })
+        await updateXlsxFile(safePath, await withDetectedLayout(safePath, { active: validatedActive }))
       } catch (err) {
         console.error('[Config] Invalid toggle file active:', err)
         throw err
@@ -187,6 +211,23 @@ export function registerConfigHandlers(): void {
     }
   })
 
+  // Create next year's file from the previous year's file or a template
+  ipcMain.handle(
+    'config:rolloverYear',
+    async (_event, auftraggeber: unknown, jahr: unknown, templatePath: unknown): Promise<XlsxFileConfig> => {
+      try {
+        const validated = AuftraggeberLookupSchema.parse({ auftraggeber, jahr })
+        const safeTemplate = templatePath === undefined
+          ? undefined
+          : validateExcelPath(ExcelPathSchema.parse(templatePath))
+        return await rolloverYear(validated.auftraggeber, validated.jahr, safeTemplate)
+      } catch (err) {
+        console.error('[Config] Year rollover failed:', err)
+        throw err
+      }
+    }
+  )
+
   // Get settings
   ipcMain.handle('config:getSettings', async (): Promise<AppSettings> => {
     return await getSettings()
@@ -203,7 +244,10 @@ export function registerConfigHandlers(): void {
           '[Config] Updating settings:',
           JSON.stringify(sanitizeForLogging(validatedUpdates as Record<string, unknown>))
         )
-        return await updateSettings(validatedUpdates)
+        const updated = await updateSettings(validatedUpdates)
+        // Provider or API key may have changed - rebuild on next LLM call
+        resetLLMProvider()
+        return updated
       } catch (err) {
         // Don't log raw error as it may contain sensitive input data from Zod
         console.error('[Config] Invalid settings update')
@@ -1,9 +1,45 @@
 import { ipcMain, dialog, shell } from 'electron'
-import { addActivity, getActivities, type Activity as ExcelActivity } from '../services/excel'
+import { basename } from 'path'
+import {
+  addActivity,
+  addActivities,
+  getActivities,
+  queryActivities,
+  updateActivity,
+  deleteActivity,
+  findDuplicateActivity,
+  verifyRow,
+  type Activity as ExcelActivity,
+  type RowLocation
+} from '../services/excel'
 import type { Activity as LLMActivity } from '../services/llm'
-import { findFileForAuftraggeber, getActiveFiles } from '../services/config'
+import {
+  findFileByPath,
+  findFileForAuftraggeber,
+  findPreviousYearFile,
+  findYearFile,
+  getActiveFiles,
+  type XlsxFileConfig
+} from '../services/config'
+import { rolloverYear } from '../services/yearRollover'
+import { createMonthlyReport } from '../services/report'
+import { getDashboard } from '../services/dashboard'
+import { isLockError, isWorkbookLocked } from '../services/workbook'
+import { appendHistory } from '../services/history'
+import { recordSave, relocateSave, takeLastSave } from '../services/undoStack'
+import { addLearnedSynonyms, detectNewThema, learnSynonyms } from './glossarHandlers'
 import { validateExcelPath } from '../utils/pathValidator'
-import { ExcelPathSchema, ActivitySchema, MonthSchema } from '../schemas/ipcSchemas'
+import {
+  ExcelPathSchema,
+  ActivitySchema,
+  SaveOptionsSchema,
+  SaveBatchSchema,
+  MonthSchema,
+  DateRangeSchema,
+  SavedRowSchema,
+  ReportRatesSchema
+} from '../schemas/ipcSchemas'
+import type { BookedActivity, DashboardSummary, ReportRates, ReportResult, SaveBatchItem, SaveOptions, SaveResult, SavedRowRef, SynonymSuggestion } from '@shared/types'
 
 // Legacy: single file path (for backwards compatibility)
 let legacyFilePath: string | null = process.env.EXCEL_FILE_PATH || null
@@ -45,6 +81,85 @@ function mapToExcelActivity(llmActivity: LLMActivity): ExcelActivity {
   }
 }
 
+// Find the Excel file for an activity via Auftraggeber+Jahr, falling back to the legacy path.
+// A missing file for the current year is created from the previous year's file.
+async function resolveTargetFile(activity: LLMActivity): Promise<{ filePath: string } | { error: string }> {
+  // Try to find file via Auftraggeber+Jahr from config
+  let filePath: string | null = null
+
+  if (activity.auftraggeber) {
+    const jahr = extractYear(activity.datum)
+    const configFile = findFileForAuftraggeber(activity.auftraggeber, jahr)
+    const inactiveFile = configFile ? null : findYearFile(activity.auftraggeber, jahr)
+
+    if (configFile) {
+      filePath = configFile.path
+      console.log(`[Excel] Found config file for ${activity.auftraggeber}/${jahr}: ${filePath}`)
+    } else if (inactiveFile) {
+      // A rollover would fail on the existing file, and the legacy file is the wrong one
+      return {
+        error: `Die Datei für ${activity.auftraggeber} ${jahr} (${basename(inactiveFile.path)}) ist nicht aktiv. Bitte unter "Dateien" aktivieren.`
+      }
+    } else if (jahr <= new Date().getFullYear() && findPreviousYearFile(activity.auftraggeber, jahr)) {
+      // Future years are left alone, they are more likely a misheard date
+      try {
+        filePath = (await rolloverYear(activity.auftraggeber, jahr)).path
+        console.log(`[Excel] Created ${filePath} for ${activity.auftraggeber}/${jahr}`)
+      } catch (err) {
+        console.error('[Excel] Year rollover failed:', err)
+        return {
+          error: `Datei für ${activity.auftraggeber} ${jahr} konnte nicht angelegt werden: ${err instanceof Error ? err.message : err}`
+        }
+      }
+    } else {
+      console.log(`[Excel] No config file for ${activity.auftraggeber}/${jahr}`)
+    }
+  }
+
+  // Fallback to legacy path
+  if (!filePath && legacyFilePath) {
+    filePath = legacyFilePath
+    console.log(`[Excel] Using legacy file path: ${filePath}`)
+  }
+
+  if (!filePath) {
+    // Check if any active files exist
+    const activeFiles = getActiveFiles()
+    if (activeFiles.length === 0) {
+      return {
+        error: 'Keine aktiven Excel-Dateien konfiguriert. Bitte unter "Dateien" konfigurieren.'
+      }
+    }
+    return {
+      error: `Keine Datei für Auftraggeber "${activity.auftraggeber || 'unbekannt'}" gefunden. Verfügbar: ${activeFiles.map((f) => f.auftraggeber).join(', ')}`
+    }
+  }
+
+  return { filePath }
+}
+
+// Active files with validated paths; files with invalid paths are skipped
+function getValidatedActiveFiles(): XlsxFileConfig[] {
+  return getActiveFiles().flatMap((file) => {
+    try {
+      return [{ ...file, path: validateExcelPath(file.path) }]
+    } catch (err) {
+      console.error(`[Excel] Skipping invalid path ${file.path}:`, err)
+      return []
+    }
+  })
+}
+
+// Record a write in the history. The row is already in Excel at this point,
+// so a failing history file must not turn the save into an error.
+async function logHistory(entry: Parameters<typeof appendHistory>[0]): Promise<void> {
+  try {
+    await appendHistory(entry)
+  } catch (err) {
+    console.error('[Excel] History append failed:', err)
+  }
+}
+
 export function registerExcelHandlers(): void {
   // Set Excel file path - validates path before setting
   ipcMain.handle('excel:setPath', (_event, path: unknown): void => {
@@ -100,76 +215,197 @@ export function registerExcelHandlers(): void {
     }
   })
 
+  // Check whether a workbook is open in Excel (for queued saves)
+  ipcMain.handle('excel:isFileLocked', (_event, filePath: unknown): boolean => {
+    try {
+      const safePath = validateExcelPath(ExcelPathSchema.parse(filePath))
+      return isWorkbookLocked(safePath)
+    } catch (err) {
+      console.error('[Excel] Invalid path for isFileLocked:', err)
+      return false
+    }
+  })
+
   // Save activity to Excel
   ipcMain.handle(
     'excel:saveActivity',
     async (
       _event,
-      activity: unknown
-    ): Promise<{ success: boolean; error?: string; filePath?: string }> => {
+      activity: unknown,
+      options: unknown
+    ): Promise<SaveResult> => {
       // Validate activity input with Zod
       let validatedActivity: LLMActivity
+      let saveOptions: SaveOptions
       try {
         validatedActivity = ActivitySchema.parse(activity) as LLMActivity
+        saveOptions = SaveOptionsSchema.parse(options ?? {})
       } catch (err) {
         console.error('[Excel] Invalid activity data:', err)
         return { success: false, error: 'Ungültige Aktivitätsdaten' }
       }
 
-      // Try to find file via Auftraggeber+Jahr from config
-      let filePath: string | null = null
-
-      if (validatedActivity.auftraggeber) {
-        const jahr = extractYear(validatedActivity.datum)
-        const configFile = findFileForAuftraggeber(validatedActivity.auftraggeber, jahr)
-
-        if (configFile) {
-          filePath = configFile.path
-          console.log(
-            `[Excel] Found config file for ${validatedActivity.auftraggeber}/${jahr}: ${filePath}`
-          )
-        } else {
-          console.log(`[Excel] No config file for ${validatedActivity.auftraggeber}/${jahr}`)
-        }
+      const target = await resolveTargetFile(validatedActivity)
+      if ('error' in target) {
+        return { success: false, error: target.error }
       }
 
-      // Fallback to legacy path
-      if (!filePath && legacyFilePath) {
-        filePath = legacyFilePath
-        console.log(`[Excel] Using legacy file path: ${filePath}`)
-      }
+      // Validate the resolved file path
+      try {
+        const safePath = validateExcelPath(target.filePath)
+        const excelActivity = mapToExcelActivity(validatedActivity)
+        const file = findFileByPath(safePath)
 
-      if (!filePath) {
-        // Check if any active files exist
-        const activeFiles = getActiveFiles()
-        if (activeFiles.length === 0) {
-          return {
-            success: false,
-            error: 'Keine aktiven Excel-Dateien konfiguriert. Bitte unter "Dateien" konfigurieren.'
+        // A retry or repeated recording would silently add a second row
+        if (!saveOptions.allowDuplicate) {
+          const existing = await findDuplicateActivity(safePath, excelActivity, file?.layout)
+          if (existing) {
+            return {
+              success: false,
+              error: `Ähnlicher Eintrag vorhanden (${existing.sheet}, Zeile ${existing.row})`,
+              filePath: safePath,
+              duplicate: {
+                ...existing,
+                auftraggeber: file?.auftraggeber ?? validatedActivity.auftraggeber ?? '',
+                filePath: safePath
+              }
+            }
           }
         }
+
+        const location = await addActivity(safePath, excelActivity, file?.layout, {
+          ignoreOwnerFile: saveOptions.ignoreOwnerFile
+        })
+        recordSave({ filePath: safePath, ...location })
+        await logHistory({
+          action: 'insert',
+          filePath: safePath,
+          sheet: location.sheet,
+          row: location.row,
+          activity: validatedActivity,
+          transcript: saveOptions.transcript,
+          parsedActivity: saveOptions.parsedActivity
+        })
+        if (saveOptions.parsedActivity) {
+          await addLearnedSynonyms(await learnSynonyms(safePath, saveOptions.parsedActivity, validatedActivity))
+        }
+        const newThema = await detectNewThema(safePath, validatedActivity.thema)
         return {
-          success: false,
-          error: `Keine Datei für Auftraggeber "${validatedActivity.auftraggeber || 'unbekannt'}" gefunden. Verfügbar: ${activeFiles.map((f) => f.auftraggeber).join(', ')}`
+          success: true,
+          filePath: safePath,
+          savedRow: { filePath: safePath, ...location },
+          ...(newThema && { newThema })
         }
-      }
-
-      // Validate the resolved file path
-      try {
-        const safePath = validateExcelPath(filePath)
-        const excelActivity = mapToExcelActivity(validatedActivity)
-        await addActivity(safePath, excelActivity)
-        return { success: true, filePath: safePath }
       } catch (err) {
         console.error('[Excel] Save failed:', err)
         return {
           success: false,
-          error: err instanceof Error ? err.message : 'Unbekannter Fehler'
+          error: err instanceof Error ? err.message : 'Unbekannter Fehler',
+          ...(isLockError(err) && { locked: true, filePath: target.filePath })
         }
       }
     }
   )
 
+  // Save several drafts, one workbook load/backup/save per target file.
+  // Results are returned per draft in input order.
+  ipcMain.handle('excel:saveActivities', async (_event, items: unknown): Promise<SaveResult[]> => {
+    let batch: SaveBatchItem[]
+    try {
+      batch = SaveBatchSchema.parse(items) as SaveBatchItem[]
+    } catch (err) {
+      console.error('[Excel] Invalid batch data:', err)
+      return []
+    }
+
+    const results: SaveResult[] = new Array(batch.length)
+    const groups = new Map<string, number[]>()
+    const learned: SynonymSuggestion[] = []
+
+    // Resolve one after another: a year rollover must not run twice for the same file
+    for (const [index, item] of batch.entries()) {
+      const target = await resolveTargetFile(item.activity)
+      if ('error' in target) {
+        results[index] = { success: false, error: target.error }
+        continue
+      }
+      try {
+        const safePath = validateExcelPath(target.filePath)
+        groups.set(safePath, [...(groups.get(safePath) ?? []), index])
+      } catch (err) {
+        results[index] = { success: false, error: err instanceof Error ? err.message : 'Unbekannter Fehler' }
+      }
+    }
+
+    for (const [safePath, indexes] of groups) {
+      const file = findFileByPath(safePath)
+      try {
+        const inserted = await addActivities(
+          safePath,
+          indexes.map((index) => ({
+            activity: mapToExcelActivity(batch[index].activity),
+            allowDuplicate: batch[index].options?.allowDuplicate
+          })),
+          file?.layout,
+          { ignoreOwnerFile: indexes.every((index) => batch[index].options?.ignoreOwnerFile) }
+        )
+
+        for (const [i, outcome] of inserted.entries()) {
+          const index = indexes[i]
+          const { activity, options } = batch[index]
+          if ('location' in outcome) {
+            const savedRow = { filePath: safePath, ...outcome.location }
+            await logHistory({
+              action: 'insert',
+              filePath: safePath,
+              sheet: outcome.location.sheet,
+              row: outcome.location.row,
+              activity,
+              transcript: options?.transcript,
+              parsedActivity: options?.parsedActivity
+            })
+            if (options?.parsedActivity) {
+              learned.push(...(await learnSynonyms(safePath, options.parsedActivity, activity)))
+            }
+            const newThema = await detectNewThema(safePath, activity.thema)
+            results[index] = { success: true, filePath: safePath, savedRow, ...(newThema && { newThema }) }
+          } else {
+            results[index] = {
+              success: false,
+              error: outcome.error,
+              filePath: safePath,
+              ...(outcome.duplicate && {
+                duplicate: {
+                  ...outcome.duplicate,
+                  auftraggeber: file?.auftraggeber ?? activity.auftraggeber ?? '',
+                  filePath: safePath
+                }
+              })
+            }
+          }
+        }
+      } catch (err) {
+        console.error('[Excel] Batch save failed:', err)
+        for (const index of indexes) {
+          results[index] = {
+            success: false,
+            error: err instanceof Error ? err.message : 'Unbekannter Fehler',
+            ...(isLockError(err) && { locked: true, filePath: safePath })
+          }
+        }
+      }
+    }
+
+    // Undo takes the rows back in reverse input order, as the renderer expects
+    for (const result of results) {
+      if (result?.success && result.savedRow) recordSave(result.savedRow)
+    }
+
+    // One Glossar write per file once all rows are saved
+    await addLearnedSynonyms(learned)
+    return results
+  })
+
   // Get activities for a month (legacy - uses single file)
   ipcMain.handle(
     'excel:getActivities',
@@ -197,4 +433,195 @@ export function registerExcelHandlers(): void {
       }
     }
   )
+  // Read booked activities from all active files for a date range
+  ipcMain.handle(
+    'excel:queryActivities',
+    async (_event, from: unknown, to: unknown): Promise<BookedActivity[]> => {
+      let range: { from: string; to: string }
+      try {
+        range = DateRangeSchema.parse({ from, to })
+      } catch (err) {
+        console.error('[Excel] Invalid date range:', err)
+        return []
+      }
+
+      return await queryActivities(getValidatedActiveFiles(), range.from, range.to)
+    }
+  )
+
+  // Aggregated hours/km/Auslagen of all active files for the dashboard
+  ipcMain.handle(
+    'excel:getDashboard',
+    async (_event, from: unknown, to: unknown): Promise<DashboardSummary | null> => {
+      let range: { from: string; to: string }
+      try {
+        range = DateRangeSchema.parse({ from, to })
+      } catch (err) {
+        console.error('[Excel] Invalid date range:', err)
+        return null
+      }
+
+      return await getDashboard(getValidatedActiveFiles(), range.from, range.to)
+    }
+  )
+
+  // Overwrite an already saved row (voice correction of saved entries)
+  ipcMain.handle(
+    'excel:updateActivity',
+    async (_event, savedRow: unknown, activity: unknown, previousActivity: unknown): Promise<SaveResult> => {
+      let ref: SavedRowRef
+      let validatedActivity: LLMActivity
+      let validatedPrevious: LLMActivity | undefined
+      try {
+        ref = SavedRowSchema.parse(savedRow)
+        validatedActivity = ActivitySchema.parse(activity) as LLMActivity
+        validatedPrevious = ActivitySchema.optional().parse(previousActivity) as LLMActivity | undefined
+      } catch (err) {
+        console.error('[Excel] Invalid update data:', err)
+        return { success: false, error: 'Ungültige Aktivitätsdaten' }
+      }
+
+      const target = await resolveTargetFile(validatedActivity)
+      if ('error' in target) {
+        return { success: false, error: target.error }
+      }
+
+      try {
+        const sourcePath = validateExcelPath(ref.filePath)
+        const targetPath = validateExcelPath(target.filePath)
+        const excelActivity = mapToExcelActivity(validatedActivity)
+
+        const sourceLayout = findFileByPath(sourcePath)?.layout
+
+        let location: RowLocation
+        if (targetPath === sourcePath) {
+          location = await updateActivity(sourcePath, ref, excelActivity, sourceLayout)
+        } else {
+          // Auftraggeber or year changed: move the row to the other file.
+          // Check first so a row edited in Excel is neither duplicated nor lost.
+          await verifyRow(sourcePath, ref, sourceLayout)
+          location = await addActivity(targetPath, excelActivity, findFileByPath(targetPath)?.layout)
+          await deleteActivity(sourcePath, ref, sourceLayout)
+        }
+
+        relocateSave(ref, { filePath: targetPath, ...location })
+        await logHistory({
+          action: 'update',
+          filePath: targetPath,
+          sheet: location.sheet,
+          row: location.row,
+          activity: validatedActivity,
+          previous: { filePath: sourcePath, sheet: ref.sheet, row: ref.row }
+        })
+        if (validatedPrevious) {
+          await addLearnedSynonyms(await learnSynonyms(targetPath, validatedPrevious, validatedActivity))
+        }
+        // Only a changed Thema is offered again
+        const newThema = validatedPrevious?.thema !== validatedActivity.thema
+          ? await detectNewThema(targetPath, validatedActivity.thema)
+          : undefined
+        return {
+          success: true,
+          filePath: targetPath,
+          savedRow: { filePath: targetPath, ...location },
+          ...(newThema && { newThema })
+        }
+      } catch (err) {
+        console.error('[Excel] Update failed:', err)
+        return {
+          success: false,
+          error: err instanceof Error ? err.message : 'Unbekannter Fehler'
+        }
+      }
+    }
+  )
+
+  // Delete an already saved row
+  ipcMain.handle('excel:deleteActivity', async (_event, savedRow: unknown): Promise<SaveResult> => {
+    let ref: SavedRowRef
+    try {
+      ref = SavedRowSchema.parse(savedRow)
+    } catch (err) {
+      console.error('[Excel] Invalid row reference:', err)
+      return { success: false, error: 'Ungültige Zeilenangabe' }
+    }
+
+    try {
+      const safePath = validateExcelPath(ref.filePath)
+      await deleteActivity(safePath, ref, findFileByPath(safePath)?.layout)
+      relocateSave({ ...ref, filePath: safePath })
+      await logHistory({ action: 'delete', filePath: safePath, sheet: ref.sheet, row: ref.row })
+      return { success: true, filePath: safePath }
+    } catch (err) {
+      console.error('[Excel] Delete failed:', err)
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : 'Unbekannter Fehler'
+      }
+    }
+  })
+
+  // Remove the row written by the most recent save, unless it was edited since
+  ipcMain.handle('excel:undoLastSave', async (): Promise<SaveResult> => {
+    const ref = takeLastSave()
+    if (!ref) {
+      return { success: false, error: 'Keine Speicherung zum Rückgängigmachen' }
+    }
+
+    try {
+      const safePath = validateExcelPath(ref.filePath)
+      await deleteActivity(safePath, ref, findFileByPath(safePath)?.layout)
+      relocateSave(ref)
+      await logHistory({ action: 'delete', filePath: safePath, sheet: ref.sheet, row: ref.row })
+      return { success: true, filePath: safePath, savedRow: ref }
+    } catch (err) {
+      console.error('[Excel] Undo failed:', err)
+      // Open in Excel: keep the row on the stack so the undo can be repeated
+      if (isLockError(err)) {
+        recordSave(ref)
+      }
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : 'Unbekannter Fehler',
+        ...(isLockError(err) && { locked: true, filePath: ref.filePath })
+      }
+    }
+  })
+
+  // Monthly report (PDF + CSV) for one configured file; explicit rates override the file's rates
+  ipcMain.handle(
+    'excel:createReport',
+    async (_event, filePath: unknown, month: unknown, rates: unknown): Promise<ReportResult> => {
+      let safePath: string
+      let validatedMonth: number
+      let validatedRates: ReportRates
+      try {
+        safePath = validateExcelPath(ExcelPathSchema.parse(filePath))
+        validatedMonth = MonthSchema.parse(month)
+        validatedRates = ReportRatesSchema.parse(rates ?? {})
+      } catch (err) {
+        console.error('[Excel] Invalid report request:', err)
+        return { success: false, error: 'Ungültige Berichtsanfrage' }
+      }
+
+      const file = findFileByPath(safePath)
+      if (!file) {
+        return { success: false, error: `Datei ist nicht konfiguriert: ${safePath}` }
+      }
+
+      try {
+        const paths = await createMonthlyReport({ ...file, path: safePath }, validatedMonth, {
+          hourlyRate: validatedRates.hourlyRate ?? file.hourlyRate,
+          kmRate: validatedRates.kmRate ?? file.kmRate
+        })
+        return { success: true, ...paths }
+      } catch (err) {
+        console.error('[Excel] Report failed:', err)
+        return {
+          success: false,
+          error: err instanceof Error ? err.message : 'Unbekannter Fehler'
+        }
+      }
+    }
+  )
 }
@@ -1,18 +1,40 @@
 import { ipcMain } from 'electron'
+import { basename } from 'path'
 import {
   normalizeText,
+  matchTerm,
   getAllKnownTerms,
   clearGlossarCache,
   ensureGlossar,
+  buildTranscriptionVocabulary,
+  loadGlossar,
+  saveGlossarEntries,
+  addGlossarSynonym,
+  addGlossarSynonyms,
+  addGlossarBegriff,
+  classifyNewThema,
+  isGlossarKategorie,
   type Glossar,
-  type GlossarEintrag
+  type GlossarEintrag,
+  type GlossarKategorie,
+  type GlossarSource
 } from '../services/glossar'
-import { getActiveFiles, type XlsxFileConfig } from '../services/config'
+import { getActiveFiles, findFileByPath, getConfig, type XlsxFileConfig } from '../services/config'
+import {
+  recordCorrections,
+  getPendingSuggestions,
+  findSuggestion,
+  setSuggestionStatus
+} from '../services/synonymSuggestions'
+import { isLockError, isWorkbookLocked } from '../services/workbook'
 import { validateExcelPath } from '../utils/pathValidator'
-import { ExcelPathSchema, StringInputSchema } from '../schemas/ipcSchemas'
+import { ExcelPathSchema, GlossarEntriesSchema, NewGlossarTermSchema, StringInputSchema } from '../schemas/ipcSchemas'
+import type { Activity, GlossarMatch, GlossarSaveResult, NewThemaSuggestion, SynonymSuggestion } from '@shared/types'
 
 // Current merged glossar from all active files
 let currentGlossar: Glossar | null = null
+// Per-file glossars, used to prioritise terms of one Auftraggeber
+let glossarSources: GlossarSource[] = []
 
 export function registerGlossarHandlers(): void {
   // Load glossar from all active Excel files (creates Glossar sheets if missing)
@@ -53,6 +75,15 @@ export function registerGlossarHandlers(): void {
     return normalizeText(validatedText, currentGlossar)
   })
 
+  // Ranked glossar candidates for a text, with confidence and match method
+  ipcMain.handle('glossar:match', (_event, text: unknown): GlossarMatch[] => {
+    const parsed = StringInputSchema.safeParse(text)
+    if (!parsed.success || !currentGlossar) {
+      return []
+    }
+    return matchTerm(parsed.data, currentGlossar)
+  })
+
   // Get all glossar entries
   ipcMain.handle('glossar:getEntries', (): GlossarEintrag[] => {
     if (!currentGlossar) {
@@ -61,10 +92,111 @@ export function registerGlossarHandlers(): void {
     return currentGlossar.eintraege
   })
 
+  // Glossar entries of a single file, for the editor
+  ipcMain.handle('glossar:getFileEntries', async (_event, filePath: unknown): Promise<GlossarEintrag[]> => {
+    let safePath: string
+    try {
+      safePath = validateExcelPath(ExcelPathSchema.parse(filePath))
+    } catch (err) {
+      console.error('[Glossar] Invalid path for getFileEntries:', err)
+      return []
+    }
+
+    // Rows of other Kategorien stay untouched in the sheet when the editor saves
+    const glossar = await loadGlossar(safePath)
+    return glossar ? glossar.eintraege.filter(e => isGlossarKategorie(e.kategorie)) : []
+  })
+
+  // Replace the Glossar sheet of a configured file with the edited entries
+  ipcMain.handle(
+    'glossar:saveEntries',
+    async (_event, filePath: unknown, eintraege: unknown): Promise<GlossarSaveResult> => {
+      let safePath: string
+      let validatedEntries: GlossarEintrag[]
+      try {
+        safePath = validateExcelPath(ExcelPathSchema.parse(filePath))
+        validatedEntries = GlossarEntriesSchema.parse(eintraege)
+      } catch (err) {
+        console.error('[Glossar] Invalid saveEntries params:', err)
+        return { success: false, error: 'Ungültige Glossar-Einträge' }
+      }
+
+      const blocked = checkWritable(safePath)
+      if (blocked) return blocked
+
+      try {
+        await saveGlossarEntries(safePath, validatedEntries)
+        await reloadGlossar()
+        return { success: true }
+      } catch (err) {
+        console.error('[Glossar] Save failed:', err)
+        return {
+          success: false,
+          error: err instanceof Error ? err.message : 'Unbekannter Fehler',
+          ...(isLockError(err) && { locked: true })
+        }
+      }
+    }
+  )
+
+  // Learned synonyms waiting for approval
+  ipcMain.handle('glossar:getSuggestions', (): Promise<SynonymSuggestion[]> => {
+    return getPendingSuggestions()
+  })
+
+  // Add a suggested synonym to its file's Glossar
+  ipcMain.handle('glossar:acceptSuggestion', async (_event, id: unknown): Promise<GlossarSaveResult> => {
+    const suggestion = typeof id === 'string' ? await findSuggestion(id) : null
+    if (!suggestion || suggestion.status !== 'pending') {
+      return { success: false, error: 'Vorschlag nicht gefunden' }
+    }
+    return acceptSuggestion(suggestion)
+  })
+
+  // Never propose this correction again
+  ipcMain.handle('glossar:rejectSuggestion', async (_event, id: unknown): Promise<boolean> => {
+    if (typeof id !== 'string') return false
+    return (await setSuggestionStatus(id, 'rejected')) !== null
+  })
+
+  // Add a new Begriff (e.g. a Thema found in a saved activity) to a file's Glossar
+  ipcMain.handle(
+    'glossar:addTerm',
+    async (_event, filePath: unknown, kategorie: unknown, begriff: unknown): Promise<GlossarSaveResult> => {
+      let safePath: string
+      let term: { kategorie: GlossarKategorie; begriff: string }
+      try {
+        safePath = validateExcelPath(ExcelPathSchema.parse(filePath))
+        term = NewGlossarTermSchema.parse({ kategorie, begriff })
+      } catch (err) {
+        console.error('[Glossar] Invalid addTerm params:', err)
+        return { success: false, error: 'Ungültiger Glossar-Begriff' }
+      }
+
+      const blocked = checkWritable(safePath)
+      if (blocked) return blocked
+
+      try {
+        await addGlossarBegriff(safePath, term.kategorie, term.begriff)
+        await reloadGlossar()
+        console.log(`[Glossar] Added ${term.kategorie} "${term.begriff}" to ${safePath}`)
+        return { success: true }
+      } catch (err) {
+        console.error('[Glossar] Adding term failed:', err)
+        return {
+          success: false,
+          error: err instanceof Error ? err.message : 'Unbekannter Fehler',
+          ...(isLockError(err) && { locked: true })
+        }
+      }
+    }
+  )
+
   // Clear glossar cache (useful when files change)
   ipcMain.handle('glossar:clearCache', (): void => {
     clearGlossarCache()
     currentGlossar = null
+    glossarSources = []
     console.log('[Glossar] Cache cleared')
   })
 
@@ -92,6 +224,116 @@ export function registerGlossarHandlers(): void {
   )
 }
 
+// Glossar writes need a configured file that is not open in Excel
+function checkWritable(filePath: string): GlossarSaveResult | null {
+  if (!findFileByPath(filePath)) {
+    return { success: false, error: `Datei ist nicht konfiguriert: ${filePath}` }
+  }
+  if (isWorkbookLocked(filePath)) {
+    return { success: false, error: `Datei ist in Excel geöffnet: ${basename(filePath)}`, locked: true }
+  }
+  return null
+}
+
+async function acceptSuggestion(suggestion: SynonymSuggestion): Promise<GlossarSaveResult> {
+  const blocked = checkWritable(suggestion.filePath)
+  if (blocked) return blocked
+
+  try {
+    await addGlossarSynonym(suggestion.filePath, suggestion.kategorie, suggestion.begriff, suggestion.synonym)
+    await setSuggestionStatus(suggestion.id, 'accepted')
+    await reloadGlossar()
+    console.log(`[Glossar] Learned synonym "${suggestion.synonym}" → "${suggestion.begriff}"`)
+    return { success: true }
+  } catch (err) {
+    console.error('[Glossar] Adding synonym failed:', err)
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : 'Unbekannter Fehler',
+      ...(isLockError(err) && { locked: true })
+    }
+  }
+}
+
+/**
+ * Count Auftraggeber/Thema corrections of an activity saved to filePath.
+ * Returns the corrections reaching the configured threshold if synonymAutoAdd
+ * is set, for addLearnedSynonyms once all rows are saved; otherwise they wait
+ * for approval and nothing is returned.
+ * Never throws, a save must not fail because of this.
+ */
+export async function learnSynonyms(filePath: string, before: Activity, after: Activity): Promise<SynonymSuggestion[]> {
+  try {
+    const { synonymThreshold, synonymAutoAdd } = getConfig().settings
+    const ready = await recordCorrections(filePath, before, after, synonymThreshold)
+    return synonymAutoAdd ? ready : []
+  } catch (err) {
+    console.error('[Glossar] Learning synonyms failed:', err)
+    return []
+  }
+}
+
+/**
+ * Add synonyms returned by learnSynonyms, with one Glossar write per file.
+ * Synonyms that cannot be added stay pending for manual approval.
+ * Never throws, a save must not fail because of this.
+ */
+export async function addLearnedSynonyms(suggestions: SynonymSuggestion[]): Promise<void> {
+  const byFile = new Map<string, Map<string, SynonymSuggestion>>()
+  for (const suggestion of suggestions) {
+    // The same correction can reach the threshold for several rows of a batch
+    const pending = byFile.get(suggestion.filePath) ?? new Map<string, SynonymSuggestion>()
+    pending.set(suggestion.id, suggestion)
+    byFile.set(suggestion.filePath, pending)
+  }
+
+  let added = false
+  for (const [filePath, pending] of byFile) {
+    const list = [...pending.values()]
+    const blocked = checkWritable(filePath)
+    if (blocked) {
+      console.warn(`[Glossar] ${list.length} synonyms not added to ${filePath}: ${blocked.error}`)
+      continue
+    }
+
+    try {
+      await addGlossarSynonyms(filePath, list)
+      for (const suggestion of list) {
+        await setSuggestionStatus(suggestion.id, 'accepted')
+        console.log(`[Glossar] Learned synonym "${suggestion.synonym}" → "${suggestion.begriff}"`)
+      }
+      added = true
+    } catch (err) {
+      console.warn(`[Glossar] Synonyms not added to ${filePath}:`, err)
+    }
+  }
+
+  if (added) {
+    try {
+      await reloadGlossar()
+    } catch (err) {
+      console.error('[Glossar] Reloading after learning synonyms failed:', err)
+    }
+  }
+}
+
+/**
+ * Offer a saved Thema for the Glossar of filePath if the Glossar does not know
+ * it yet (or the file has no Glossar sheet). Never throws, a save must not fail because of this.
+ */
+export async function detectNewThema(filePath: string, thema: string | null): Promise<NewThemaSuggestion | undefined> {
+  if (!thema) return undefined
+  try {
+    // Without a Glossar sheet every Thema is new; adding one creates the sheet
+    const glossar = (await loadGlossar(filePath)) ?? mergeGlossars([])
+    const kategorie = classifyNewThema(thema, glossar)
+    return kategorie ? { filePath, thema, kategorie } : undefined
+  } catch (err) {
+    console.error('[Glossar] Checking new Thema failed:', err)
+    return undefined
+  }
+}
+
 /**
  * Get the current glossar for use in other handlers (e.g., LLM)
  */
@@ -99,6 +341,13 @@ export function getCurrentGlossar(): Glossar | null {
   return currentGlossar
 }
 
+/**
+ * Glossar terms to bias speech recognition, terms of the given Auftraggeber first.
+ */
+export function getTranscriptionVocabulary(auftraggeber?: string | null): string[] {
+  return buildTranscriptionVocabulary(glossarSources, auftraggeber)
+}
+
 /**
  * Reload the glossar from active files.
  * Creates Glossar sheets from existing data if they don't exist.
@@ -109,6 +358,7 @@ export async function reloadGlossar(): Promise<void> {
 
   if (activeFiles.length === 0) {
     currentGlossar = null
+    glossarSources = []
     return
   }
 
@@ -121,7 +371,10 @@ export async function reloadGlossar(): Promise<void> {
   )
 
   const results = await Promise.all(glossarPromises)
-  const glossars = results.filter((g): g is Glossar => g !== null)
+  glossarSources = results.flatMap((glossar, i) =>
+    glossar ? [{ auftraggeber: activeFiles[i].auftraggeber, glossar }] : []
+  )
+  const glossars = glossarSources.map(s => s.glossar)
 
   if (glossars.length === 0) {
     currentGlossar = null
@@ -0,0 +1,24 @@
+import { ipcMain } from 'electron'
+import { queryHistory } from '../services/history'
+import { HistoryQuerySchema } from '../schemas/ipcSchemas'
+import type { HistoryEntry, HistoryQuery } from '@shared/types'
+
+export function registerHistoryHandlers(): void {
+  // Logged Excel writes, newest first
+  ipcMain.handle('history:query', async (_event, query: unknown): Promise<HistoryEntry[]> => {
+    let validatedQuery: HistoryQuery
+    try {
+      validatedQuery = HistoryQuerySchema.parse(query ?? {})
+    } catch (err) {
+      console.error('[History] Invalid query:', err)
+      return []
+    }
+
+    try {
+      return await queryHistory(validatedQuery)
+    } catch (err) {
+      console.error('[History] Query failed:', err)
+      return []
+    }
+  })
+}
@@ -1,24 +1,60 @@
 import { ipcMain } from 'electron'
-import { parseActivity, parseCorrection, parseFollowUpAnswer, isLLMReady, type Activity } from '../services/llm'
+import {
+  parseActivity,
+  parseActivities,
+  parseCorrection,
+  parseFollowUpAnswer,
+  isLLMReady,
+  type Activity
+} from '../services/llm'
 import { getActiveFiles } from '../services/config'
 import { getCurrentGlossar } from './glossarHandlers'
-import { getAllKnownTerms, normalizeText } from '../services/glossar'
+import { getAllKnownTerms, resolveTerm, type Glossar } from '../services/glossar'
+import { buildPhoneticExamples } from '../services/prompts'
+import {
+  parseActivityOffline,
+  parseActivitiesOffline,
+  parseCorrectionOffline,
+  parseFollowUpOffline
+} from '../services/offlineParser'
+import type { FieldMatch } from '@shared/types'
 
 /**
- * Normalize activity fields using glossar
+ * Normalize one Auftraggeber/Thema value and describe how it was matched
+ */
+function normalizeField(value: string | null, glossar: Glossar): { value: string | null; match?: FieldMatch } {
+  if (!value) return { value: null }
+
+  const { text, applied, candidates } = resolveTerm(value, glossar)
+  const alternatives = candidates.filter(c => c.begriff !== text)
+
+  if (!applied) {
+    return { value, match: { source: candidates.length > 0 ? 'llm' : 'unknown', alternatives } }
+  }
+  if (applied.method === 'exact') {
+    return { value: text, match: { source: 'exact', alternatives } }
+  }
+  return {
+    value: text,
+    match: { source: 'fuzzy', confidence: applied.confidence, recognised: value, alternatives }
+  }
+}
+
+/**
+ * Normalize activity fields using glossar, with per-field match details for the UI
  */
 function normalizeActivity(activity: Activity): Activity {
   const glossar = getCurrentGlossar()
   if (!glossar) return activity
 
+  const auftraggeber = normalizeField(activity.auftraggeber, glossar)
+  const thema = normalizeField(activity.thema, glossar)
+
   return {
     ...activity,
-    auftraggeber: activity.auftraggeber
-      ? normalizeText(activity.auftraggeber, glossar)
-      : null,
-    thema: activity.thema
-      ? normalizeText(activity.thema, glossar)
-      : null
+    auftraggeber: auftraggeber.value,
+    thema: thema.value,
+    matches: { auftraggeber: auftraggeber.match, thema: thema.match }
   }
 }
 
@@ -46,6 +82,27 @@ function getKnownTermsForLLM(): { clients: string[]; themes: string[] } {
   }
 }
 
+/**
+ * Fill in clients/themes from glossar and config when the caller did not provide them
+ */
+function resolveKnownTerms(
+  clients?: string[],
+  themes?: string[]
+): { clients: string[]; themes: string[] } {
+  if (clients && clients.length > 0 && themes && themes.length > 0) {
+    return { clients, themes }
+  }
+
+  const known = getKnownTermsForLLM()
+  const resolved = {
+    clients: clients && clients.length > 0 ? clients : known.clients,
+    themes: themes && themes.length > 0 ? themes : known.themes
+  }
+  console.log(`[LLM] Using clients: ${resolved.clients.join(', ')}`)
+  console.log(`[LLM] Using themes: ${resolved.themes.join(', ')}`)
+  return resolved
+}
+
 export function registerLLMHandlers(): void {
   // Parse transcript to activity
   ipcMain.handle(
@@ -56,22 +113,41 @@ export function registerLLMHandlers(): void {
       clients?: string[],
       themes?: string[]
     ): Promise<Activity> => {
-      // Get known terms from glossar and config if not provided
-      if (!clients || clients.length === 0 || !themes || themes.length === 0) {
-        const known = getKnownTermsForLLM()
-        clients = clients && clients.length > 0 ? clients : known.clients
-        themes = themes && themes.length > 0 ? themes : known.themes
-        console.log(`[LLM] Using clients: ${clients.join(', ')}`)
-        console.log(`[LLM] Using themes: ${themes.join(', ')}`)
-      }
+      const known = resolveKnownTerms(clients, themes)
+      // Glossar synonyms as spelling examples for the prompt
+      const examples = buildPhoneticExamples(getCurrentGlossar())
 
-      const activity = await parseActivity(transcript, clients, themes)
+      // Degrade to the rule-based parser when no LLM is configured
+      const activity = await isLLMReady()
+        ? await parseActivity(transcript, known.clients, known.themes, examples)
+        : parseActivityOffline(transcript, { ...known, glossar: getCurrentGlossar() })
 
       // Post-process with glossar normalization
       return normalizeActivity(activity)
     }
   )
 
+  // Parse transcript that may contain several activities
+  ipcMain.handle(
+    'llm:parseMany',
+    async (
+      _event,
+      transcript: string,
+      clients?: string[],
+      themes?: string[]
+    ): Promise<Activity[]> => {
+      const known = resolveKnownTerms(clients, themes)
+      const examples = buildPhoneticExamples(getCurrentGlossar())
+
+      const activities = await isLLMReady()
+        ? await parseActivities(transcript, known.clients, known.themes, examples)
+        : parseActivitiesOffline(transcript, { ...known, glossar: getCurrentGlossar() })
+
+      console.log(`[LLM] Extracted ${activities.length} activities`)
+      return activities.map(normalizeActivity)
+    }
+  )
+
   // Parse correction to update existing activity
   ipcMain.handle(
     'llm:parseCorrection',
@@ -83,7 +159,17 @@ export function registerLLMHandlers(): void {
       const known = getKnownTermsForLLM()
       console.log(`[LLM Correction] Using clients: ${known.clients.join(', ')}`)
 
-      const activity = await parseCorrection(existingActivity, correctionTranscript, known.clients)
+      const activity = await isLLMReady()
+        ? await parseCorrection(
+          existingActivity,
+          correctionTranscript,
+          known.clients,
+          buildPhoneticExamples(getCurrentGlossar())
+        )
+        : parseCorrectionOffline(existingActivity, correctionTranscript, {
+          ...known,
+          glossar: getCurrentGlossar()
+        })
 
       // Post-process with glossar normalization
       return normalizeActivity(activity)
@@ -103,14 +189,20 @@ export function registerLLMHandlers(): void {
       const known = getKnownTermsForLLM()
       console.log(`[LLM FollowUp] Missing: ${missingFields.join(', ')}, Answer: "${userAnswer}"`)
 
-      const activity = await parseFollowUpAnswer(
-        existingActivity,
-        userAnswer,
-        missingFields,
-        question,
-        known.clients,
-        known.themes
-      )
+      const activity = await isLLMReady()
+        ? await parseFollowUpAnswer(
+          existingActivity,
+          userAnswer,
+          missingFields,
+          question,
+          known.clients,
+          known.themes,
+          buildPhoneticExamples(getCurrentGlossar())
+        )
+        : parseFollowUpOffline(existingActivity, userAnswer, missingFields, {
+          ...known,
+          glossar: getCurrentGlossar()
+        })
 
       // Post-process with glossar normalization
       return normalizeActivity(activity)
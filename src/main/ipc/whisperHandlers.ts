@@ -5,8 +5,10 @@ import {
   isWhisperReady,
   getWhisperMode,
   type TranscriptionResult,
-  type WhisperMode
+  type WhisperMode,
+  type WhisperProgressCallback
 } from '../services/whisper'
+import { getTranscriptionVocabulary } from './glossarHandlers'
 
 function toArrayBuffer(data: ArrayBuffer | Buffer | Uint8Array): ArrayBuffer {
   if (data instanceof ArrayBuffer) {
@@ -19,9 +21,14 @@ function toArrayBuffer(data: ArrayBuffer | Buffer | Uint8Array): ArrayBuffer {
   throw new Error('Invalid data type')
 }
 
-export function registerWhisperHandlers(_mainWindow: BrowserWindow): void {
+export function registerWhisperHandlers(mainWindow: BrowserWindow): void {
+  // Model download progress for local transcription
+  const sendProgress: WhisperProgressCallback = (progress) => {
+    mainWindow.webContents.send('whisper:progress', progress)
+  }
+
   ipcMain.handle('whisper:init', async (): Promise<void> => {
-    await initWhisper()
+    await initWhisper(sendProgress)
   })
 
   ipcMain.handle(
@@ -29,12 +36,16 @@ export function registerWhisperHandlers(_mainWindow: BrowserWindow): void {
     async (
       _event,
       pcmData: ArrayBuffer | Buffer | Uint8Array,
-      originalBlob?: ArrayBuffer | Buffer | Uint8Array
+      originalBlob?: ArrayBuffer | Buffer | Uint8Array,
+      auftraggeber?: string | null
     ): Promise<TranscriptionResult> => {
       const pcmBuffer = toArrayBuffer(pcmData)
       const blobBuffer = originalBlob ? toArrayBuffer(originalBlob) : undefined
 
-      return await transcribe(pcmBuffer, blobBuffer)
+      return await transcribe(pcmBuffer, blobBuffer, {
+        onProgress: sendProgress,
+        vocabulary: getTranscriptionVocabulary(auftraggeber)
+      })
     }
   )
 
@@ -1,4 +1,5 @@
 import { z } from 'zod'
+import { isAbsolute } from 'path'
 
 // Path validation schemas
 export const FilePathSchema = z
@@ -25,13 +26,59 @@ export const ActivitySchema = z.object({
 
 export type ValidatedActivity = z.infer<typeof ActivitySchema>
 
+// Options for excel:saveActivity
+export const SaveOptionsSchema = z.object({
+  allowDuplicate: z.boolean().optional(),
+  transcript: z.string().max(20000).optional(),
+  parsedActivity: ActivitySchema.optional(),
+  ignoreOwnerFile: z.boolean().optional()
+})
+
+// Drafts for excel:saveActivities
+export const SaveBatchSchema = z
+  .array(z.object({ activity: ActivitySchema, options: SaveOptionsSchema.optional() }))
+  .min(1)
+  .max(200)
+
+// Saved row reference for excel:updateActivity / excel:deleteActivity
+export const SavedRowSchema = z.object({
+  filePath: ExcelPathSchema,
+  sheet: z.string().min(1).max(31),
+  row: z.number().int().min(1),
+  fingerprint: z.string().min(1).max(64)
+})
+
 // Settings update schema for config:updateSettings
 export const SettingsUpdateSchema = z.object({
   hotkey: z.string().optional(),
   openaiApiKey: z.string().optional(),
+  whisperMode: z.enum(['auto', 'cloud', 'local']).optional(),
   whisperModel: z.enum(['tiny', 'base', 'small']).optional(),
   ttsEnabled: z.boolean().optional(),
-  ttsVoice: z.enum(['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer']).optional()
+  ttsVoice: z.enum(['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer']).optional(),
+  llmProvider: z.enum(['openai', 'azure', 'local', 'mock']).optional(),
+  llmModel: z.string().max(200).optional(),
+  llmBaseUrl: z
+    .string()
+    .max(500)
+    .refine((u) => u === '' || /^https?:\/\//i.test(u), 'Must be http(s) URL')
+    .optional(),
+  llmApiVersion: z.string().max(50).optional(),
+  backupRetention: z
+    .object({
+      keepLast: z.number().int().min(1).max(1000),
+      keepDailyDays: z.number().int().min(0).max(3650),
+      keepWeeklyWeeks: z.number().int().min(0).max(520)
+    })
+    .optional(),
+  backupRoot: z
+    .string()
+    .max(500)
+    .refine((p) => p === '' || (isAbsolute(p) && !p.includes('..')), 'Must be absolute path')
+    .optional(),
+  backupCompress: z.boolean().optional(),
+  synonymThreshold: z.number().int().min(1).max(20).optional(),
+  synonymAutoAdd: z.boolean().optional()
 })
 
 export type ValidatedSettingsUpdate = z.infer<typeof SettingsUpdateSchema>
@@ -41,19 +88,43 @@ export const DraftActivitySchema = z.object({
   id: z.number(),
   activity: ActivitySchema,
   transcript: z.string(),
+  parsedActivity: ActivitySchema.optional(),
   timestamp: z.string(),
-  saved: z.boolean()
+  saved: z.boolean(),
+  savedFilePath: ExcelPathSchema.optional(),
+  savedRow: SavedRowSchema.optional(),
+  queuedFilePath: z.string().optional()
 })
 
 export const DraftArraySchema = z.array(DraftActivitySchema)
 
 export type ValidatedDraftActivity = z.infer<typeof DraftActivitySchema>
 
+// Sheet layout profile of a file (column letters like "A" or "AB")
+const ColumnSchema = z.string().regex(/^[A-Z]{1,2}$/, 'Column must be a letter A-ZZ')
+
+export const SheetLayoutSchema = z.object({
+  sheetNaming: z.enum(['monthName', 'monthShort', 'monthNumber']),
+  columns: z.object({
+    datum: ColumnSchema,
+    thema: ColumnSchema,
+    taetigkeit: ColumnSchema,
+    zeit: ColumnSchema,
+    km: ColumnSchema.optional(),
+    hotel: ColumnSchema.optional()
+  }),
+  headerRow: z.number().int().min(1).max(100),
+  timeFormat: z.enum(['dayFraction', 'hours', 'minutes'])
+})
+
 // File config update schema for config:updateFile
 export const FileConfigUpdateSchema = z.object({
   auftraggeber: z.string().optional(),
   jahr: z.number().int().min(2000).max(2100).optional(),
-  active: z.boolean().optional()
+  active: z.boolean().optional(),
+  layout: SheetLayoutSchema.optional(),
+  hourlyRate: z.number().min(0).optional(),
+  kmRate: z.number().min(0).optional()
 })
 
 export type ValidatedFileConfigUpdate = z.infer<typeof FileConfigUpdateSchema>
@@ -67,5 +138,49 @@ export const AuftraggeberLookupSchema = z.object({
 // Month schema for excel:getActivities
 export const MonthSchema = z.number().int().min(1).max(12)
 
+// Date range for excel:queryActivities (inclusive, YYYY-MM-DD)
+const IsoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD')
+
+export const DateRangeSchema = z
+  .object({ from: IsoDateSchema, to: IsoDateSchema })
+  .refine((r) => r.from <= r.to, 'Start date must not be after end date')
+
+// Filter for history:query
+export const HistoryQuerySchema = z.object({
+  filePath: FilePathSchema.optional(),
+  from: IsoDateSchema.optional(),
+  to: IsoDateSchema.optional(),
+  search: z.string().max(200).optional(),
+  limit: z.number().int().min(1).max(5000).optional()
+})
+
+// Glossar entries for glossar:saveEntries (synonyms are stored comma-separated)
+const GlossarTermSchema = z.string().max(200)
+const GlossarKategorieSchema = z.enum(['Auftraggeber', 'Thema', 'Kunde', 'Sonstiges'])
+
+export const GlossarEntriesSchema = z
+  .array(
+    z.object({
+      kategorie: GlossarKategorieSchema,
+      begriff: GlossarTermSchema.min(1),
+      synonyme: z.array(
+        GlossarTermSchema.refine((s) => !s.includes(','), 'Synonym must not contain a comma')
+      ).max(100)
+    })
+  )
+  .max(5000)
+
+// A single new Begriff for glossar:addTerm
+export const NewGlossarTermSchema = z.object({
+  kategorie: GlossarKategorieSchema,
+  begriff: GlossarTermSchema.trim().min(1)
+})
+
+// Rates for excel:createReport (€ per hour / € per km)
+export const ReportRatesSchema = z.object({
+  hourlyRate: z.number().min(0).optional(),
+  kmRate: z.number().min(0).optional()
+})
+
 // String schemas for simple text inputs
 export const StringInputSchema = z.string().min(1)
@@ -1,22 +1,60 @@
-import { copyFile, mkdir, readdir, unlink, stat } from 'fs/promises'
+import { constants, copyFile, mkdir, readdir, readFile, rename, unlink, stat, writeFile } from 'fs/promises'
+import { createHash } from 'crypto'
 import { join, dirname, basename, extname } from 'path'
+import { getConfig } from './config'
+import { unzipSingleFile, zipSingleFile } from '../utils/zip'
+import { getTempPath } from './workbook'
+import type { BackupRetention } from '@shared/types'
 
-const MAX_BACKUPS = 50
+const ZIP_EXT = '.zip'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Backup folder of a file: "backups/" next to it, or a subfolder of the
+ * configured backup root. The subfolder name carries a hash of the source
+ * folder so equally named folders (e.g. "2026") don't share backups.
+ */
+export function getBackupDir(filePath: string): string {
+  const dir = dirname(filePath)
+  const { backupRoot } = getConfig().settings
+  if (!backupRoot) {
+    return join(dir, 'backups')
+  }
+
+  const hash = createHash('sha256').update(dir).digest('hex').slice(0, 8)
+  return join(backupRoot, `${basename(dir)}-${hash}`)
+}
+
+// Current backup folder first; "backups/" next to the file stays listed after
+// switching to a backup root, so older backups can still be restored
+function getBackupDirs(filePath: string): string[] {
+  const dirs = [getBackupDir(filePath), join(dirname(filePath), 'backups')]
+  return dirs.filter((dir, index) => dirs.indexOf(dir) === index)
+}
+
+/**
+ * True for backups stored as .zip.
+ */
+export function isCompressedBackup(backupPath: string): boolean {
+  return backupPath.toLowerCase().endsWith(ZIP_EXT)
+}
 
 /**
  * Creates a timestamped backup of a file before modifying it.
- * Backups are stored in a 'backups' subdirectory.
+ * Backups are stored in the backup folder of the file (see getBackupDir),
+ * zipped if backupCompress is set.
  */
 export async function createBackup(filePath: string): Promise<string> {
   // Verify source file exists
   await stat(filePath)
 
-  const dir = dirname(filePath)
-  const backupDir = join(dir, 'backups')
+  const { backupCompress } = getConfig().settings
+  const backupDir = getBackupDir(filePath)
   const name = basename(filePath, extname(filePath))
   const ext = extname(filePath)
 
-  // Format: name_YYYY-MM-DD_HH-mm-ss.xlsx
+  // Format: name_YYYY-MM-DD_HH-mm-ss[-N].xlsx
   const now = new Date()
   const timestamp = [
     now.getFullYear(),
@@ -28,48 +66,100 @@ export async function createBackup(filePath: string): Promise<string> {
     String(now.getSeconds()).padStart(2, '0')
   ].join('-')
 
-  const backupPath = join(backupDir, `${name}_${timestamp}${ext}`)
-
   // Create backups directory if it doesn't exist
   await mkdir(backupDir, { recursive: true })
+  const content = backupCompress ? await readFile(filePath) : null
 
-  // Copy original file to backup
-  await copyFile(filePath, backupPath)
+  // Never overwrite: a second backup within the same second (e.g. the Glossar
+  // rewrite right after a save) gets a counter instead of replacing the first
+  let backupPath = ''
+  for (let counter = 1; !backupPath; counter++) {
+    const backupName = `${name}_${timestamp}${counter > 1 ? `-${counter}` : ''}${ext}`
+    const candidate = join(backupDir, backupCompress ? backupName + ZIP_EXT : backupName)
+    try {
+      if (content) {
+        // Entry named like the backup, so extracting it never overwrites the original
+        await writeFile(candidate, zipSingleFile(backupName, content, now), { flag: 'wx' })
+      } else {
+        // Copy original file to backup
+        await copyFile(filePath, candidate, constants.COPYFILE_EXCL)
+      }
+      backupPath = candidate
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err
+    }
+  }
 
   console.log(`[Backup] Created: ${backupPath}`)
 
   // Clean old backups (async, don't wait)
-  cleanOldBackups(backupDir, name, ext).catch(err => {
+  cleanOldBackups(filePath).catch(err => {
     console.warn('[Backup] Failed to clean old backups:', err)
   })
 
   return backupPath
 }
 
+// Monday of the backup's week as YYYY-MM-DD (local time)
+function weekKey(date: Date): string {
+  const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7))
+  return [
+    monday.getFullYear(),
+    String(monday.getMonth() + 1).padStart(2, '0'),
+    String(monday.getDate()).padStart(2, '0')
+  ].join('-')
+}
+
 /**
- * Removes old backups keeping only the most recent MAX_BACKUPS files.
+ * Backups the retention policy no longer keeps. Expects the paths newest
+ * first (as returned by listBackups). Files without a timestamp in their
+ * name are never selected.
  */
-async function cleanOldBackups(
-  backupDir: string,
-  baseName: string,
-  ext: string
-): Promise<void> {
-  try {
-    const files = await readdir(backupDir)
+export function selectExpiredBackups(
+  backupPaths: string[],
+  retention: BackupRetention,
+  now = new Date()
+): string[] {
+  const keep = new Set(backupPaths.slice(0, retention.keepLast))
+  const dailyFrom = now.getTime() - retention.keepDailyDays * DAY_MS
+  const weeklyFrom = now.getTime() - retention.keepWeeklyWeeks * 7 * DAY_MS
+  const days = new Set<string>()
+  const weeks = new Set<string>()
 
-    // Filter to only backups of this file
-    const backups = files
-      .filter(f => f.startsWith(baseName + '_') && f.endsWith(ext))
-      .sort()
-      .reverse() // Newest first
+  for (const backupPath of backupPaths) {
+    const timestamp = parseBackupTimestamp(backupPath)
+    if (!timestamp) {
+      keep.add(backupPath)
+      continue
+    }
 
-    // Delete everything beyond MAX_BACKUPS
-    const toDelete = backups.slice(MAX_BACKUPS)
+    // Newest first, so the first backup seen per day/week is the one kept
+    const created = new Date(timestamp)
+    const day = timestamp.slice(0, 10)
+    if (created.getTime() >= dailyFrom && !days.has(day)) {
+      days.add(day)
+      keep.add(backupPath)
+    }
+    const week = weekKey(created)
+    if (created.getTime() >= weeklyFrom && !weeks.has(week)) {
+      weeks.add(week)
+      keep.add(backupPath)
+    }
+  }
 
-    for (const oldBackup of toDelete) {
-      const oldPath = join(backupDir, oldBackup)
+  return backupPaths.filter(backupPath => !keep.has(backupPath))
+}
+
+/**
+ * Removes old backups of a file according to the configured retention policy.
+ */
+async function cleanOldBackups(filePath: string): Promise<void> {
+  try {
+    const toDelete = selectExpiredBackups(await listBackups(filePath), getConfig().settings.backupRetention)
+
+    for (const oldPath of toDelete) {
       await unlink(oldPath)
-      console.log(`[Backup] Deleted old: ${oldBackup}`)
+      console.log(`[Backup] Deleted old: ${basename(oldPath)}`)
     }
 
     if (toDelete.length > 0) {
@@ -82,24 +172,72 @@ async function cleanOldBackups(
 }
 
 /**
- * Lists all backups for a given file.
+ * Lists all backups for a given file, newest first.
  */
 export async function listBackups(filePath: string): Promise<string[]> {
-  const dir = dirname(filePath)
-  const backupDir = join(dir, 'backups')
   const name = basename(filePath, extname(filePath))
   const ext = extname(filePath)
+  const backups: string[] = []
 
-  try {
-    const files = await readdir(backupDir)
-    return files
-      .filter(f => f.startsWith(name + '_') && f.endsWith(ext))
-      .sort()
-      .reverse()
-      .map(f => join(backupDir, f))
-  } catch {
-    return []
+  for (const backupDir of getBackupDirs(filePath)) {
+    try {
+      const files = await readdir(backupDir)
+      backups.push(...files
+        .filter(f => f.startsWith(name + '_') && (f.endsWith(ext) || f.endsWith(ext + ZIP_EXT)))
+        .map(f => join(backupDir, f)))
+    } catch {
+      // No backups in this folder yet
+    }
+  }
+
+  // Timestamp first, then the counter of backups made within the same second
+  return backups.sort((a, b) => {
+    const byTimestamp = (parseBackupTimestamp(b) ?? '').localeCompare(parseBackupTimestamp(a) ?? '')
+    return byTimestamp || backupCounter(b) - backupCounter(a) || basename(b).localeCompare(basename(a))
+  })
+}
+
+/**
+ * Number and total size of the backups of a file.
+ */
+export async function getBackupUsage(filePath: string): Promise<{ count: number; bytes: number }> {
+  const backups = await listBackups(filePath)
+  let bytes = 0
+
+  for (const backupPath of backups) {
+    try {
+      bytes += (await stat(backupPath)).size
+    } catch {
+      // Deleted in the meantime
+    }
   }
+
+  return { count: backups.length, bytes }
+}
+
+const BACKUP_NAME_PATTERN = /_(\d{4}-\d{2}-\d{2})_(\d{2})-(\d{2})-(\d{2})(?:-(\d+))?\.[^.]+(\.zip)?$/i
+
+/**
+ * Creation time encoded in a backup file name (name_YYYY-MM-DD_HH-mm-ss[-N].xlsx[.zip])
+ * as local YYYY-MM-DDTHH:mm:ss, or null for foreign files.
+ */
+export function parseBackupTimestamp(backupPath: string): string | null {
+  const match = basename(backupPath).match(BACKUP_NAME_PATTERN)
+  return match ? `${match[1]}T${match[2]}:${match[3]}:${match[4]}` : null
+}
+
+// Position of a backup among those made within the same second (1 = first)
+function backupCounter(backupPath: string): number {
+  const match = basename(backupPath).match(BACKUP_NAME_PATTERN)
+  return match?.[5] ? Number(match[5]) : 1
+}
+
+/**
+ * Content of a backup, unzipped if necessary.
+ */
+export async function readBackup(backupPath: string): Promise<Buffer> {
+  const data = await readFile(backupPath)
+  return isCompressedBackup(backupPath) ? unzipSingleFile(data) : data
 }
 
 /**
@@ -110,6 +248,9 @@ export async function restoreBackup(
   backupPath: string,
   originalPath: string
 ): Promise<void> {
+  // Unzip before touching anything, a damaged archive must not cost the current state
+  const data = isCompressedBackup(backupPath) ? await readBackup(backupPath) : null
+
   // Backup current state first
   try {
     await createBackup(originalPath)
@@ -118,6 +259,22 @@ export async function restoreBackup(
   }
 
   // Restore from backup
-  await copyFile(backupPath, originalPath)
+  if (data) {
+    // Like saveWorkbook: a failed write must not leave a half-written workbook
+    const tempPath = getTempPath(originalPath)
+    try {
+      await writeFile(tempPath, data)
+      await rename(tempPath, originalPath)
+    } catch (err) {
+      try {
+        await unlink(tempPath)
+      } catch {
+        // Temp file may not exist if writing it failed
+      }
+      throw err
+    }
+  } else {
+    await copyFile(backupPath, originalPath)
+  }
   console.log(`[Backup] Restored: ${backupPath} -> ${originalPath}`)
 }
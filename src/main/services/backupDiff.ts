@@ -0,0 +1,70 @@
+import { writeFile, unlink } from 'fs/promises'
+import { tmpdir } from 'os'
+import { extname, join } from 'path'
+import { randomUUID } from 'crypto'
+import { isCompressedBackup, readBackup } from './backup'
+import { readYearActivities } from './excel'
+import type { XlsxFileConfig } from './config'
+import type { BackupDiff, BookedActivity } from '@shared/types'
+
+/**
+ * Compares a backup with the current workbook. Rows are matched by content
+ * within a sheet, not by row number: deleting a row moves the rows below it
+ * up, so row numbers alone would report every following row as changed.
+ */
+
+function rowKey(row: BookedActivity): string {
+  return [row.sheet, row.datum, row.thema, row.taetigkeit, row.zeit === null ? '' : row.zeit.toFixed(4), row.km, row.hotel].join('|')
+}
+
+// Rows of `rows` without a counterpart in `others` (duplicates are counted, not collapsed)
+function unmatched(rows: BookedActivity[], others: BookedActivity[]): BookedActivity[] {
+  const counts = new Map<string, number>()
+  for (const row of others) {
+    counts.set(rowKey(row), (counts.get(rowKey(row)) ?? 0) + 1)
+  }
+
+  return rows.filter((row) => {
+    const count = counts.get(rowKey(row)) ?? 0
+    if (count === 0) return true
+    counts.set(rowKey(row), count - 1)
+    return false
+  })
+}
+
+// The workbook reader works on paths, so zipped backups are extracted to a temp file first
+async function withBackupFile<T>(backupPath: string, read: (path: string) => Promise<T>): Promise<T> {
+  if (!isCompressedBackup(backupPath)) {
+    return read(backupPath)
+  }
+
+  const ext = extname(backupPath.slice(0, -extname(backupPath).length))
+  const tempPath = join(tmpdir(), `aktivitaeten-backup-${randomUUID().slice(0, 8)}${ext}`)
+  await writeFile(tempPath, await readBackup(backupPath))
+  try {
+    return await read(tempPath)
+  } finally {
+    try {
+      await unlink(tempPath)
+    } catch (err) {
+      console.warn(`[Backup] Failed to remove ${tempPath}:`, err)
+    }
+  }
+}
+
+/**
+ * Rows that restoring the backup would bring back or remove.
+ */
+export async function diffBackup(file: XlsxFileConfig, backupPath: string): Promise<BackupDiff> {
+  const [backupRows, currentRows] = await Promise.all([
+    withBackupFile(backupPath, (path) => readYearActivities({ ...file, path })),
+    readYearActivities(file)
+  ])
+
+  const onlyInBackup = unmatched(backupRows, currentRows)
+  return {
+    onlyInBackup,
+    onlyInCurrent: unmatched(currentRows, backupRows),
+    unchanged: backupRows.length - onlyInBackup.length
+  }
+}
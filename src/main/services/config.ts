@@ -18,7 +18,18 @@ const DEFAULT_SETTINGS: AppSettings = {
   openaiApiKey: '',
   hasApiKey: false,
   ttsEnabled: false,
-  ttsVoice: 'nova'
+  ttsVoice: 'nova',
+  llmProvider: 'openai',
+  llmModel: '',
+  llmBaseUrl: '',
+  llmApiVersion: '',
+  whisperMode: 'auto',
+  whisperModel: 'base',
+  backupRetention: { keepLast: 50, keepDailyDays: 0, keepWeeklyWeeks: 0 },
+  backupRoot: '',
+  backupCompress: false,
+  synonymThreshold: 3,
+  synonymAutoAdd: false
 }
 
 const DEFAULT_CONFIG: AppConfig = {
@@ -45,6 +56,8 @@ export async function loadConfig(): Promise<AppConfig> {
       settings: {
         ...DEFAULT_SETTINGS,
         ...parsed.settings,
+        // Nested, so a partial policy in config.yaml keeps the other defaults
+        backupRetention: { ...DEFAULT_SETTINGS.backupRetention, ...parsed.settings?.backupRetention },
         openaiApiKey: '' // Never load API key from YAML into memory
       }
     }
@@ -121,7 +134,10 @@ export async function updateXlsxFile(
       path,
       auftraggeber: updates.auftraggeber || '',
       jahr: updates.jahr || new Date().getFullYear(),
-      active: updates.active ?? false
+      active: updates.active ?? false,
+      ...(updates.layout && { layout: updates.layout }),
+      ...(updates.hourlyRate !== undefined && { hourlyRate: updates.hourlyRate }),
+      ...(updates.kmRate !== undefined && { kmRate: updates.kmRate })
     })
   }
 
@@ -151,6 +167,39 @@ export function findFileForAuftraggeber(
   ) || null
 }
 
+/**
+ * File of an Auftraggeber for the given year (active or not).
+ */
+export function findYearFile(
+  auftraggeber: string,
+  jahr: number
+): XlsxFileConfig | null {
+  const normalized = auftraggeber.toLowerCase().trim()
+
+  return currentConfig.xlsxFiles.find(f =>
+    f.jahr === jahr &&
+    f.auftraggeber.toLowerCase().trim() === normalized
+  ) || null
+}
+
+/**
+ * Most recent file of an Auftraggeber before the given year (active or not).
+ */
+export function findPreviousYearFile(
+  auftraggeber: string,
+  jahr: number
+): XlsxFileConfig | null {
+  const normalized = auftraggeber.toLowerCase().trim()
+
+  return currentConfig.xlsxFiles
+    .filter(f => f.jahr < jahr && f.auftraggeber.toLowerCase().trim() === normalized)
+    .sort((a, b) => b.jahr - a.jahr)[0] || null
+}
+
+export function findFileByPath(path: string): XlsxFileConfig | null {
+  return currentConfig.xlsxFiles.find(f => f.path === path) || null
+}
+
 // Settings functions
 export async function getSettings(): Promise<AppSettings> {
   const hasKey = await hasStoredApiKey() || !!process.env.OPENAI_API_KEY
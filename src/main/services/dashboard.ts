@@ -0,0 +1,87 @@
+import { queryActivitiesWithErrors } from './excel'
+import type { XlsxFileConfig } from './config'
+import type { BookedActivity, DashboardFileError, DashboardGroup, DashboardSummary } from '@shared/types'
+
+/**
+ * Dashboard aggregates across all active files. Rows are read from the
+ * workbooks on every request, so Excel stays the single source of truth.
+ */
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * ISO 8601 week of a YYYY-MM-DD date, e.g. "2026-W09".
+ * The week belongs to the year of its Thursday.
+ */
+export function getIsoWeek(datum: string): string {
+  const date = new Date(`${datum}T00:00:00Z`)
+  const weekday = date.getUTCDay() || 7 // Monday = 1 … Sunday = 7
+  date.setUTCDate(date.getUTCDate() + 4 - weekday)
+
+  const yearStart = Date.UTC(date.getUTCFullYear(), 0, 1)
+  const week = Math.ceil(((date.getTime() - yearStart) / 86400000 + 1) / 7)
+  return `${date.getUTCFullYear()}-W${String(week).padStart(2, '0')}`
+}
+
+function groupBy(rows: BookedActivity[], keyOf: (row: BookedActivity) => string): DashboardGroup[] {
+  const groups = new Map<string, DashboardGroup>()
+
+  rows.forEach((row, index) => {
+    const key = keyOf(row)
+    let group = groups.get(key)
+    if (!group) {
+      group = { key, hours: 0, km: 0, auslagen: 0, rowIndexes: [] }
+      groups.set(key, group)
+    }
+    group.hours += row.zeit ?? 0
+    group.km += row.km
+    group.auslagen += row.hotel
+    group.rowIndexes.push(index)
+  })
+
+  return [...groups.values()].map((group) => ({
+    ...group,
+    hours: round2(group.hours),
+    km: round2(group.km),
+    auslagen: round2(group.auslagen)
+  }))
+}
+
+// Largest first, ties by name
+function byHours(a: DashboardGroup, b: DashboardGroup): number {
+  return b.hours - a.hours || a.key.localeCompare(b.key)
+}
+
+/**
+ * Aggregate booked rows per Auftraggeber, Thema and ISO week.
+ * errors lists the files that could not be read and are missing from the totals.
+ */
+export function summarizeActivities(
+  rows: BookedActivity[],
+  from: string,
+  to: string,
+  errors: DashboardFileError[] = []
+): DashboardSummary {
+  return {
+    from,
+    to,
+    rows,
+    totalHours: round2(rows.reduce((total, row) => total + (row.zeit ?? 0), 0)),
+    totalKm: round2(rows.reduce((total, row) => total + row.km, 0)),
+    totalAuslagen: round2(rows.reduce((total, row) => total + row.hotel, 0)),
+    byAuftraggeber: groupBy(rows, (row) => row.auftraggeber).sort(byHours),
+    byThema: groupBy(rows, (row) => row.thema || 'Ohne Thema').sort(byHours),
+    byWeek: groupBy(rows, (row) => getIsoWeek(row.datum)).sort((a, b) => a.key.localeCompare(b.key)),
+    errors
+  }
+}
+
+/**
+ * Read all given files for the period (YYYY-MM-DD, inclusive) and aggregate them.
+ */
+export async function getDashboard(files: XlsxFileConfig[], from: string, to: string): Promise<DashboardSummary> {
+  const { rows, errors } = await queryActivitiesWithErrors(files, from, to)
+  return summarizeActivities(rows, from, to, errors)
+}
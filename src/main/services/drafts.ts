@@ -19,8 +19,21 @@ export type DraftActivity = {
     datum: string | null
   }
   transcript: string
+  parsedActivity?: DraftActivity['activity']
   timestamp: string
   saved: boolean
+  savedFilePath?: string
+  savedRow?: { filePath: string; sheet: string; row: number; fingerprint: string }
+  queuedFilePath?: string
+}
+
+// Saved entries stay editable across restarts while their row is known;
+// only the newest are kept so the list does not grow without bound
+const MAX_SAVED_DRAFTS = 50
+
+function keptDrafts(drafts: DraftActivity[]): DraftActivity[] {
+  const editable = drafts.filter(d => d.saved && d.savedRow).slice(-MAX_SAVED_DRAFTS)
+  return drafts.filter(d => !d.saved || editable.includes(d))
 }
 
 export async function loadDrafts(): Promise<DraftActivity[]> {
@@ -32,10 +45,10 @@ export async function loadDrafts(): Promise<DraftActivity[]> {
     const content = await readFile(DRAFTS_FILE, 'utf-8')
     const drafts = JSON.parse(content) as DraftActivity[]
 
-    // Only return unsaved drafts
-    const unsaved = drafts.filter(d => !d.saved)
-    console.log(`[Drafts] Loaded ${unsaved.length} unsaved drafts`)
-    return unsaved
+    // Unsaved drafts and saved entries whose row can still be edited
+    const kept = keptDrafts(drafts)
+    console.log(`[Drafts] Loaded ${kept.length} drafts`)
+    return kept
   } catch (err) {
     console.error('[Drafts] Failed to load:', err)
     return []
@@ -49,11 +62,10 @@ export async function saveDrafts(drafts: DraftActivity[]): Promise<void> {
       await mkdir(CONFIG_DIR, { recursive: true })
     }
 
-    // Only save unsaved drafts
-    const unsaved = drafts.filter(d => !d.saved)
+    const kept = keptDrafts(drafts)
 
-    await writeFile(DRAFTS_FILE, JSON.stringify(unsaved, null, 2), 'utf-8')
-    console.log(`[Drafts] Saved ${unsaved.length} drafts`)
+    await writeFile(DRAFTS_FILE, JSON.stringify(kept, null, 2), 'utf-8')
+    console.log(`[Drafts] Saved ${kept.length} drafts`)
   } catch (err) {
     console.error('[Drafts] Failed to save:', err)
   }
@@ -1,7 +1,28 @@
 import * as fsp from 'fs/promises'
+import { createHash } from 'crypto'
 import { createBackup } from './backup'
 import { debugLog } from './debugLog'
-import { loadWorkbook, saveWorkbook, XlsxPopulate } from './workbook'
+import { similarity } from '../utils/similarity'
+import { copyCellStyle } from '../utils/cellStyle'
+import { completePending, listPending, recordPending } from './journal'
+import {
+  assertWorkbookWritable,
+  loadWorkbook,
+  saveWorkbook,
+  XlsxPopulate,
+  type Sheet,
+  type Workbook,
+  type WorkbookWriteOptions
+} from './workbook'
+import {
+  detectSheetLayout,
+  fromCellTime,
+  getSheetName,
+  resolveSheetLayout,
+  toCellTime,
+  type SheetLayout
+} from './sheetLayout'
+import type { BookedActivity, DashboardFileError, XlsxFileConfig } from '@shared/types'
 
 /**
  * Excel service using xlsx-populate for full style preservation.
@@ -40,24 +61,281 @@ export type Activity = {
   hotel: number
 }
 
-const MONTH_NAMES = [
-  'Januar', 'Februar', 'März', 'April', 'Mai', 'Juni',
-  'Juli', 'August', 'September', 'Oktober', 'November', 'Dezember'
-]
+// Position of a written row plus its content fingerprint at write time
+export type RowLocation = {
+  sheet: string
+  row: number
+  fingerprint: string
+}
+
+// Scanning stops after this many consecutive rows without Thema/Tätigkeit
+const MAX_EMPTY_ROWS = 6
+
+function hasText(value: unknown): boolean {
+  return value !== undefined && value !== null && String(value).trim().length > 0
+}
+
+function dataColumns(layout: SheetLayout): string[] {
+  return Object.values(layout.columns).filter((col): col is string => !!col)
+}
+
+/**
+ * Row numbers that hold content (Thema or Tätigkeit set), starting at the header row.
+ * The header itself counts as content; the reader drops it for lacking a date.
+ * Shared by writer and reader so both agree on where the data is.
+ */
+function findContentRows(sheet: Sheet, layout: SheetLayout): number[] {
+  const rows: number[] = []
+  let emptyContentStreak = 0
+  const usedRange = sheet.usedRange()
+  const maxRow = usedRange ? usedRange.endCell().rowNumber() : 100
+  const { thema, taetigkeit } = layout.columns
+
+  for (let rowNum = layout.headerRow; rowNum <= maxRow; rowNum++) {
+    if (hasText(sheet.cell(`${thema}${rowNum}`).value()) || hasText(sheet.cell(`${taetigkeit}${rowNum}`).value())) {
+      rows.push(rowNum)
+      emptyContentStreak = 0
+    } else {
+      emptyContentStreak++
+      if (emptyContentStreak >= MAX_EMPTY_ROWS) break
+    }
+  }
+
+  return rows
+}
+
+function formatDate(date: Date): string {
+  // Use local date methods to avoid timezone shift from toISOString()
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+}
+
+function readCell(sheet: Sheet, col: string | undefined, rowNum: number): unknown {
+  return col ? sheet.cell(`${col}${rowNum}`).value() : undefined
+}
+
+/**
+ * Read one sheet row into an activity (zeit converted back to hours).
+ */
+function readRow(sheet: Sheet, rowNum: number, layout: SheetLayout): Activity & { row: number } {
+  const { columns } = layout
+  const datumValue = readCell(sheet, columns.datum, rowNum)
+  const themaValue = readCell(sheet, columns.thema, rowNum)
+  const taetigkeitValue = readCell(sheet, columns.taetigkeit, rowNum)
+  const zeitValue = readCell(sheet, columns.zeit, rowNum)
+  const kmValue = readCell(sheet, columns.km, rowNum)
+  const hotelValue = readCell(sheet, columns.hotel, rowNum)
+
+  // Parse datum using xlsx-populate's built-in conversion
+  let datum = ''
+  if (datumValue !== undefined && datumValue !== null) {
+    if (typeof datumValue === 'number') {
+      datum = formatDate(XlsxPopulate.numberToDate(datumValue))
+    } else if (datumValue instanceof Date) {
+      datum = formatDate(datumValue)
+    } else {
+      datum = String(datumValue)
+    }
+  }
+
+  // Parse zeit (stored in the layout's time format, convert to hours)
+  let zeit: number | null = null
+  if (zeitValue !== undefined && zeitValue !== null && typeof zeitValue === 'number') {
+    zeit = fromCellTime(zeitValue, layout.timeFormat)
+  }
+
+  return {
+    row: rowNum,
+    datum,
+    thema: themaValue !== undefined && themaValue !== null ? String(themaValue) : '',
+    taetigkeit: taetigkeitValue !== undefined && taetigkeitValue !== null ? String(taetigkeitValue) : '',
+    zeit,
+    km: kmValue !== undefined && kmValue !== null ? Number(kmValue) : 0,
+    hotel: hotelValue !== undefined && hotelValue !== null ? Number(hotelValue) : 0
+  }
+}
+
+/**
+ * Hash of the row values as the reader sees them. Stored on save and compared
+ * before update/delete so rows edited in Excel in the meantime are not overwritten.
+ */
+function rowFingerprint(sheet: Sheet, rowNum: number, layout: SheetLayout): string {
+  const a = readRow(sheet, rowNum, layout)
+  const key = [a.datum, a.thema, a.taetigkeit, a.zeit === null ? '' : a.zeit.toFixed(4), a.km, a.hotel].join('|')
+  return createHash('sha256').update(key).digest('hex').slice(0, 16)
+}
+
+function assertRowUnchanged(sheet: Sheet, location: RowLocation, layout: SheetLayout): void {
+  if (rowFingerprint(sheet, location.row, layout) !== location.fingerprint) {
+    throw new Error(
+      `Zeile ${location.row} im Sheet "${location.sheet}" wurde in Excel verändert. Bitte die Datei in Excel prüfen.`
+    )
+  }
+}
+
+// Parse date components to avoid timezone issues (create local midnight)
+function parseActivityDate(datum: string, layout: SheetLayout): { date: Date; sheetName: string } {
+  const [year, month, day] = datum.split('-').map(Number)
+  const date = new Date(year, month - 1, day) // month is 0-indexed
+  return { date, sheetName: getSheetName(layout.sheetNaming, date.getMonth()) }
+}
+
+function nextFreeRow(sheet: Sheet, layout: SheetLayout): number {
+  // Append below the last row with content
+  const contentRows = findContentRows(sheet, layout)
+  return (contentRows.length > 0 ? contentRows[contentRows.length - 1] : layout.headerRow) + 1
+}
+
+/**
+ * Write an activity into a row. Empty optional values clear the cell,
+ * so an updated row does not keep stale Zeit/KM/Auslagen.
+ */
+function writeRow(sheet: Sheet, rowNum: number, date: Date, activity: Activity, layout: SheetLayout): void {
+  const { columns } = layout
+
+  // Set values - don't override numberFormat, let column style apply
+  // Date: Pass Date object directly, xlsx-populate handles conversion
+  sheet.cell(`${columns.datum}${rowNum}`).value(date)
+
+  // Thema
+  sheet.cell(`${columns.thema}${rowNum}`).value(activity.thema)
+
+  // Tätigkeit
+  sheet.cell(`${columns.taetigkeit}${rowNum}`).value(activity.taetigkeit)
+
+  // Zeit: in the layout's time format, let column format apply
+  sheet.cell(`${columns.zeit}${rowNum}`).value(activity.zeit !== null ? toCellTime(activity.zeit, layout.timeFormat) : null)
+
+  // KM
+  if (columns.km) {
+    sheet.cell(`${columns.km}${rowNum}`).value(activity.km > 0 ? activity.km : null)
+  }
+
+  // Hotel/Auslagen
+  if (columns.hotel) {
+    sheet.cell(`${columns.hotel}${rowNum}`).value(activity.hotel > 0 ? activity.hotel : null)
+  }
+}
+
+// A row written by the app (or typed the same way): a date plus Thema or Tätigkeit.
+// Summe rows, side tables and blank rows are not.
+function isActivityRow(sheet: Sheet, rowNum: number, layout: SheetLayout): boolean {
+  const { datum, thema, taetigkeit } = layout.columns
+  return hasText(sheet.cell(`${datum}${rowNum}`).value()) &&
+    (hasText(sheet.cell(`${thema}${rowNum}`).value()) || hasText(sheet.cell(`${taetigkeit}${rowNum}`).value()))
+}
+
+/**
+ * Remove a row by moving the activity rows below it up, so the activity block
+ * stays contiguous for the row scan. Only the layout columns move, with their
+ * style, and only up to the first row that is not an activity row; cells
+ * outside the block and formula cells stay where they are.
+ */
+function removeRow(sheet: Sheet, rowNum: number, layout: SheetLayout): void {
+  let lastRow = rowNum
+  while (isActivityRow(sheet, lastRow + 1, layout)) lastRow++
+
+  for (const col of dataColumns(layout)) {
+    for (let r = rowNum; r < lastRow; r++) {
+      const target = sheet.cell(`${col}${r}`)
+      const source = sheet.cell(`${col}${r + 1}`)
+      if (target.formula()) continue
+      target.value(source.formula() ? null : source.value() ?? null)
+      copyCellStyle(source, target)
+    }
+    const last = sheet.cell(`${col}${lastRow}`)
+    if (!last.formula()) last.value(null)
+  }
+}
+
+/**
+ * Detects the sheet layout of a file from its header cells (null if not recognised).
+ */
+export async function detectFileLayout(filePath: string): Promise<SheetLayout | null> {
+  await validateExcelFile(filePath)
+  return detectSheetLayout(await loadWorkbook(filePath))
+}
+
+// Minimum similarity (0-1) for an existing row on the same date to count as possible duplicate
+const DUPLICATE_THEMA_SIMILARITY = 0.8
+const DUPLICATE_TAETIGKEIT_SIMILARITY = 0.7
+
+/**
+ * Looks for a row in the target month sheet that books the same activity:
+ * same date, similar Thema and similar Tätigkeit. Returns the first match or null.
+ */
+export async function findDuplicateActivity(
+  filePath: string,
+  activity: Activity,
+  configuredLayout?: SheetLayout
+): Promise<(Activity & { row: number; sheet: string }) | null> {
+  await validateExcelFile(filePath)
+
+  const workbook = await loadWorkbook(filePath)
+  const layout = resolveSheetLayout(workbook, configuredLayout)
+  const duplicate = findDuplicateInWorkbook(workbook, activity, layout)
+  if (duplicate) {
+    debugLog('Excel', `Possible duplicate of ${duplicate.sheet} row ${duplicate.row} in ${filePath}`)
+  }
+  return duplicate
+}
+
+function findDuplicateInWorkbook(
+  workbook: Workbook,
+  activity: Activity,
+  layout: SheetLayout
+): (Activity & { row: number; sheet: string }) | null {
+  const { sheetName } = parseActivityDate(activity.datum, layout)
+  const sheet = workbook.sheet(sheetName)
+  if (!sheet) return null
+
+  for (const rowNum of findContentRows(sheet, layout)) {
+    const existing = readRow(sheet, rowNum, layout)
+    if (toIsoDate(existing.datum) !== activity.datum) continue
+
+    if (
+      similarity(existing.thema, activity.thema) >= DUPLICATE_THEMA_SIMILARITY &&
+      similarity(existing.taetigkeit, activity.taetigkeit) >= DUPLICATE_TAETIGKEIT_SIMILARITY
+    ) {
+      return { ...existing, sheet: sheetName }
+    }
+  }
+
+  return null
+}
 
 /**
  * Adds an activity to the appropriate month sheet.
+ * Without a configured layout, the layout is detected from the workbook.
+ * The insert is journaled until the workbook is saved, see replayJournal.
  */
 export async function addActivity(
   filePath: string,
-  activity: Activity
-): Promise<void> {
+  activity: Activity,
+  configuredLayout?: SheetLayout,
+  options: WorkbookWriteOptions = {}
+): Promise<RowLocation> {
+  const journalId = await recordPending(filePath, activity, configuredLayout)
+  try {
+    return await insertActivity(filePath, activity, configuredLayout, options)
+  } finally {
+    // A failed save is reported to the caller, only crashes are left for replay
+    await completePending(journalId)
+  }
+}
+
+async function insertActivity(
+  filePath: string,
+  activity: Activity,
+  configuredLayout?: SheetLayout,
+  options: WorkbookWriteOptions = {}
+): Promise<RowLocation> {
   debugLog('Excel', `addActivity called for: ${filePath}`)
   debugLog('Excel', `Activity: ${JSON.stringify(activity)}`)
 
   // Validate file
   debugLog('Excel', 'Step 1: Validating file...')
   await validateExcelFile(filePath)
+  assertWorkbookWritable(filePath, options)
   debugLog('Excel', 'Step 1: Validation passed')
 
   // Create backup BEFORE modifications
@@ -71,83 +349,276 @@ export async function addActivity(
   debugLog('Excel', 'Step 3: Workbook loaded')
 
   // Determine target sheet from date
-  // Parse date components to avoid timezone issues (create local midnight)
-  const [year, month, day] = activity.datum.split('-').map(Number)
-  const date = new Date(year, month - 1, day) // month is 0-indexed
-  const sheetName = MONTH_NAMES[date.getMonth()]
+  const layout = resolveSheetLayout(workbook, configuredLayout)
+  const { date, sheetName } = parseActivityDate(activity.datum, layout)
 
   const sheet = workbook.sheet(sheetName)
   if (!sheet) {
     throw new Error(`Sheet "${sheetName}" nicht gefunden`)
   }
 
-  // Find last row with content
-  let lastContentRow = 7
-  let emptyContentStreak = 0
-  const usedRange = sheet.usedRange()
-  const maxRow = usedRange ? usedRange.endCell().rowNumber() : 100
+  const newRow = nextFreeRow(sheet, layout)
+  debugLog('Excel', `Step 4: Writing to row ${newRow}`)
+  writeRow(sheet, newRow, date, activity, layout)
 
-  for (let rowNum = 7; rowNum <= maxRow; rowNum++) {
-    const themaValue = sheet.cell(`B${rowNum}`).value()
-    const taetigkeitValue = sheet.cell(`C${rowNum}`).value()
+  // Save workbook
+  debugLog('Excel', 'Step 5: Saving workbook...')
+  await saveWorkbook(workbook, filePath, options)
+  debugLog('Excel', `Saved: ${filePath}`)
 
-    const hasThema = themaValue !== undefined && themaValue !== null && String(themaValue).trim().length > 0
-    const hasTaetigkeit = taetigkeitValue !== undefined && taetigkeitValue !== null && String(taetigkeitValue).trim().length > 0
+  return { sheet: sheetName, row: newRow, fingerprint: rowFingerprint(sheet, newRow, layout) }
+}
 
-    if (hasThema || hasTaetigkeit) {
-      lastContentRow = rowNum
-      emptyContentStreak = 0
-    } else {
-      emptyContentStreak++
-      if (emptyContentStreak >= 6) break
+// Outcome of one row of addActivities
+export type BatchInsertResult =
+  | { location: RowLocation }
+  | { error: string; duplicate?: Activity & { row: number; sheet: string } }
+
+/**
+ * Adds several activities to one file: the workbook is loaded, backed up and
+ * saved once. Rows that cannot be written (missing sheet, possible duplicate
+ * unless allowDuplicate) are reported per row, the others are still written.
+ * Throws if the workbook cannot be read or saved; then no row was written.
+ */
+export async function addActivities(
+  filePath: string,
+  items: Array<{ activity: Activity; allowDuplicate?: boolean }>,
+  configuredLayout?: SheetLayout,
+  options: WorkbookWriteOptions = {}
+): Promise<BatchInsertResult[]> {
+  const journalIds: string[] = []
+  try {
+    for (const item of items) {
+      journalIds.push(await recordPending(filePath, item.activity, configuredLayout))
+    }
+    return await insertActivities(filePath, items, configuredLayout, options)
+  } finally {
+    for (const id of journalIds) {
+      await completePending(id)
     }
   }
+}
 
-  const newRow = lastContentRow + 1
-  debugLog('Excel', `Step 4: Writing to row ${newRow}`)
+async function insertActivities(
+  filePath: string,
+  items: Array<{ activity: Activity; allowDuplicate?: boolean }>,
+  configuredLayout?: SheetLayout,
+  options: WorkbookWriteOptions = {}
+): Promise<BatchInsertResult[]> {
+  debugLog('Excel', `addActivities called for: ${filePath} (${items.length} rows)`)
+  await validateExcelFile(filePath)
+  assertWorkbookWritable(filePath, options)
 
-  // Set values - don't override numberFormat, let column style apply
-  // Date: Pass Date object directly, xlsx-populate handles conversion
-  sheet.cell(`A${newRow}`).value(date)
+  const workbook = await loadWorkbook(filePath)
+  const layout = resolveSheetLayout(workbook, configuredLayout)
+
+  let written = 0
+  const results: BatchInsertResult[] = items.map(({ activity, allowDuplicate }) => {
+    const { date, sheetName } = parseActivityDate(activity.datum, layout)
+    const sheet = workbook.sheet(sheetName)
+    if (!sheet) {
+      return { error: `Sheet "${sheetName}" nicht gefunden` }
+    }
 
-  // Thema
-  sheet.cell(`B${newRow}`).value(activity.thema)
+    // Rows written earlier in this batch are already in the sheet, so they are checked too
+    if (!allowDuplicate) {
+      const duplicate = findDuplicateInWorkbook(workbook, activity, layout)
+      if (duplicate) {
+        return {
+          error: `Ähnlicher Eintrag vorhanden (${duplicate.sheet}, Zeile ${duplicate.row})`,
+          duplicate
+        }
+      }
+    }
 
-  // Tätigkeit
-  sheet.cell(`C${newRow}`).value(activity.taetigkeit)
+    const row = nextFreeRow(sheet, layout)
+    writeRow(sheet, row, date, activity, layout)
+    written++
+    return { location: { sheet: sheetName, row, fingerprint: rowFingerprint(sheet, row, layout) } }
+  })
+
+  if (written > 0) {
+    // The file on disk is untouched until the save, so one backup covers all rows
+    await createBackup(filePath)
+    await saveWorkbook(workbook, filePath, options)
+    debugLog('Excel', `Saved ${written} rows: ${filePath}`)
+  }
+
+  return results
+}
 
-  // Zeit: fraction of day, let column format apply
-  if (activity.zeit !== null) {
-    sheet.cell(`D${newRow}`).value(activity.zeit / 24)
+/**
+ * Replays inserts left in the journal by a crash. Inserts that already reached
+ * the workbook (crash between save and journal cleanup) are recognised as
+ * duplicates and not written twice. Entries that fail stay for the next start.
+ */
+export async function replayJournal(): Promise<{ replayed: number; failed: number }> {
+  let replayed = 0
+  let failed = 0
+
+  for (const entry of await listPending()) {
+    try {
+      const existing = await findDuplicateActivity(entry.filePath, entry.activity, entry.layout)
+      if (existing) {
+        debugLog('Excel', `Journal entry ${entry.id} already in ${existing.sheet} row ${existing.row}`)
+      } else {
+        const location = await insertActivity(entry.filePath, entry.activity, entry.layout)
+        console.log(`[Excel] Replayed journal entry ${entry.id} into ${location.sheet} row ${location.row}`)
+        replayed++
+      }
+      await completePending(entry.id)
+    } catch (err) {
+      console.error(`[Excel] Failed to replay journal entry ${entry.id}:`, err)
+      failed++
+    }
   }
 
-  // KM
-  if (activity.km > 0) {
-    sheet.cell(`E${newRow}`).value(activity.km)
+  return { replayed, failed }
+}
+
+async function loadRowSheet(
+  filePath: string,
+  location: RowLocation,
+  configuredLayout?: SheetLayout
+): Promise<{ workbook: Workbook; sheet: Sheet; layout: SheetLayout }> {
+  await validateExcelFile(filePath)
+  const workbook = await loadWorkbook(filePath)
+  const sheet = workbook.sheet(location.sheet)
+  if (!sheet) {
+    throw new Error(`Sheet "${location.sheet}" nicht gefunden`)
   }
+  const layout = resolveSheetLayout(workbook, configuredLayout)
+  assertRowUnchanged(sheet, location, layout)
+  return { workbook, sheet, layout }
+}
 
-  // Hotel/Auslagen
-  if (activity.hotel > 0) {
-    sheet.cell(`F${newRow}`).value(activity.hotel)
+/**
+ * Throws if the row no longer matches its fingerprint (e.g. edited in Excel).
+ */
+export async function verifyRow(filePath: string, location: RowLocation, configuredLayout?: SheetLayout): Promise<void> {
+  await loadRowSheet(filePath, location, configuredLayout)
+}
+
+/**
+ * Overwrites a previously saved row. If the date now falls into another month,
+ * the row is moved to that month's sheet.
+ */
+export async function updateActivity(
+  filePath: string,
+  location: RowLocation,
+  activity: Activity,
+  configuredLayout?: SheetLayout
+): Promise<RowLocation> {
+  debugLog('Excel', `updateActivity ${filePath} ${location.sheet}!${location.row}`)
+  const { workbook, sheet, layout } = await loadRowSheet(filePath, location, configuredLayout)
+  assertWorkbookWritable(filePath)
+  await createBackup(filePath)
+
+  const { date, sheetName } = parseActivityDate(activity.datum, layout)
+  let target = sheet
+  let targetRow = location.row
+
+  if (sheetName !== location.sheet) {
+    const targetSheet = workbook.sheet(sheetName)
+    if (!targetSheet) {
+      throw new Error(`Sheet "${sheetName}" nicht gefunden`)
+    }
+    target = targetSheet
+    targetRow = nextFreeRow(targetSheet, layout)
+    removeRow(sheet, location.row, layout)
+    debugLog('Excel', `Moving row to ${sheetName}!${targetRow}`)
   }
 
-  // Save workbook
-  debugLog('Excel', 'Step 5: Saving workbook...')
+  writeRow(target, targetRow, date, activity, layout)
   await saveWorkbook(workbook, filePath)
-  debugLog('Excel', `Saved: ${filePath}`)
+
+  return { sheet: sheetName, row: targetRow, fingerprint: rowFingerprint(target, targetRow, layout) }
+}
+
+/**
+ * Deletes a previously saved row; rows below move up by one.
+ */
+export async function deleteActivity(
+  filePath: string,
+  location: RowLocation,
+  configuredLayout?: SheetLayout
+): Promise<void> {
+  debugLog('Excel', `deleteActivity ${filePath} ${location.sheet}!${location.row}`)
+  const { workbook, sheet, layout } = await loadRowSheet(filePath, location, configuredLayout)
+  assertWorkbookWritable(filePath)
+  await createBackup(filePath)
+
+  removeRow(sheet, location.row, layout)
+  await saveWorkbook(workbook, filePath)
+}
+
+/**
+ * Empties the data rows below the header. Formula cells are kept, as setting
+ * a value would drop the formula; rows without a date that hold a formula
+ * (e.g. a Summe row) are kept as a whole, so their label stays.
+ */
+function clearDataRows(sheet: Sheet, layout: SheetLayout): number {
+  const columns = dataColumns(layout)
+  let cleared = 0
+
+  for (const rowNum of findContentRows(sheet, layout)) {
+    if (rowNum <= layout.headerRow) continue
+    const formulaColumns = columns.filter(col => sheet.cell(`${col}${rowNum}`).formula())
+    const datum = sheet.cell(`${layout.columns.datum}${rowNum}`)
+    if (formulaColumns.length > 0 && !datum.formula() && !hasText(datum.value())) continue
+
+    for (const col of columns) {
+      if (!formulaColumns.includes(col)) {
+        sheet.cell(`${col}${rowNum}`).value(null)
+      }
+    }
+    cleared++
+  }
+
+  return cleared
+}
+
+/**
+ * Writes a copy of sourcePath to targetPath with all month sheets emptied.
+ * Styles, formulas and other sheets (e.g. Glossar) are kept.
+ * Returns the layout used, so it can be stored for the new file.
+ */
+export async function createEmptyYearWorkbook(
+  sourcePath: string,
+  targetPath: string,
+  configuredLayout?: SheetLayout
+): Promise<SheetLayout> {
+  await validateExcelFile(sourcePath)
+  const workbook = await loadWorkbook(sourcePath)
+  const layout = resolveSheetLayout(workbook, configuredLayout)
+
+  let cleared = 0
+  for (let month = 0; month < 12; month++) {
+    const sheet = workbook.sheet(getSheetName(layout.sheetNaming, month))
+    if (sheet) {
+      cleared += clearDataRows(sheet, layout)
+    }
+  }
+
+  await saveWorkbook(workbook, targetPath)
+  debugLog('Excel', `Created ${targetPath} from ${sourcePath} (${cleared} rows cleared)`)
+  return layout
 }
 
 /**
  * Reads all activities from a specific month.
+ * Legacy single-file reader; use queryActivities to read what the writer booked.
  */
 export async function getActivities(
   filePath: string,
-  month: number // 0-11
+  month: number, // 0-11
+  configuredLayout?: SheetLayout
 ): Promise<Array<Activity & { row: number }>> {
   await validateExcelFile(filePath)
 
   const workbook = await loadWorkbook(filePath)
-  const sheetName = MONTH_NAMES[month]
+  const layout = resolveSheetLayout(workbook, configuredLayout)
+  const sheetName = getSheetName(layout.sheetNaming, month)
   const sheet = workbook.sheet(sheetName)
 
   if (!sheet) {
@@ -158,48 +629,139 @@ export async function getActivities(
   const usedRange = sheet.usedRange()
   const maxRow = usedRange ? usedRange.endCell().rowNumber() : 100
 
-  // Data typically starts at row 14
-  for (let rowNum = 14; rowNum <= maxRow; rowNum++) {
-    const datumValue = sheet.cell(`A${rowNum}`).value()
-    const themaValue = sheet.cell(`B${rowNum}`).value()
-    const taetigkeitValue = sheet.cell(`C${rowNum}`).value()
+  const { columns } = layout
+
+  for (let rowNum = layout.headerRow + 1; rowNum <= maxRow; rowNum++) {
+    const datumValue = sheet.cell(`${columns.datum}${rowNum}`).value()
+    const themaValue = sheet.cell(`${columns.thema}${rowNum}`).value()
+    const taetigkeitValue = sheet.cell(`${columns.taetigkeit}${rowNum}`).value()
 
     if (!datumValue && !themaValue && !taetigkeitValue) continue
 
-    const zeitValue = sheet.cell(`D${rowNum}`).value()
-    const kmValue = sheet.cell(`E${rowNum}`).value()
-    const hotelValue = sheet.cell(`F${rowNum}`).value()
-
-    // Parse datum using xlsx-populate's built-in conversion
-    let datum = ''
-    if (datumValue !== undefined && datumValue !== null) {
-      if (typeof datumValue === 'number') {
-        const jsDate = XlsxPopulate.numberToDate(datumValue)
-        // Use local date methods to avoid timezone shift from toISOString()
-        datum = `${jsDate.getFullYear()}-${String(jsDate.getMonth() + 1).padStart(2, '0')}-${String(jsDate.getDate()).padStart(2, '0')}`
-      } else if (datumValue instanceof Date) {
-        datum = `${datumValue.getFullYear()}-${String(datumValue.getMonth() + 1).padStart(2, '0')}-${String(datumValue.getDate()).padStart(2, '0')}`
-      } else {
-        datum = String(datumValue)
-      }
-    }
+    activities.push(readRow(sheet, rowNum, layout))
+  }
+
+  return activities
+}
 
-    // Parse zeit (stored as fraction of day, convert to hours)
-    let zeit: number | null = null
-    if (zeitValue !== undefined && zeitValue !== null && typeof zeitValue === 'number') {
-      zeit = zeitValue * 24
+// Accept ISO dates and German DD.MM.YYYY strings as typed into the sheet by hand
+function toIsoDate(datum: string): string | null {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(datum)) return datum
+
+  const match = datum.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})$/)
+  if (match) {
+    return `${match[3]}-${match[2].padStart(2, '0')}-${match[1].padStart(2, '0')}`
+  }
+
+  return null
+}
+
+// Month indices (0-11) of the given year that overlap the date range
+function monthsInRange(year: number, from: string, to: string): number[] {
+  const months: number[] = []
+  for (let month = 0; month < 12; month++) {
+    const key = `${year}-${String(month + 1).padStart(2, '0')}`
+    if (key >= from.slice(0, 7) && key <= to.slice(0, 7)) {
+      months.push(month)
     }
+  }
+  return months
+}
 
-    activities.push({
-      row: rowNum,
-      datum,
-      thema: themaValue !== undefined && themaValue !== null ? String(themaValue) : '',
-      taetigkeit: taetigkeitValue !== undefined && taetigkeitValue !== null ? String(taetigkeitValue) : '',
-      zeit,
-      km: kmValue !== undefined && kmValue !== null ? Number(kmValue) : 0,
-      hotel: hotelValue !== undefined && hotelValue !== null ? Number(hotelValue) : 0
-    })
+async function readBookedActivities(
+  file: XlsxFileConfig,
+  from: string,
+  to: string
+): Promise<BookedActivity[]> {
+  const months = monthsInRange(file.jahr, from, to)
+  if (months.length === 0) return []
+
+  await validateExcelFile(file.path)
+  const workbook = await loadWorkbook(file.path)
+  const layout = resolveSheetLayout(workbook, file.layout)
+  const booked: BookedActivity[] = []
+
+  for (const month of months) {
+    const sheetName = getSheetName(layout.sheetNaming, month)
+    const sheet = workbook.sheet(sheetName)
+    if (!sheet) continue
+
+    for (const rowNum of findContentRows(sheet, layout)) {
+      const activity = readRow(sheet, rowNum, layout)
+      const datum = toIsoDate(activity.datum)
+      if (!datum) {
+        debugLog('Excel', `Skipping ${sheetName} row ${rowNum} in ${file.path}: no valid date`)
+        continue
+      }
+      if (datum < from || datum > to) continue
+
+      booked.push({ ...activity, datum, auftraggeber: file.auftraggeber, filePath: file.path, sheet: sheetName })
+    }
   }
 
-  return activities
+  return booked
+}
+
+/**
+ * Reads all activities booked between from and to (YYYY-MM-DD, inclusive) across the given files.
+ * Files whose Jahr lies outside the range are not opened; unreadable files are skipped.
+ */
+export async function queryActivities(
+  files: XlsxFileConfig[],
+  from: string,
+  to: string
+): Promise<BookedActivity[]> {
+  return (await queryActivitiesWithErrors(files, from, to)).rows
+}
+
+/**
+ * Like queryActivities, but also returns the files that could not be read,
+ * so callers can point out that their totals are incomplete.
+ */
+export async function queryActivitiesWithErrors(
+  files: XlsxFileConfig[],
+  from: string,
+  to: string
+): Promise<{ rows: BookedActivity[]; errors: DashboardFileError[] }> {
+  const results = await Promise.all(
+    files.map((file) =>
+      readBookedActivities(file, from, to).then(
+        (rows) => ({ rows, error: null }),
+        (err) => {
+          console.error(`[Excel] Failed to read ${file.path}:`, err)
+          const error: DashboardFileError = {
+            filePath: file.path,
+            auftraggeber: file.auftraggeber,
+            jahr: file.jahr,
+            error: err instanceof Error ? err.message : String(err)
+          }
+          return { rows: [], error }
+        }
+      )
+    )
+  )
+
+  const rows = results
+    .flatMap((result) => result.rows)
+    .sort((a, b) => a.datum.localeCompare(b.datum) || a.auftraggeber.localeCompare(b.auftraggeber) || a.row - b.row)
+  const errors = results.flatMap((result) => (result.error ? [result.error] : []))
+  return { rows, errors }
+}
+
+/**
+ * Reads every booked row of a file's year. Unlike queryActivities, read
+ * errors are thrown so callers can tell an empty file from a broken one.
+ */
+export async function readYearActivities(file: XlsxFileConfig): Promise<BookedActivity[]> {
+  return readBookedActivities(file, `${file.jahr}-01-01`, `${file.jahr}-12-31`)
+}
+
+/**
+ * Reads the booked rows of one month (1-12) of a file, sorted by date.
+ * Read errors are thrown like in readYearActivities.
+ */
+export async function readMonthActivities(file: XlsxFileConfig, month: number): Promise<BookedActivity[]> {
+  const key = `${file.jahr}-${String(month).padStart(2, '0')}`
+  const rows = await readBookedActivities(file, `${key}-01`, `${key}-31`)
+  return rows.sort((a, b) => a.datum.localeCompare(b.datum) || a.row - b.row)
 }
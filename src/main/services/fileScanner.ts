@@ -1,8 +1,8 @@
 import { glob } from 'glob'
 import { join, basename } from 'path'
 import * as fs from 'fs'
-import { ChatOpenAI } from '@langchain/openai'
 import { z } from 'zod'
+import { getLLMProvider } from './llmProvider'
 
 export type ScannedFile = {
   path: string
@@ -31,27 +31,10 @@ Beispiele:
 Wenn das Jahr 2-stellig ist, interpretiere es als 20xx.
 Ignoriere das "LV" Prefix und die ".xlsx" Endung.`
 
-let llm: ChatOpenAI | null = null
-
-function getLLM(): ChatOpenAI {
-  if (!llm) {
-    const apiKey = process.env.OPENAI_API_KEY
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY not found')
-    }
-    llm = new ChatOpenAI({
-      modelName: process.env.OPENAI_MODEL || 'gpt-4o-mini',
-      temperature: 0,
-      apiKey
-    })
-  }
-  return llm
-}
-
 export async function extractFileInfo(filename: string): Promise<{ auftraggeber: string; jahr: number }> {
-  const structuredLLM = getLLM().withStructuredOutput(FileInfoSchema)
+  const provider = await getLLMProvider('fileScan')
 
-  const result = await structuredLLM.invoke([
+  const result = await provider.invokeStructured(FileInfoSchema, [
     { role: 'system', content: EXTRACTION_PROMPT },
     { role: 'user', content: filename }
   ])
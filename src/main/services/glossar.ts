@@ -1,11 +1,14 @@
 import * as fsp from 'fs/promises'
-import { loadWorkbook, saveWorkbook, type Workbook, type Sheet } from './workbook'
+import { assertWorkbookWritable, loadWorkbook, saveWorkbook, type Workbook, type Sheet } from './workbook'
 import { createBackup } from './backup'
 import { validateExcelFile } from './excel'
-import type { GlossarKategorie, GlossarEintrag, Glossar } from '@shared/types'
+import { getSheetName, resolveSheetLayout } from './sheetLayout'
+import { similarity } from '../utils/similarity'
+import { colognePhonetic, doubleMetaphone } from '../utils/phonetic'
+import type { GlossarKategorie, GlossarEintrag, Glossar, GlossarMatch } from '@shared/types'
 
 // Re-export types for consumers
-export type { GlossarKategorie, GlossarEintrag, Glossar }
+export type { GlossarKategorie, GlossarEintrag, Glossar, GlossarMatch }
 
 /**
  * Glossar service for standardizing terms from Excel sheets.
@@ -13,11 +16,6 @@ export type { GlossarKategorie, GlossarEintrag, Glossar }
  * Uses xlsx-populate for cross-platform compatibility.
  */
 
-const MONTH_NAMES = [
-  'Januar', 'Februar', 'März', 'April', 'Mai', 'Juni',
-  'Juli', 'August', 'September', 'Oktober', 'November', 'Dezember'
-]
-
 // Cache for loaded glossars with mtime for invalidation
 type CacheEntry = { glossar: Glossar; mtime: number }
 const glossarCache = new Map<string, CacheEntry>()
@@ -133,35 +131,146 @@ export function clearGlossarCache(xlsxPath?: string): void {
   }
 }
 
+// Above this confidence a candidate replaces the recognised text
+const MATCH_THRESHOLD = 0.75
+// Below this confidence a term is no candidate at all
+const CANDIDATE_THRESHOLD = 0.5
+const MAX_CANDIDATES = 3
+
+// German letter names, so a spoken acronym ("Idete") finds its Begriff ("IDT")
+const LETTER_NAMES: Record<string, string> = {
+  A: 'a', B: 'be', C: 'ce', D: 'de', E: 'e', F: 'ef', G: 'ge', H: 'ha', I: 'i',
+  J: 'jot', K: 'ka', L: 'el', M: 'em', N: 'en', O: 'o', P: 'pe', Q: 'ku', R: 'er',
+  S: 'es', T: 'te', U: 'u', V: 'vau', W: 'we', X: 'ix', Y: 'ypsilon', Z: 'zet'
+}
+
+type PhoneticCodes = {
+  cologne: string
+  // Kölner Phonetik without R and with B/P folded into F/V/W, which speech
+  // recognition confuses most ("La Cobra" for "Lakowa")
+  loose: string
+  metaphone: [string, string]
+}
+
+type PhoneticEntry = { form: string; begriff: string; codes: PhoneticCodes }
+
+// Phonetic index per glossar, derived from its lookupMap on first use
+const phoneticIndexes = new WeakMap<Glossar, PhoneticEntry[]>()
+
+function phoneticCodes(text: string): PhoneticCodes {
+  const cologne = colognePhonetic(text)
+  const loose = cologne.replace(/7/g, '').replace(/1/g, '3').replace(/(.)\1+/g, '$1')
+  return { cologne, loose, metaphone: doubleMetaphone(text) }
+}
+
+function getPhoneticIndex(glossar: Glossar): PhoneticEntry[] {
+  let index = phoneticIndexes.get(glossar)
+  if (index) return index
+
+  index = []
+  const acronyms = new Set<string>()
+  for (const [form, begriff] of glossar.lookupMap) {
+    index.push({ form, begriff, codes: phoneticCodes(form) })
+    if (/^[A-Z]{2,5}$/.test(begriff)) acronyms.add(begriff)
+  }
+  for (const acronym of acronyms) {
+    const spoken = [...acronym].map(letter => LETTER_NAMES[letter]).join('')
+    index.push({ form: spoken, begriff: acronym, codes: phoneticCodes(spoken) })
+  }
+
+  phoneticIndexes.set(glossar, index)
+  return index
+}
+
+function codeSimilarity(a: string, b: string): number {
+  return a && b ? similarity(a, b) : 0
+}
+
+function phoneticSimilarity(a: PhoneticCodes, b: PhoneticCodes): number {
+  let best = Math.max(codeSimilarity(a.cologne, b.cologne), 0.9 * codeSimilarity(a.loose, b.loose))
+  for (const codeA of a.metaphone) {
+    for (const codeB of b.metaphone) {
+      best = Math.max(best, codeSimilarity(codeA, codeB))
+    }
+  }
+  return best
+}
+
 /**
- * Normalize text using glossar lookup with fuzzy fallback
+ * Rank glossar candidates for a recognised term. Spelling similarity alone
+ * decides unless the terms also sound alike, then both count half.
  */
-export function normalizeText(text: string, glossar: Glossar): string {
+export function matchTerm(text: string, glossar: Glossar, limit = MAX_CANDIDATES): GlossarMatch[] {
   const normalized = normalizeForLookup(text)
+  if (!normalized) return []
 
-  // Exact match first
   const exact = glossar.lookupMap.get(normalized)
-  if (exact) return exact
-
-  // Fuzzy match fallback - find best match above threshold
-  const FUZZY_THRESHOLD = 0.75
-  let bestMatch: string | null = null
-  let bestScore = FUZZY_THRESHOLD
-
-  for (const [key, value] of glossar.lookupMap) {
-    const score = similarity(normalized, key)
-    if (score > bestScore) {
-      bestScore = score
-      bestMatch = value
+  if (exact) return [{ begriff: exact, confidence: 1, method: 'exact' }]
+
+  const compact = normalized.replace(/ /g, '')
+  const codes = phoneticCodes(normalized)
+  const best = new Map<string, GlossarMatch>()
+
+  for (const entry of getPhoneticIndex(glossar)) {
+    const textScore = Math.max(similarity(normalized, entry.form), similarity(compact, entry.form.replace(/ /g, '')))
+    const phoneticScore = phoneticSimilarity(codes, entry.codes)
+    const match: GlossarMatch = phoneticScore > textScore
+      ? { begriff: entry.begriff, confidence: (textScore + phoneticScore) / 2, method: 'phonetic' }
+      : { begriff: entry.begriff, confidence: textScore, method: 'fuzzy' }
+
+    const previous = best.get(entry.begriff)
+    if (match.confidence >= CANDIDATE_THRESHOLD && (!previous || match.confidence > previous.confidence)) {
+      best.set(entry.begriff, match)
     }
   }
 
-  if (bestMatch) {
-    console.log(`[Glossar] Fuzzy match: "${text}" → "${bestMatch}" (${(bestScore * 100).toFixed(0)}%)`)
-    return bestMatch
+  return [...best.values()]
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, limit)
+}
+
+/**
+ * Normalize text and keep the candidates it was chosen from. applied is the
+ * glossar match that replaced the text, null if the text was kept.
+ */
+export function resolveTerm(
+  text: string,
+  glossar: Glossar
+): { text: string; applied: GlossarMatch | null; candidates: GlossarMatch[] } {
+  const candidates = matchTerm(text, glossar)
+  const [best] = candidates
+  if (!best || (best.method !== 'exact' && best.confidence <= MATCH_THRESHOLD)) {
+    return { text, applied: null, candidates }
   }
 
-  return text
+  if (best.method !== 'exact') {
+    console.log(`[Glossar] ${best.method === 'phonetic' ? 'Phonetic' : 'Fuzzy'} match: "${text}" → "${best.begriff}" (${(best.confidence * 100).toFixed(0)}%)`)
+  }
+  return { text: best.begriff, applied: best, candidates }
+}
+
+// Legal forms and institutions mark a Thema as a Kunde rather than a project
+const KUNDE_PATTERN = /(\b(gmbh|mbh|ag|kg|ohg|gbr|ug|eg|se|ltd|inc|stiftung|verein|verband|klinik(um)?|schule|gemeinde|stadt|landkreis|universität|hochschule|praxis)\b|\be\.\s?v\.)/i
+
+/**
+ * Check a saved Thema against a file's glossar. Returns the Kategorie to
+ * propose it under, or null if the glossar knows it (exactly or fuzzy).
+ */
+export function classifyNewThema(thema: string, glossar: Glossar): 'Thema' | 'Kunde' | null {
+  const { applied, candidates } = resolveTerm(thema, glossar)
+  if (applied) return null
+  if (KUNDE_PATTERN.test(thema)) return 'Kunde'
+
+  // Otherwise follow the closest known term, if any
+  const nearest = candidates[0] && glossar.eintraege.find(e => e.begriff === candidates[0].begriff)
+  return nearest?.kategorie === 'Kunde' ? 'Kunde' : 'Thema'
+}
+
+/**
+ * Normalize text using glossar lookup with fuzzy and phonetic fallback
+ */
+export function normalizeText(text: string, glossar: Glossar): string {
+  return resolveTerm(text, glossar).text
 }
 
 /**
@@ -186,6 +295,67 @@ export function getAllKnownTerms(glossar: Glossar): {
   }
 }
 
+// Whisper only looks at the last ~224 tokens of a prompt
+const MAX_VOCABULARY_CHARS = 700
+
+export type GlossarSource = { auftraggeber: string; glossar: Glossar }
+
+/**
+ * Build the vocabulary hint for speech recognition from per-file glossars.
+ * Auftraggeber names come first, then Themen/Kunden of the preferred Auftraggeber,
+ * then the remaining terms alternating between files, cut off at maxChars.
+ */
+export function buildTranscriptionVocabulary(
+  sources: GlossarSource[],
+  preferredAuftraggeber?: string | null,
+  maxChars = MAX_VOCABULARY_CHARS
+): string[] {
+  const ordered: string[] = []
+  const seen = new Set<string>()
+  const add = (term: string): void => {
+    const key = normalizeForLookup(term)
+    if (key && !seen.has(key)) {
+      seen.add(key)
+      ordered.push(term.trim())
+    }
+  }
+
+  for (const source of sources) {
+    add(source.auftraggeber)
+    getKnownTerms(source.glossar, 'Auftraggeber').forEach(add)
+  }
+
+  const preferred = preferredAuftraggeber ? normalizeForLookup(preferredAuftraggeber) : null
+  const termsOf = (source: GlossarSource): string[] => {
+    const { themen, kunden } = getAllKnownTerms(source.glossar)
+    return [...themen, ...kunden]
+  }
+
+  sources
+    .filter(s => normalizeForLookup(s.auftraggeber) === preferred)
+    .forEach(s => termsOf(s).forEach(add))
+
+  const others = sources
+    .filter(s => normalizeForLookup(s.auftraggeber) !== preferred)
+    .map(termsOf)
+  const longest = Math.max(0, ...others.map(list => list.length))
+  for (let i = 0; i < longest; i++) {
+    for (const list of others) {
+      if (i < list.length) add(list[i])
+    }
+  }
+
+  // Apply the size limit in priority order
+  const limited: string[] = []
+  let length = 0
+  for (const term of ordered) {
+    length += term.length + 2
+    if (length > maxChars) break
+    limited.push(term)
+  }
+  return limited
+}
+
 /**
  * Load and merge glossars from multiple files
  */
@@ -224,47 +394,6 @@ function mergeGlossars(glossars: Glossar[]): Glossar {
   return merged
 }
 
-/**
- * Calculate Levenshtein distance between two strings
- */
-function levenshteinDistance(a: string, b: string): number {
-  const matrix: number[][] = []
-
-  for (let i = 0; i <= b.length; i++) {
-    matrix[i] = [i]
-  }
-  for (let j = 0; j <= a.length; j++) {
-    matrix[0][j] = j
-  }
-
-  for (let i = 1; i <= b.length; i++) {
-    for (let j = 1; j <= a.length; j++) {
-      if (b.charAt(i - 1) === a.charAt(j - 1)) {
-        matrix[i][j] = matrix[i - 1][j - 1]
-      } else {
-        matrix[i][j] = Math.min(
-          matrix[i - 1][j - 1] + 1, // substitution
-          matrix[i][j - 1] + 1,     // insertion
-          matrix[i - 1][j] + 1      // deletion
-        )
-      }
-    }
-  }
-
-  return matrix[b.length][a.length]
-}
-
-/**
- * Calculate similarity ratio (0-1) between two strings
- */
-function similarity(a: string, b: string): number {
-  const aLower = a.toLowerCase()
-  const bLower = b.toLowerCase()
-  const maxLen = Math.max(aLower.length, bLower.length)
-  if (maxLen === 0) return 1
-  return 1 - levenshteinDistance(aLower, bLower) / maxLen
-}
-
 /**
  * Cluster similar terms and pick the best representative
  */
@@ -342,17 +471,19 @@ function clusterSimilarTerms(terms: string[], threshold = 0.75): Array<{ begriff
  */
 async function extractThemenFromWorkbook(workbook: Workbook): Promise<string[]> {
   const themen: string[] = []
+  const layout = resolveSheetLayout(workbook)
 
-  for (const sheetName of MONTH_NAMES) {
-    const sheet = workbook.sheet(sheetName)
+  for (let month = 0; month < 12; month++) {
+    const sheet = workbook.sheet(getSheetName(layout.sheetNaming, month))
     if (!sheet) continue
 
     const usedRange = sheet.usedRange()
     const maxRow = usedRange ? usedRange.endCell().rowNumber() : 100
 
-    // Data starts at row 14, Thema is column B (2)
-    for (let rowNum = 14; rowNum <= maxRow; rowNum++) {
-      const thema = getCellString(sheet, rowNum, 2)
+    // Data starts below the header row
+    for (let rowNum = layout.headerRow + 1; rowNum <= maxRow; rowNum++) {
+      const value = sheet.cell(`${layout.columns.thema}${rowNum}`).value()
+      const thema = value !== undefined && value !== null ? String(value).trim() : ''
       if (thema) themen.push(thema) // Keep duplicates for counting
     }
   }
@@ -360,6 +491,25 @@ async function extractThemenFromWorkbook(workbook: Workbook): Promise<string[]>
   return themen
 }
 
+/**
+ * Add an empty Glossar sheet with header row
+ */
+function addGlossarSheet(workbook: Workbook): Sheet {
+  const glossarSheet = workbook.addSheet('Glossar')
+
+  // Set column widths
+  glossarSheet.column(1).width(15)
+  glossarSheet.column(2).width(30)
+  glossarSheet.column(3).width(40)
+
+  // Write header
+  glossarSheet.cell(1, 1).value('Kategorie')
+  glossarSheet.cell(1, 2).value('Begriff')
+  glossarSheet.cell(1, 3).value('Synonyme')
+
+  return glossarSheet
+}
+
 /**
  * Create a Glossar sheet from existing data
  */
@@ -369,6 +519,7 @@ export async function createGlossarSheet(
 ): Promise<Glossar | null> {
   try {
     await validateExcelFile(xlsxPath)
+    assertWorkbookWritable(xlsxPath)
     await createBackup(xlsxPath)
 
     const workbook = await loadWorkbook(xlsxPath)
@@ -402,18 +553,7 @@ export async function createGlossarSheet(
       })
     }
 
-    // Create sheet
-    const glossarSheet = workbook.addSheet('Glossar')
-
-    // Set column widths
-    glossarSheet.column(1).width(15)
-    glossarSheet.column(2).width(30)
-    glossarSheet.column(3).width(40)
-
-    // Write header
-    glossarSheet.cell(1, 1).value('Kategorie')
-    glossarSheet.cell(1, 2).value('Begriff')
-    glossarSheet.cell(1, 3).value('Synonyme')
+    const glossarSheet = addGlossarSheet(workbook)
 
     // Write data
     for (let i = 0; i < glossarData.length; i++) {
@@ -447,3 +587,203 @@ export async function ensureGlossar(
   console.log(`[Glossar] No sheet found in ${xlsxPath}, creating...`)
   return createGlossarSheet(xlsxPath, auftraggeber)
 }
+
+const GLOSSAR_KATEGORIEN: GlossarKategorie[] = ['Auftraggeber', 'Thema', 'Kunde', 'Sonstiges']
+
+/**
+ * True for the Kategorien the app reads and writes (case-sensitive, as in the sheet).
+ */
+export function isGlossarKategorie(value: string): value is GlossarKategorie {
+  return (GLOSSAR_KATEGORIEN as string[]).includes(value)
+}
+
+/**
+ * Trim entries and drop empty, repeated or self-referencing synonyms.
+ * Throws if a Begriff is listed twice in its Kategorie or a term would
+ * resolve to more than one Begriff.
+ */
+export function normalizeGlossarEntries(eintraege: GlossarEintrag[]): GlossarEintrag[] {
+  const owners = new Map<string, string>() // normalized term -> normalized Begriff
+  const begriffe = new Set<string>()
+
+  const claim = (term: string, begriff: string): void => {
+    const key = normalizeForLookup(term)
+    const owner = owners.get(key)
+    if (owner !== undefined && owner !== normalizeForLookup(begriff)) {
+      throw new Error(`"${term}" ist mehreren Begriffen zugeordnet`)
+    }
+    owners.set(key, normalizeForLookup(begriff))
+  }
+
+  const normalized = eintraege.map((eintrag) => {
+    const begriff = eintrag.begriff.trim()
+    if (!begriff) {
+      throw new Error('Begriff darf nicht leer sein')
+    }
+
+    const begriffKey = `${eintrag.kategorie}|${normalizeForLookup(begriff)}`
+    if (begriffe.has(begriffKey)) {
+      throw new Error(`Begriff "${begriff}" ist in ${eintrag.kategorie} doppelt vorhanden`)
+    }
+    begriffe.add(begriffKey)
+    claim(begriff, begriff)
+
+    const seen = new Set([normalizeForLookup(begriff)])
+    const synonyme = eintrag.synonyme
+      .map(s => s.trim())
+      .filter((s) => {
+        const key = normalizeForLookup(s)
+        if (!key || seen.has(key)) return false
+        seen.add(key)
+        return true
+      })
+
+    return { kategorie: eintrag.kategorie, begriff, synonyme }
+  })
+
+  // Synonyms after all Begriffe, so a synonym naming another Begriff is caught
+  for (const eintrag of normalized) {
+    for (const synonym of eintrag.synonyme) {
+      claim(synonym, eintrag.begriff)
+    }
+  }
+
+  return normalized
+}
+
+function isEmptyCellValue(value: unknown): boolean {
+  return value === undefined || value === null || String(value).trim() === ''
+}
+
+/**
+ * Rewrite a file's Glossar sheet (created if missing) with the entries
+ * returned by update, which gets the current entries (null = no change).
+ * Only rows with a known Kategorie and a Begriff are entries; every other
+ * non-empty row is kept as it is below the entries. Rows are moved over the
+ * whole used width, so extra columns (e.g. a Bemerkung) stay with their entry.
+ */
+async function rewriteGlossarSheet(
+  xlsxPath: string,
+  update: (current: GlossarEintrag[]) => GlossarEintrag[] | null
+): Promise<void> {
+  await validateExcelFile(xlsxPath)
+  const workbook = await loadWorkbook(xlsxPath)
+
+  const glossarSheet =
+    workbook.sheets().find(s => s.name().toLowerCase() === 'glossar') ?? addGlossarSheet(workbook)
+
+  const usedRange = glossarSheet.usedRange()
+  const maxRow = usedRange ? usedRange.endCell().rowNumber() : 1
+  const maxCol = Math.max(3, usedRange ? usedRange.endCell().columnNumber() : 3)
+
+  const current: GlossarEintrag[] = []
+  const extras = new Map<string, unknown[]>() // Kategorie|Begriff -> values of columns 4..maxCol
+  const kept: unknown[][] = []
+  for (let rowNum = 2; rowNum <= maxRow; rowNum++) {
+    const values = Array.from({ length: maxCol }, (_, i) => glossarSheet.cell(rowNum, i + 1).value())
+    if (values.every(isEmptyCellValue)) continue
+
+    const [kategorie, begriff, synonyme] = [1, 2, 3].map(col => getCellString(glossarSheet, rowNum, col))
+    if (isGlossarKategorie(kategorie) && begriff) {
+      current.push({ kategorie, begriff, synonyme: synonyme.split(',').map(s => s.trim()).filter(s => s.length > 0) })
+      const key = `${kategorie}|${normalizeForLookup(begriff)}`
+      if (!extras.has(key)) extras.set(key, values.slice(3))
+    } else {
+      kept.push(values)
+    }
+  }
+
+  const updated = update(current)
+  if (!updated) return
+  const normalized = normalizeGlossarEntries(updated)
+
+  const rows: unknown[][] = [
+    ...normalized.map(e => [
+      e.kategorie,
+      e.begriff,
+      e.synonyme.join(', '),
+      ...(extras.get(`${e.kategorie}|${normalizeForLookup(e.begriff)}`) ?? [])
+    ]),
+    ...kept
+  ]
+  const lastRow = Math.max(maxRow, rows.length + 1)
+  for (let rowNum = 2; rowNum <= lastRow; rowNum++) {
+    const row = rows[rowNum - 2] ?? []
+    for (let col = 1; col <= maxCol; col++) {
+      glossarSheet.cell(rowNum, col).value(row[col - 1] ?? null)
+    }
+  }
+
+  assertWorkbookWritable(xlsxPath)
+  await createBackup(xlsxPath)
+  await saveWorkbook(workbook, xlsxPath)
+  clearGlossarCache(xlsxPath)
+  console.log(`[Glossar] Saved ${normalized.length} entries to ${xlsxPath}`)
+}
+
+/**
+ * Replace the entries of a file's Glossar sheet.
+ */
+export async function saveGlossarEntries(
+  xlsxPath: string,
+  eintraege: GlossarEintrag[]
+): Promise<void> {
+  // Reject conflicts before the file is touched
+  normalizeGlossarEntries(eintraege)
+  await rewriteGlossarSheet(xlsxPath, () => eintraege)
+}
+
+/**
+ * Add a synonym to a Begriff of a file's Glossar, creating the Begriff if needed.
+ */
+export async function addGlossarSynonym(
+  xlsxPath: string,
+  kategorie: GlossarKategorie,
+  begriff: string,
+  synonym: string
+): Promise<void> {
+  await addGlossarSynonyms(xlsxPath, [{ kategorie, begriff, synonym }])
+}
+
+/**
+ * Add several synonyms to a file's Glossar with one backup and save.
+ * Begriffe are created if needed, known synonyms are skipped.
+ */
+export async function addGlossarSynonyms(
+  xlsxPath: string,
+  synonyms: Array<{ kategorie: GlossarKategorie; begriff: string; synonym: string }>
+): Promise<void> {
+  await rewriteGlossarSheet(xlsxPath, (current) => {
+    let changed = false
+    for (const { kategorie, begriff, synonym } of synonyms) {
+      const key = normalizeForLookup(begriff)
+      const eintrag = current.find(e => e.kategorie === kategorie && normalizeForLookup(e.begriff) === key)
+      if (!eintrag) {
+        current.push({ kategorie, begriff, synonyme: [synonym] })
+        changed = true
+      } else if (!eintrag.synonyme.some(s => normalizeForLookup(s) === normalizeForLookup(synonym))) {
+        eintrag.synonyme.push(synonym)
+        changed = true
+      }
+    }
+    return changed ? current : null // null: all already known
+  })
+}
+
+/**
+ * Add a new Begriff without synonyms to a file's Glossar, unless the term is
+ * already known there as Begriff or synonym.
+ */
+export async function addGlossarBegriff(
+  xlsxPath: string,
+  kategorie: GlossarKategorie,
+  begriff: string
+): Promise<void> {
+  await rewriteGlossarSheet(xlsxPath, (current) => {
+    const key = normalizeForLookup(begriff)
+    if (current.some(e => [e.begriff, ...e.synonyme].some(t => normalizeForLookup(t) === key))) {
+      return null // Already known
+    }
+    return [...current, { kategorie, begriff, synonyme: [] }]
+  })
+}
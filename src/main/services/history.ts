@@ -0,0 +1,145 @@
+import { app } from 'electron'
+import { join, dirname } from 'path'
+import { randomUUID } from 'crypto'
+import { appendFile, mkdir, open } from 'fs/promises'
+import type { Activity, HistoryEntry, HistoryQuery } from '@shared/types'
+
+/**
+ * Append-only audit trail of every Excel write in ~/.aktivitaeten/history.jsonl.
+ * One JSON object per line, so a crash can at most cost the last line.
+ * Entries are never rewritten or removed.
+ */
+
+const HISTORY_FILE = join(app.getPath('home'), '.aktivitaeten', 'history.jsonl')
+
+const DEFAULT_LIMIT = 200
+const READ_CHUNK_SIZE = 64 * 1024
+
+const ACTIVITY_FIELDS: Array<keyof Activity> = [
+  'auftraggeber',
+  'thema',
+  'beschreibung',
+  'minuten',
+  'km',
+  'auslagen',
+  'datum'
+]
+
+/**
+ * Fields whose written value differs from the one first recognised.
+ */
+export function getCorrectedFields(parsed: Activity, written: Activity): Array<keyof Activity> {
+  return ACTIVITY_FIELDS.filter(field => parsed[field] !== written[field])
+}
+
+/**
+ * Append one write to the history. correctedFields is derived from
+ * parsedActivity and activity when both are given.
+ */
+export async function appendHistory(
+  entry: Omit<HistoryEntry, 'id' | 'timestamp' | 'correctedFields'>
+): Promise<HistoryEntry> {
+  const record: HistoryEntry = {
+    id: randomUUID(),
+    timestamp: new Date().toISOString(),
+    ...entry,
+    ...(entry.parsedActivity && entry.activity && {
+      correctedFields: getCorrectedFields(entry.parsedActivity, entry.activity)
+    })
+  }
+
+  await mkdir(dirname(HISTORY_FILE), { recursive: true })
+  await appendFile(HISTORY_FILE, JSON.stringify(record) + '\n', 'utf-8')
+
+  return record
+}
+
+// Local YYYY-MM-DD of an ISO timestamp, to compare with the local dates of a query
+function toLocalDate(timestamp: string): string {
+  const date = new Date(timestamp)
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+}
+
+function matchesQuery(entry: HistoryEntry, query: HistoryQuery): boolean {
+  if (query.filePath && entry.filePath !== query.filePath) return false
+
+  const date = toLocalDate(entry.timestamp)
+  if (query.from && date < query.from) return false
+  if (query.to && date > query.to) return false
+
+  if (query.search) {
+    const needle = query.search.toLowerCase()
+    const haystack = [
+      entry.transcript,
+      entry.activity?.auftraggeber,
+      entry.activity?.thema,
+      entry.activity?.beschreibung
+    ].filter(Boolean).join('\n').toLowerCase()
+    if (!haystack.includes(needle)) return false
+  }
+
+  return true
+}
+
+/**
+ * Lines of a file from last to first. The file is read backwards in chunks,
+ * so callers that stop early never load the older part.
+ */
+async function* readLinesBackwards(path: string): AsyncGenerator<string> {
+  const handle = await open(path, 'r')
+  try {
+    let position = (await handle.stat()).size
+    let rest = Buffer.alloc(0) // Start of a line whose beginning is in an earlier chunk
+    while (position > 0) {
+      const size = Math.min(READ_CHUNK_SIZE, position)
+      position -= size
+      const chunk = Buffer.alloc(size)
+      await handle.read(chunk, 0, size, position)
+
+      // Splitting at \n bytes is safe for UTF-8: it never occurs inside a multi-byte character
+      const buffer = Buffer.concat([chunk, rest])
+      let end = buffer.length
+      let newline = buffer.lastIndexOf(0x0a, end - 1)
+      while (newline !== -1) {
+        yield buffer.toString('utf-8', newline + 1, end)
+        end = newline
+        newline = end > 0 ? buffer.lastIndexOf(0x0a, end - 1) : -1
+      }
+      rest = buffer.subarray(0, end)
+    }
+    if (rest.length > 0) yield rest.toString('utf-8')
+  } finally {
+    await handle.close()
+  }
+}
+
+/**
+ * History entries matching the query, newest first.
+ * Reading stops once limit entries are found; unreadable lines are skipped.
+ */
+export async function queryHistory(query: HistoryQuery = {}): Promise<HistoryEntry[]> {
+  const limit = query.limit ?? DEFAULT_LIMIT
+  const entries: HistoryEntry[] = []
+
+  try {
+    for await (const line of readLinesBackwards(HISTORY_FILE)) {
+      if (!line.trim()) continue
+
+      let entry: HistoryEntry
+      try {
+        entry = JSON.parse(line) as HistoryEntry
+      } catch {
+        console.warn('[History] Skipping unreadable line')
+        continue
+      }
+
+      if (!matchesQuery(entry, query)) continue
+      entries.push(entry)
+      if (entries.length >= limit) break
+    }
+  } catch {
+    return [] // No history yet
+  }
+
+  return entries
+}
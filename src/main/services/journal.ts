@@ -0,0 +1,93 @@
+import { app } from 'electron'
+import { join } from 'path'
+import { randomUUID } from 'crypto'
+import { mkdir, readdir, readFile, rename, unlink, writeFile } from 'fs/promises'
+import type { SheetLayout } from '@shared/types'
+
+/**
+ * Write-ahead journal for activity inserts: every insert is recorded in
+ * ~/.aktivitaeten/journal/ before the workbook is touched and removed once
+ * the workbook is saved (or the save failed visibly). Entries left behind
+ * after a crash are replayed on the next start.
+ */
+
+const JOURNAL_DIR = join(app.getPath('home'), '.aktivitaeten', 'journal')
+
+export type JournalEntry = {
+  id: string
+  filePath: string
+  activity: {
+    datum: string
+    thema: string
+    taetigkeit: string
+    zeit: number | null
+    km: number
+    hotel: number
+  }
+  layout?: SheetLayout
+  createdAt: string
+}
+
+function entryPath(id: string): string {
+  return join(JOURNAL_DIR, `${id}.json`)
+}
+
+/**
+ * Record a pending insert. Written via temp file + rename so the journal
+ * itself never holds a half-written entry.
+ */
+export async function recordPending(
+  filePath: string,
+  activity: JournalEntry['activity'],
+  layout?: SheetLayout
+): Promise<string> {
+  const entry: JournalEntry = {
+    // Timestamp first so entries replay in the order they were dictated
+    id: `${Date.now()}-${randomUUID().slice(0, 8)}`,
+    filePath,
+    activity,
+    ...(layout && { layout }),
+    createdAt: new Date().toISOString()
+  }
+
+  await mkdir(JOURNAL_DIR, { recursive: true })
+  const tempPath = `${entryPath(entry.id)}.tmp`
+  await writeFile(tempPath, JSON.stringify(entry, null, 2), 'utf-8')
+  await rename(tempPath, entryPath(entry.id))
+
+  return entry.id
+}
+
+/**
+ * Remove a journal entry once its insert is finished.
+ */
+export async function completePending(id: string): Promise<void> {
+  try {
+    await unlink(entryPath(id))
+  } catch (err) {
+    console.warn(`[Journal] Failed to remove entry ${id}:`, err)
+  }
+}
+
+/**
+ * All entries left behind by an interrupted save, oldest first.
+ * Unreadable entries are skipped and kept on disk for manual inspection.
+ */
+export async function listPending(): Promise<JournalEntry[]> {
+  let files: string[]
+  try {
+    files = await readdir(JOURNAL_DIR)
+  } catch {
+    return [] // No journal yet
+  }
+
+  const entries: JournalEntry[] = []
+  for (const file of files.filter(f => f.endsWith('.json')).sort()) {
+    try {
+      entries.push(JSON.parse(await readFile(join(JOURNAL_DIR, file), 'utf-8')) as JournalEntry)
+    } catch (err) {
+      console.error(`[Journal] Skipping unreadable entry ${file}:`, err)
+    }
+  }
+  return entries
+}
@@ -0,0 +1,217 @@
+import { ChatOpenAI, AzureChatOpenAI } from '@langchain/openai'
+import { readFileSync, existsSync } from 'fs'
+import type { z } from 'zod'
+import { getApiKey, getConfig } from './config'
+import { debugLog } from './debugLog'
+import type { LLMProviderType } from '@shared/types'
+
+/**
+ * LLM provider layer shared by the activity parser (llm.ts) and the file scanner.
+ * Supports OpenAI, Azure OpenAI, OpenAI-compatible local servers (Ollama, llama.cpp)
+ * and a deterministic mock for tests. Selected via AppSettings.llmProvider.
+ */
+
+export type { LLMProviderType }
+
+export type ChatMessage = {
+  role: 'system' | 'user'
+  content: string
+}
+
+// What the model is used for - lets providers pick a cheaper default model
+export type LLMPurpose = 'parse' | 'fileScan'
+
+export interface LLMProvider {
+  type: LLMProviderType
+  model: string
+  invokeStructured<T extends Record<string, unknown>>(
+    schema: z.ZodType<T>,
+    messages: ChatMessage[]
+  ): Promise<T>
+}
+
+// Default to gpt-4o for parsing, configurable via settings or OPENAI_MODEL env var
+// gpt-4.1-mini struggles with self-corrections like "ach nein, es war für X"
+const DEFAULT_OPENAI_MODELS: Record<LLMPurpose, string> = {
+  parse: 'gpt-4o',
+  fileScan: 'gpt-4o-mini'
+}
+
+const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1'
+const DEFAULT_LOCAL_MODEL = 'llama3.1'
+const DEFAULT_AZURE_API_VERSION = '2024-10-21'
+
+const providerCache = new Map<LLMPurpose, LLMProvider>()
+
+// Scripted responses for the mock provider (consumed in order)
+const mockResponses: Record<string, unknown>[] = []
+
+/**
+ * Queue responses for the mock provider. Each structured call consumes one.
+ */
+export function setMockResponses(responses: Record<string, unknown>[]): void {
+  mockResponses.length = 0
+  mockResponses.push(...responses)
+}
+
+/**
+ * Load scripted mock responses from the JSON file named in LLM_MOCK_FILE (if any).
+ */
+function loadMockScript(): void {
+  const scriptPath = process.env.LLM_MOCK_FILE
+  if (!scriptPath || !existsSync(scriptPath)) return
+
+  try {
+    const parsed = JSON.parse(readFileSync(scriptPath, 'utf-8'))
+    if (Array.isArray(parsed)) {
+      setMockResponses(parsed)
+      debugLog('LLM', `Mock script loaded: ${parsed.length} responses from ${scriptPath}`)
+    }
+  } catch (err) {
+    debugLog('LLM', `Failed to load mock script ${scriptPath}: ${err}`)
+  }
+}
+
+// Fixed answer per schema for the mock provider when no scripted response is queued
+const mockFixtures = new Map<z.ZodType, Record<string, unknown>>()
+
+/**
+ * Register the mock provider's fixed answer for a schema. Schemas without a
+ * fixture make the mock fail instead of inventing data that could be saved.
+ */
+export function setMockFixture<T extends Record<string, unknown>>(schema: z.ZodType<T>, fixture: T): void {
+  mockFixtures.set(schema, fixture)
+}
+
+function createMockProvider(): LLMProvider {
+  loadMockScript()
+
+  return {
+    type: 'mock',
+    model: 'mock',
+    async invokeStructured(schema) {
+      const next = mockResponses.shift() ?? mockFixtures.get(schema)
+      if (!next) {
+        throw new Error('Mock LLM: keine Antwort hinterlegt')
+      }
+      return schema.parse(next)
+    }
+  }
+}
+
+function createLangChainProvider(
+  type: LLMProviderType,
+  model: string,
+  chat: ChatOpenAI
+): LLMProvider {
+  return {
+    type,
+    model,
+    async invokeStructured<T extends Record<string, unknown>>(
+      schema: z.ZodType<T>,
+      messages: ChatMessage[]
+    ): Promise<T> {
+      const structured = chat.withStructuredOutput<T>(schema)
+      return await structured.invoke(messages)
+    }
+  }
+}
+
+// AZURE_OPENAI_API_KEY first: the stored key is usually the OpenAI key
+// (also used for Whisper) and must not be sent to an Azure endpoint
+async function getAzureApiKey(): Promise<string> {
+  return process.env.AZURE_OPENAI_API_KEY || (await getApiKey())
+}
+
+async function createProvider(purpose: LLMPurpose): Promise<LLMProvider> {
+  const settings = getConfig().settings
+  const type = settings.llmProvider || 'openai'
+
+  switch (type) {
+    case 'mock':
+      return createMockProvider()
+
+    case 'local': {
+      // OpenAI-compatible servers ignore the key, but the client requires one
+      const model = settings.llmModel || DEFAULT_LOCAL_MODEL
+      const baseURL = settings.llmBaseUrl || DEFAULT_LOCAL_BASE_URL
+      const chat = new ChatOpenAI({
+        model,
+        temperature: 0,
+        apiKey: 'local',
+        configuration: { baseURL }
+      })
+      return createLangChainProvider(type, model, chat)
+    }
+
+    case 'azure': {
+      const apiKey = await getAzureApiKey()
+      if (!apiKey) {
+        throw new Error('AZURE_OPENAI_API_KEY not found in environment or settings')
+      }
+      if (!settings.llmBaseUrl || !settings.llmModel) {
+        throw new Error('Azure OpenAI benötigt Endpoint und Deployment-Name')
+      }
+      const chat = new AzureChatOpenAI({
+        temperature: 0,
+        azureOpenAIApiKey: apiKey,
+        azureOpenAIEndpoint: settings.llmBaseUrl,
+        azureOpenAIApiDeploymentName: settings.llmModel,
+        azureOpenAIApiVersion: settings.llmApiVersion || DEFAULT_AZURE_API_VERSION
+      })
+      return createLangChainProvider(type, settings.llmModel, chat)
+    }
+
+    case 'openai':
+    default: {
+      const apiKey = await getApiKey()
+      if (!apiKey) {
+        throw new Error('OPENAI_API_KEY not found in settings or environment')
+      }
+      const model = settings.llmModel || process.env.OPENAI_MODEL || DEFAULT_OPENAI_MODELS[purpose]
+      const chat = new ChatOpenAI({
+        model,
+        temperature: 0,
+        apiKey
+      })
+      return createLangChainProvider('openai', model, chat)
+    }
+  }
+}
+
+/**
+ * Get the configured provider for a purpose (cached until settings change).
+ */
+export async function getLLMProvider(purpose: LLMPurpose = 'parse'): Promise<LLMProvider> {
+  const cached = providerCache.get(purpose)
+  if (cached) return cached
+
+  const provider = await createProvider(purpose)
+  providerCache.set(purpose, provider)
+  debugLog('LLM', `Provider: ${provider.type}, model: ${provider.model} (${purpose})`)
+  return provider
+}
+
+/**
+ * Drop cached providers so the next call picks up changed settings or API key.
+ */
+export function resetLLMProvider(): void {
+  providerCache.clear()
+}
+
+/**
+ * Check whether the configured provider can be used without further setup.
+ * Local and mock providers need no API key.
+ */
+export async function isLLMProviderConfigured(): Promise<boolean> {
+  const settings = getConfig().settings
+  switch (settings.llmProvider || 'openai') {
+    case 'mock':
+    case 'local':
+      return true
+    case 'azure':
+      return !!(await getAzureApiKey()) && !!settings.llmBaseUrl && !!settings.llmModel
+    default:
+      return !!(await getApiKey())
+  }
+}
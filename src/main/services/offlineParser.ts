@@ -0,0 +1,433 @@
+import { normalizeText } from './glossar'
+import type { Activity, Glossar, GlossarKategorie } from '@shared/types'
+
+/**
+ * Rule-based German activity parser.
+ * Used when no LLM is available (no API key, provider not configured) so the
+ * voice flow still produces an Activity instead of failing.
+ */
+
+export type OfflineParseOptions = {
+  clients?: string[]
+  themes?: string[]
+  glossar?: Glossar | null
+  today?: Date
+}
+
+// Fields found in a transcript - null means "not mentioned"
+export type ExtractedFields = {
+  auftraggeber: string | null
+  thema: string | null
+  minuten: number | null
+  km: number | null
+  auslagen: number | null
+  datum: string | null
+}
+
+const UNITS: Record<string, number> = {
+  null: 0, ein: 1, eine: 1, einer: 1, einen: 1, eins: 1, zwei: 2, zwo: 2, drei: 3, vier: 4,
+  fünf: 5, sechs: 6, sieben: 7, acht: 8, neun: 9
+}
+
+const TEENS: Record<string, number> = {
+  zehn: 10, elf: 11, zwölf: 12, dreizehn: 13, vierzehn: 14, fünfzehn: 15,
+  sechzehn: 16, siebzehn: 17, achtzehn: 18, neunzehn: 19
+}
+
+const TENS: Record<string, number> = {
+  zwanzig: 20, dreißig: 30, dreissig: 30, vierzig: 40, fünfzig: 50,
+  sechzig: 60, siebzig: 70, achtzig: 80, neunzig: 90
+}
+
+// Ordinal stems after stripping "-ten"/"-sten" that are not regular number words
+const ORDINAL_STEMS: Record<string, number> = { er: 1, ers: 1, drit: 3, sieb: 7, ach: 8 }
+
+const MONTHS: Record<string, number> = {
+  januar: 0, jänner: 0, februar: 1, märz: 2, maerz: 2, april: 3, mai: 4, juni: 5,
+  juli: 6, august: 7, september: 8, oktober: 9, november: 10, dezember: 11
+}
+
+const WEEKDAYS: Record<string, number> = {
+  sonntag: 0, montag: 1, dienstag: 2, mittwoch: 3, donnerstag: 4, freitag: 5, samstag: 6
+}
+
+// A number token: digits (with decimal comma) or a German number word
+const NUM = '(\\d+(?:[.,]\\d+)?|[a-zäöüß]+)'
+const MONTH_PATTERN = Object.keys(MONTHS).join('|')
+const WEEKDAY_PATTERN = Object.keys(WEEKDAYS).join('|')
+
+function parseSimpleNumber(word: string): number | null {
+  if (word in UNITS) return UNITS[word]
+  if (word in TEENS) return TEENS[word]
+  if (word in TENS) return TENS[word]
+  return null
+}
+
+/**
+ * Parse digits or a German number word ("zwei", "fünfundvierzig", "zweihundert").
+ */
+export function parseGermanNumber(token: string): number | null {
+  let word = token.toLowerCase().trim()
+  if (!word) return null
+
+  if (/^\d+([.,]\d+)?$/.test(word)) {
+    return parseFloat(word.replace(',', '.'))
+  }
+
+  let total = 0
+  const hundredIndex = word.indexOf('hundert')
+  if (hundredIndex >= 0) {
+    const prefix = word.slice(0, hundredIndex)
+    const hundreds = prefix ? parseSimpleNumber(prefix) : 1
+    if (hundreds === null) return null
+    total += hundreds * 100
+    word = word.slice(hundredIndex + 'hundert'.length)
+    if (!word) return total
+  }
+
+  // Compounds like "sechsundzwanzig"
+  const compound = word.match(/^([a-zäöüß]+)und([a-zäöüß]+)$/)
+  if (compound && compound[2] in TENS) {
+    const unit = parseSimpleNumber(compound[1])
+    if (unit === null || unit > 9) return null
+    return total + unit + TENS[compound[2]]
+  }
+
+  const simple = parseSimpleNumber(word)
+  return simple === null ? null : total + simple
+}
+
+function parseOrdinal(token: string): number | null {
+  const word = token.toLowerCase().replace(/\.$/, '')
+  if (/^\d+$/.test(word)) return parseInt(word, 10)
+
+  const stem = word.replace(/s?te[nmrs]?$/, '')
+  if (stem in ORDINAL_STEMS) return ORDINAL_STEMS[stem]
+  return parseGermanNumber(stem)
+}
+
+function toISODate(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+}
+
+function validDate(year: number, month: number, day: number): string | null {
+  const date = new Date(year, month, day)
+  if (date.getMonth() !== month || date.getDate() !== day) return null
+  return toISODate(date)
+}
+
+/**
+ * Extract duration in minutes ("halbe Stunde", "anderthalb Stunden", "90 Minuten").
+ * Multiple mentions are summed ("2 Stunden und 15 Minuten" = 135).
+ */
+export function extractMinuten(text: string): number | null {
+  let rest = text.toLowerCase()
+  let total = 0
+  let found = false
+
+  // groups[0] is the first capture group (the number), if the pattern has one
+  const take = (pattern: RegExp, toMinutes: (groups: string[]) => number | null): void => {
+    rest = rest.replace(pattern, (match: string, ...groups: string[]) => {
+      const minutes = toMinutes(groups)
+      if (minutes === null) return match
+      total += minutes
+      found = true
+      return ' '
+    })
+  }
+
+  take(/\banderthalb\s+stunden?\b/g, () => 90)
+  take(new RegExp(`\\b${NUM}einhalb\\s+stunden?\\b`, 'g'), (groups) => {
+    const n = parseGermanNumber(groups[0])
+    return n === null ? null : n * 60 + 30
+  })
+  take(new RegExp(`\\b${NUM}\\s+und\\s+eine(?:r)?\\s+halbe(?:n)?\\s+stunden?\\b`, 'g'), (groups) => {
+    const n = parseGermanNumber(groups[0])
+    return n === null ? null : n * 60 + 30
+  })
+  take(/\b(?:eine[rn]?\s+)?dreiviertel\s*stunde\b/g, () => 45)
+  take(/\b(?:eine[rn]?\s+)?halbe[nr]?\s+stunde\b/g, () => 30)
+  take(/\b(?:eine[rn]?\s+)?viertel\s*stunde\b/g, () => 15)
+  take(new RegExp(`\\b${NUM}\\s*(?:stunden?|std\\.?|h)(?![a-zäöüß])`, 'g'), (groups) => {
+    const n = parseGermanNumber(groups[0])
+    return n === null ? null : Math.round(n * 60)
+  })
+  take(new RegExp(`\\b${NUM}\\s*(?:minuten?|min\\.?)(?![a-zäöüß])`, 'g'), (groups) => {
+    const n = parseGermanNumber(groups[0])
+    return n === null ? null : Math.round(n)
+  })
+
+  return found ? total : null
+}
+
+function sumAmounts(text: string, unitPattern: string): number | null {
+  const pattern = new RegExp(`\\b${NUM}\\s*(?:${unitPattern})(?![a-zäöüß])`, 'g')
+  let total = 0
+  let found = false
+
+  for (const match of text.toLowerCase().matchAll(pattern)) {
+    const n = parseGermanNumber(match[1])
+    if (n === null) continue
+    total += n
+    found = true
+  }
+
+  return found ? Math.round(total * 100) / 100 : null
+}
+
+/**
+ * Extract driven kilometers ("120 km", "achtzig Kilometer").
+ */
+export function extractKm(text: string): number | null {
+  return sumAmounts(text, 'km|kilometer')
+}
+
+/**
+ * Extract expenses in Euro ("Hotel 89 Euro", "12,50 €").
+ */
+export function extractAuslagen(text: string): number | null {
+  return sumAmounts(text, 'euro|eur|€')
+}
+
+/**
+ * Extract a date relative to today ("gestern", "letzten Montag", "im November", "am 3. Dezember").
+ * Returns YYYY-MM-DD or null if no date is mentioned. Month-only mentions use the 15th.
+ */
+export function extractDatum(text: string, today: Date = new Date()): string | null {
+  const lower = text.toLowerCase()
+  const year = today.getFullYear()
+
+  // "am 03.12.2025" / "am 3.12."
+  const numeric = lower.match(/\b(\d{1,2})\.(\d{1,2})\.(\d{2,4})?/)
+  if (numeric) {
+    let y = numeric[3] ? parseInt(numeric[3], 10) : year
+    if (y < 100) y += 2000
+    const date = validDate(y, parseInt(numeric[2], 10) - 1, parseInt(numeric[1], 10))
+    if (date) return date
+  }
+
+  // "am 3. Dezember (2025)" / "am dritten Dezember"
+  const dayMonth = lower.match(new RegExp(`\\b(\\d{1,2}\\.?|[a-zäöüß]+)\\s+(${MONTH_PATTERN})\\b(?:\\s+(\\d{4}))?`))
+  if (dayMonth) {
+    const day = parseOrdinal(dayMonth[1])
+    if (day !== null && day >= 1 && day <= 31) {
+      const y = dayMonth[3] ? parseInt(dayMonth[3], 10) : year
+      const date = validDate(y, MONTHS[dayMonth[2]], day)
+      if (date) return date
+    }
+  }
+
+  // "im November", "für Dezember 2025"; a later month without year is last year's
+  const monthOnly = lower.match(new RegExp(`\\b(${MONTH_PATTERN})\\b(?:\\s+(\\d{4}))?`))
+  if (monthOnly) {
+    const month = MONTHS[monthOnly[1]]
+    const y = monthOnly[2] ? parseInt(monthOnly[2], 10) : month > today.getMonth() ? year - 1 : year
+    return validDate(y, month, 15)
+  }
+
+  if (/\b(letzte[nr]?|vorige[nr]?|vergangene[nr]?)\s+monat\b|\bvormonat\b/.test(lower)) {
+    return toISODate(new Date(year, today.getMonth() - 1, 15))
+  }
+
+  // "am 15." / "am fünfzehnten"
+  const dayOnly = lower.match(/\bam\s+(\d{1,2}\.|[a-zäöüß]+ten)(?![a-zäöüß\d])/)
+  if (dayOnly) {
+    const day = parseOrdinal(dayOnly[1])
+    if (day !== null && day >= 1 && day <= 31) {
+      const date = validDate(year, today.getMonth(), day)
+      if (date) return date
+    }
+  }
+
+  const offsetDays = (days: number): string => {
+    const d = new Date(today.getFullYear(), today.getMonth(), today.getDate() - days)
+    return toISODate(d)
+  }
+
+  if (/\bvorgestern\b/.test(lower)) return offsetDays(2)
+  if (/\bgestern\b/.test(lower)) return offsetDays(1)
+  if (/\bheute\b/.test(lower)) return offsetDays(0)
+
+  // "letzten Montag" = strictly before today, "am Montag" = most recent incl. today
+  const weekday = lower.match(new RegExp(`\\b(letzte[nr]?|vorige[nr]?|vergangene[nr]?)?\\s*(${WEEKDAY_PATTERN})\\b`))
+  if (weekday) {
+    const target = WEEKDAYS[weekday[2]]
+    let diff = (today.getDay() - target + 7) % 7
+    if (diff === 0 && weekday[1]) diff = 7
+    return offsetDays(diff)
+  }
+
+  return null
+}
+
+type TermMatch = { begriff: string; kategorie: GlossarKategorie | null }
+
+function findKategorie(glossar: Glossar, begriff: string): GlossarKategorie | null {
+  return glossar.eintraege.find(e => e.begriff === begriff)?.kategorie ?? null
+}
+
+/**
+ * Find known terms in the transcript (n-grams of up to 3 words) via glossar, clients and themes.
+ */
+function findKnownTerms(words: string[], options: OfflineParseOptions): Array<TermMatch & { index: number }> {
+  const clients = new Map((options.clients ?? []).map(c => [c.toLowerCase(), c]))
+  const themes = new Map((options.themes ?? []).map(t => [t.toLowerCase(), t]))
+  const matches: Array<TermMatch & { index: number }> = []
+
+  for (let i = 0; i < words.length; i++) {
+    for (let n = Math.min(3, words.length - i); n >= 1; n--) {
+      const ngram = words.slice(i, i + n).join(' ').toLowerCase()
+
+      const glossarHit = options.glossar?.lookupMap.get(ngram)
+      if (glossarHit) {
+        matches.push({ begriff: glossarHit, kategorie: findKategorie(options.glossar!, glossarHit), index: i })
+        break
+      }
+      if (clients.has(ngram)) {
+        matches.push({ begriff: clients.get(ngram)!, kategorie: 'Auftraggeber', index: i })
+        break
+      }
+      if (themes.has(ngram)) {
+        matches.push({ begriff: themes.get(ngram)!, kategorie: 'Thema', index: i })
+        break
+      }
+    }
+  }
+
+  return matches
+}
+
+function isClient(match: TermMatch, options: OfflineParseOptions): boolean {
+  if (match.kategorie === 'Auftraggeber') return true
+  return (options.clients ?? []).some(c => c.toLowerCase() === match.begriff.toLowerCase())
+}
+
+/**
+ * Extract all recognisable fields from a transcript. Unmentioned fields are null.
+ */
+export function extractFields(transcript: string, options: OfflineParseOptions = {}): ExtractedFields {
+  const words = transcript
+    .split(/\s+/)
+    .map(w => w.replace(/^[^\p{L}\d]+|[^\p{L}\d]+$/gu, ''))
+    .filter(w => w.length > 0)
+
+  const matches = findKnownTerms(words, options)
+  const auftraggeber = matches.find(m => isClient(m, options))?.begriff ?? null
+
+  // Explicit "Thema X" / "Thema ist X" wins over any other known term
+  let thema: string | null = null
+  const themaIndex = words.findIndex(w => w.toLowerCase() === 'thema')
+  if (themaIndex >= 0) {
+    let start = themaIndex + 1
+    if (['ist', 'war'].includes(words[start]?.toLowerCase() ?? '')) start++
+    const known = matches.find(m => m.index === start && !isClient(m, options))
+    if (known) {
+      thema = known.begriff
+    } else if (words[start]) {
+      thema = options.glossar ? normalizeText(words[start], options.glossar) : words[start]
+    }
+  }
+
+  if (!thema) {
+    thema = matches.find(m =>
+      (m.kategorie === 'Thema' || m.kategorie === 'Kunde') &&
+      !isClient(m, options) &&
+      m.begriff !== auftraggeber
+    )?.begriff ?? null
+  }
+
+  return {
+    auftraggeber,
+    thema,
+    minuten: extractMinuten(transcript),
+    km: extractKm(transcript),
+    auslagen: extractAuslagen(transcript),
+    datum: extractDatum(transcript, options.today)
+  }
+}
+
+/**
+ * Parse a transcript into an Activity without an LLM.
+ */
+export function parseActivityOffline(transcript: string, options: OfflineParseOptions = {}): Activity {
+  const fields = extractFields(transcript, options)
+
+  return {
+    auftraggeber: fields.auftraggeber,
+    thema: fields.thema,
+    beschreibung: transcript.trim(),
+    minuten: fields.minuten,
+    km: fields.km ?? 0,
+    auslagen: fields.auslagen ?? 0,
+    datum: fields.datum ?? toISODate(options.today ?? new Date())
+  }
+}
+
+// Words that start the next activity in a dictated day summary
+const ACTIVITY_SEPARATOR = /(?:[,;.]\s*|\s+)(?:und\s+)?(?:danach|anschließend|anschliessend|dann|außerdem|ausserdem|zusätzlich)\b[,:]?\s*/i
+
+/**
+ * Split a transcript into one activity per segment ("..., danach eine Stunde Lakowa").
+ * A date mentioned once applies to every segment that names none.
+ */
+export function parseActivitiesOffline(transcript: string, options: OfflineParseOptions = {}): Activity[] {
+  const segments = transcript
+    .split(ACTIVITY_SEPARATOR)
+    .map(s => s.trim())
+    .filter(s => s.length > 0)
+
+  if (segments.length <= 1) {
+    return [parseActivityOffline(transcript, options)]
+  }
+
+  const sharedDatum = extractDatum(transcript, options.today)
+  return segments.map(segment => {
+    const activity = parseActivityOffline(segment, options)
+    return extractDatum(segment, options.today) ? activity : { ...activity, datum: sharedDatum ?? activity.datum }
+  })
+}
+
+/**
+ * Fill only the missing fields of an activity from a follow-up answer.
+ */
+export function parseFollowUpOffline(
+  existingActivity: Activity,
+  userAnswer: string,
+  missingFields: string[],
+  options: OfflineParseOptions = {}
+): Activity {
+  const fields = extractFields(userAnswer, options)
+  const updated: Activity = { ...existingActivity }
+
+  for (const key of missingFields) {
+    if (key === 'auftraggeber' || key === 'thema') {
+      // A bare answer like "Hakobu" to "Welches Thema?" is the value itself
+      updated[key] = fields[key] ?? (key === 'thema' ? userAnswer.trim().replace(/[.!?]$/, '') || null : null)
+    } else if (key === 'minuten') {
+      updated.minuten = fields.minuten ?? existingActivity.minuten
+    }
+  }
+
+  return updated
+}
+
+/**
+ * Apply a spoken correction: every field found in the correction overwrites the existing value.
+ */
+export function parseCorrectionOffline(
+  existingActivity: Activity,
+  correctionTranscript: string,
+  options: OfflineParseOptions = {}
+): Activity {
+  const fields = extractFields(correctionTranscript, options)
+
+  return {
+    ...existingActivity,
+    auftraggeber: fields.auftraggeber ?? existingActivity.auftraggeber,
+    thema: fields.thema ?? existingActivity.thema,
+    minuten: fields.minuten ?? existingActivity.minuten,
+    km: fields.km ?? existingActivity.km,
+    auslagen: fields.auslagen ?? existingActivity.auslagen,
+    datum: fields.datum ?? existingActivity.datum
+  }
+}
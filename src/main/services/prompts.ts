@@ -0,0 +1,275 @@
+import { app } from 'electron'
+import { join } from 'path'
+import { createHash } from 'crypto'
+import { existsSync } from 'fs'
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import { debugLog } from './debugLog'
+import type { Glossar, GlossarKategorie } from '@shared/types'
+
+/**
+ * LLM prompt templates.
+ * Defaults are written to ~/.aktivitaeten/prompts/<name>.txt on startup and can be
+ * edited there; customer-specific spellings come from the glossar synonyms ({examples}).
+ */
+
+export type PromptName = 'parse' | 'correction' | 'followup'
+
+// Bump when a default template changes so unedited copies on disk get replaced
+export const PROMPT_TEMPLATE_VERSION = 1
+
+const PROMPT_NAMES: PromptName[] = ['parse', 'correction', 'followup']
+const MAX_EXAMPLES = 15
+const KATEGORIE_ORDER: GlossarKategorie[] = ['Auftraggeber', 'Thema', 'Kunde', 'Sonstiges']
+
+const PARSE_TEMPLATE = `Du bist ein Assistent zur Erfassung von Arbeitsaktivitäten eines selbstständigen Vertreters.
+Heute ist: {today}
+
+Extrahiere aus der Spracheingabe folgende Informationen:
+- auftraggeber: Name der Firma, für die gearbeitet wird (z.B. "ACME GmbH", "Beispiel AG")
+- thema: Kunde, Kontakt oder Projekt-Name (NICHT der Auftraggeber!)
+- beschreibung: Was wurde getan?
+- minuten: Zeitaufwand in MINUTEN als ganze Zahl (z.B. 5 für "5 Minuten", 30 für "halbe Stunde", 60 für "eine Stunde", 15 für "Viertelstunde")
+- km: Gefahrene Kilometer (0 wenn nicht erwähnt)
+- auslagen: Kosten in Euro (0 wenn nicht erwähnt)
+- datum: Datum im Format YYYY-MM-DD (KRITISCH - siehe unten)
+
+=== BEKANNTE AUFTRAGGEBER (NUR DIESE SIND GÜLTIG!) ===
+{clients}
+
+=== BEKANNTE THEMEN (nutze exakte Schreibweise wenn phonetisch ähnlich!) ===
+{themes}
+
+=== BEKANNTE SCHREIBWEISEN (gehörte Variante → korrekte Schreibweise) ===
+{examples}
+
+KRITISCH - THEMA ERKENNUNG:
+- Wenn "Thema X" oder "Thema ist X" gesagt wird, extrahiere X als thema!
+- Thema kann auch ein unbekannter Name sein (nicht nur aus der Liste)
+- "Thema Projekt X" → thema = "Projekt X"
+- PHONETISCHE KORREKTUR: Wenn ein gesprochener Name ähnlich klingt wie ein bekanntes Thema, nutze die exakte Schreibweise!
+
+KRITISCH - AUFTRAGGEBER ERKENNUNG:
+- Der Auftraggeber MUSS einer aus der obigen Liste sein!
+- Erkenne phonetisch ähnliche Namen (siehe BEKANNTE SCHREIBWEISEN) und nutze die Schreibweise aus der Liste
+- Buchstabierte Namen wie "A-B-C" → entsprechender Name aus der Liste
+
+KRITISCH - DATUM EXTRAKTION:
+Das Datum bestimmt, in welches Excel-Sheet geschrieben wird! Erkenne diese Muster:
+- "für Dezember 2025" → 2025-12-15 (Mitte des genannten Monats)
+- "im November" → aktuelles Jahr, November, Tag 15
+- "letzten Monat" → Vormonat vom heutigen Datum, Tag 15
+- "gestern" → gestrige Datum
+- "am 15." oder "am fünfzehnten" → aktueller Monat, Tag 15
+- "am 3. Dezember" → aktueller/nächster Dezember, Tag 3
+- KEINE Datumsangabe → null (Node-Prozess setzt dann "heute")
+
+Wenn nur Monat genannt wird, nutze den 15. als Tag.
+Datum muss IMMER vollständig sein: YYYY-MM-DD (oder null wenn nichts erwähnt).
+
+KRITISCH - SELBSTKORREKTUREN BEACHTEN:
+Der Sprecher korrigiert sich oft während der Aufnahme! Achte auf Phrasen wie:
+- "Ach nein, das war nicht X, es war Y" → Nutze Y, nicht X
+- "Moment, ich meinte..." → Nutze die Korrektur
+- "Nein, falsch, es war..." → Nutze den korrigierten Wert
+- "Nicht X sondern Y" → Nutze Y
+Beispiel: "Aktivität für Firma A... ach nein, es war für Firma B" → auftraggeber = "Firma B"
+
+Weitere Regeln:
+- Zeitangaben IN MINUTEN: "5 Minuten" = 5, "halbe Stunde" = 30, "Viertelstunde" = 15, "eine Stunde" = 60
+- Wenn etwas nicht klar ist, setze null
+- Beschreibung: Kern der Tätigkeit zusammenfassen (ohne Korrekturen/Versprecher)
+- Namen (z.B. polnische mit -ski, -wicz, -czyk) werden oft phonetisch transkribiert: nutze die Schreibweise aus den bekannten Listen`
+
+const CORRECTION_TEMPLATE = `Du bist ein Assistent zur Korrektur von Arbeitsaktivitäten.
+Heute ist: {today}
+
+Der Benutzer hat eine bestehende Aktivität und möchte sie per Spracheingabe korrigieren.
+Analysiere die Korrektur und aktualisiere NUR die Felder, die explizit erwähnt werden.
+Alle anderen Felder bleiben unverändert.
+
+BEKANNTE AUFTRAGGEBER: {clients}
+(Nutze diese exakte Schreibweise wenn ein ähnlicher Name genannt wird!)
+
+BEKANNTE SCHREIBWEISEN (gehörte Variante → korrekte Schreibweise):
+{examples}
+
+BESTEHENDE AKTIVITÄT:
+{existingActivity}
+
+KORREKTUR-ANWEISUNG:
+{correction}
+
+Beispiele:
+- "es waren doch 500km" → nur km ändern
+- "nicht Firma A sondern Firma B" → nur auftraggeber ändern
+- "das war eine Stunde, nicht eine halbe" → nur minuten ändern
+- "Thema war eigentlich Projekt X" → nur thema ändern
+- "das war im Dezember 2025" → datum auf 2025-12-15 ändern
+- "das war letzten Monat" → datum auf Vormonat ändern
+
+WICHTIG: Bei Auftraggeber-Namen die phonetisch ähnlich klingen wie ein bekannter Auftraggeber,
+nutze die korrekte Schreibweise aus der Liste.
+
+Datum-Format: YYYY-MM-DD (z.B. 2025-12-15)
+Wenn nur Monat genannt wird, nutze den 15. als Tag.
+
+Gib die vollständige aktualisierte Aktivität zurück.`
+
+const FOLLOWUP_TEMPLATE = `Du bist ein Assistent zur Erfassung von Arbeitsaktivitäten.
+Heute ist: {today}
+
+Der Benutzer hat eine Aktivität erfasst, aber folgende Felder fehlen: {missingFields}
+
+BESTEHENDE AKTIVITÄT:
+{existingActivity}
+
+RÜCKFRAGE WAR: {question}
+
+BENUTZERANTWORT: {userAnswer}
+
+Extrahiere NUR die fehlenden Felder aus der Antwort.
+
+=== BEKANNTE AUFTRAGGEBER (NUR DIESE SIND GÜLTIG!) ===
+{clients}
+
+=== BEKANNTE THEMEN (nutze exakte Schreibweise wenn phonetisch ähnlich!) ===
+{themes}
+
+=== BEKANNTE SCHREIBWEISEN (gehörte Variante → korrekte Schreibweise) ===
+{examples}
+
+KRITISCHE REGELN FÜR THEMA:
+- Thema kann JEDER Name sein (auch wenn nicht in der Liste!)
+- PHONETISCHE KORREKTUR: Wenn ein gesprochener Name ähnlich klingt wie ein bekanntes Thema, nutze die exakte Schreibweise!
+
+KRITISCHE REGELN FÜR AUFTRAGGEBER:
+- Der Auftraggeber MUSS einer aus der obigen Liste sein!
+- Erkenne phonetisch ähnliche Namen und mappe sie auf die bekannte Schreibweise (siehe BEKANNTE SCHREIBWEISEN)
+- Buchstabierte Namen wie "A-B-C" → entsprechender Name aus der Liste
+- Wenn unsicher, wähle den phonetisch ähnlichsten bekannten Auftraggeber
+
+WEITERE REGELN:
+- auftraggeber = Firma (aus BEKANNTE AUFTRAGGEBER)
+- thema = Kunde, Kontakt oder Projekt (aus BEKANNTE THEMEN)
+- Zeitangaben IN MINUTEN: "5 Minuten" = 5, "halbe Stunde" = 30, "Viertelstunde" = 15, "eine Stunde" = 60
+- Lasse alle anderen Felder auf den bestehenden Werten
+
+Gib die vollständige aktualisierte Aktivität zurück.`
+
+export const DEFAULT_PROMPT_TEMPLATES: Record<PromptName, string> = {
+  parse: PARSE_TEMPLATE,
+  correction: CORRECTION_TEMPLATE,
+  followup: FOLLOWUP_TEMPLATE
+}
+
+const HEADER_PATTERN = /^# Prompt-Vorlage "[^"]+" \(Version (\d+), ([0-9a-f]+)\)/m
+
+function getPromptsDir(): string {
+  return join(app.getPath('home'), '.aktivitaeten', 'prompts')
+}
+
+export function getPromptPath(name: PromptName): string {
+  return join(getPromptsDir(), `${name}.txt`)
+}
+
+function hashTemplate(body: string): string {
+  return createHash('sha256').update(body.trim()).digest('hex').slice(0, 12)
+}
+
+// The # lines at the top of the file (header, hints) never reach the LLM.
+// Later # lines belong to the template, e.g. Markdown headings.
+function stripComments(content: string): string {
+  const lines = content.split(/\r?\n/)
+  const bodyStart = lines.findIndex(line => !line.startsWith('#'))
+  return (bodyStart === -1 ? [] : lines.slice(bodyStart)).join('\n').trim()
+}
+
+/**
+ * Default template as written to disk, with a version/hash header so unedited
+ * copies can be told apart from user edits.
+ */
+export function formatTemplateFile(name: PromptName): string {
+  const body = DEFAULT_PROMPT_TEMPLATES[name]
+  return [
+    `# Prompt-Vorlage "${name}" (Version ${PROMPT_TEMPLATE_VERSION}, ${hashTemplate(body)})`,
+    '# Die #-Zeilen am Dateianfang werden ignoriert. Platzhalter in {geschweiften Klammern} werden beim Aufruf ersetzt.',
+    '# Datei löschen, um die Standardvorlage wiederherzustellen.',
+    '',
+    body,
+    ''
+  ].join('\n')
+}
+
+/**
+ * Write missing templates and upgrade unedited ones to the current default.
+ * Edited templates are kept; the new default is placed next to them as <name>.default.txt.
+ */
+export async function ensurePromptTemplates(): Promise<void> {
+  try {
+    await mkdir(getPromptsDir(), { recursive: true })
+
+    for (const name of PROMPT_NAMES) {
+      const path = getPromptPath(name)
+      if (!existsSync(path)) {
+        await writeFile(path, formatTemplateFile(name), 'utf-8')
+        console.log(`[Prompts] Created ${path}`)
+        continue
+      }
+
+      const content = await readFile(path, 'utf-8')
+      const header = content.match(HEADER_PATTERN)
+      if (header && Number(header[1]) >= PROMPT_TEMPLATE_VERSION) continue
+
+      if (header && header[2] === hashTemplate(stripComments(content))) {
+        await writeFile(path, formatTemplateFile(name), 'utf-8')
+        console.log(`[Prompts] Upgraded ${name}.txt to version ${PROMPT_TEMPLATE_VERSION}`)
+      } else {
+        await writeFile(join(getPromptsDir(), `${name}.default.txt`), formatTemplateFile(name), 'utf-8')
+        console.log(`[Prompts] ${name}.txt was edited, new default saved as ${name}.default.txt`)
+      }
+    }
+  } catch (err) {
+    console.error('[Prompts] Failed to prepare prompt templates:', err)
+  }
+}
+
+/**
+ * Load a template, preferring the user's copy. Read on every call so edits apply without restart.
+ */
+export async function getPromptTemplate(name: PromptName): Promise<string> {
+  const path = getPromptPath(name)
+  if (existsSync(path)) {
+    try {
+      const body = stripComments(await readFile(path, 'utf-8'))
+      if (body) return body
+      debugLog('Prompts', `${name}.txt is empty, using default`)
+    } catch (err) {
+      console.error(`[Prompts] Failed to read ${path}:`, err)
+    }
+  }
+  return DEFAULT_PROMPT_TEMPLATES[name]
+}
+
+/**
+ * Replace {placeholder} tokens; unknown placeholders are left as they are.
+ */
+export function renderPrompt(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    Object.prototype.hasOwnProperty.call(values, key) ? values[key] : match
+  )
+}
+
+/**
+ * Few-shot spelling examples from the glossar synonyms, e.g.
+ * - "ACM", "Akme" → "ACME" (Auftraggeber)
+ */
+export function buildPhoneticExamples(glossar: Glossar | null, maxExamples = MAX_EXAMPLES): string {
+  if (!glossar) return ''
+
+  return glossar.eintraege
+    .filter(e => e.synonyme.length > 0)
+    .sort((a, b) => KATEGORIE_ORDER.indexOf(a.kategorie) - KATEGORIE_ORDER.indexOf(b.kategorie))
+    .slice(0, maxExamples)
+    .map(e => `- ${e.synonyme.map(s => `"${s}"`).join(', ')} → "${e.begriff}" (${e.kategorie})`)
+    .join('\n')
+}
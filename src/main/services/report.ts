@@ -0,0 +1,211 @@
+import { BrowserWindow } from 'electron'
+import { mkdir, writeFile } from 'fs/promises'
+import { dirname, join } from 'path'
+import { readMonthActivities } from './excel'
+import type { XlsxFileConfig } from './config'
+import type { MonthlyReport, ReportRates } from '@shared/types'
+
+/**
+ * Monthly reports per Auftraggeber: booked rows of one month with totals,
+ * optionally priced with hourly and km rates, exported as CSV and PDF into
+ * a "reports" folder next to the workbook.
+ */
+
+const MONTH_NAMES = [
+  'Januar', 'Februar', 'März', 'April', 'Mai', 'Juni',
+  'Juli', 'August', 'September', 'Oktober', 'November', 'Dezember'
+]
+
+// Characters not allowed in Windows file names
+const INVALID_FILENAME_CHARS = /[\\/:*?"<>|]/g
+
+// Round to cents / hundredths to avoid floating point noise in totals
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function sum(values: number[]): number {
+  return round2(values.reduce((total, value) => total + value, 0))
+}
+
+/**
+ * Collect the booked rows of a month (1-12) and calculate the totals.
+ * Amounts are null when the corresponding rate is not set. A file that
+ * cannot be read throws instead of giving an empty report.
+ */
+export async function buildMonthlyReport(
+  file: XlsxFileConfig,
+  month: number,
+  rates: ReportRates = {}
+): Promise<MonthlyReport> {
+  const rows = await readMonthActivities(file, month)
+
+  const totalHours = sum(rows.map((row) => row.zeit ?? 0))
+  const totalKm = sum(rows.map((row) => row.km))
+  const totalAuslagen = sum(rows.map((row) => row.hotel))
+
+  const hoursAmount = rates.hourlyRate !== undefined ? round2(totalHours * rates.hourlyRate) : null
+  const kmAmount = rates.kmRate !== undefined ? round2(totalKm * rates.kmRate) : null
+  const totalAmount = hoursAmount === null && kmAmount === null
+    ? null
+    : round2((hoursAmount ?? 0) + (kmAmount ?? 0) + totalAuslagen)
+
+  return {
+    auftraggeber: file.auftraggeber,
+    jahr: file.jahr,
+    month,
+    rows,
+    totalHours,
+    totalKm,
+    totalAuslagen,
+    hoursAmount,
+    kmAmount,
+    totalAmount
+  }
+}
+
+// German number format with decimal comma, no thousands separator (Excel-friendly)
+function formatNumber(value: number): string {
+  return value.toFixed(2).replace('.', ',')
+}
+
+function formatDate(datum: string): string {
+  const [year, month, day] = datum.split('-')
+  return `${day}.${month}.${year}`
+}
+
+function csvField(value: string): string {
+  return /[";\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/**
+ * CSV for German Excel: semicolon separated, decimal comma, UTF-8 with BOM.
+ */
+export function formatReportCsv(report: MonthlyReport): string {
+  const lines = [['Datum', 'Thema', 'Tätigkeit', 'Stunden', 'km', 'Auslagen'].join(';')]
+
+  for (const row of report.rows) {
+    lines.push([
+      formatDate(row.datum),
+      csvField(row.thema),
+      csvField(row.taetigkeit),
+      formatNumber(row.zeit ?? 0),
+      formatNumber(row.km),
+      formatNumber(row.hotel)
+    ].join(';'))
+  }
+
+  lines.push(['Summe', '', '', formatNumber(report.totalHours), formatNumber(report.totalKm), formatNumber(report.totalAuslagen)].join(';'))
+  if (report.hoursAmount !== null) lines.push(`Honorar;;;${formatNumber(report.hoursAmount)} €;;`)
+  if (report.kmAmount !== null) lines.push(`Fahrtkosten;;;;${formatNumber(report.kmAmount)} €;`)
+  if (report.totalAmount !== null) lines.push(`Gesamt;;;;;${formatNumber(report.totalAmount)} €`)
+
+  return '\uFEFF' + lines.join('\r\n') + '\r\n'
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * Printable HTML page used as PDF source.
+ */
+export function formatReportHtml(report: MonthlyReport): string {
+  const title = `${escapeHtml(report.auftraggeber)} – ${MONTH_NAMES[report.month - 1]} ${report.jahr}`
+  const rows = report.rows.map((row) => `
+      <tr>
+        <td>${formatDate(row.datum)}</td>
+        <td>${escapeHtml(row.thema)}</td>
+        <td>${escapeHtml(row.taetigkeit)}</td>
+        <td class="num">${formatNumber(row.zeit ?? 0)}</td>
+        <td class="num">${formatNumber(row.km)}</td>
+        <td class="num">${formatNumber(row.hotel)}</td>
+      </tr>`).join('')
+
+  const amounts: string[] = []
+  if (report.hoursAmount !== null) amounts.push(`<tr><td>Honorar</td><td class="num">${formatNumber(report.hoursAmount)} €</td></tr>`)
+  if (report.kmAmount !== null) amounts.push(`<tr><td>Fahrtkosten</td><td class="num">${formatNumber(report.kmAmount)} €</td></tr>`)
+  if (report.totalAmount !== null) {
+    amounts.push(`<tr><td>Auslagen</td><td class="num">${formatNumber(report.totalAuslagen)} €</td></tr>`)
+    amounts.push(`<tr class="total"><td>Gesamt</td><td class="num">${formatNumber(report.totalAmount)} €</td></tr>`)
+  }
+
+  return `<!DOCTYPE html>
+<html lang="de">
+<head>
+  <meta charset="utf-8">
+  <title>Monatsbericht ${title}</title>
+  <style>
+    body { font-family: sans-serif; font-size: 10pt; margin: 0; }
+    h1 { font-size: 14pt; }
+    table { border-collapse: collapse; width: 100%; margin-bottom: 16px; }
+    th, td { border-bottom: 1px solid #ccc; padding: 4px 6px; text-align: left; vertical-align: top; }
+    .num { text-align: right; white-space: nowrap; }
+    .total td { font-weight: bold; border-top: 2px solid #333; }
+    .amounts { width: auto; margin-left: auto; }
+  </style>
+</head>
+<body>
+  <h1>Monatsbericht ${title}</h1>
+  <table>
+    <thead>
+      <tr><th>Datum</th><th>Thema</th><th>Tätigkeit</th><th class="num">Stunden</th><th class="num">km</th><th class="num">Auslagen</th></tr>
+    </thead>
+    <tbody>${rows}
+      <tr class="total">
+        <td>Summe</td><td></td><td></td>
+        <td class="num">${formatNumber(report.totalHours)}</td>
+        <td class="num">${formatNumber(report.totalKm)}</td>
+        <td class="num">${formatNumber(report.totalAuslagen)}</td>
+      </tr>
+    </tbody>
+  </table>
+  ${amounts.length > 0 ? `<table class="amounts">${amounts.join('')}</table>` : ''}
+</body>
+</html>`
+}
+
+// Render HTML in a hidden window and print it to an A4 PDF
+async function renderPdf(html: string): Promise<Buffer> {
+  const window = new BrowserWindow({ show: false, webPreferences: { javascript: false } })
+  try {
+    await window.loadURL('data:text/html;charset=utf-8,' + encodeURIComponent(html))
+    return await window.webContents.printToPDF({ pageSize: 'A4', printBackground: true })
+  } finally {
+    window.destroy()
+  }
+}
+
+/**
+ * Reports folder and base file name, e.g. "<dir>/reports/Bericht ACME 2026-03".
+ */
+export function getReportBasePath(file: XlsxFileConfig, month: number): string {
+  const name = file.auftraggeber.replace(INVALID_FILENAME_CHARS, '').trim()
+  return join(dirname(file.path), 'reports', `Bericht ${name} ${file.jahr}-${String(month).padStart(2, '0')}`)
+}
+
+/**
+ * Build the monthly report and write it as CSV and PDF. Existing reports of
+ * the same month are overwritten.
+ */
+export async function createMonthlyReport(
+  file: XlsxFileConfig,
+  month: number,
+  rates: ReportRates = {}
+): Promise<{ pdfPath: string; csvPath: string }> {
+  const report = await buildMonthlyReport(file, month, rates)
+  const basePath = getReportBasePath(file, month)
+  const csvPath = `${basePath}.csv`
+  const pdfPath = `${basePath}.pdf`
+
+  await mkdir(dirname(basePath), { recursive: true })
+  await writeFile(csvPath, formatReportCsv(report), 'utf-8')
+  await writeFile(pdfPath, await renderPdf(formatReportHtml(report)))
+
+  console.log(`[Report] Created ${pdfPath} (${report.rows.length} rows, ${report.totalHours} h)`)
+  return { pdfPath, csvPath }
+}
@@ -0,0 +1,149 @@
+import type { Workbook, Sheet } from './workbook'
+import type { LayoutColumns, SheetLayout, SheetNaming, TimeFormat } from '@shared/types'
+
+// Re-export types for consumers
+export type { LayoutColumns, SheetLayout, SheetNaming, TimeFormat }
+
+/**
+ * Sheet layout of a Leistungsverzeichnis: month sheet names, data columns,
+ * header row and Zeit format. Files without a configured layout are detected
+ * from their header cells, falling back to the original template.
+ */
+
+// Original template: Januar…Dezember, A=Datum … F=Hotel, headers in row 7, Zeit as [h]:mm
+export const DEFAULT_SHEET_LAYOUT: SheetLayout = {
+  sheetNaming: 'monthName',
+  columns: { datum: 'A', thema: 'B', taetigkeit: 'C', zeit: 'D', km: 'E', hotel: 'F' },
+  headerRow: 7,
+  timeFormat: 'dayFraction'
+}
+
+const MONTH_NAMES = [
+  'Januar', 'Februar', 'März', 'April', 'Mai', 'Juni',
+  'Juli', 'August', 'September', 'Oktober', 'November', 'Dezember'
+]
+
+const SHEET_NAMINGS: SheetNaming[] = ['monthName', 'monthShort', 'monthNumber']
+
+// Header detection only looks at the top-left area of a sheet
+const MAX_HEADER_ROW = 20
+const MAX_HEADER_COLUMN = 26
+
+// Header labels per field, matched against the lower-cased cell text
+const HEADER_PATTERNS: Record<keyof LayoutColumns, RegExp> = {
+  datum: /^(datum|date|tag)\b/,
+  thema: /^(thema|projekt|betreff)/,
+  taetigkeit: /^(tätigkeit|taetigkeit|beschreibung|leistung)/,
+  zeit: /^(zeit|stunden|std|dauer|minuten|aufwand)/,
+  km: /^(km|kilometer|fahrt)/,
+  hotel: /^(hotel|auslagen|spesen)/
+}
+
+/**
+ * Sheet name for a month (0-11) in the given naming scheme.
+ */
+export function getSheetName(naming: SheetNaming, month: number): string {
+  switch (naming) {
+    case 'monthShort':
+      return MONTH_NAMES[month].slice(0, 3)
+    case 'monthNumber':
+      return String(month + 1).padStart(2, '0')
+    default:
+      return MONTH_NAMES[month]
+  }
+}
+
+/**
+ * Convert hours into the value stored in the Zeit column.
+ */
+export function toCellTime(hours: number, format: TimeFormat): number {
+  if (format === 'minutes') return hours * 60
+  if (format === 'hours') return hours
+  return hours / 24
+}
+
+/**
+ * Convert a Zeit cell value back into hours.
+ */
+export function fromCellTime(value: number, format: TimeFormat): number {
+  if (format === 'minutes') return value / 60
+  if (format === 'hours') return value
+  return value * 24
+}
+
+function columnLetter(index: number): string {
+  return String.fromCharCode(64 + index) // 1 = A
+}
+
+function detectSheetNaming(workbook: Workbook): SheetNaming | null {
+  for (const naming of SHEET_NAMINGS) {
+    for (let month = 0; month < 12; month++) {
+      if (workbook.sheet(getSheetName(naming, month))) return naming
+    }
+  }
+  return null
+}
+
+// A time number format ([h]:mm) wins over the header label; "Zeit" alone means [h]:mm
+function detectTimeFormat(header: string, numberFormat: unknown): TimeFormat {
+  if (typeof numberFormat === 'string' && /h.*:|:.*m/i.test(numberFormat)) return 'dayFraction'
+  if (/min/.test(header)) return 'minutes'
+  if (/stunden|std|\(h\)/.test(header)) return 'hours'
+  return 'dayFraction'
+}
+
+function detectHeaderRow(sheet: Sheet): Omit<SheetLayout, 'sheetNaming'> | null {
+  for (let row = 1; row <= MAX_HEADER_ROW; row++) {
+    const columns: Partial<LayoutColumns> = {}
+    let zeitHeader = ''
+
+    for (let col = 1; col <= MAX_HEADER_COLUMN; col++) {
+      const value = sheet.cell(`${columnLetter(col)}${row}`).value()
+      if (typeof value !== 'string') continue
+      const header = value.trim().toLowerCase()
+
+      for (const [field, pattern] of Object.entries(HEADER_PATTERNS) as Array<[keyof LayoutColumns, RegExp]>) {
+        if (!columns[field] && pattern.test(header)) {
+          columns[field] = columnLetter(col)
+          if (field === 'zeit') zeitHeader = header
+          break
+        }
+      }
+    }
+
+    if (columns.datum && columns.thema && columns.taetigkeit && columns.zeit) {
+      const numberFormat = sheet.cell(`${columns.zeit}${row + 1}`).style('numberFormat')
+      return {
+        columns: columns as LayoutColumns,
+        headerRow: row,
+        timeFormat: detectTimeFormat(zeitHeader, numberFormat)
+      }
+    }
+  }
+  return null
+}
+
+/**
+ * Detect the layout from sheet names and the header cells of the first month sheet.
+ * Returns null if no month sheet or no header row with Datum, Thema, Tätigkeit and Zeit is found.
+ */
+export function detectSheetLayout(workbook: Workbook): SheetLayout | null {
+  const sheetNaming = detectSheetNaming(workbook)
+  if (!sheetNaming) return null
+
+  for (let month = 0; month < 12; month++) {
+    const sheet = workbook.sheet(getSheetName(sheetNaming, month))
+    if (!sheet) continue
+
+    const header = detectHeaderRow(sheet)
+    return header ? { sheetNaming, ...header } : null
+  }
+  return null
+}
+
+/**
+ * Configured layout, otherwise the detected one, otherwise the original template.
+ */
+export function resolveSheetLayout(workbook: Workbook, configured?: SheetLayout): SheetLayout {
+  return configured ?? detectSheetLayout(workbook) ?? DEFAULT_SHEET_LAYOUT
+}
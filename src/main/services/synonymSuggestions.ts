@@ -0,0 +1,129 @@
+import { app } from 'electron'
+import { join, dirname } from 'path'
+import { randomUUID } from 'crypto'
+import { mkdir, readFile, rename, writeFile } from 'fs/promises'
+import type { Activity, GlossarKategorie, SynonymSuggestion, SynonymSuggestionStatus } from '@shared/types'
+
+/**
+ * Learns Glossar synonyms from corrections: every change of Auftraggeber or
+ * Thema between the recognised and the saved value is counted per file in
+ * ~/.aktivitaeten/synonym-suggestions.json. Once the same correction was made
+ * synonymThreshold times it becomes a pending suggestion.
+ */
+
+const SUGGESTIONS_FILE = join(app.getPath('home'), '.aktivitaeten', 'synonym-suggestions.json')
+
+const LEARNED_FIELDS: Array<{ field: 'auftraggeber' | 'thema'; kategorie: GlossarKategorie }> = [
+  { field: 'auftraggeber', kategorie: 'Auftraggeber' },
+  { field: 'thema', kategorie: 'Thema' }
+]
+
+// Load-modify-save runs one at a time, so parallel saves don't lose counts
+let queue: Promise<unknown> = Promise.resolve()
+
+function serialized<T>(task: () => Promise<T>): Promise<T> {
+  const result = queue.then(task)
+  queue = result.catch(() => undefined)
+  return result
+}
+
+function sameTerm(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase()
+}
+
+async function readSuggestions(): Promise<SynonymSuggestion[]> {
+  try {
+    return JSON.parse(await readFile(SUGGESTIONS_FILE, 'utf-8')) as SynonymSuggestion[]
+  } catch {
+    return [] // Nothing learned yet
+  }
+}
+
+async function writeSuggestions(suggestions: SynonymSuggestion[]): Promise<void> {
+  await mkdir(dirname(SUGGESTIONS_FILE), { recursive: true })
+  const tempPath = `${SUGGESTIONS_FILE}.tmp`
+  await writeFile(tempPath, JSON.stringify(suggestions, null, 2), 'utf-8')
+  await rename(tempPath, SUGGESTIONS_FILE)
+}
+
+/**
+ * Count the Auftraggeber/Thema corrections between two versions of an activity.
+ * Returns the suggestions that reached the threshold with this call.
+ */
+export function recordCorrections(
+  filePath: string,
+  before: Activity,
+  after: Activity,
+  threshold: number
+): Promise<SynonymSuggestion[]> {
+  const corrections = LEARNED_FIELDS.flatMap(({ field, kategorie }) => {
+    const synonym = before[field]?.trim()
+    const begriff = after[field]?.trim()
+    return synonym && begriff && !sameTerm(synonym, begriff) ? [{ kategorie, synonym, begriff }] : []
+  })
+  if (corrections.length === 0) {
+    return Promise.resolve([])
+  }
+
+  return serialized(async () => {
+    const suggestions = await readSuggestions()
+    const ready: SynonymSuggestion[] = []
+    const now = new Date().toISOString()
+
+    for (const correction of corrections) {
+      let suggestion = suggestions.find(s =>
+        s.filePath === filePath &&
+        s.kategorie === correction.kategorie &&
+        sameTerm(s.synonym, correction.synonym) &&
+        sameTerm(s.begriff, correction.begriff)
+      )
+      if (!suggestion) {
+        suggestion = { id: randomUUID(), filePath, ...correction, count: 0, status: 'collecting', lastSeen: now }
+        suggestions.push(suggestion)
+      }
+
+      suggestion.count++
+      suggestion.lastSeen = now
+      if (suggestion.status === 'collecting' && suggestion.count >= threshold) {
+        suggestion.status = 'pending'
+        ready.push({ ...suggestion })
+      }
+    }
+
+    await writeSuggestions(suggestions)
+    return ready
+  })
+}
+
+/**
+ * Suggestions waiting for approval, most recent first.
+ */
+export async function getPendingSuggestions(): Promise<SynonymSuggestion[]> {
+  const suggestions = await readSuggestions()
+  return suggestions
+    .filter(s => s.status === 'pending')
+    .sort((a, b) => b.lastSeen.localeCompare(a.lastSeen))
+}
+
+export async function findSuggestion(id: string): Promise<SynonymSuggestion | null> {
+  return (await readSuggestions()).find(s => s.id === id) ?? null
+}
+
+/**
+ * Mark a suggestion as accepted or rejected. Rejected corrections are still
+ * counted but never proposed again.
+ */
+export function setSuggestionStatus(
+  id: string,
+  status: SynonymSuggestionStatus
+): Promise<SynonymSuggestion | null> {
+  return serialized(async () => {
+    const suggestions = await readSuggestions()
+    const suggestion = suggestions.find(s => s.id === id)
+    if (!suggestion) return null
+
+    suggestion.status = status
+    await writeSuggestions(suggestions)
+    return suggestion
+  })
+}
@@ -0,0 +1,63 @@
+import type { SavedRowRef } from '@shared/types'
+
+/**
+ * In-memory undo stack of rows written by excel:saveActivity, newest last.
+ * Later corrections and deletions are applied to the stack, so an undo always
+ * targets the row as it is now (or nothing, if it is gone).
+ */
+
+const MAX_ENTRIES = 50
+
+type RowPosition = Pick<SavedRowRef, 'filePath' | 'sheet' | 'row'>
+
+let stack: SavedRowRef[] = []
+
+function samePosition(a: RowPosition, b: RowPosition): boolean {
+  return a.filePath === b.filePath && a.sheet === b.sheet && a.row === b.row
+}
+
+/**
+ * Remember a newly written row.
+ */
+export function recordSave(savedRow: SavedRowRef): void {
+  stack.push(savedRow)
+  if (stack.length > MAX_ENTRIES) {
+    stack = stack.slice(-MAX_ENTRIES)
+  }
+}
+
+/**
+ * Remove and return the most recently written row.
+ */
+export function takeLastSave(): SavedRowRef | undefined {
+  return stack.pop()
+}
+
+/**
+ * A row was rewritten (next) or removed (no next). If it left its sheet,
+ * rows below its old position moved up by one.
+ */
+export function relocateSave(previous: RowPosition, next?: SavedRowRef): void {
+  const leftSheet = !next || next.filePath !== previous.filePath || next.sheet !== previous.sheet
+
+  stack = stack.flatMap((entry) => {
+    if (samePosition(entry, previous)) {
+      return next ? [next] : []
+    }
+    if (leftSheet && entry.filePath === previous.filePath && entry.sheet === previous.sheet && entry.row > previous.row) {
+      return [{ ...entry, row: entry.row - 1 }]
+    }
+    return [entry]
+  })
+}
+
+/**
+ * Current stack, oldest first (for tests and diagnostics).
+ */
+export function getUndoStack(): SavedRowRef[] {
+  return [...stack]
+}
+
+export function clearUndoStack(): void {
+  stack = []
+}
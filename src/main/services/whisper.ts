@@ -1,9 +1,23 @@
 import OpenAI from 'openai'
-import { getApiKey } from './config'
+import { getApiKey, getConfig } from './config'
+import { debugLog } from './debugLog'
+import {
+  ensureModel,
+  isLocalWhisperAvailable,
+  transcribeLocal,
+  type WhisperProgressCallback
+} from './whisperLocal'
+import type { WhisperMode } from '@shared/types'
 
 let openaiClient: OpenAI | null = null
 
-export type WhisperMode = 'cloud' | 'none'
+export type { WhisperMode, WhisperProgressCallback }
+
+export type TranscribeOptions = {
+  onProgress?: WhisperProgressCallback
+  // Glossar terms to bias recognition of names ("Hakobu", "Krzysztof")
+  vocabulary?: string[]
+}
 
 export interface TranscriptionResult {
   text: string
@@ -25,10 +39,15 @@ async function initOpenAI(): Promise<OpenAI | null> {
   return openaiClient
 }
 
-export async function transcribe(
-  _audioData: Float32Array | ArrayBuffer,
-  originalBlob?: ArrayBuffer
-): Promise<TranscriptionResult> {
+/**
+ * Turn glossar terms into a Whisper prompt. Whisper copies the spelling of words it sees in the prompt.
+ */
+export function buildVocabularyPrompt(vocabulary: string[] = []): string | undefined {
+  if (vocabulary.length === 0) return undefined
+  return `Glossar: ${vocabulary.join(', ')}.`
+}
+
+async function transcribeCloud(originalBlob?: ArrayBuffer, prompt?: string): Promise<TranscriptionResult> {
   if (!originalBlob) {
     throw new Error('Audio blob required for cloud transcription')
   }
@@ -47,7 +66,8 @@ export async function transcribe(
   let response = await client.audio.transcriptions.create({
     file: file,
     model: 'whisper-1',
-    response_format: 'verbose_json'
+    response_format: 'verbose_json',
+    ...(prompt && { prompt })
   })
 
   console.log(`[Whisper] Detected language: ${response.language}`)
@@ -62,7 +82,8 @@ export async function transcribe(
       file: retryFile,
       model: 'whisper-1',
       response_format: 'verbose_json',
-      language: 'de'
+      language: 'de',
+      ...(prompt && { prompt })
     })
   }
 
@@ -73,16 +94,68 @@ export async function transcribe(
   }
 }
 
-export async function initWhisper(): Promise<void> {
+async function transcribeWithLocal(
+  audioData: Float32Array | ArrayBuffer,
+  onProgress?: WhisperProgressCallback,
+  prompt?: string
+): Promise<TranscriptionResult> {
+  const samples = audioData instanceof Float32Array ? audioData : new Float32Array(audioData)
+  const result = await transcribeLocal(samples, getConfig().settings.whisperModel || 'base', { onProgress, prompt })
+  return { ...result, mode: 'local' }
+}
+
+export async function transcribe(
+  audioData: Float32Array | ArrayBuffer,
+  originalBlob?: ArrayBuffer,
+  options: TranscribeOptions = {}
+): Promise<TranscriptionResult> {
+  const { onProgress, vocabulary = [] } = options
+  const preference = getConfig().settings.whisperMode || 'auto'
+
+  const prompt = buildVocabularyPrompt(vocabulary)
+  if (prompt) {
+    debugLog('Whisper', `Prompt terms (${vocabulary.length}): ${vocabulary.join(', ')}`)
+  }
+
+  if (preference === 'local') {
+    return await transcribeWithLocal(audioData, onProgress, prompt)
+  }
+
+  try {
+    return await transcribeCloud(originalBlob, prompt)
+  } catch (err) {
+    // 'auto' falls back to whisper.cpp when the API fails or the network is down
+    if (preference === 'cloud' || !(await isLocalWhisperAvailable())) {
+      throw err
+    }
+    console.log(`[Whisper] Cloud transcription failed, falling back to local: ${err}`)
+    debugLog('Whisper', `Cloud failed, using local fallback: ${err}`)
+    return await transcribeWithLocal(audioData, onProgress, prompt)
+  }
+}
+
+export async function initWhisper(onProgress?: WhisperProgressCallback): Promise<void> {
   await initOpenAI()
+
+  // Download the local model up front so the first recording is not delayed
+  const settings = getConfig().settings
+  if (settings.whisperMode === 'local' && await isLocalWhisperAvailable()) {
+    await ensureModel(settings.whisperModel || 'base', onProgress)
+  }
 }
 
 export async function isWhisperReady(): Promise<boolean> {
-  const apiKey = await getApiKey()
-  return !!apiKey
+  return (await getWhisperMode()) !== 'none'
 }
 
 export async function getWhisperMode(): Promise<WhisperMode> {
-  const apiKey = await getApiKey()
-  return apiKey ? 'cloud' : 'none'
+  const preference = getConfig().settings.whisperMode || 'auto'
+
+  if (preference !== 'local' && await getApiKey()) {
+    return 'cloud'
+  }
+  if (preference !== 'cloud' && await isLocalWhisperAvailable()) {
+    return 'local'
+  }
+  return 'none'
 }
@@ -0,0 +1,218 @@
+import { app } from 'electron'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import { execFile } from 'child_process'
+import { createWriteStream, existsSync } from 'fs'
+import { mkdir, readFile, rename, rm, writeFile } from 'fs/promises'
+import { debugLog } from './debugLog'
+import type { WhisperModel } from '@shared/types'
+
+/**
+ * Local speech-to-text via whisper.cpp (CPU).
+ * The ggml model is downloaded once to ~/.aktivitaeten/whisper-models,
+ * the whisper.cpp binary is taken from WHISPER_CPP_PATH or PATH (whisper-cli).
+ */
+
+export type WhisperProgress = {
+  status: 'download' | 'progress' | 'done'
+  file?: string
+  progress?: number
+}
+
+export type WhisperProgressCallback = (progress: WhisperProgress) => void
+
+export type LocalTranscribeOptions = {
+  onProgress?: WhisperProgressCallback
+  prompt?: string
+}
+
+export type LocalTranscription = {
+  text: string
+  language?: string
+}
+
+const MODEL_BASE_URL = 'https://huggingface.co/ggerganov/whisper.cpp/resolve/main'
+const SAMPLE_RATE = 16000
+const TRANSCRIBE_TIMEOUT_MS = 120_000
+
+// Same language policy as the cloud mode: anything but German/Polish is re-run as German
+const ALLOWED_LANGUAGES = ['de', 'pl']
+
+let binaryAvailable: boolean | null = null
+
+function getBinaryPath(): string {
+  return process.env.WHISPER_CPP_PATH || 'whisper-cli'
+}
+
+function getModelDir(): string {
+  return join(app.getPath('home'), '.aktivitaeten', 'whisper-models')
+}
+
+export function getModelPath(model: WhisperModel): string {
+  return join(getModelDir(), `ggml-${model}.bin`)
+}
+
+export function isModelDownloaded(model: WhisperModel): boolean {
+  return existsSync(getModelPath(model))
+}
+
+function run(args: string[], timeout: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(getBinaryPath(), args, { timeout, maxBuffer: 10 * 1024 * 1024 }, (err, stdout) => {
+      if (err) reject(err)
+      else resolve(stdout)
+    })
+  })
+}
+
+/**
+ * Check once whether the whisper.cpp binary can be started.
+ */
+export async function isLocalWhisperAvailable(): Promise<boolean> {
+  if (binaryAvailable === null) {
+    try {
+      await run(['--help'], 5000)
+      binaryAvailable = true
+    } catch (err) {
+      debugLog('Whisper', `whisper.cpp not available (${getBinaryPath()}): ${err}`)
+      binaryAvailable = false
+    }
+  }
+  return binaryAvailable
+}
+
+/**
+ * Forget the cached binary probe (e.g. after WHISPER_CPP_PATH changed).
+ */
+export function resetLocalWhisper(): void {
+  binaryAvailable = null
+}
+
+/**
+ * Download the ggml model if it is not on disk yet, reporting progress in percent.
+ */
+export async function ensureModel(model: WhisperModel, onProgress?: WhisperProgressCallback): Promise<string> {
+  const modelPath = getModelPath(model)
+  if (existsSync(modelPath)) return modelPath
+
+  const file = `ggml-${model}.bin`
+  await mkdir(getModelDir(), { recursive: true })
+  console.log(`[Whisper] Downloading model ${file}`)
+  onProgress?.({ status: 'download', file, progress: 0 })
+
+  const response = await fetch(`${MODEL_BASE_URL}/${file}`)
+  if (!response.ok || !response.body) {
+    throw new Error(`Whisper-Modell konnte nicht geladen werden: ${response.status}`)
+  }
+
+  const total = Number(response.headers.get('content-length')) || 0
+  const partPath = `${modelPath}.part`
+  const out = createWriteStream(partPath)
+  const reader = response.body.getReader()
+  let received = 0
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      await new Promise<void>((resolve, reject) => out.write(value, (err) => (err ? reject(err) : resolve())))
+      received += value.length
+      if (total > 0) {
+        onProgress?.({ status: 'progress', file, progress: (received / total) * 100 })
+      }
+    }
+    await new Promise<void>((resolve) => out.end(resolve))
+  } catch (err) {
+    out.destroy()
+    await rm(partPath, { force: true })
+    throw err
+  }
+
+  await rename(partPath, modelPath)
+  onProgress?.({ status: 'done', file, progress: 100 })
+  debugLog('Whisper', `Model downloaded: ${modelPath} (${(received / 1024 / 1024).toFixed(1)} MB)`)
+  return modelPath
+}
+
+/**
+ * Encode mono 16 kHz float PCM as 16-bit WAV (the input format whisper.cpp expects).
+ */
+export function encodeWav(samples: Float32Array, sampleRate = SAMPLE_RATE): Buffer {
+  const buffer = Buffer.alloc(44 + samples.length * 2)
+
+  buffer.write('RIFF', 0)
+  buffer.writeUInt32LE(36 + samples.length * 2, 4)
+  buffer.write('WAVE', 8)
+  buffer.write('fmt ', 12)
+  buffer.writeUInt32LE(16, 16)
+  buffer.writeUInt16LE(1, 20) // PCM
+  buffer.writeUInt16LE(1, 22) // mono
+  buffer.writeUInt32LE(sampleRate, 24)
+  buffer.writeUInt32LE(sampleRate * 2, 28)
+  buffer.writeUInt16LE(2, 32)
+  buffer.writeUInt16LE(16, 34)
+  buffer.write('data', 36)
+  buffer.writeUInt32LE(samples.length * 2, 40)
+
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]))
+    buffer.writeInt16LE(Math.round(s < 0 ? s * 0x8000 : s * 0x7fff), 44 + i * 2)
+  }
+
+  return buffer
+}
+
+async function runWhisper(
+  modelPath: string,
+  wavPath: string,
+  outBase: string,
+  language: string,
+  prompt?: string
+): Promise<LocalTranscription> {
+  const args = ['-m', modelPath, '-f', wavPath, '-l', language, '-oj', '-of', outBase, '-np', '-nt']
+  if (prompt) {
+    args.push('--prompt', prompt)
+  }
+  await run(args, TRANSCRIBE_TIMEOUT_MS)
+
+  const output = JSON.parse(await readFile(`${outBase}.json`, 'utf-8')) as {
+    result?: { language?: string }
+    transcription?: Array<{ text: string }>
+  }
+
+  return {
+    text: (output.transcription ?? []).map(t => t.text).join('').trim(),
+    language: output.result?.language
+  }
+}
+
+/**
+ * Transcribe 16 kHz mono PCM locally. Downloads the model on first use.
+ */
+export async function transcribeLocal(
+  samples: Float32Array,
+  model: WhisperModel,
+  options: LocalTranscribeOptions = {}
+): Promise<LocalTranscription> {
+  const modelPath = await ensureModel(model, options.onProgress)
+
+  const base = join(tmpdir(), `aktivitaeten-whisper-${Date.now()}`)
+  const wavPath = `${base}.wav`
+  await writeFile(wavPath, encodeWav(samples))
+
+  try {
+    console.log(`[Whisper] Local transcription with ${model} (${(samples.length / SAMPLE_RATE).toFixed(1)}s audio)`)
+    let result = await runWhisper(modelPath, wavPath, base, 'auto', options.prompt)
+    console.log(`[Whisper] Detected language: ${result.language}`)
+
+    if (result.language && !ALLOWED_LANGUAGES.includes(result.language)) {
+      console.log(`[Whisper] Re-transcribing with forced German (was: ${result.language})`)
+      result = await runWhisper(modelPath, wavPath, base, 'de', options.prompt)
+    }
+
+    return result
+  } finally {
+    await rm(wavPath, { force: true })
+    await rm(`${base}.json`, { force: true })
+  }
+}
@@ -1,5 +1,7 @@
 import XlsxPopulate, { Workbook } from 'xlsx-populate'
 import * as fsp from 'fs/promises'
+import { existsSync } from 'fs'
+import { basename, dirname, extname, join } from 'path'
 import { debugLog } from './debugLog'
 
 /**
@@ -18,13 +20,103 @@ export async function loadWorkbook(filePath: string): Promise<Workbook> {
   return workbook
 }
 
+// Error codes of a file held open by another program (Excel on Windows: EBUSY/EPERM)
+const BUSY_ERROR_CODES = ['EBUSY', 'EPERM']
+
+/**
+ * Owner files Excel creates next to an open workbook ("~$" + file name).
+ * For names of 8 or more characters (without extension) Excel drops the
+ * first one or two characters.
+ */
+export function getOwnerFilePaths(filePath: string): string[] {
+  const dir = dirname(filePath)
+  const name = basename(filePath)
+  const paths = [join(dir, `~$${name}`)]
+  const stemLength = name.length - extname(name).length
+  if (stemLength >= 8) {
+    paths.push(join(dir, `~$${name.slice(stemLength === 8 ? 1 : 2)}`))
+  }
+  return paths
+}
+
+/**
+ * True if the workbook is currently open in Excel.
+ */
+export function isWorkbookLocked(filePath: string): boolean {
+  return getOwnerFilePaths(filePath).some((ownerPath) => existsSync(ownerPath))
+}
+
+/**
+ * True for errors caused by the workbook being open in Excel.
+ */
+export function isLockError(err: unknown): boolean {
+  return (err as NodeJS.ErrnoException | null)?.code === 'ELOCKED'
+}
+
+function isBusyError(err: unknown): boolean {
+  const code = (err as NodeJS.ErrnoException | null)?.code
+  return typeof code === 'string' && BUSY_ERROR_CODES.includes(code)
+}
+
+function lockedError(filePath: string): NodeJS.ErrnoException {
+  return Object.assign(new Error(`Datei ist in Excel geöffnet: ${basename(filePath)}`), { code: 'ELOCKED' })
+}
+
+export type WorkbookWriteOptions = {
+  ignoreOwnerFile?: boolean // Owner file is left over from a crashed Excel, write anyway
+}
+
+/**
+ * Throws an error with code ELOCKED if the workbook is open in Excel.
+ * Call before createBackup, so a locked file does not rotate out real backups.
+ */
+export function assertWorkbookWritable(filePath: string, options: WorkbookWriteOptions = {}): void {
+  if (!options.ignoreOwnerFile && isWorkbookLocked(filePath)) {
+    throw lockedError(filePath)
+  }
+}
+
+/**
+ * Temp file next to the target, so the final rename stays on the same volume.
+ */
+export function getTempPath(filePath: string): string {
+  return join(dirname(filePath), `.${basename(filePath)}.${process.pid}.tmp`)
+}
+
 /**
  * Save a workbook to file using buffer (cross-platform compatible).
+ * Writes to a temp file first and renames it over the target, so a crash or
+ * lock mid-write never leaves a half-written workbook behind.
+ * Throws an error with code ELOCKED if the workbook is open in Excel.
  */
-export async function saveWorkbook(workbook: Workbook, filePath: string): Promise<void> {
+export async function saveWorkbook(
+  workbook: Workbook,
+  filePath: string,
+  options: WorkbookWriteOptions = {}
+): Promise<void> {
   debugLog('Workbook', `Saving: ${filePath}`)
+  // Excel would silently overwrite our changes when it saves the open file later
+  assertWorkbookWritable(filePath, options)
+
   const output = await workbook.outputAsync()
-  await fsp.writeFile(filePath, output as Buffer)
+  const tempPath = getTempPath(filePath)
+
+  try {
+    await fsp.writeFile(tempPath, output as Buffer)
+    await fsp.rename(tempPath, filePath)
+  } catch (err) {
+    try {
+      await fsp.unlink(tempPath)
+    } catch {
+      // Temp file may not exist if writing it failed
+    }
+    if (!isBusyError(err)) throw err
+    // Without an owner file it is not Excel (read-only share, virus scanner), waiting for it would not help
+    if (isWorkbookLocked(filePath)) throw lockedError(filePath)
+    throw Object.assign(new Error(`Datei kann nicht geschrieben werden: ${basename(filePath)}`), {
+      code: (err as NodeJS.ErrnoException).code
+    })
+  }
   debugLog('Workbook', 'Saved successfully')
 }
 
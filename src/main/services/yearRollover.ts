@@ -0,0 +1,59 @@
+import { existsSync } from 'fs'
+import { dirname, join } from 'path'
+import { createEmptyYearWorkbook } from './excel'
+import { findPreviousYearFile, getConfig, updateXlsxFile, type XlsxFileConfig } from './config'
+
+/**
+ * Year rollover: creates "LV <Auftraggeber> <Jahr>.xlsx" from the previous
+ * year's file (or a template) with emptied month sheets and registers it
+ * as an active file.
+ */
+
+// Characters not allowed in Windows file names
+const INVALID_FILENAME_CHARS = /[\\/:*?"<>|]/g
+
+/**
+ * File name per the existing convention, e.g. "LV ACME 2027.xlsx".
+ */
+export function getYearFileName(auftraggeber: string, jahr: number): string {
+  return `LV ${auftraggeber.replace(INVALID_FILENAME_CHARS, '').trim()} ${jahr}.xlsx`
+}
+
+/**
+ * Create and register the workbook of an Auftraggeber for a new year.
+ * The file is placed next to the previous year's file (with a template and
+ * no previous file: in the configured base path).
+ */
+export async function rolloverYear(
+  auftraggeber: string,
+  jahr: number,
+  templatePath?: string
+): Promise<XlsxFileConfig> {
+  const previous = findPreviousYearFile(auftraggeber, jahr)
+  const sourcePath = templatePath || previous?.path
+  if (!sourcePath) {
+    throw new Error(`Keine Vorjahresdatei für Auftraggeber "${auftraggeber}" gefunden`)
+  }
+
+  const name = previous?.auftraggeber || auftraggeber
+  const targetDir = previous ? dirname(previous.path) : getConfig().xlsxBasePath
+  const targetPath = join(targetDir, getYearFileName(name, jahr))
+  if (existsSync(targetPath)) {
+    throw new Error(`Datei existiert bereits: ${targetPath}`)
+  }
+
+  console.log(`[Rollover] Creating ${targetPath} from ${sourcePath}`)
+  // A template brings its own layout, the previous file's layout only applies to itself
+  const layout = await createEmptyYearWorkbook(sourcePath, targetPath, templatePath ? undefined : previous?.layout)
+
+  // Report rates carry over, the new year bills like the previous one
+  const rates = {
+    ...(previous?.hourlyRate !== undefined && { hourlyRate: previous.hourlyRate }),
+    ...(previous?.kmRate !== undefined && { kmRate: previous.kmRate })
+  }
+  const file: XlsxFileConfig = { path: targetPath, auftraggeber: name, jahr, active: true, layout, ...rates }
+  await updateXlsxFile(targetPath, { auftraggeber: name, jahr, active: true, layout, ...rates })
+  console.log(`[Rollover] Registered ${targetPath} for ${name}/${jahr}`)
+
+  return file
+}
@@ -0,0 +1,33 @@
+import type { Cell } from 'xlsx-populate'
+
+/**
+ * Style copying between cells of the same workbook. xlsx-populate has no
+ * public way to read a cell's style without cloning it into a new stylesheet
+ * entry, so moving rows with cell.style() would grow the file with every
+ * delete. Instead the style id is copied from the cell internals, which is
+ * pinned against the real library in tests/main/utils/cellStyle.spec.ts.
+ */
+
+// Internal fields of xlsx-populate's Cell (lib/Cell.js, 1.21): the parsed
+// style id and, once a style was read or set, the Style object it belongs to
+type CellInternals = {
+  _style?: { id(): number }
+  _styleId?: number
+}
+
+/**
+ * Give target the style of source (both in the same workbook); a source
+ * without style resets target to the default style.
+ */
+export function copyCellStyle(source: Cell, target: Cell): void {
+  const from = source as unknown as CellInternals
+  const to = target as unknown as CellInternals
+  const styleId = from._style ? from._style.id() : from._styleId
+
+  delete to._style
+  if (styleId === undefined) {
+    delete to._styleId
+  } else {
+    to._styleId = styleId
+  }
+}
@@ -4,12 +4,13 @@ import { getConfig } from '../services/config'
 
 /**
  * Returns list of directories where file access is permitted.
- * Includes xlsxBasePath from config plus standard user directories.
+ * Includes xlsxBasePath and backupRoot from config plus standard user directories.
  */
 export function getAllowedBasePaths(): string[] {
   const config = getConfig()
   return [
     config.xlsxBasePath,
+    config.settings.backupRoot,
     app.getPath('home'),
     app.getPath('documents'),
     app.getPath('userData')
@@ -0,0 +1,518 @@
+/**
+ * Phonetic codes for glossar matching: Kölner Phonetik for German words,
+ * Double Metaphone for names of other origin (Polish, English, ...).
+ */
+
+const UMLAUTS: Record<string, string> = { Ä: 'A', Ö: 'O', Ü: 'U', ß: 'SS' }
+
+// Upper case A-Z only, umlauts folded, everything else dropped
+function lettersOnly(text: string): string {
+  return text
+    .toUpperCase()
+    .replace(/[ÄÖÜß]/g, c => UMLAUTS[c])
+    .normalize('NFD')
+    .replace(/[^A-Z]/g, '')
+}
+
+/**
+ * Kölner Phonetik (Postel 1969): digits for groups of similar sounding letters.
+ * "Müller-Lüdenscheidt" → "65752682"
+ */
+export function colognePhonetic(text: string): string {
+  const word = lettersOnly(text)
+  const digits: string[] = []
+
+  for (let i = 0; i < word.length; i++) {
+    const char = word[i]
+    const prev = i > 0 ? word[i - 1] : ''
+    const next = word[i + 1] ?? ''
+
+    switch (char) {
+      case 'A': case 'E': case 'I': case 'J': case 'O': case 'U': case 'Y':
+        digits.push('0')
+        break
+      case 'H':
+        break
+      case 'B':
+        digits.push('1')
+        break
+      case 'P':
+        digits.push(next === 'H' ? '3' : '1')
+        break
+      case 'D': case 'T':
+        digits.push('CSZ'.includes(next) && next ? '8' : '2')
+        break
+      case 'F': case 'V': case 'W':
+        digits.push('3')
+        break
+      case 'G': case 'K': case 'Q':
+        digits.push('4')
+        break
+      case 'C':
+        if (i === 0) {
+          digits.push('AHKLOQRUX'.includes(next) && next ? '4' : '8')
+        } else {
+          digits.push('AHKOQUX'.includes(next) && next && !'SZ'.includes(prev) ? '4' : '8')
+        }
+        break
+      case 'X':
+        digits.push('CKQ'.includes(prev) && prev ? '8' : '48')
+        break
+      case 'L':
+        digits.push('5')
+        break
+      case 'M': case 'N':
+        digits.push('6')
+        break
+      case 'R':
+        digits.push('7')
+        break
+      case 'S': case 'Z':
+        digits.push('8')
+        break
+    }
+  }
+
+  const code = digits.join('')
+  let collapsed = ''
+  for (const digit of code) {
+    if (digit !== collapsed[collapsed.length - 1]) collapsed += digit
+  }
+  return collapsed.charAt(0) + collapsed.slice(1).replace(/0/g, '')
+}
+
+const VOWELS = 'AEIOUY'
+
+/**
+ * Double Metaphone (Philips 2000): primary and alternate English-based codes,
+ * with rules for Slavic, Germanic, Romance and other spellings.
+ * "Jankowski" → ["JNKSK", "ANKFSK"]
+ */
+export function doubleMetaphone(text: string): [string, string] {
+  const value = lettersOnly(text)
+  const length = value.length
+  const last = length - 1
+  if (length === 0) return ['', '']
+
+  // Padded so look-ahead past the end sees spaces like the original
+  const padded = value + '     '
+  const charAt = (pos: number): string => (pos >= 0 ? padded[pos] : '')
+  const isVowel = (pos: number): boolean => pos >= 0 && pos < length && VOWELS.includes(value[pos])
+  const at = (start: number, count: number, ...options: string[]): boolean =>
+    start >= 0 && options.includes(padded.substr(start, count))
+  const slavoGermanic = /W|K|CZ|WITZ/.test(value)
+
+  let primary = ''
+  let secondary = ''
+  const add = (main: string, alternate: string = main): void => {
+    primary += main
+    secondary += alternate
+  }
+
+  let current = 0
+  if (at(0, 2, 'GN', 'KN', 'PN', 'WR', 'PS')) current = 1
+  if (value[0] === 'X') {
+    add('S')
+    current = 1
+  }
+
+  while (current < length) {
+    switch (value[current]) {
+      case 'A': case 'E': case 'I': case 'O': case 'U': case 'Y':
+        if (current === 0) add('A')
+        current++
+        break
+
+      case 'B':
+        add('P')
+        current += charAt(current + 1) === 'B' ? 2 : 1
+        break
+
+      case 'C':
+        // Germanic "ACH" as in "Bacher", "Macher"
+        if (
+          current > 1 &&
+          !isVowel(current - 2) &&
+          at(current - 1, 3, 'ACH') &&
+          charAt(current + 2) !== 'I' &&
+          (charAt(current + 2) !== 'E' || at(current - 2, 6, 'BACHER', 'MACHER'))
+        ) {
+          add('K')
+          current += 2
+          break
+        }
+        if (current === 0 && at(current, 6, 'CAESAR')) {
+          add('S')
+          current += 2
+          break
+        }
+        if (at(current, 4, 'CHIA')) {
+          add('K')
+          current += 2
+          break
+        }
+        if (at(current, 2, 'CH')) {
+          if (current > 0 && at(current, 4, 'CHAE')) {
+            add('K', 'X')
+          } else if (
+            current === 0 &&
+            (at(current + 1, 5, 'HARAC', 'HARIS') || at(current + 1, 3, 'HOR', 'HYM', 'HIA', 'HEM')) &&
+            !at(0, 5, 'CHORE')
+          ) {
+            add('K')
+          } else if (
+            at(0, 4, 'VAN ', 'VON ') ||
+            at(0, 3, 'SCH') ||
+            at(current - 2, 6, 'ORCHES', 'ARCHIT', 'ORCHID') ||
+            at(current + 2, 1, 'T', 'S') ||
+            ((at(current - 1, 1, 'A', 'O', 'U', 'E') || current === 0) &&
+              at(current + 2, 1, 'L', 'R', 'N', 'M', 'B', 'H', 'F', 'V', 'W', ' '))
+          ) {
+            add('K')
+          } else if (current > 0) {
+            if (at(0, 2, 'MC')) add('K')
+            else add('X', 'K')
+          } else {
+            add('X')
+          }
+          current += 2
+          break
+        }
+        // Polish "CZ" as in "Czerny"
+        if (at(current, 2, 'CZ') && !at(current - 2, 4, 'WICZ')) {
+          add('S', 'X')
+          current += 2
+          break
+        }
+        if (at(current + 1, 3, 'CIA')) {
+          add('X')
+          current += 3
+          break
+        }
+        if (at(current, 2, 'CC') && !(current === 1 && value[0] === 'M')) {
+          if (at(current + 2, 1, 'I', 'E', 'H') && !at(current + 2, 2, 'HU')) {
+            if ((current === 1 && value[0] === 'A') || at(current - 1, 5, 'UCCEE', 'UCCES')) add('KS')
+            else add('X')
+            current += 3
+          } else {
+            add('K')
+            current += 2
+          }
+          break
+        }
+        if (at(current, 2, 'CK', 'CG', 'CQ')) {
+          add('K')
+          current += 2
+          break
+        }
+        if (at(current, 2, 'CI', 'CE', 'CY')) {
+          if (at(current, 3, 'CIO', 'CIE', 'CIA')) add('S', 'X')
+          else add('S')
+          current += 2
+          break
+        }
+        add('K')
+        if (at(current + 1, 2, ' C', ' Q', ' G')) current += 3
+        else if (at(current + 1, 1, 'C', 'K', 'Q') && !at(current + 1, 2, 'CE', 'CI')) current += 2
+        else current++
+        break
+
+      case 'D':
+        if (at(current, 2, 'DG')) {
+          if (at(current + 2, 1, 'I', 'E', 'Y')) {
+            add('J')
+            current += 3
+          } else {
+            add('TK')
+            current += 2
+          }
+          break
+        }
+        add('T')
+        current += at(current, 2, 'DT', 'DD') ? 2 : 1
+        break
+
+      case 'F':
+        add('F')
+        current += charAt(current + 1) === 'F' ? 2 : 1
+        break
+
+      case 'G':
+        if (charAt(current + 1) === 'H') {
+          if (current > 0 && !isVowel(current - 1)) {
+            add('K')
+          } else if (current === 0) {
+            add(charAt(current + 2) === 'I' ? 'J' : 'K')
+          } else if (
+            (current > 1 && at(current - 2, 1, 'B', 'H', 'D')) ||
+            (current > 2 && at(current - 3, 1, 'B', 'H', 'D')) ||
+            (current > 3 && at(current - 4, 1, 'B', 'H'))
+          ) {
+            // Silent as in "Hugh", "bough", "broughton"
+          } else if (current > 2 && charAt(current - 1) === 'U' && at(current - 3, 1, 'C', 'G', 'L', 'R', 'T')) {
+            add('F')
+          } else if (current > 0 && charAt(current - 1) !== 'I') {
+            add('K')
+          }
+          current += 2
+          break
+        }
+        if (charAt(current + 1) === 'N') {
+          if (current === 1 && isVowel(0) && !slavoGermanic) add('KN', 'N')
+          else if (!at(current + 2, 2, 'EY') && charAt(current + 1) !== 'Y' && !slavoGermanic) add('N', 'KN')
+          else add('KN')
+          current += 2
+          break
+        }
+        if (at(current + 1, 2, 'LI') && !slavoGermanic) {
+          add('KL', 'L')
+          current += 2
+          break
+        }
+        if (
+          current === 0 &&
+          (charAt(current + 1) === 'Y' ||
+            at(current + 1, 2, 'ES', 'EP', 'EB', 'EL', 'EY', 'IB', 'IL', 'IN', 'IE', 'EI', 'ER'))
+        ) {
+          add('K', 'J')
+          current += 2
+          break
+        }
+        if (
+          (at(current + 1, 2, 'ER') || charAt(current + 1) === 'Y') &&
+          !at(0, 6, 'DANGER', 'RANGER', 'MANGER') &&
+          !at(current - 1, 1, 'E', 'I') &&
+          !at(current - 1, 3, 'RGY', 'OGY')
+        ) {
+          add('K', 'J')
+          current += 2
+          break
+        }
+        if (at(current + 1, 1, 'E', 'I', 'Y') || at(current - 1, 4, 'AGGI', 'OGGI')) {
+          if (at(0, 4, 'VAN ', 'VON ') || at(0, 3, 'SCH') || at(current + 1, 2, 'ET')) add('K')
+          else if (at(current + 1, 4, 'IER ')) add('J')
+          else add('J', 'K')
+          current += 2
+          break
+        }
+        add('K')
+        current += charAt(current + 1) === 'G' ? 2 : 1
+        break
+
+      case 'H':
+        // Only between vowels or at the start before a vowel
+        if ((current === 0 || isVowel(current - 1)) && isVowel(current + 1)) {
+          add('H')
+          current += 2
+        } else {
+          current++
+        }
+        break
+
+      case 'J':
+        if (at(current, 4, 'JOSE') || at(0, 4, 'SAN ')) {
+          if ((current === 0 && charAt(current + 4) === ' ') || at(0, 4, 'SAN ')) add('H')
+          else add('J', 'H')
+          current++
+          break
+        }
+        if (current === 0) {
+          add('J', 'A')
+        } else if (isVowel(current - 1) && !slavoGermanic && at(current + 1, 1, 'A', 'O')) {
+          add('J', 'H')
+        } else if (current === last) {
+          add('J', '')
+        } else if (!at(current + 1, 1, 'L', 'T', 'K', 'S', 'N', 'M', 'B', 'Z') && !at(current - 1, 1, 'S', 'K', 'L')) {
+          add('J')
+        }
+        current += charAt(current + 1) === 'J' ? 2 : 1
+        break
+
+      case 'K':
+        add('K')
+        current += charAt(current + 1) === 'K' ? 2 : 1
+        break
+
+      case 'L':
+        if (charAt(current + 1) === 'L') {
+          // Spanish "LL" as in "Cabrillo", "Gallegos"
+          if (
+            (current === length - 3 && at(current - 1, 4, 'ILLO', 'ILLA', 'ALLE')) ||
+            ((at(last - 1, 2, 'AS', 'OS') || at(last, 1, 'A', 'O')) && at(current - 1, 4, 'ALLE'))
+          ) {
+            add('L', '')
+          } else {
+            add('L')
+          }
+          current += 2
+          break
+        }
+        add('L')
+        current++
+        break
+
+      case 'M':
+        add('M')
+        current += (at(current - 1, 3, 'UMB') && (current + 1 === last || at(current + 2, 2, 'ER'))) ||
+          charAt(current + 1) === 'M'
+          ? 2
+          : 1
+        break
+
+      case 'N':
+        add('N')
+        current += charAt(current + 1) === 'N' ? 2 : 1
+        break
+
+      case 'P':
+        if (charAt(current + 1) === 'H') {
+          add('F')
+          current += 2
+          break
+        }
+        add('P')
+        current += at(current + 1, 1, 'P', 'B') ? 2 : 1
+        break
+
+      case 'Q':
+        add('K')
+        current += charAt(current + 1) === 'Q' ? 2 : 1
+        break
+
+      case 'R':
+        // French final "-IER" as in "Rogier"
+        if (current === last && !slavoGermanic && at(current - 2, 2, 'IE') && !at(current - 4, 2, 'ME', 'MA')) {
+          add('', 'R')
+        } else {
+          add('R')
+        }
+        current += charAt(current + 1) === 'R' ? 2 : 1
+        break
+
+      case 'S':
+        if (at(current - 1, 3, 'ISL', 'YSL')) {
+          current++
+          break
+        }
+        if (current === 0 && at(current, 5, 'SUGAR')) {
+          add('X', 'S')
+          current++
+          break
+        }
+        if (at(current, 2, 'SH')) {
+          add(at(current + 1, 4, 'HEIM', 'HOEK', 'HOLM', 'HOLZ') ? 'S' : 'X')
+          current += 2
+          break
+        }
+        if (at(current, 3, 'SIO', 'SIA') || at(current, 4, 'SIAN')) {
+          if (slavoGermanic) add('S')
+          else add('S', 'X')
+          current += 3
+          break
+        }
+        if ((current === 0 && at(current + 1, 1, 'M', 'N', 'L', 'W')) || at(current + 1, 1, 'Z')) {
+          add('S', 'X')
+          current += at(current + 1, 1, 'Z') ? 2 : 1
+          break
+        }
+        if (at(current, 2, 'SC')) {
+          if (charAt(current + 2) === 'H') {
+            if (at(current + 3, 2, 'OO', 'ER', 'EN', 'UY', 'ED', 'EM')) {
+              if (at(current + 3, 2, 'ER', 'EN')) add('X', 'SK')
+              else add('SK')
+            } else if (current === 0 && !isVowel(3) && charAt(3) !== 'W') {
+              add('X', 'S')
+            } else {
+              add('X')
+            }
+          } else if (at(current + 2, 1, 'I', 'E', 'Y')) {
+            add('S')
+          } else {
+            add('SK')
+          }
+          current += 3
+          break
+        }
+        if (current === last && at(current - 2, 2, 'AI', 'OI')) add('', 'S')
+        else add('S')
+        current += at(current + 1, 1, 'S', 'Z') ? 2 : 1
+        break
+
+      case 'T':
+        if (at(current, 4, 'TION') || at(current, 3, 'TIA', 'TCH')) {
+          add('X')
+          current += 3
+          break
+        }
+        if (at(current, 2, 'TH') || at(current, 3, 'TTH')) {
+          if (at(current + 2, 2, 'OM', 'AM') || at(0, 4, 'VAN ', 'VON ') || at(0, 3, 'SCH')) add('T')
+          else add('0', 'T')
+          current += 2
+          break
+        }
+        add('T')
+        current += at(current + 1, 1, 'T', 'D') ? 2 : 1
+        break
+
+      case 'V':
+        add('F')
+        current += charAt(current + 1) === 'V' ? 2 : 1
+        break
+
+      case 'W':
+        if (at(current, 2, 'WR')) {
+          add('R')
+          current += 2
+          break
+        }
+        if (current === 0 && (isVowel(current + 1) || at(current, 2, 'WH'))) {
+          if (isVowel(current + 1)) add('A', 'F')
+          else add('A')
+        }
+        // Polish "-OWSKI" and Germanic final "W"
+        if (
+          (current === last && isVowel(current - 1)) ||
+          at(current - 1, 5, 'EWSKI', 'EWSKY', 'OWSKI', 'OWSKY') ||
+          at(0, 3, 'SCH')
+        ) {
+          add('', 'F')
+          current++
+          break
+        }
+        if (at(current, 4, 'WICZ', 'WITZ')) {
+          add('TS', 'FX')
+          current += 4
+          break
+        }
+        current++
+        break
+
+      case 'X':
+        // French final "X" as in "Breaux"
+        if (!(current === last && (at(current - 3, 3, 'IAU', 'EAU') || at(current - 2, 2, 'AU', 'OU')))) {
+          add('KS')
+        }
+        current += at(current + 1, 1, 'C', 'X') ? 2 : 1
+        break
+
+      case 'Z':
+        if (charAt(current + 1) === 'H') {
+          add('J')
+          current += 2
+          break
+        }
+        if (at(current + 1, 2, 'ZO', 'ZI', 'ZA') || (slavoGermanic && current > 0 && charAt(current - 1) !== 'T')) {
+          add('S', 'TS')
+        } else {
+          add('S')
+        }
+        current += charAt(current + 1) === 'Z' ? 2 : 1
+        break
+
+      default:
+        current++
+    }
+  }
+
+  return [primary, secondary]
+}
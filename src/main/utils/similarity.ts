@@ -0,0 +1,44 @@
+/**
+ * Fuzzy string comparison shared by glossar matching and duplicate detection.
+ */
+
+/**
+ * Calculate Levenshtein distance between two strings
+ */
+export function levenshteinDistance(a: string, b: string): number {
+  const matrix: number[][] = []
+
+  for (let i = 0; i <= b.length; i++) {
+    matrix[i] = [i]
+  }
+  for (let j = 0; j <= a.length; j++) {
+    matrix[0][j] = j
+  }
+
+  for (let i = 1; i <= b.length; i++) {
+    for (let j = 1; j <= a.length; j++) {
+      if (b.charAt(i - 1) === a.charAt(j - 1)) {
+        matrix[i][j] = matrix[i - 1][j - 1]
+      } else {
+        matrix[i][j] = Math.min(
+          matrix[i - 1][j - 1] + 1, // substitution
+          matrix[i][j - 1] + 1,     // insertion
+          matrix[i - 1][j] + 1      // deletion
+        )
+      }
+    }
+  }
+
+  return matrix[b.length][a.length]
+}
+
+/**
+ * Calculate similarity ratio (0-1) between two strings (case-insensitive)
+ */
+export function similarity(a: string, b: string): number {
+  const aLower = a.toLowerCase()
+  const bLower = b.toLowerCase()
+  const maxLen = Math.max(aLower.length, bLower.length)
+  if (maxLen === 0) return 1
+  return 1 - levenshteinDistance(aLower, bLower) / maxLen
+}
@@ -0,0 +1,98 @@
+import { crc32, deflateRawSync, inflateRawSync } from 'zlib'
+
+/**
+ * Minimal ZIP container holding a single deflated file (no ZIP64, no data
+ * descriptor). Enough for compressed backups that can still be opened with
+ * the Explorer, without pulling in a zip library.
+ */
+
+const LOCAL_HEADER = 0x04034b50
+const CENTRAL_HEADER = 0x02014b50
+const END_OF_CENTRAL_DIR = 0x06054b50
+const VERSION = 20 // 2.0: deflate
+const DEFLATE = 8
+const STORED = 0
+const UTF8_NAME = 0x0800
+
+// MS-DOS time and date fields of the entry (local time, 2 second resolution)
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  }
+}
+
+/**
+ * Pack one file into a ZIP archive.
+ */
+export function zipSingleFile(name: string, data: Buffer, modified = new Date()): Buffer {
+  const fileName = Buffer.from(name, 'utf-8')
+  const compressed = deflateRawSync(data)
+  const checksum = crc32(data)
+  const { time, date } = dosDateTime(modified)
+
+  const local = Buffer.alloc(30)
+  local.writeUInt32LE(LOCAL_HEADER, 0)
+  local.writeUInt16LE(VERSION, 4)
+  local.writeUInt16LE(UTF8_NAME, 6)
+  local.writeUInt16LE(DEFLATE, 8)
+  local.writeUInt16LE(time, 10)
+  local.writeUInt16LE(date, 12)
+  local.writeUInt32LE(checksum, 14)
+  local.writeUInt32LE(compressed.length, 18)
+  local.writeUInt32LE(data.length, 22)
+  local.writeUInt16LE(fileName.length, 26)
+  local.writeUInt16LE(0, 28)
+
+  const central = Buffer.alloc(46)
+  central.writeUInt32LE(CENTRAL_HEADER, 0)
+  central.writeUInt16LE(VERSION, 4)
+  central.writeUInt16LE(VERSION, 6)
+  central.writeUInt16LE(UTF8_NAME, 8)
+  central.writeUInt16LE(DEFLATE, 10)
+  central.writeUInt16LE(time, 12)
+  central.writeUInt16LE(date, 14)
+  central.writeUInt32LE(checksum, 16)
+  central.writeUInt32LE(compressed.length, 20)
+  central.writeUInt32LE(data.length, 24)
+  central.writeUInt16LE(fileName.length, 28)
+  // Extra/comment length, disk, attributes and local header offset stay 0
+
+  const centralOffset = local.length + fileName.length + compressed.length
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(END_OF_CENTRAL_DIR, 0)
+  end.writeUInt16LE(1, 8)
+  end.writeUInt16LE(1, 10)
+  end.writeUInt32LE(central.length + fileName.length, 12)
+  end.writeUInt32LE(centralOffset, 16)
+
+  return Buffer.concat([local, fileName, compressed, central, fileName, end])
+}
+
+/**
+ * Extract the first file of a ZIP archive written by zipSingleFile.
+ * Throws if the archive is damaged or uses an unsupported format.
+ */
+export function unzipSingleFile(zip: Buffer): Buffer {
+  if (zip.length < 30 || zip.readUInt32LE(0) !== LOCAL_HEADER) {
+    throw new Error('Ungültiges ZIP-Archiv')
+  }
+
+  const flags = zip.readUInt16LE(6)
+  const method = zip.readUInt16LE(8)
+  const checksum = zip.readUInt32LE(14)
+  const compressedSize = zip.readUInt32LE(18)
+  const start = 30 + zip.readUInt16LE(26) + zip.readUInt16LE(28)
+
+  // Bit 3: sizes follow the data instead of the header (streamed archives)
+  if (flags & 0x08 || (method !== DEFLATE && method !== STORED)) {
+    throw new Error('Nicht unterstütztes ZIP-Format')
+  }
+
+  const payload = zip.subarray(start, start + compressedSize)
+  const data = method === DEFLATE ? inflateRawSync(payload) : Buffer.from(payload)
+  if (crc32(data) !== checksum) {
+    throw new Error('ZIP-Archiv ist beschädigt (Prüfsumme)')
+  }
+  return data
+}
@@ -1,5 +1,5 @@
 import { contextBridge, ipcRenderer } from 'electron'
-import type { Activity, XlsxFileConfig, AppSettings, AppConfig, SaveResult, WhisperMode } from '@shared/types'
+import type { Activity, BackupDiffResult, BackupInfo, BackupResult, BackupUsage, BookedActivity, DashboardSummary, GlossarEintrag, GlossarKategorie, GlossarMatch, GlossarSaveResult, HistoryEntry, HistoryQuery, ReportRates, ReportResult, SaveBatchItem, SaveOptions, SavedRowRef, XlsxFileConfig, AppSettings, AppConfig, SaveResult, SynonymSuggestion, WhisperMode } from '@shared/types'
 
 type RecordingCallback = () => void
 type ProgressCallback = (progress: {
@@ -35,8 +35,12 @@ const api = {
     init: (): Promise<void> => {
       return ipcRenderer.invoke('whisper:init')
     },
-    transcribe: (pcmBuffer: ArrayBuffer, originalBlob?: ArrayBuffer): Promise<TranscriptionResult> => {
-      return ipcRenderer.invoke('whisper:transcribe', pcmBuffer, originalBlob)
+    transcribe: (
+      pcmBuffer: ArrayBuffer,
+      originalBlob?: ArrayBuffer,
+      auftraggeber?: string | null
+    ): Promise<TranscriptionResult> => {
+      return ipcRenderer.invoke('whisper:transcribe', pcmBuffer, originalBlob, auftraggeber)
     },
     isReady: (): Promise<boolean> => {
       return ipcRenderer.invoke('whisper:isReady')
@@ -61,6 +65,9 @@ const api = {
     parse: (transcript: string, clients?: string[], themes?: string[]): Promise<Activity> => {
       return ipcRenderer.invoke('llm:parse', transcript, clients, themes)
     },
+    parseMany: (transcript: string, clients?: string[], themes?: string[]): Promise<Activity[]> => {
+      return ipcRenderer.invoke('llm:parseMany', transcript, clients, themes)
+    },
     parseCorrection: (existingActivity: Activity, correctionTranscript: string): Promise<Activity> => {
       return ipcRenderer.invoke('llm:parseCorrection', existingActivity, correctionTranscript)
     },
@@ -88,12 +95,18 @@ const api = {
     selectFile: (): Promise<string | null> => {
       return ipcRenderer.invoke('excel:selectFile')
     },
-    saveActivity: (activity: Activity): Promise<SaveResult> => {
-      return ipcRenderer.invoke('excel:saveActivity', activity)
+    saveActivity: (activity: Activity, options?: SaveOptions): Promise<SaveResult> => {
+      return ipcRenderer.invoke('excel:saveActivity', activity, options)
+    },
+    saveActivities: (items: SaveBatchItem[]): Promise<SaveResult[]> => {
+      return ipcRenderer.invoke('excel:saveActivities', items)
     },
     openFile: (filePath: string): Promise<boolean> => {
       return ipcRenderer.invoke('excel:openFile', filePath)
     },
+    isFileLocked: (filePath: string): Promise<boolean> => {
+      return ipcRenderer.invoke('excel:isFileLocked', filePath)
+    },
     getActivities: (month: number): Promise<Array<{
       row: number
       datum: string
@@ -104,6 +117,24 @@ const api = {
       hotel: number
     }>> => {
       return ipcRenderer.invoke('excel:getActivities', month)
+    },
+    queryActivities: (from: string, to: string): Promise<BookedActivity[]> => {
+      return ipcRenderer.invoke('excel:queryActivities', from, to)
+    },
+    getDashboard: (from: string, to: string): Promise<DashboardSummary | null> => {
+      return ipcRenderer.invoke('excel:getDashboard', from, to)
+    },
+    updateActivity: (savedRow: SavedRowRef, activity: Activity, previousActivity?: Activity): Promise<SaveResult> => {
+      return ipcRenderer.invoke('excel:updateActivity', savedRow, activity, previousActivity)
+    },
+    deleteActivity: (savedRow: SavedRowRef): Promise<SaveResult> => {
+      return ipcRenderer.invoke('excel:deleteActivity', savedRow)
+    },
+    undoLastSave: (): Promise<SaveResult> => {
+      return ipcRenderer.invoke('excel:undoLastSave')
+    },
+    createReport: (filePath: string, month: number, rates?: ReportRates): Promise<ReportResult> => {
+      return ipcRenderer.invoke('excel:createReport', filePath, month, rates)
     }
   },
 
@@ -148,6 +179,9 @@ const api = {
     removeFile: (path: string): Promise<void> => {
       return ipcRenderer.invoke('config:removeFile', path)
     },
+    rolloverYear: (auftraggeber: string, jahr: number, templatePath?: string): Promise<XlsxFileConfig> => {
+      return ipcRenderer.invoke('config:rolloverYear', auftraggeber, jahr, templatePath)
+    },
     getSettings: (): Promise<AppSettings> => {
       return ipcRenderer.invoke('config:getSettings')
     },
@@ -194,6 +228,9 @@ const api = {
     normalize: (text: string): Promise<string> => {
       return ipcRenderer.invoke('glossar:normalize', text)
     },
+    match: (text: string): Promise<GlossarMatch[]> => {
+      return ipcRenderer.invoke('glossar:match', text)
+    },
     getEntries: (): Promise<Array<{
       kategorie: string
       begriff: string
@@ -201,6 +238,24 @@ const api = {
     }>> => {
       return ipcRenderer.invoke('glossar:getEntries')
     },
+    getFileEntries: (filePath: string): Promise<GlossarEintrag[]> => {
+      return ipcRenderer.invoke('glossar:getFileEntries', filePath)
+    },
+    saveEntries: (filePath: string, eintraege: GlossarEintrag[]): Promise<GlossarSaveResult> => {
+      return ipcRenderer.invoke('glossar:saveEntries', filePath, eintraege)
+    },
+    getSuggestions: (): Promise<SynonymSuggestion[]> => {
+      return ipcRenderer.invoke('glossar:getSuggestions')
+    },
+    acceptSuggestion: (id: string): Promise<GlossarSaveResult> => {
+      return ipcRenderer.invoke('glossar:acceptSuggestion', id)
+    },
+    rejectSuggestion: (id: string): Promise<boolean> => {
+      return ipcRenderer.invoke('glossar:rejectSuggestion', id)
+    },
+    addTerm: (filePath: string, kategorie: GlossarKategorie, begriff: string): Promise<GlossarSaveResult> => {
+      return ipcRenderer.invoke('glossar:addTerm', filePath, kategorie, begriff)
+    },
     clearCache: (): Promise<void> => {
       return ipcRenderer.invoke('glossar:clearCache')
     },
@@ -215,8 +270,12 @@ const api = {
       id: number
       activity: Activity
       transcript: string
+      parsedActivity?: Activity
       timestamp: string
       saved: boolean
+      savedFilePath?: string
+      savedRow?: SavedRowRef
+      queuedFilePath?: string
     }>> => {
       return ipcRenderer.invoke('drafts:load')
     },
@@ -224,8 +283,12 @@ const api = {
       id: number
       activity: Activity
       transcript: string
+      parsedActivity?: Activity
       timestamp: string
       saved: boolean
+      savedFilePath?: string
+      savedRow?: SavedRowRef
+      queuedFilePath?: string
     }>): Promise<void> => {
       return ipcRenderer.invoke('drafts:save', drafts)
     },
@@ -234,6 +297,29 @@ const api = {
     }
   },
 
+  // Backup API
+  backup: {
+    list: (filePath: string): Promise<BackupInfo[]> => {
+      return ipcRenderer.invoke('backup:list', filePath)
+    },
+    diff: (filePath: string, backupPath: string): Promise<BackupDiffResult> => {
+      return ipcRenderer.invoke('backup:diff', filePath, backupPath)
+    },
+    restore: (filePath: string, backupPath: string): Promise<BackupResult> => {
+      return ipcRenderer.invoke('backup:restore', filePath, backupPath)
+    },
+    usage: (): Promise<BackupUsage> => {
+      return ipcRenderer.invoke('backup:usage')
+    }
+  },
+
+  // History API
+  history: {
+    query: (query?: HistoryQuery): Promise<HistoryEntry[]> => {
+      return ipcRenderer.invoke('history:query', query)
+    }
+  },
+
   // Debug API
   debug: {
     getLogPath: (): Promise<string> => {
@@ -17,8 +17,12 @@ export function useDrafts() {
       id: e.id,
       activity: toRaw(e.activity),
       transcript: e.transcript,
+      parsedActivity: e.parsedActivity && toRaw(e.parsedActivity),
       timestamp: e.timestamp.toISOString(),
-      saved: e.saved
+      saved: e.saved,
+      savedFilePath: e.savedFilePath,
+      savedRow: e.savedRow && toRaw(e.savedRow),
+      queuedFilePath: e.queuedFilePath
     }))
     await window.api?.drafts.save(drafts)
   }
@@ -0,0 +1,64 @@
+import { useActivityStore, type ActivityEntry } from '../stores/activities'
+
+// How often queued saves check whether their workbook was closed
+const RETRY_INTERVAL_MS = 5000
+
+// Saves per entry after the workbook was reported closed, before giving up
+const MAX_RETRIES = 3
+
+/**
+ * Retries saves that failed because the workbook was open in Excel.
+ * Queued entries stay in the drafts until their workbook is closed.
+ * An entry that is still reported locked after MAX_RETRIES saves is handed
+ * to giveUp, so a file that is never really closed is not written forever.
+ */
+export function useSaveQueue(
+  save: (entry: ActivityEntry) => Promise<void>,
+  giveUp: (entry: ActivityEntry, attempts: number) => void
+) {
+  const activityStore = useActivityStore()
+  let timer: ReturnType<typeof setInterval> | null = null
+  let isRetrying = false
+  const attempts = new Map<number, number>()
+
+  async function retryQueued(): Promise<void> {
+    if (isRetrying) return
+    isRetrying = true
+    try {
+      const queued = [...activityStore.queuedEntries]
+      // Saved, deleted or failed entries start over when queued again
+      for (const id of attempts.keys()) {
+        if (!queued.some(entry => entry.id === id)) attempts.delete(id)
+      }
+
+      for (const entry of queued) {
+        const locked = await window.api?.excel.isFileLocked(entry.queuedFilePath!)
+        if (locked !== false) continue
+
+        const count = (attempts.get(entry.id) ?? 0) + 1
+        if (count > MAX_RETRIES) {
+          attempts.delete(entry.id)
+          console.warn(`[SaveQueue] Giving up on entry ${entry.id} after ${MAX_RETRIES} retries`)
+          giveUp(entry, MAX_RETRIES)
+          continue
+        }
+        attempts.set(entry.id, count)
+        console.log(`[SaveQueue] ${entry.queuedFilePath} closed, retrying entry ${entry.id} (${count}/${MAX_RETRIES})`)
+        await save(entry)
+      }
+    } finally {
+      isRetrying = false
+    }
+  }
+
+  function startSaveQueue(): void {
+    if (!timer) timer = setInterval(retryQueued, RETRY_INTERVAL_MS)
+  }
+
+  function stopSaveQueue(): void {
+    if (timer) clearInterval(timer)
+    timer = null
+  }
+
+  return { startSaveQueue, stopSaveQueue, retryQueued }
+}
@@ -1,7 +1,7 @@
 import { ref, onMounted, onUnmounted } from 'vue'
 
 export type WhisperStatus = 'unloaded' | 'loading' | 'ready' | 'transcribing' | 'error'
-export type WhisperMode = 'cloud' | 'none'
+export type WhisperMode = 'cloud' | 'local' | 'none'
 
 export type TranscribeResult = {
   text: string
@@ -49,7 +49,8 @@ export function useWhisper() {
     }
   }
 
-  const transcribe = async (audioBlob: Blob): Promise<TranscribeResult | null> => {
+  // auftraggeber: context of the entry being edited, its glossar terms are preferred
+  const transcribe = async (audioBlob: Blob, auftraggeber?: string | null): Promise<TranscribeResult | null> => {
     if (!window.api?.whisper) {
       error.value = 'Whisper API not available'
       return null
@@ -95,7 +96,7 @@ export function useWhisper() {
       // Send both PCM and original blob to backend
       // Cloud API uses original blob, local uses PCM
       const pcmBuffer = new Float32Array(samples).buffer as ArrayBuffer
-      const result = await window.api.whisper.transcribe(pcmBuffer, originalBlobBuffer)
+      const result = await window.api.whisper.transcribe(pcmBuffer, originalBlobBuffer, auftraggeber)
 
       transcript.value = result.text
       detectedLanguage.value = result.language ?? null
@@ -1,6 +1,6 @@
 /// <reference types="vite/client" />
 
-import type { Activity, XlsxFileConfig, AppSettings, AppConfig, SaveResult, WhisperMode } from '@shared/types'
+import type { Activity, BackupDiffResult, BackupInfo, BackupResult, BackupUsage, BookedActivity, DashboardSummary, GlossarEintrag, GlossarKategorie, GlossarMatch, GlossarSaveResult, HistoryEntry, HistoryQuery, ReportRates, ReportResult, SaveBatchItem, SaveOptions, SavedRowRef, XlsxFileConfig, AppSettings, AppConfig, SaveResult, SynonymSuggestion, WhisperMode } from '@shared/types'
 
 declare module '*.vue' {
   import type { DefineComponent } from 'vue'
@@ -23,7 +23,7 @@ type TranscriptionResult = {
 
 type WhisperAPI = {
   init: () => Promise<void>
-  transcribe: (pcmBuffer: ArrayBuffer, originalBlob?: ArrayBuffer) => Promise<TranscriptionResult>
+  transcribe: (pcmBuffer: ArrayBuffer, originalBlob?: ArrayBuffer, auftraggeber?: string | null) => Promise<TranscriptionResult>
   isReady: () => Promise<boolean>
   isLoading: () => Promise<boolean>
   getMode: () => Promise<WhisperMode>
@@ -32,6 +32,7 @@ type WhisperAPI = {
 
 type LLMAPI = {
   parse: (transcript: string, clients?: string[], themes?: string[]) => Promise<Activity>
+  parseMany: (transcript: string, clients?: string[], themes?: string[]) => Promise<Activity[]>
   parseCorrection: (existingActivity: Activity, correctionTranscript: string) => Promise<Activity>
   parseFollowUp: (
     existingActivity: Activity,
@@ -56,9 +57,17 @@ type ExcelAPI = {
   setPath: (path: string) => Promise<void>
   getPath: () => Promise<string | null>
   selectFile: () => Promise<string | null>
-  saveActivity: (activity: Activity) => Promise<SaveResult>
+  saveActivity: (activity: Activity, options?: SaveOptions) => Promise<SaveResult>
+  saveActivities: (items: SaveBatchItem[]) => Promise<SaveResult[]>
   openFile: (filePath: string) => Promise<boolean>
+  isFileLocked: (filePath: string) => Promise<boolean>
   getActivities: (month: number) => Promise<ExcelActivity[]>
+  queryActivities: (from: string, to: string) => Promise<BookedActivity[]>
+  getDashboard: (from: string, to: string) => Promise<DashboardSummary | null>
+  updateActivity: (savedRow: SavedRowRef, activity: Activity, previousActivity?: Activity) => Promise<SaveResult>
+  deleteActivity: (savedRow: SavedRowRef) => Promise<SaveResult>
+  undoLastSave: () => Promise<SaveResult>
+  createReport: (filePath: string, month: number, rates?: ReportRates) => Promise<ReportResult>
 }
 
 type ScannedFile = {
@@ -91,6 +100,7 @@ type ConfigAPI = {
   findFile: (auftraggeber: string, jahr: number) => Promise<XlsxFileConfig | null>
   toggleFileActive: (path: string, active: boolean) => Promise<void>
   removeFile: (path: string) => Promise<void>
+  rolloverYear: (auftraggeber: string, jahr: number, templatePath?: string) => Promise<XlsxFileConfig>
   getSettings: () => Promise<AppSettings>
   updateSettings: (updates: Partial<AppSettings>) => Promise<AppSettings>
   debugInfo: () => Promise<DebugInfo>
@@ -112,7 +122,14 @@ type GlossarAPI = {
   load: () => Promise<boolean>
   getKnownTerms: () => Promise<GlossarKnownTerms | null>
   normalize: (text: string) => Promise<string>
+  match: (text: string) => Promise<GlossarMatch[]>
   getEntries: () => Promise<GlossarEntry[]>
+  getFileEntries: (filePath: string) => Promise<GlossarEintrag[]>
+  saveEntries: (filePath: string, eintraege: GlossarEintrag[]) => Promise<GlossarSaveResult>
+  getSuggestions: () => Promise<SynonymSuggestion[]>
+  acceptSuggestion: (id: string) => Promise<GlossarSaveResult>
+  rejectSuggestion: (id: string) => Promise<boolean>
+  addTerm: (filePath: string, kategorie: GlossarKategorie, begriff: string) => Promise<GlossarSaveResult>
   clearCache: () => Promise<void>
   createFromData: (filePath: string, auftraggeber: string) => Promise<boolean>
 }
@@ -129,8 +146,12 @@ type DraftEntry = {
   id: number
   activity: Activity
   transcript: string
+  parsedActivity?: Activity
   timestamp: string
   saved: boolean
+  savedFilePath?: string
+  savedRow?: SavedRowRef
+  queuedFilePath?: string
 }
 
 type DraftsAPI = {
@@ -139,6 +160,17 @@ type DraftsAPI = {
   clear: () => Promise<void>
 }
 
+type BackupAPI = {
+  list: (filePath: string) => Promise<BackupInfo[]>
+  diff: (filePath: string, backupPath: string) => Promise<BackupDiffResult>
+  restore: (filePath: string, backupPath: string) => Promise<BackupResult>
+  usage: () => Promise<BackupUsage>
+}
+
+type HistoryAPI = {
+  query: (query?: HistoryQuery) => Promise<HistoryEntry[]>
+}
+
 type DebugAPI = {
   getLogPath: () => Promise<string>
   readLog: () => Promise<string>
@@ -154,6 +186,8 @@ type ElectronAPI = {
   glossar: GlossarAPI
   tts: TTSAPI
   drafts: DraftsAPI
+  backup: BackupAPI
+  history: HistoryAPI
   debug: DebugAPI
 }
 
@@ -1,6 +1,6 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
-import type { Activity, ActivityEntry } from '@shared/types'
+import type { Activity, ActivityEntry, SavedRowRef } from '@shared/types'
 
 // Re-export types for consumers that import from this module
 export type { Activity, ActivityEntry }
@@ -46,6 +46,7 @@ export const useActivityStore = defineStore('activities', () => {
       id: nextId.value++,
       activity,
       transcript,
+      parsedActivity: { ...activity },
       timestamp: new Date(),
       saved: false
     }
@@ -63,8 +64,23 @@ export const useActivityStore = defineStore('activities', () => {
     if (index !== -1) entries.value.splice(index, 1)
   }
 
-  function markSaved(id: number, filePath: string): void {
-    updateEntry(id, { saved: true, savedFilePath: filePath })
+  function markSaved(id: number, filePath: string, savedRow?: SavedRowRef): void {
+    updateEntry(id, { saved: true, savedFilePath: filePath, savedRow, queuedFilePath: undefined })
+  }
+
+  // Entries waiting for their workbook to be closed in Excel
+  const queuedEntries = computed(() =>
+    entries.value.filter(e => !e.saved && e.queuedFilePath)
+  )
+
+  // A row was removed from a sheet: rows below it moved up by one
+  function shiftSavedRows(removed: SavedRowRef): void {
+    for (const entry of entries.value) {
+      const ref = entry.savedRow
+      if (ref && ref.filePath === removed.filePath && ref.sheet === removed.sheet && ref.row > removed.row) {
+        entry.savedRow = { ...ref, row: ref.row - 1 }
+      }
+    }
   }
 
   function getEntryById(id: number): ActivityEntry | undefined {
@@ -72,7 +88,7 @@ export const useActivityStore = defineStore('activities', () => {
   }
 
   // Restore entries from drafts (used on app load)
-  function restoreFromDrafts(drafts: Array<{ id: number; activity: Activity; transcript: string; timestamp: string; saved: boolean }>): void {
+  function restoreFromDrafts(drafts: Array<{ id: number; activity: Activity; transcript: string; parsedActivity?: Activity; timestamp: string; saved: boolean; savedFilePath?: string; savedRow?: SavedRowRef; queuedFilePath?: string }>): void {
     entries.value = drafts.map(d => ({
       ...d,
       timestamp: new Date(d.timestamp)
@@ -85,12 +101,14 @@ export const useActivityStore = defineStore('activities', () => {
     entries,
     unsavedEntries,
     unsavedCount,
+    queuedEntries,
     latestEditableEntry,
     latestSaveableEntry,
     addEntry,
     updateEntry,
     deleteEntry,
     markSaved,
+    shiftSavedRows,
     getEntryById,
     restoreFromDrafts
   }
@@ -1,6 +1,6 @@
 import { defineStore } from 'pinia'
 import { ref, watch, nextTick } from 'vue'
-import type { Activity, WhisperMode } from '@shared/types'
+import type { Activity, NewThemaSuggestion, WhisperMode } from '@shared/types'
 
 // Re-export for consumers that import from this module
 export type { WhisperMode }
@@ -13,6 +13,8 @@ export type ChatMessage = {
   mode?: WhisperMode
   activity?: Activity
   filePath?: string
+  savedEntryIds?: number[] // Save confirmation of these entries (offers undo)
+  newThema?: NewThemaSuggestion // Offers to add a saved Thema to the Glossar
   timestamp: Date
 }
 
@@ -11,6 +11,8 @@ export const useRecordingStore = defineStore('recording', () => {
   const isFollowUp = ref(false)
   const followUpEntryId = ref<number | null>(null)
   const currentFollowUpQuestion = ref<string | null>(null)
+  // Further entries from the same recording that still need a follow-up
+  const followUpQueue = ref<number[]>([])
 
   // Editing state (for voice corrections)
   const editingEntryId = ref<number | null>(null)
@@ -52,6 +54,14 @@ export const useRecordingStore = defineStore('recording', () => {
     currentFollowUpQuestion.value = null
   }
 
+  function queueFollowUps(entryIds: number[]): void {
+    followUpQueue.value.push(...entryIds)
+  }
+
+  function takeQueuedFollowUp(): number | null {
+    return followUpQueue.value.shift() ?? null
+  }
+
   function startEditing(entryId: number): void {
     editingEntryId.value = entryId
   }
@@ -67,6 +77,7 @@ export const useRecordingStore = defineStore('recording', () => {
     showRecordingOverlay.value = false
     clearFollowUp()
     clearEditing()
+    followUpQueue.value = []
   }
 
   return {
@@ -77,6 +88,7 @@ export const useRecordingStore = defineStore('recording', () => {
     isFollowUp,
     followUpEntryId,
     currentFollowUpQuestion,
+    followUpQueue,
     editingEntryId,
     isEditing,
     startRecording,
@@ -86,6 +98,8 @@ export const useRecordingStore = defineStore('recording', () => {
     setProcessing,
     startFollowUp,
     clearFollowUp,
+    queueFollowUps,
+    takeQueuedFollowUp,
     startEditing,
     clearEditing,
     reset
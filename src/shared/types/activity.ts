@@ -1,3 +1,5 @@
+import type { GlossarMatch } from './glossar'
+
 export type Activity = {
   auftraggeber: string | null
   thema: string | null
@@ -6,13 +8,56 @@ export type Activity = {
   km: number
   auslagen: number
   datum: string | null
+  matches?: ActivityMatches // Set by glossar normalization, not written to Excel
+}
+
+// exact: glossar hit; fuzzy: replaced by a similar glossar term;
+// llm: kept as recognised, only weak glossar candidates; unknown: no glossar candidate at all
+export type FieldMatchSource = 'exact' | 'fuzzy' | 'llm' | 'unknown'
+
+// How a recognised Auftraggeber/Thema was matched against the glossar
+export type FieldMatch = {
+  source: FieldMatchSource
+  confidence?: number // fuzzy: score of the applied glossar term
+  recognised?: string // fuzzy: value before the replacement
+  alternatives: GlossarMatch[] // Other glossar candidates, best first
+}
+
+export type ActivityMatches = {
+  auftraggeber?: FieldMatch
+  thema?: FieldMatch
 }
 
 export type ActivityEntry = {
   id: number
   activity: Activity
   transcript: string
+  parsedActivity?: Activity // As first recognised, before follow-ups and corrections
   timestamp: Date
   saved: boolean
   savedFilePath?: string
+  savedRow?: SavedRowRef
+  queuedFilePath?: string // Save is waiting for this workbook to be closed in Excel
+}
+
+// Where a saved activity was written, with a content fingerprint to detect edits made in Excel
+export type SavedRowRef = {
+  filePath: string
+  sheet: string
+  row: number
+  fingerprint: string
+}
+
+// A row read back from an Excel month sheet, tagged with where it was found
+export type BookedActivity = {
+  auftraggeber: string
+  filePath: string
+  sheet: string
+  row: number
+  datum: string
+  thema: string
+  taetigkeit: string
+  zeit: number | null
+  km: number
+  hotel: number
 }
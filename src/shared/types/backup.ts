@@ -0,0 +1,32 @@
+import type { BookedActivity } from './activity'
+
+// One backup copy of a workbook
+export type BackupInfo = {
+  path: string
+  filename: string
+  createdAt: string | null // Local time YYYY-MM-DDTHH:mm:ss from the file name
+}
+
+// Rows that differ between a backup and the current workbook, compared by content per sheet
+export type BackupDiff = {
+  onlyInBackup: BookedActivity[]  // Restoring brings these back
+  onlyInCurrent: BookedActivity[] // Restoring removes these
+  unchanged: number
+}
+
+// Backup count and size per configured file (Settings)
+export type BackupUsage = {
+  root: string // Configured backup root, empty = "backups/" next to each workbook
+  files: Array<{ filePath: string; auftraggeber: string; jahr: number; count: number; bytes: number }>
+  totalCount: number
+  totalBytes: number
+}
+
+export type BackupResult = {
+  success: boolean
+  error?: string
+}
+
+export type BackupDiffResult = BackupResult & {
+  diff?: BackupDiff
+}
@@ -1,8 +1,48 @@
+// Month sheet names: 'Januar', 'Jan' or '01'
+export type SheetNaming = 'monthName' | 'monthShort' | 'monthNumber'
+
+// How the Zeit column stores durations: fraction of a day ([h]:mm), hours or minutes
+export type TimeFormat = 'dayFraction' | 'hours' | 'minutes'
+
+// Column letters per field; KM and Hotel are optional in some templates
+export type LayoutColumns = {
+  datum: string
+  thema: string
+  taetigkeit: string
+  zeit: string
+  km?: string
+  hotel?: string
+}
+
+export type SheetLayout = {
+  sheetNaming: SheetNaming
+  columns: LayoutColumns
+  headerRow: number // Row with the column headers, activities follow below
+  timeFormat: TimeFormat
+}
+
 export type XlsxFileConfig = {
   path: string
   auftraggeber: string
   jahr: number
   active: boolean
+  layout?: SheetLayout // Missing = detected from the header cells
+  hourlyRate?: number  // Default rates for monthly reports
+  kmRate?: number
+}
+
+export type LLMProviderType = 'openai' | 'azure' | 'local' | 'mock'
+
+// 'auto' = cloud when an API key is set, local whisper.cpp as fallback
+export type WhisperPreference = 'auto' | 'cloud' | 'local'
+export type WhisperModel = 'tiny' | 'base' | 'small'
+
+// Backups kept per file: the newest keepLast, plus the newest backup of each
+// day within keepDailyDays and of each week within keepWeeklyWeeks (0 = off)
+export type BackupRetention = {
+  keepLast: number
+  keepDailyDays: number
+  keepWeeklyWeeks: number
 }
 
 export type AppSettings = {
@@ -11,6 +51,17 @@ export type AppSettings = {
   hasApiKey: boolean   // Indicates if an API key is configured
   ttsEnabled: boolean
   ttsVoice: 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer'
+  llmProvider: LLMProviderType
+  llmModel: string      // Model name (Azure: deployment name), empty = provider default
+  llmBaseUrl: string    // Endpoint for 'local' and 'azure', empty = provider default
+  llmApiVersion: string // Azure API version, empty = default
+  whisperMode: WhisperPreference
+  whisperModel: WhisperModel // ggml model for local transcription
+  backupRetention: BackupRetention
+  backupRoot: string      // Separate backup folder (e.g. outside the synced folder), empty = "backups/" next to the workbook
+  backupCompress: boolean // Store new backups as .zip
+  synonymThreshold: number // Identical corrections before a synonym is proposed
+  synonymAutoAdd: boolean  // Add the synonym to the Glossar without asking
 }
 
 export type AppConfig = {
@@ -0,0 +1,32 @@
+import type { BookedActivity } from './activity'
+
+// Totals of one group (Auftraggeber, Thema or week) with the rows it was built from
+export type DashboardGroup = {
+  key: string
+  hours: number
+  km: number
+  auslagen: number
+  rowIndexes: number[] // Indexes into DashboardSummary.rows for drill-down
+}
+
+// A file that could not be read and is missing from the totals
+export type DashboardFileError = {
+  filePath: string
+  auftraggeber: string
+  jahr: number
+  error: string
+}
+
+// Aggregated view of all active files for a period
+export type DashboardSummary = {
+  from: string
+  to: string
+  rows: BookedActivity[]
+  totalHours: number
+  totalKm: number
+  totalAuslagen: number
+  byAuftraggeber: DashboardGroup[]
+  byThema: DashboardGroup[]
+  byWeek: DashboardGroup[] // Key "YYYY-Www" (ISO week), sorted chronologically
+  errors: DashboardFileError[]
+}
@@ -11,3 +11,42 @@ export type Glossar = {
   byKategorie: Map<GlossarKategorie, GlossarEintrag[]>
   lookupMap: Map<string, string>
 }
+
+// exact: lookup hit; fuzzy: similar spelling; phonetic: similar sound (Kölner Phonetik/Double Metaphone)
+export type GlossarMatchMethod = 'exact' | 'fuzzy' | 'phonetic'
+
+// A glossar candidate for a recognised term, best first in match results
+export type GlossarMatch = {
+  begriff: string
+  confidence: number // 0-1
+  method: GlossarMatchMethod
+}
+
+// Result of glossar:saveEntries
+export type GlossarSaveResult = {
+  success: boolean
+  error?: string
+  locked?: boolean // Workbook is open in Excel
+}
+
+// collecting: seen fewer times than the threshold; pending: waiting for approval
+export type SynonymSuggestionStatus = 'collecting' | 'pending' | 'accepted' | 'rejected'
+
+// A recurring correction, e.g. "Hakobo" → "Hakobu", proposed as synonym for one file's Glossar
+export type SynonymSuggestion = {
+  id: string
+  filePath: string
+  kategorie: GlossarKategorie
+  begriff: string // Corrected value
+  synonym: string // Value before the correction
+  count: number
+  status: SynonymSuggestionStatus
+  lastSeen: string // ISO timestamp
+}
+
+// A saved Thema that is not in the Glossar of its file yet, offered for adding
+export type NewThemaSuggestion = {
+  filePath: string
+  thema: string
+  kategorie: 'Thema' | 'Kunde' // Suggested Kategorie
+}
@@ -0,0 +1,30 @@
+import type { Activity } from './activity'
+
+export type HistoryAction = 'insert' | 'update' | 'delete'
+
+// Where a write landed in the workbook
+export type HistoryLocation = {
+  filePath: string
+  sheet: string
+  row: number
+}
+
+// One Excel write, appended to ~/.aktivitaeten/history.jsonl
+export type HistoryEntry = HistoryLocation & {
+  id: string
+  timestamp: string // ISO
+  action: HistoryAction
+  activity?: Activity       // As written (missing for delete)
+  transcript?: string       // Dictation incl. follow-up answers and corrections
+  parsedActivity?: Activity // As first recognised from the transcript
+  correctedFields?: Array<keyof Activity> // Fields changed between recognition and write
+  previous?: HistoryLocation // update: where the row was before
+}
+
+export type HistoryQuery = {
+  filePath?: string
+  from?: string   // YYYY-MM-DD, compared with the write date
+  to?: string
+  search?: string // Transcript, Auftraggeber, Thema or Beschreibung
+  limit?: number
+}
@@ -1,4 +1,8 @@
 export * from './activity'
+export * from './backup'
 export * from './config'
+export * from './dashboard'
 export * from './glossar'
+export * from './history'
 export * from './ipc'
+export * from './report'
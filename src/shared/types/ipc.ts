@@ -1,9 +1,29 @@
+import type { Activity, BookedActivity, SavedRowRef } from './activity'
+import type { NewThemaSuggestion } from './glossar'
+
 export type SaveResult = {
   success: boolean
   error?: string
   filePath?: string
+  savedRow?: SavedRowRef
+  duplicate?: BookedActivity // Set when nothing was written because a similar row exists
+  locked?: boolean // Workbook is open in Excel, retry once it is closed
+  newThema?: NewThemaSuggestion // Saved Thema is not in the file's Glossar
+}
+
+export type SaveOptions = {
+  allowDuplicate?: boolean // Write even if a similar row exists (user confirmed)
+  transcript?: string       // For the history log
+  parsedActivity?: Activity // As first recognised, to record what was corrected
+  ignoreOwnerFile?: boolean // Save although Excel's "~$" owner file exists (left over from a crash)
+}
+
+// One draft of excel:saveActivities; results come back in the same order
+export type SaveBatchItem = {
+  activity: Activity
+  options?: SaveOptions
 }
 
-export type WhisperMode = 'cloud' | 'none'
+export type WhisperMode = 'cloud' | 'local' | 'none'
 
 export type ProgressCallback = (progress: number) => void
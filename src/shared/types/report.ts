@@ -0,0 +1,28 @@
+import type { BookedActivity } from './activity'
+
+// Optional rates for invoicing; amounts are only calculated for rates that are set
+export type ReportRates = {
+  hourlyRate?: number // € per hour
+  kmRate?: number     // € per km
+}
+
+// Monthly summary of one Auftraggeber's workbook
+export type MonthlyReport = {
+  auftraggeber: string
+  jahr: number
+  month: number // 1-12
+  rows: BookedActivity[]
+  totalHours: number
+  totalKm: number
+  totalAuslagen: number
+  hoursAmount: number | null
+  kmAmount: number | null
+  totalAmount: number | null // Hours + km amounts + Auslagen, null without any rate
+}
+
+export type ReportResult = {
+  success: boolean
+  error?: string
+  pdfPath?: string
+  csvPath?: string
+}
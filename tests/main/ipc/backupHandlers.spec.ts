@@ -0,0 +1,199 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { ipcMain } from 'electron'
+
+// Mock services before importing handler
+vi.mock('@main/services/backup', () => ({
+  listBackups: vi.fn(),
+  restoreBackup: vi.fn(),
+  getBackupUsage: vi.fn(),
+  parseBackupTimestamp: vi.fn((p: string) => (p.includes('2026-03-01') ? '2026-03-01T10:00:00' : null))
+}))
+
+vi.mock('@main/services/backupDiff', () => ({
+  diffBackup: vi.fn()
+}))
+
+vi.mock('@main/services/config', () => ({
+  findFileByPath: vi.fn(),
+  getConfig: vi.fn()
+}))
+
+vi.mock('@main/services/workbook', () => ({
+  isWorkbookLocked: vi.fn()
+}))
+
+vi.mock('@main/utils/pathValidator', () => ({
+  validateExcelPath: vi.fn((p) => p),
+  validatePath: vi.fn((p) => p)
+}))
+
+import { registerBackupHandlers } from '@main/ipc/backupHandlers'
+import * as backupService from '@main/services/backup'
+import * as backupDiffService from '@main/services/backupDiff'
+import * as configService from '@main/services/config'
+import * as workbookService from '@main/services/workbook'
+import * as pathValidator from '@main/utils/pathValidator'
+
+describe('backupHandlers', () => {
+  const handlers: Record<string, Function> = {}
+  const file = { path: '/data/acme.xlsx', auftraggeber: 'ACME', jahr: 2026, active: true }
+  const backupPath = '/data/backups/acme_2026-03-01_10-00-00.xlsx'
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    vi.mocked(ipcMain.handle).mockImplementation((channel: string, handler: Function) => {
+      handlers[channel] = handler
+    })
+    vi.mocked(pathValidator.validateExcelPath).mockImplementation((p) => p)
+    vi.mocked(configService.findFileByPath).mockReturnValue(file)
+    vi.mocked(backupService.listBackups).mockResolvedValue([backupPath])
+    vi.mocked(workbookService.isWorkbookLocked).mockReturnValue(false)
+
+    registerBackupHandlers()
+  })
+
+  describe('registerBackupHandlers', () => {
+    it('should register all backup handlers', () => {
+      expect(ipcMain.handle).toHaveBeenCalledWith('backup:list', expect.any(Function))
+      expect(ipcMain.handle).toHaveBeenCalledWith('backup:diff', expect.any(Function))
+      expect(ipcMain.handle).toHaveBeenCalledWith('backup:restore', expect.any(Function))
+      expect(ipcMain.handle).toHaveBeenCalledWith('backup:usage', expect.any(Function))
+    })
+  })
+
+  describe('backup:list', () => {
+    it('should return backups with file name and timestamp', async () => {
+      vi.mocked(backupService.listBackups).mockResolvedValue([backupPath, '/data/backups/copy.xlsx'])
+
+      const result = await handlers['backup:list']({}, '/data/acme.xlsx')
+
+      expect(backupService.listBackups).toHaveBeenCalledWith('/data/acme.xlsx')
+      expect(result).toEqual([
+        { path: backupPath, filename: 'acme_2026-03-01_10-00-00.xlsx', createdAt: '2026-03-01T10:00:00' },
+        { path: '/data/backups/copy.xlsx', filename: 'copy.xlsx', createdAt: null }
+      ])
+    })
+
+    it('should return an empty list for invalid paths', async () => {
+      const result = await handlers['backup:list']({}, '/data/notes.txt')
+
+      expect(result).toEqual([])
+      expect(backupService.listBackups).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('backup:usage', () => {
+    it('should sum the backups of all configured files', async () => {
+      vi.mocked(configService.getConfig).mockReturnValue({
+        xlsxBasePath: '/data',
+        xlsxFiles: [file, { ...file, path: '/data/beispiel.xlsx', auftraggeber: 'Beispiel' }],
+        settings: { backupRoot: '/backup' }
+      } as any)
+      vi.mocked(backupService.getBackupUsage).mockImplementation(async (p: string) =>
+        p === file.path ? { count: 3, bytes: 3000 } : { count: 1, bytes: 500 }
+      )
+
+      const result = await handlers['backup:usage']()
+
+      expect(result).toEqual({
+        root: '/backup',
+        files: [
+          { filePath: '/data/acme.xlsx', auftraggeber: 'ACME', jahr: 2026, count: 3, bytes: 3000 },
+          { filePath: '/data/beispiel.xlsx', auftraggeber: 'Beispiel', jahr: 2026, count: 1, bytes: 500 }
+        ],
+        totalCount: 4,
+        totalBytes: 3500
+      })
+    })
+  })
+
+  describe('backup:diff', () => {
+    it('should compare the backup with the configured file', async () => {
+      const diff = { onlyInBackup: [], onlyInCurrent: [], unchanged: 3 }
+      vi.mocked(backupDiffService.diffBackup).mockResolvedValue(diff)
+
+      const result = await handlers['backup:diff']({}, '/data/acme.xlsx', backupPath)
+
+      expect(backupDiffService.diffBackup).toHaveBeenCalledWith(file, backupPath)
+      expect(result).toEqual({ success: true, diff })
+    })
+
+    it('should reject backups that do not belong to the file', async () => {
+      const result = await handlers['backup:diff']({}, '/data/acme.xlsx', '/data/other.xlsx')
+
+      expect(result).toEqual({ success: false, error: 'Backup nicht gefunden: other.xlsx' })
+      expect(backupDiffService.diffBackup).not.toHaveBeenCalled()
+    })
+
+    it('should reject unconfigured files', async () => {
+      vi.mocked(configService.findFileByPath).mockReturnValue(null)
+
+      const result = await handlers['backup:diff']({}, '/data/acme.xlsx', backupPath)
+
+      expect(result).toEqual({ success: false, error: 'Datei ist nicht konfiguriert: /data/acme.xlsx' })
+    })
+
+    it('should reject invalid paths', async () => {
+      const result = await handlers['backup:diff']({}, '/data/acme.xlsx', 42)
+
+      expect(result).toEqual({ success: false, error: 'Ungültige Backup-Anfrage' })
+    })
+
+    it('should return read errors', async () => {
+      vi.mocked(backupDiffService.diffBackup).mockRejectedValue(new Error('Backup beschädigt'))
+
+      const result = await handlers['backup:diff']({}, '/data/acme.xlsx', backupPath)
+
+      expect(result).toEqual({ success: false, error: 'Backup beschädigt' })
+    })
+  })
+
+  describe('backup:restore', () => {
+    it('should restore the backup over the file', async () => {
+      vi.mocked(backupService.restoreBackup).mockResolvedValue(undefined)
+
+      const result = await handlers['backup:restore']({}, '/data/acme.xlsx', backupPath)
+
+      expect(backupService.restoreBackup).toHaveBeenCalledWith(backupPath, '/data/acme.xlsx')
+      expect(result).toEqual({ success: true })
+    })
+
+    it('should not restore while the file is open in Excel', async () => {
+      vi.mocked(workbookService.isWorkbookLocked).mockReturnValue(true)
+
+      const result = await handlers['backup:restore']({}, '/data/acme.xlsx', backupPath)
+
+      expect(result).toEqual({ success: false, error: 'Datei ist in Excel geöffnet: acme.xlsx' })
+      expect(backupService.restoreBackup).not.toHaveBeenCalled()
+    })
+
+    it('should accept compressed backups', async () => {
+      const zipPath = `${backupPath}.zip`
+      vi.mocked(backupService.listBackups).mockResolvedValue([zipPath])
+      vi.mocked(backupService.restoreBackup).mockResolvedValue(undefined)
+
+      const result = await handlers['backup:restore']({}, '/data/acme.xlsx', zipPath)
+
+      expect(backupService.restoreBackup).toHaveBeenCalledWith(zipPath, '/data/acme.xlsx')
+      expect(result).toEqual({ success: true })
+    })
+
+    it('should reject backups that do not belong to the file', async () => {
+      vi.mocked(backupService.listBackups).mockResolvedValue([])
+
+      const result = await handlers['backup:restore']({}, '/data/acme.xlsx', backupPath)
+
+      expect(result.success).toBe(false)
+      expect(backupService.restoreBackup).not.toHaveBeenCalled()
+    })
+
+    it('should return copy errors', async () => {
+      vi.mocked(backupService.restoreBackup).mockRejectedValue(new Error('EACCES'))
+
+      const result = await handlers['backup:restore']({}, '/data/acme.xlsx', backupPath)
+
+      expect(result).toEqual({ success: false, error: 'EACCES' })
+    })
+  })
+})
@@ -10,6 +10,7 @@ vi.mock('@main/services/config', () => ({
   removeXlsxFile: vi.fn(),
   getActiveFiles: vi.fn(),
   findFileForAuftraggeber: vi.fn(),
+  findFileByPath: vi.fn(),
   getSettings: vi.fn(),
   updateSettings: vi.fn()
 }))
@@ -18,6 +19,18 @@ vi.mock('@main/services/fileScanner', () => ({
   scanDirectory: vi.fn()
 }))
 
+vi.mock('@main/services/excel', () => ({
+  detectFileLayout: vi.fn().mockResolvedValue(null)
+}))
+
+vi.mock('@main/services/yearRollover', () => ({
+  rolloverYear: vi.fn()
+}))
+
+vi.mock('@main/services/llmProvider', () => ({
+  resetLLMProvider: vi.fn()
+}))
+
 vi.mock('@main/utils/pathValidator', () => ({
   validateExcelPath: vi.fn((p) => p)
 }))
@@ -32,6 +45,9 @@ vi.mock('@main/services/debugLog', () => ({
 import { registerConfigHandlers } from '@main/ipc/configHandlers'
 import * as configService from '@main/services/config'
 import * as fileScanner from '@main/services/fileScanner'
+import * as excelService from '@main/services/excel'
+import * as yearRollover from '@main/services/yearRollover'
+import * as llmProvider from '@main/services/llmProvider'
 import * as pathValidator from '@main/utils/pathValidator'
 import * as debugLog from '@main/services/debugLog'
 
@@ -66,6 +82,7 @@ describe('configHandlers', () => {
       expect(ipcMain.handle).toHaveBeenCalledWith('config:findFile', expect.any(Function))
       expect(ipcMain.handle).toHaveBeenCalledWith('config:toggleFileActive', expect.any(Function))
       expect(ipcMain.handle).toHaveBeenCalledWith('config:removeFile', expect.any(Function))
+      expect(ipcMain.handle).toHaveBeenCalledWith('config:rolloverYear', expect.any(Function))
       expect(ipcMain.handle).toHaveBeenCalledWith('config:getSettings', expect.any(Function))
       expect(ipcMain.handle).toHaveBeenCalledWith('config:updateSettings', expect.any(Function))
       expect(ipcMain.handle).toHaveBeenCalledWith('config:debugInfo', expect.any(Function))
@@ -192,6 +209,27 @@ describe('configHandlers', () => {
       })
     })
 
+    it('should detect the layout when a file is activated', async () => {
+      const layout = {
+        sheetNaming: 'monthShort' as const,
+        columns: { datum: 'A', thema: 'B', taetigkeit: 'C', zeit: 'D' },
+        headerRow: 2,
+        timeFormat: 'hours' as const
+      }
+      vi.mocked(pathValidator.validateExcelPath).mockReturnValue('/test/file.xlsx')
+      vi.mocked(configService.findFileByPath).mockReturnValue(null)
+      vi.mocked(excelService.detectFileLayout).mockResolvedValueOnce(layout)
+
+      await handlers['config:updateFile']({}, '/test/file.xlsx', { auftraggeber: 'ACME', jahr: 2026, active: true })
+
+      expect(configService.updateXlsxFile).toHaveBeenCalledWith('/test/file.xlsx', {
+        auftraggeber: 'ACME',
+        jahr: 2026,
+        active: true,
+        layout
+      })
+    })
+
     it('should throw on invalid path', async () => {
       vi.mocked(pathValidator.validateExcelPath).mockImplementation(() => {
         throw new Error('Invalid path')
@@ -269,6 +307,45 @@ describe('configHandlers', () => {
 
       expect(configService.updateXlsxFile).toHaveBeenCalledWith('/test/file.xlsx', { active: false })
     })
+
+    it('should store the detected layout when activating a file without one', async () => {
+      const layout = {
+        sheetNaming: 'monthNumber' as const,
+        columns: { datum: 'B', thema: 'C', taetigkeit: 'D', zeit: 'E' },
+        headerRow: 3,
+        timeFormat: 'minutes' as const
+      }
+      vi.mocked(pathValidator.validateExcelPath).mockReturnValue('/test/file.xlsx')
+      vi.mocked(configService.findFileByPath).mockReturnValue(
+        { path: '/test/file.xlsx', auftraggeber: 'ACME', jahr: 2026, active: false }
+      )
+      vi.mocked(excelService.detectFileLayout).mockResolvedValue(layout)
+
+      await handlers['config:toggleFileActive']({}, '/test/file.xlsx', true)
+
+      expect(configService.updateXlsxFile).toHaveBeenCalledWith('/test/file.xlsx', { active: true, layout })
+    })
+
+    it('should keep a configured layout', async () => {
+      vi.mocked(pathValidator.validateExcelPath).mockReturnValue('/test/file.xlsx')
+      vi.mocked(configService.findFileByPath).mockReturnValue({
+        path: '/test/file.xlsx',
+        auftraggeber: 'ACME',
+        jahr: 2026,
+        active: false,
+        layout: {
+          sheetNaming: 'monthName',
+          columns: { datum: 'A', thema: 'B', taetigkeit: 'C', zeit: 'D' },
+          headerRow: 7,
+          timeFormat: 'dayFraction'
+        }
+      })
+
+      await handlers['config:toggleFileActive']({}, '/test/file.xlsx', true)
+
+      expect(excelService.detectFileLayout).not.toHaveBeenCalled()
+      expect(configService.updateXlsxFile).toHaveBeenCalledWith('/test/file.xlsx', { active: true })
+    })
   })
 
   describe('config:removeFile', () => {
@@ -282,6 +359,33 @@ describe('configHandlers', () => {
     })
   })
 
+  describe('config:rolloverYear', () => {
+    it('should create the next year file', async () => {
+      const created = { path: '/test/LV ACME 2027.xlsx', auftraggeber: 'ACME', jahr: 2027, active: true }
+      vi.mocked(yearRollover.rolloverYear).mockResolvedValue(created)
+
+      const result = await handlers['config:rolloverYear']({}, 'ACME', 2027)
+
+      expect(yearRollover.rolloverYear).toHaveBeenCalledWith('ACME', 2027, undefined)
+      expect(result).toEqual(created)
+    })
+
+    it('should validate the template path', async () => {
+      vi.mocked(pathValidator.validateExcelPath).mockReturnValue('/test/Vorlage.xlsx')
+      vi.mocked(yearRollover.rolloverYear).mockResolvedValue({} as any)
+
+      await handlers['config:rolloverYear']({}, 'ACME', 2027, '/test/Vorlage.xlsx')
+
+      expect(pathValidator.validateExcelPath).toHaveBeenCalledWith('/test/Vorlage.xlsx')
+      expect(yearRollover.rolloverYear).toHaveBeenCalledWith('ACME', 2027, '/test/Vorlage.xlsx')
+    })
+
+    it('should reject an invalid year', async () => {
+      await expect(handlers['config:rolloverYear']({}, 'ACME', 1999)).rejects.toThrow()
+      expect(yearRollover.rolloverYear).not.toHaveBeenCalled()
+    })
+  })
+
   describe('config:getSettings', () => {
     it('should return settings', async () => {
       const mockSettings = { hotkey: 'Ctrl+R', hasApiKey: true, ttsEnabled: false }
@@ -320,6 +424,20 @@ describe('configHandlers', () => {
 
       expect(configService.updateSettings).toHaveBeenCalledWith({ openaiApiKey: 'sk-secret' })
     })
+
+    it('should reset the LLM provider after a settings change', async () => {
+      vi.mocked(configService.updateSettings).mockResolvedValue({} as any)
+
+      await handlers['config:updateSettings']({}, { llmProvider: 'local', llmBaseUrl: 'http://localhost:11434/v1' })
+
+      expect(llmProvider.resetLLMProvider).toHaveBeenCalled()
+    })
+
+    it('should reject non-http LLM endpoints', async () => {
+      await expect(
+        handlers['config:updateSettings']({}, { llmBaseUrl: 'file:///etc/passwd' })
+      ).rejects.toThrow()
+    })
   })
 
   describe('config:debugInfo', () => {
@@ -1,17 +1,57 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { ipcMain, dialog, shell } from 'electron'
 
+const { mockExistsSync } = vi.hoisted(() => ({
+  mockExistsSync: vi.fn()
+}))
+
+vi.mock('fs', () => ({
+  existsSync: mockExistsSync,
+  default: { existsSync: mockExistsSync }
+}))
+
 // Mock services before importing handler
 vi.mock('@main/services/excel', () => ({
   addActivity: vi.fn(),
-  getActivities: vi.fn()
+  addActivities: vi.fn(),
+  getActivities: vi.fn(),
+  queryActivities: vi.fn(),
+  updateActivity: vi.fn(),
+  deleteActivity: vi.fn(),
+  findDuplicateActivity: vi.fn(),
+  verifyRow: vi.fn()
 }))
 
 vi.mock('@main/services/config', () => ({
+  findFileByPath: vi.fn(),
   findFileForAuftraggeber: vi.fn(),
+  findYearFile: vi.fn(() => null),
+  findPreviousYearFile: vi.fn(),
   getActiveFiles: vi.fn()
 }))
 
+vi.mock('@main/services/yearRollover', () => ({
+  rolloverYear: vi.fn()
+}))
+
+vi.mock('@main/services/report', () => ({
+  createMonthlyReport: vi.fn()
+}))
+
+vi.mock('@main/services/dashboard', () => ({
+  getDashboard: vi.fn()
+}))
+
+vi.mock('@main/services/history', () => ({
+  appendHistory: vi.fn()
+}))
+
+vi.mock('@main/ipc/glossarHandlers', () => ({
+  learnSynonyms: vi.fn().mockResolvedValue([]),
+  addLearnedSynonyms: vi.fn(),
+  detectNewThema: vi.fn()
+}))
+
 vi.mock('@main/utils/pathValidator', () => ({
   validateExcelPath: vi.fn((p) => p)
 }))
@@ -19,6 +59,12 @@ vi.mock('@main/utils/pathValidator', () => ({
 import { registerExcelHandlers, setExcelFilePath } from '@main/ipc/excelHandlers'
 import * as excelService from '@main/services/excel'
 import * as configService from '@main/services/config'
+import * as yearRollover from '@main/services/yearRollover'
+import * as reportService from '@main/services/report'
+import * as dashboardService from '@main/services/dashboard'
+import * as historyService from '@main/services/history'
+import * as glossarHandlers from '@main/ipc/glossarHandlers'
+import { clearUndoStack, getUndoStack, recordSave } from '@main/services/undoStack'
 import * as pathValidator from '@main/utils/pathValidator'
 
 describe('excelHandlers', () => {
@@ -40,8 +86,16 @@ describe('excelHandlers', () => {
       expect(ipcMain.handle).toHaveBeenCalledWith('excel:getPath', expect.any(Function))
       expect(ipcMain.handle).toHaveBeenCalledWith('excel:selectFile', expect.any(Function))
       expect(ipcMain.handle).toHaveBeenCalledWith('excel:openFile', expect.any(Function))
+      expect(ipcMain.handle).toHaveBeenCalledWith('excel:isFileLocked', expect.any(Function))
       expect(ipcMain.handle).toHaveBeenCalledWith('excel:saveActivity', expect.any(Function))
+      expect(ipcMain.handle).toHaveBeenCalledWith('excel:saveActivities', expect.any(Function))
       expect(ipcMain.handle).toHaveBeenCalledWith('excel:getActivities', expect.any(Function))
+      expect(ipcMain.handle).toHaveBeenCalledWith('excel:queryActivities', expect.any(Function))
+      expect(ipcMain.handle).toHaveBeenCalledWith('excel:getDashboard', expect.any(Function))
+      expect(ipcMain.handle).toHaveBeenCalledWith('excel:updateActivity', expect.any(Function))
+      expect(ipcMain.handle).toHaveBeenCalledWith('excel:deleteActivity', expect.any(Function))
+      expect(ipcMain.handle).toHaveBeenCalledWith('excel:undoLastSave', expect.any(Function))
+      expect(ipcMain.handle).toHaveBeenCalledWith('excel:createReport', expect.any(Function))
     })
   })
 
@@ -156,6 +210,20 @@ describe('excelHandlers', () => {
     })
   })
 
+  describe('excel:isFileLocked', () => {
+    it('should report whether the workbook is open in Excel', async () => {
+      vi.mocked(pathValidator.validateExcelPath).mockImplementation((p) => p)
+      mockExistsSync.mockReturnValueOnce(true)
+
+      expect(await handlers['excel:isFileLocked']({}, '/data/file.xlsx')).toBe(true)
+      expect(mockExistsSync).toHaveBeenCalledWith(expect.stringContaining('~$file.xlsx'))
+    })
+
+    it('should return false for invalid paths', async () => {
+      expect(await handlers['excel:isFileLocked']({}, '/data/file.txt')).toBe(false)
+    })
+  })
+
   describe('excel:saveActivity', () => {
     const validActivity = {
       auftraggeber: 'Client1',
@@ -171,7 +239,7 @@ describe('excelHandlers', () => {
       const mockConfigFile = { path: '/config/file.xlsx', auftraggeber: 'Client1', jahr: 2024, active: true }
       vi.mocked(configService.findFileForAuftraggeber).mockReturnValue(mockConfigFile)
       vi.mocked(pathValidator.validateExcelPath).mockReturnValue('/config/file.xlsx')
-      vi.mocked(excelService.addActivity).mockResolvedValue(undefined)
+      vi.mocked(excelService.addActivity).mockResolvedValue({ sheet: 'Januar', row: 8, fingerprint: 'abc' })
 
       const result = await handlers['excel:saveActivity']({}, validActivity)
 
@@ -183,7 +251,7 @@ describe('excelHandlers', () => {
         zeit: 1, // 60 minutes = 1 hour
         km: 10,
         hotel: 5
-      }))
+      }), undefined, { ignoreOwnerFile: undefined })
       expect(result.success).toBe(true)
       expect(result.filePath).toBe('/config/file.xlsx')
     })
@@ -192,7 +260,7 @@ describe('excelHandlers', () => {
       setExcelFilePath('/legacy/file.xlsx')
       vi.mocked(configService.findFileForAuftraggeber).mockReturnValue(null)
       vi.mocked(pathValidator.validateExcelPath).mockReturnValue('/legacy/file.xlsx')
-      vi.mocked(excelService.addActivity).mockResolvedValue(undefined)
+      vi.mocked(excelService.addActivity).mockResolvedValue({ sheet: 'Januar', row: 8, fingerprint: 'abc' })
 
       const result = await handlers['excel:saveActivity']({}, validActivity)
 
@@ -230,6 +298,73 @@ describe('excelHandlers', () => {
       expect(result.error).toContain('Keine Datei für Auftraggeber')
     })
 
+    it('should create the file for the current year from the previous year', async () => {
+      const jahr = new Date().getFullYear()
+      const previous = { path: `/data/LV Client1 ${jahr - 1}.xlsx`, auftraggeber: 'Client1', jahr: jahr - 1, active: true }
+      const created = { path: `/data/LV Client1 ${jahr}.xlsx`, auftraggeber: 'Client1', jahr, active: true }
+      vi.mocked(configService.findFileForAuftraggeber).mockReturnValue(null)
+      vi.mocked(configService.findPreviousYearFile).mockReturnValueOnce(previous)
+      vi.mocked(yearRollover.rolloverYear).mockResolvedValue(created)
+      vi.mocked(pathValidator.validateExcelPath).mockImplementation((p) => p)
+      vi.mocked(excelService.addActivity).mockResolvedValue({ sheet: 'Januar', row: 8, fingerprint: 'abc' })
+
+      const result = await handlers['excel:saveActivity']({}, { ...validActivity, datum: `${jahr}-01-05` })
+
+      expect(yearRollover.rolloverYear).toHaveBeenCalledWith('Client1', jahr)
+      expect(excelService.addActivity).toHaveBeenCalledWith(created.path, expect.any(Object), undefined, { ignoreOwnerFile: undefined })
+      expect(result.success).toBe(true)
+    })
+
+    it('should ask to activate an inactive file of the year instead of creating it', async () => {
+      const jahr = new Date().getFullYear()
+      vi.mocked(configService.findFileForAuftraggeber).mockReturnValue(null)
+      vi.mocked(configService.findYearFile).mockReturnValueOnce(
+        { path: `/data/LV Client1 ${jahr}.xlsx`, auftraggeber: 'Client1', jahr, active: false }
+      )
+      vi.mocked(configService.findPreviousYearFile).mockReturnValue(
+        { path: `/data/LV Client1 ${jahr - 1}.xlsx`, auftraggeber: 'Client1', jahr: jahr - 1, active: true }
+      )
+
+      const result = await handlers['excel:saveActivity']({}, { ...validActivity, datum: `${jahr}-01-05` })
+
+      expect(yearRollover.rolloverYear).not.toHaveBeenCalled()
+      expect(excelService.addActivity).not.toHaveBeenCalled()
+      expect(result).toEqual({
+        success: false,
+        error: `Die Datei für Client1 ${jahr} (LV Client1 ${jahr}.xlsx) ist nicht aktiv. Bitte unter "Dateien" aktivieren.`
+      })
+    })
+
+    it('should not create files for future years', async () => {
+      const jahr = new Date().getFullYear() + 1
+      setExcelFilePath(null as any)
+      vi.mocked(configService.findFileForAuftraggeber).mockReturnValue(null)
+      vi.mocked(configService.findPreviousYearFile).mockReturnValueOnce(
+        { path: '/data/LV Client1.xlsx', auftraggeber: 'Client1', jahr: jahr - 1, active: true }
+      )
+      vi.mocked(configService.getActiveFiles).mockReturnValue([])
+
+      const result = await handlers['excel:saveActivity']({}, { ...validActivity, datum: `${jahr}-01-05` })
+
+      expect(yearRollover.rolloverYear).not.toHaveBeenCalled()
+      expect(result.success).toBe(false)
+    })
+
+    it('should report a failed year rollover', async () => {
+      const jahr = new Date().getFullYear()
+      vi.mocked(configService.findFileForAuftraggeber).mockReturnValue(null)
+      vi.mocked(configService.findPreviousYearFile).mockReturnValueOnce(
+        { path: '/data/LV Client1.xlsx', auftraggeber: 'Client1', jahr: jahr - 1, active: true }
+      )
+      vi.mocked(yearRollover.rolloverYear).mockRejectedValue(new Error('Datei existiert bereits: /data/x.xlsx'))
+
+      const result = await handlers['excel:saveActivity']({}, { ...validActivity, datum: `${jahr}-01-05` })
+
+      expect(result.success).toBe(false)
+      expect(result.error).toContain('konnte nicht angelegt werden: Datei existiert bereits')
+      expect(excelService.addActivity).not.toHaveBeenCalled()
+    })
+
     it('should return error on invalid activity data', async () => {
       const invalidActivity = { invalid: 'data' }
 
@@ -244,13 +379,13 @@ describe('excelHandlers', () => {
       const mockConfigFile = { path: '/config/file.xlsx', auftraggeber: 'Client1', jahr: 2024, active: true }
       vi.mocked(configService.findFileForAuftraggeber).mockReturnValue(mockConfigFile)
       vi.mocked(pathValidator.validateExcelPath).mockReturnValue('/config/file.xlsx')
-      vi.mocked(excelService.addActivity).mockResolvedValue(undefined)
+      vi.mocked(excelService.addActivity).mockResolvedValue({ sheet: 'Januar', row: 8, fingerprint: 'abc' })
 
       const result = await handlers['excel:saveActivity']({}, activityWithNullMinuten)
 
       expect(excelService.addActivity).toHaveBeenCalledWith('/config/file.xlsx', expect.objectContaining({
         zeit: null
-      }))
+      }), undefined, { ignoreOwnerFile: undefined })
       expect(result.success).toBe(true)
     })
 
@@ -259,7 +394,7 @@ describe('excelHandlers', () => {
       setExcelFilePath('/legacy/file.xlsx')
       vi.mocked(configService.findFileForAuftraggeber).mockReturnValue(null)
       vi.mocked(pathValidator.validateExcelPath).mockReturnValue('/legacy/file.xlsx')
-      vi.mocked(excelService.addActivity).mockResolvedValue(undefined)
+      vi.mocked(excelService.addActivity).mockResolvedValue({ sheet: 'Januar', row: 8, fingerprint: 'abc' })
 
       const result = await handlers['excel:saveActivity']({}, activityWithoutAuftraggeber)
 
@@ -271,7 +406,7 @@ describe('excelHandlers', () => {
       const mockConfigFile = { path: '/file.xlsx', auftraggeber: 'Client1', jahr: 2025, active: true }
       vi.mocked(configService.findFileForAuftraggeber).mockReturnValue(mockConfigFile)
       vi.mocked(pathValidator.validateExcelPath).mockReturnValue('/file.xlsx')
-      vi.mocked(excelService.addActivity).mockResolvedValue(undefined)
+      vi.mocked(excelService.addActivity).mockResolvedValue({ sheet: 'Januar', row: 8, fingerprint: 'abc' })
 
       await handlers['excel:saveActivity']({}, {
         ...validActivity,
@@ -285,7 +420,7 @@ describe('excelHandlers', () => {
       const mockConfigFile = { path: '/file.xlsx', auftraggeber: 'Client1', jahr: 2025, active: true }
       vi.mocked(configService.findFileForAuftraggeber).mockReturnValue(mockConfigFile)
       vi.mocked(pathValidator.validateExcelPath).mockReturnValue('/file.xlsx')
-      vi.mocked(excelService.addActivity).mockResolvedValue(undefined)
+      vi.mocked(excelService.addActivity).mockResolvedValue({ sheet: 'Januar', row: 8, fingerprint: 'abc' })
 
       await handlers['excel:saveActivity']({}, {
         ...validActivity,
@@ -300,7 +435,7 @@ describe('excelHandlers', () => {
       const mockConfigFile = { path: '/file.xlsx', auftraggeber: 'Client1', jahr: currentYear, active: true }
       vi.mocked(configService.findFileForAuftraggeber).mockReturnValue(mockConfigFile)
       vi.mocked(pathValidator.validateExcelPath).mockReturnValue('/file.xlsx')
-      vi.mocked(excelService.addActivity).mockResolvedValue(undefined)
+      vi.mocked(excelService.addActivity).mockResolvedValue({ sheet: 'Januar', row: 8, fingerprint: 'abc' })
 
       await handlers['excel:saveActivity']({}, {
         ...validActivity,
@@ -321,6 +456,336 @@ describe('excelHandlers', () => {
       expect(result.success).toBe(false)
       expect(result.error).toBe('Write failed')
     })
+
+    it('should flag saves blocked by Excel for a retry', async () => {
+      const mockConfigFile = { path: '/file.xlsx', auftraggeber: 'Client1', jahr: 2024, active: true }
+      vi.mocked(configService.findFileForAuftraggeber).mockReturnValue(mockConfigFile)
+      vi.mocked(pathValidator.validateExcelPath).mockReturnValue('/file.xlsx')
+      vi.mocked(excelService.addActivity).mockRejectedValueOnce(
+        Object.assign(new Error('Datei ist in Excel geöffnet: file.xlsx'), { code: 'ELOCKED' })
+      )
+
+      const result = await handlers['excel:saveActivity']({}, validActivity)
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Datei ist in Excel geöffnet: file.xlsx',
+        locked: true,
+        filePath: '/file.xlsx'
+      })
+    })
+
+    it('should not queue saves that fail without an Excel owner file', async () => {
+      const mockConfigFile = { path: '/file.xlsx', auftraggeber: 'Client1', jahr: 2024, active: true }
+      vi.mocked(configService.findFileForAuftraggeber).mockReturnValue(mockConfigFile)
+      vi.mocked(pathValidator.validateExcelPath).mockReturnValue('/file.xlsx')
+      vi.mocked(excelService.addActivity).mockRejectedValueOnce(
+        Object.assign(new Error('Datei kann nicht geschrieben werden: file.xlsx'), { code: 'EPERM' })
+      )
+
+      const result = await handlers['excel:saveActivity']({}, validActivity)
+
+      expect(result).toEqual({ success: false, error: 'Datei kann nicht geschrieben werden: file.xlsx' })
+    })
+
+    it('should save despite a stale owner file when asked to', async () => {
+      const mockConfigFile = { path: '/file.xlsx', auftraggeber: 'Client1', jahr: 2024, active: true }
+      vi.mocked(configService.findFileForAuftraggeber).mockReturnValue(mockConfigFile)
+      vi.mocked(pathValidator.validateExcelPath).mockReturnValue('/file.xlsx')
+      vi.mocked(excelService.addActivity).mockResolvedValue({ sheet: 'Januar', row: 8, fingerprint: 'abc' })
+
+      const result = await handlers['excel:saveActivity']({}, validActivity, { ignoreOwnerFile: true })
+
+      expect(excelService.addActivity).toHaveBeenCalledWith('/file.xlsx', expect.any(Object), undefined, {
+        ignoreOwnerFile: true
+      })
+      expect(result.success).toBe(true)
+    })
+
+    describe('duplicate detection', () => {
+      const configFile = { path: '/file.xlsx', auftraggeber: 'Client1', jahr: 2024, active: true }
+      const existing = {
+        sheet: 'Januar',
+        row: 8,
+        datum: '2024-01-15',
+        thema: 'Theme1',
+        taetigkeit: 'Test activity',
+        zeit: 1,
+        km: 0,
+        hotel: 0
+      }
+
+      beforeEach(() => {
+        vi.mocked(configService.findFileForAuftraggeber).mockReturnValue(configFile)
+        vi.mocked(configService.findFileByPath).mockReturnValue(configFile)
+        vi.mocked(pathValidator.validateExcelPath).mockReturnValue('/file.xlsx')
+      })
+
+      it('should return the similar row instead of writing', async () => {
+        vi.mocked(excelService.findDuplicateActivity).mockResolvedValueOnce(existing)
+
+        const result = await handlers['excel:saveActivity']({}, validActivity)
+
+        expect(excelService.addActivity).not.toHaveBeenCalled()
+        expect(result).toEqual({
+          success: false,
+          error: 'Ähnlicher Eintrag vorhanden (Januar, Zeile 8)',
+          filePath: '/file.xlsx',
+          duplicate: { ...existing, auftraggeber: 'Client1', filePath: '/file.xlsx' }
+        })
+      })
+
+      it('should write without checking once the user confirmed', async () => {
+        vi.mocked(excelService.addActivity).mockResolvedValueOnce({ sheet: 'Januar', row: 9, fingerprint: 'abc' })
+
+        const result = await handlers['excel:saveActivity']({}, validActivity, { allowDuplicate: true })
+
+        expect(excelService.findDuplicateActivity).not.toHaveBeenCalled()
+        expect(result.success).toBe(true)
+      })
+
+      it('should reject invalid options', async () => {
+        const result = await handlers['excel:saveActivity']({}, validActivity, { allowDuplicate: 'yes' })
+
+        expect(result).toEqual({ success: false, error: 'Ungültige Aktivitätsdaten' })
+      })
+    })
+
+    describe('history', () => {
+      const configFile = { path: '/file.xlsx', auftraggeber: 'Client1', jahr: 2024, active: true }
+
+      beforeEach(() => {
+        vi.mocked(configService.findFileForAuftraggeber).mockReturnValue(configFile)
+        vi.mocked(pathValidator.validateExcelPath).mockReturnValue('/file.xlsx')
+        vi.mocked(excelService.findDuplicateActivity).mockResolvedValue(null)
+      })
+
+      it('should log the written row with transcript and recognised activity', async () => {
+        const parsedActivity = { ...validActivity, minuten: 30 }
+        vi.mocked(excelService.addActivity).mockResolvedValue({ sheet: 'Januar', row: 9, fingerprint: 'abc' })
+
+        await handlers['excel:saveActivity']({}, validActivity, { transcript: 'Workshop bei Client1', parsedActivity })
+
+        expect(historyService.appendHistory).toHaveBeenCalledWith({
+          action: 'insert',
+          filePath: '/file.xlsx',
+          sheet: 'Januar',
+          row: 9,
+          activity: validActivity,
+          transcript: 'Workshop bei Client1',
+          parsedActivity
+        })
+      })
+
+      it('should still report success when the history cannot be written', async () => {
+        vi.mocked(excelService.addActivity).mockResolvedValue({ sheet: 'Januar', row: 9, fingerprint: 'abc' })
+        vi.mocked(historyService.appendHistory).mockRejectedValueOnce(new Error('EACCES'))
+
+        const result = await handlers['excel:saveActivity']({}, validActivity)
+
+        expect(result.success).toBe(true)
+      })
+
+      it('should not log failed saves', async () => {
+        vi.mocked(excelService.addActivity).mockRejectedValue(new Error('Write failed'))
+
+        await handlers['excel:saveActivity']({}, validActivity)
+
+        expect(historyService.appendHistory).not.toHaveBeenCalled()
+      })
+
+      it('should learn synonyms from the corrections of the recognised activity', async () => {
+        const parsedActivity = { ...validActivity, thema: 'Rolaut' }
+        vi.mocked(excelService.addActivity).mockResolvedValue({ sheet: 'Januar', row: 9, fingerprint: 'abc' })
+
+        await handlers['excel:saveActivity']({}, validActivity, { parsedActivity })
+        await handlers['excel:saveActivity']({}, validActivity)
+
+        expect(glossarHandlers.learnSynonyms).toHaveBeenCalledTimes(1)
+        expect(glossarHandlers.learnSynonyms).toHaveBeenCalledWith('/file.xlsx', parsedActivity, validActivity)
+      })
+
+      it('should offer a Thema that is not in the file\'s Glossar', async () => {
+        const newThema = { filePath: '/file.xlsx', thema: validActivity.thema, kategorie: 'Thema' as const }
+        vi.mocked(excelService.addActivity).mockResolvedValue({ sheet: 'Januar', row: 9, fingerprint: 'abc' })
+        vi.mocked(glossarHandlers.detectNewThema).mockResolvedValueOnce(newThema)
+
+        const result = await handlers['excel:saveActivity']({}, validActivity)
+
+        expect(glossarHandlers.detectNewThema).toHaveBeenCalledWith('/file.xlsx', validActivity.thema)
+        expect(result).toEqual(expect.objectContaining({ success: true, newThema }))
+      })
+    })
+  })
+
+  describe('excel:saveActivities', () => {
+    const activity = {
+      auftraggeber: 'ACME',
+      thema: 'Rollout',
+      beschreibung: 'Workshop',
+      minuten: 60,
+      km: 0,
+      auslagen: 0,
+      datum: '2024-01-15'
+    }
+    const files: Record<string, { path: string; auftraggeber: string; jahr: number; active: boolean }> = {
+      ACME: { path: '/data/acme-2024.xlsx', auftraggeber: 'ACME', jahr: 2024, active: true },
+      Beispiel: { path: '/data/beispiel-2024.xlsx', auftraggeber: 'Beispiel', jahr: 2024, active: true }
+    }
+
+    beforeEach(() => {
+      clearUndoStack()
+      setExcelFilePath(null as any)
+      vi.mocked(pathValidator.validateExcelPath).mockImplementation((p) => p)
+      vi.mocked(configService.findFileForAuftraggeber).mockImplementation((auftraggeber) => files[auftraggeber] ?? null)
+      // Drop return values queued by earlier tests that never reached the rollover check
+      vi.mocked(configService.findPreviousYearFile).mockReset()
+      vi.mocked(configService.findFileByPath).mockReturnValue(null)
+      vi.mocked(configService.getActiveFiles).mockReturnValue(Object.values(files))
+    })
+
+    it('should write each file once and return results in input order', async () => {
+      vi.mocked(excelService.addActivities).mockImplementation(async (filePath, items) =>
+        items.map((_, i) => ({ location: { sheet: 'Januar', row: filePath.includes('acme') ? 8 + i : 20 + i, fingerprint: 'fp' } }))
+      )
+
+      const results = await handlers['excel:saveActivities']({}, [
+        { activity, options: { transcript: 'Workshop ACME' } },
+        { activity: { ...activity, auftraggeber: 'Beispiel' } },
+        { activity: { ...activity, thema: 'Support' } }
+      ])
+
+      expect(excelService.addActivities).toHaveBeenCalledTimes(2)
+      expect(excelService.addActivities).toHaveBeenCalledWith('/data/acme-2024.xlsx', [
+        { activity: expect.objectContaining({ thema: 'Rollout', zeit: 1 }), allowDuplicate: undefined },
+        { activity: expect.objectContaining({ thema: 'Support' }), allowDuplicate: undefined }
+      ], undefined, { ignoreOwnerFile: false })
+      expect(results).toEqual([
+        { success: true, filePath: '/data/acme-2024.xlsx', savedRow: { filePath: '/data/acme-2024.xlsx', sheet: 'Januar', row: 8, fingerprint: 'fp' } },
+        { success: true, filePath: '/data/beispiel-2024.xlsx', savedRow: { filePath: '/data/beispiel-2024.xlsx', sheet: 'Januar', row: 20, fingerprint: 'fp' } },
+        { success: true, filePath: '/data/acme-2024.xlsx', savedRow: { filePath: '/data/acme-2024.xlsx', sheet: 'Januar', row: 9, fingerprint: 'fp' } }
+      ])
+      expect(historyService.appendHistory).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'insert', filePath: '/data/acme-2024.xlsx', row: 8, transcript: 'Workshop ACME'
+      }))
+      // Input order, not grouped by file
+      expect(getUndoStack().map(r => [r.filePath, r.row])).toEqual([
+        ['/data/acme-2024.xlsx', 8],
+        ['/data/beispiel-2024.xlsx', 20],
+        ['/data/acme-2024.xlsx', 9]
+      ])
+      expect(glossarHandlers.learnSynonyms).not.toHaveBeenCalled()
+    })
+
+    it('should learn synonyms from the corrections of saved entries', async () => {
+      const parsedActivity = { ...activity, auftraggeber: 'Akme' }
+      vi.mocked(excelService.addActivities).mockResolvedValue([
+        { location: { sheet: 'Januar', row: 8, fingerprint: 'fp' } }
+      ])
+
+      await handlers['excel:saveActivities']({}, [{ activity, options: { parsedActivity } }])
+
+      expect(glossarHandlers.learnSynonyms).toHaveBeenCalledWith('/data/acme-2024.xlsx', parsedActivity, activity)
+    })
+
+    it('should add learned synonyms once after all rows are saved', async () => {
+      const parsedActivity = { ...activity, auftraggeber: 'Akme' }
+      const suggestion = {
+        id: 's1',
+        filePath: '/data/acme-2024.xlsx',
+        kategorie: 'Auftraggeber' as const,
+        begriff: 'ACME',
+        synonym: 'Akme',
+        count: 3,
+        status: 'pending' as const,
+        lastSeen: '2024-01-15T10:00:00.000Z'
+      }
+      vi.mocked(excelService.addActivities).mockResolvedValue([
+        { location: { sheet: 'Januar', row: 8, fingerprint: 'fp' } },
+        { location: { sheet: 'Januar', row: 9, fingerprint: 'fp' } }
+      ])
+      vi.mocked(glossarHandlers.learnSynonyms).mockResolvedValueOnce([suggestion]).mockResolvedValueOnce([suggestion])
+
+      await handlers['excel:saveActivities']({}, [
+        { activity, options: { parsedActivity } },
+        { activity: { ...activity, thema: 'Support' }, options: { parsedActivity } }
+      ])
+
+      expect(glossarHandlers.addLearnedSynonyms).toHaveBeenCalledTimes(1)
+      expect(glossarHandlers.addLearnedSynonyms).toHaveBeenCalledWith([suggestion, suggestion])
+      expect(vi.mocked(glossarHandlers.addLearnedSynonyms).mock.invocationCallOrder[0])
+        .toBeGreaterThan(vi.mocked(excelService.addActivities).mock.invocationCallOrder[0])
+    })
+
+    it('should offer unknown Themen per saved entry', async () => {
+      const newThema = { filePath: '/data/acme-2024.xlsx', thema: 'Support', kategorie: 'Thema' as const }
+      vi.mocked(excelService.addActivities).mockResolvedValue([
+        { location: { sheet: 'Januar', row: 8, fingerprint: 'fp' } },
+        { location: { sheet: 'Januar', row: 9, fingerprint: 'fp' } }
+      ])
+      vi.mocked(glossarHandlers.detectNewThema)
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(newThema)
+
+      const results = await handlers['excel:saveActivities']({}, [
+        { activity },
+        { activity: { ...activity, thema: 'Support' } }
+      ])
+
+      expect(results[0].newThema).toBeUndefined()
+      expect(results[1].newThema).toEqual(newThema)
+    })
+
+    it('should report per entry why it was not saved', async () => {
+      const existing = { sheet: 'Januar', row: 8, datum: '2024-01-15', thema: 'Rollout', taetigkeit: 'Workshop', zeit: 1, km: 0, hotel: 0 }
+      vi.mocked(excelService.addActivities).mockResolvedValue([
+        { error: 'Ähnlicher Eintrag vorhanden (Januar, Zeile 8)', duplicate: existing },
+        { location: { sheet: 'Januar', row: 9, fingerprint: 'fp' } }
+      ])
+
+      const results = await handlers['excel:saveActivities']({}, [
+        { activity },
+        { activity: { ...activity, auftraggeber: 'Unbekannt' } },
+        { activity: { ...activity, thema: 'Support' }, options: { allowDuplicate: true } }
+      ])
+
+      expect(results[0]).toEqual({
+        success: false,
+        error: 'Ähnlicher Eintrag vorhanden (Januar, Zeile 8)',
+        filePath: '/data/acme-2024.xlsx',
+        duplicate: { ...existing, auftraggeber: 'ACME', filePath: '/data/acme-2024.xlsx' }
+      })
+      expect(results[1].success).toBe(false)
+      expect(results[1].error).toContain('Keine Datei für Auftraggeber "Unbekannt"')
+      expect(results[2].success).toBe(true)
+      expect(vi.mocked(excelService.addActivities).mock.calls[0][1][1].allowDuplicate).toBe(true)
+    })
+
+    it('should fail all entries of a file that is open in Excel', async () => {
+      vi.mocked(excelService.addActivities).mockImplementation(async (filePath, items) => {
+        if (filePath.includes('acme')) {
+          throw Object.assign(new Error('Datei ist in Excel geöffnet: acme-2024.xlsx'), { code: 'ELOCKED' })
+        }
+        return items.map(() => ({ location: { sheet: 'Januar', row: 8, fingerprint: 'fp' } }))
+      })
+
+      const results = await handlers['excel:saveActivities']({}, [
+        { activity },
+        { activity: { ...activity, auftraggeber: 'Beispiel' } },
+        { activity: { ...activity, thema: 'Support' } }
+      ])
+
+      expect(results.map((r: { success: boolean; locked?: boolean }) => [r.success, r.locked])).toEqual([
+        [false, true], [true, undefined], [false, true]
+      ])
+      expect(results[0].filePath).toBe('/data/acme-2024.xlsx')
+    })
+
+    it('should return an empty list for invalid input', async () => {
+      expect(await handlers['excel:saveActivities']({}, [])).toEqual([])
+      expect(await handlers['excel:saveActivities']({}, [{ activity: { ...activity, beschreibung: '' } }])).toEqual([])
+      expect(excelService.addActivities).not.toHaveBeenCalled()
+    })
   })
 
   describe('excel:getActivities', () => {
@@ -368,4 +833,379 @@ describe('excelHandlers', () => {
       expect(result).toEqual([])
     })
   })
+
+  describe('excel:queryActivities', () => {
+    const files = [
+      { path: '/data/acme-2024.xlsx', auftraggeber: 'ACME', jahr: 2024, active: true },
+      { path: '/data/beispiel-2024.xlsx', auftraggeber: 'Beispiel', jahr: 2024, active: true }
+    ]
+
+    beforeEach(() => {
+      vi.mocked(pathValidator.validateExcelPath).mockImplementation((p) => p)
+    })
+
+    it('should query all active files for the date range', async () => {
+      const booked = [{
+        auftraggeber: 'ACME',
+        filePath: '/data/acme-2024.xlsx',
+        sheet: 'Januar',
+        row: 8,
+        datum: '2024-01-15',
+        thema: 'Rollout',
+        taetigkeit: 'Workshop',
+        zeit: 2,
+        km: 0,
+        hotel: 0
+      }]
+      vi.mocked(configService.getActiveFiles).mockReturnValue(files)
+      vi.mocked(excelService.queryActivities).mockResolvedValue(booked)
+
+      const result = await handlers['excel:queryActivities']({}, '2024-01-15', '2024-01-21')
+
+      expect(excelService.queryActivities).toHaveBeenCalledWith(files, '2024-01-15', '2024-01-21')
+      expect(result).toEqual(booked)
+    })
+
+    it('should skip files with invalid paths', async () => {
+      vi.mocked(configService.getActiveFiles).mockReturnValue(files)
+      vi.mocked(pathValidator.validateExcelPath).mockImplementation((p) => {
+        if (p.includes('beispiel')) throw new Error('Invalid path')
+        return p
+      })
+      vi.mocked(excelService.queryActivities).mockResolvedValue([])
+
+      await handlers['excel:queryActivities']({}, '2024-01-01', '2024-01-31')
+
+      expect(excelService.queryActivities).toHaveBeenCalledWith([files[0]], '2024-01-01', '2024-01-31')
+    })
+
+    it('should return empty array for an invalid range', async () => {
+      expect(await handlers['excel:queryActivities']({}, '15.01.2024', '2024-01-21')).toEqual([])
+      expect(await handlers['excel:queryActivities']({}, '2024-02-01', '2024-01-01')).toEqual([])
+      expect(excelService.queryActivities).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('excel:getDashboard', () => {
+    const files = [
+      { path: '/data/acme-2024.xlsx', auftraggeber: 'ACME', jahr: 2024, active: true },
+      { path: '/data/beispiel-2024.xlsx', auftraggeber: 'Beispiel', jahr: 2024, active: true }
+    ]
+
+    beforeEach(() => {
+      vi.mocked(configService.getActiveFiles).mockReturnValue(files)
+      vi.mocked(pathValidator.validateExcelPath).mockImplementation((p) => {
+        if (p.includes('beispiel')) throw new Error('Invalid path')
+        return p
+      })
+    })
+
+    it('should aggregate the active files with valid paths', async () => {
+      const summary = { from: '2024-01-01', to: '2024-01-31', rows: [], totalHours: 0 }
+      vi.mocked(dashboardService.getDashboard).mockResolvedValue(summary as any)
+
+      const result = await handlers['excel:getDashboard']({}, '2024-01-01', '2024-01-31')
+
+      expect(dashboardService.getDashboard).toHaveBeenCalledWith([files[0]], '2024-01-01', '2024-01-31')
+      expect(result).toBe(summary)
+    })
+
+    it('should return null for an invalid range', async () => {
+      expect(await handlers['excel:getDashboard']({}, '2024-02-01', '2024-01-01')).toBeNull()
+      expect(dashboardService.getDashboard).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('excel:updateActivity', () => {
+    const savedRow = { filePath: '/data/acme-2024.xlsx', sheet: 'Januar', row: 8, fingerprint: 'abc123' }
+    const activity = {
+      auftraggeber: 'ACME',
+      thema: 'Rollout',
+      beschreibung: 'Workshop',
+      minuten: 90,
+      km: 0,
+      auslagen: 0,
+      datum: '2024-01-15'
+    }
+
+    beforeEach(() => {
+      vi.mocked(pathValidator.validateExcelPath).mockImplementation((p) => p)
+      vi.mocked(configService.findFileByPath).mockReturnValue(null)
+    })
+
+    it('should overwrite the row in the same file using its layout', async () => {
+      const layout = {
+        sheetNaming: 'monthName' as const,
+        columns: { datum: 'A', thema: 'B', taetigkeit: 'C', zeit: 'D' },
+        headerRow: 5,
+        timeFormat: 'hours' as const
+      }
+      const configFile = { path: '/data/acme-2024.xlsx', auftraggeber: 'ACME', jahr: 2024, active: true, layout }
+      vi.mocked(configService.findFileForAuftraggeber).mockReturnValue(configFile)
+      vi.mocked(configService.findFileByPath).mockReturnValue(configFile)
+      vi.mocked(excelService.updateActivity).mockResolvedValue({ sheet: 'Januar', row: 8, fingerprint: 'def456' })
+
+      const result = await handlers['excel:updateActivity']({}, savedRow, activity)
+
+      expect(excelService.updateActivity).toHaveBeenCalledWith(
+        '/data/acme-2024.xlsx',
+        savedRow,
+        expect.objectContaining({ taetigkeit: 'Workshop', zeit: 1.5 }),
+        layout
+      )
+      expect(excelService.addActivity).not.toHaveBeenCalled()
+      expect(result).toEqual({
+        success: true,
+        filePath: '/data/acme-2024.xlsx',
+        savedRow: { filePath: '/data/acme-2024.xlsx', sheet: 'Januar', row: 8, fingerprint: 'def456' }
+      })
+    })
+
+    it('should move the row when the Auftraggeber changed', async () => {
+      vi.mocked(configService.findFileForAuftraggeber).mockReturnValue(
+        { path: '/data/beispiel-2024.xlsx', auftraggeber: 'Beispiel', jahr: 2024, active: true }
+      )
+      vi.mocked(excelService.addActivity).mockResolvedValue({ sheet: 'Januar', row: 12, fingerprint: 'fff000' })
+
+      const result = await handlers['excel:updateActivity']({}, savedRow, { ...activity, auftraggeber: 'Beispiel' })
+
+      expect(excelService.verifyRow).toHaveBeenCalledWith('/data/acme-2024.xlsx', savedRow, undefined)
+      expect(excelService.addActivity).toHaveBeenCalledWith('/data/beispiel-2024.xlsx', expect.any(Object), undefined)
+      expect(excelService.deleteActivity).toHaveBeenCalledWith('/data/acme-2024.xlsx', savedRow, undefined)
+      expect(result.savedRow).toEqual({ filePath: '/data/beispiel-2024.xlsx', sheet: 'Januar', row: 12, fingerprint: 'fff000' })
+      expect(historyService.appendHistory).toHaveBeenCalledWith({
+        action: 'update',
+        filePath: '/data/beispiel-2024.xlsx',
+        sheet: 'Januar',
+        row: 12,
+        activity: { ...activity, auftraggeber: 'Beispiel' },
+        previous: { filePath: '/data/acme-2024.xlsx', sheet: 'Januar', row: 8 }
+      })
+    })
+
+    it('should learn synonyms from the previous version of the row', async () => {
+      vi.mocked(configService.findFileForAuftraggeber).mockReturnValue(
+        { path: '/data/beispiel-2024.xlsx', auftraggeber: 'Beispiel', jahr: 2024, active: true }
+      )
+      vi.mocked(excelService.addActivity).mockResolvedValue({ sheet: 'Januar', row: 12, fingerprint: 'fff000' })
+      const corrected = { ...activity, auftraggeber: 'Beispiel' }
+
+      await handlers['excel:updateActivity']({}, savedRow, corrected, activity)
+
+      expect(glossarHandlers.learnSynonyms).toHaveBeenCalledWith('/data/beispiel-2024.xlsx', activity, corrected)
+    })
+
+    it('should only check the Thema against the Glossar when it changed', async () => {
+      vi.mocked(configService.findFileForAuftraggeber).mockReturnValue(
+        { path: '/data/acme-2024.xlsx', auftraggeber: 'ACME', jahr: 2024, active: true }
+      )
+      vi.mocked(excelService.updateActivity).mockResolvedValue({ sheet: 'Januar', row: 8, fingerprint: 'fff000' })
+
+      await handlers['excel:updateActivity']({}, savedRow, { ...activity, minuten: 120 }, activity)
+      await handlers['excel:updateActivity']({}, savedRow, { ...activity, thema: 'Support' }, activity)
+
+      expect(glossarHandlers.detectNewThema).toHaveBeenCalledTimes(1)
+      expect(glossarHandlers.detectNewThema).toHaveBeenCalledWith('/data/acme-2024.xlsx', 'Support')
+    })
+
+    it('should not write anything when the row was changed in Excel', async () => {
+      vi.mocked(configService.findFileForAuftraggeber).mockReturnValue(
+        { path: '/data/beispiel-2024.xlsx', auftraggeber: 'Beispiel', jahr: 2024, active: true }
+      )
+      vi.mocked(excelService.verifyRow).mockRejectedValue(new Error('Zeile 8 im Sheet "Januar" wurde in Excel verändert.'))
+
+      const result = await handlers['excel:updateActivity']({}, savedRow, { ...activity, auftraggeber: 'Beispiel' })
+
+      expect(result.success).toBe(false)
+      expect(result.error).toContain('wurde in Excel verändert')
+      expect(excelService.addActivity).not.toHaveBeenCalled()
+      expect(excelService.deleteActivity).not.toHaveBeenCalled()
+    })
+
+    it('should reject an invalid row reference', async () => {
+      const result = await handlers['excel:updateActivity']({}, { ...savedRow, row: 0 }, activity)
+
+      expect(result).toEqual({ success: false, error: 'Ungültige Aktivitätsdaten' })
+      expect(excelService.updateActivity).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('excel:deleteActivity', () => {
+    const savedRow = { filePath: '/data/acme-2024.xlsx', sheet: 'Januar', row: 8, fingerprint: 'abc123' }
+
+    beforeEach(() => {
+      vi.mocked(pathValidator.validateExcelPath).mockImplementation((p) => p)
+      vi.mocked(configService.findFileByPath).mockReturnValue(null)
+    })
+
+    it('should delete the referenced row', async () => {
+      vi.mocked(excelService.deleteActivity).mockResolvedValue(undefined)
+
+      const result = await handlers['excel:deleteActivity']({}, savedRow)
+
+      expect(excelService.deleteActivity).toHaveBeenCalledWith('/data/acme-2024.xlsx', savedRow, undefined)
+      expect(result).toEqual({ success: true, filePath: '/data/acme-2024.xlsx' })
+      expect(historyService.appendHistory).toHaveBeenCalledWith({
+        action: 'delete',
+        filePath: '/data/acme-2024.xlsx',
+        sheet: 'Januar',
+        row: 8
+      })
+    })
+
+    it('should return the error message on failure', async () => {
+      vi.mocked(excelService.deleteActivity).mockRejectedValue(new Error('Sheet "Januar" nicht gefunden'))
+
+      const result = await handlers['excel:deleteActivity']({}, savedRow)
+
+      expect(result).toEqual({ success: false, error: 'Sheet "Januar" nicht gefunden' })
+    })
+
+    it('should reject an invalid row reference', async () => {
+      const result = await handlers['excel:deleteActivity']({}, { filePath: '/data/acme-2024.xlsx' })
+
+      expect(result).toEqual({ success: false, error: 'Ungültige Zeilenangabe' })
+    })
+  })
+
+  describe('excel:undoLastSave', () => {
+    const savedRow = { filePath: '/data/acme-2024.xlsx', sheet: 'Januar', row: 8, fingerprint: 'abc123' }
+
+    beforeEach(() => {
+      clearUndoStack()
+      vi.mocked(pathValidator.validateExcelPath).mockImplementation((p) => p)
+      vi.mocked(configService.findFileByPath).mockReturnValue(null)
+    })
+
+    it('should delete the row written by the last save', async () => {
+      vi.mocked(configService.findFileForAuftraggeber).mockReturnValue(
+        { path: '/data/acme-2024.xlsx', auftraggeber: 'ACME', jahr: 2024, active: true }
+      )
+      vi.mocked(excelService.findDuplicateActivity).mockResolvedValue(null)
+      vi.mocked(excelService.addActivity).mockResolvedValue({ sheet: 'Januar', row: 8, fingerprint: 'abc123' })
+      vi.mocked(excelService.deleteActivity).mockResolvedValue(undefined)
+      await handlers['excel:saveActivity']({}, {
+        auftraggeber: 'ACME',
+        thema: 'Rollout',
+        beschreibung: 'Workshop',
+        minuten: 90,
+        km: 0,
+        auslagen: 0,
+        datum: '2024-01-15'
+      })
+
+      const result = await handlers['excel:undoLastSave']({})
+
+      expect(excelService.deleteActivity).toHaveBeenCalledWith('/data/acme-2024.xlsx', savedRow, undefined)
+      expect(result).toEqual({ success: true, filePath: '/data/acme-2024.xlsx', savedRow })
+      expect(historyService.appendHistory).toHaveBeenLastCalledWith(
+        { action: 'delete', filePath: '/data/acme-2024.xlsx', sheet: 'Januar', row: 8 }
+      )
+      expect(getUndoStack()).toEqual([])
+    })
+
+    it('should undo the saves one after another', async () => {
+      recordSave(savedRow)
+      recordSave({ ...savedRow, row: 9, fingerprint: 'def456' })
+
+      await handlers['excel:undoLastSave']({})
+      await handlers['excel:undoLastSave']({})
+
+      expect(vi.mocked(excelService.deleteActivity).mock.calls.map(([, ref]) => ref.row)).toEqual([9, 8])
+    })
+
+    it('should target the row where a deletion moved it', async () => {
+      recordSave({ ...savedRow, row: 9 })
+      await handlers['excel:deleteActivity']({}, savedRow)
+
+      await handlers['excel:undoLastSave']({})
+
+      expect(excelService.deleteActivity).toHaveBeenLastCalledWith('/data/acme-2024.xlsx', { ...savedRow, row: 8 }, undefined)
+    })
+
+    it('should report when there is nothing to undo', async () => {
+      const result = await handlers['excel:undoLastSave']({})
+
+      expect(result).toEqual({ success: false, error: 'Keine Speicherung zum Rückgängigmachen' })
+      expect(excelService.deleteActivity).not.toHaveBeenCalled()
+    })
+
+    it('should not delete a row edited in Excel and drop it from the stack', async () => {
+      recordSave(savedRow)
+      vi.mocked(excelService.deleteActivity).mockRejectedValue(new Error('Zeile 8 im Sheet "Januar" wurde in Excel verändert.'))
+
+      const result = await handlers['excel:undoLastSave']({})
+
+      expect(result.success).toBe(false)
+      expect(result.error).toContain('wurde in Excel verändert')
+      expect(getUndoStack()).toEqual([])
+    })
+
+    it('should keep the row for another try while the file is open in Excel', async () => {
+      recordSave(savedRow)
+      vi.mocked(excelService.deleteActivity).mockRejectedValue(
+        Object.assign(new Error('Datei ist in Excel geöffnet: acme-2024.xlsx'), { code: 'ELOCKED' })
+      )
+
+      const result = await handlers['excel:undoLastSave']({})
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Datei ist in Excel geöffnet: acme-2024.xlsx',
+        locked: true,
+        filePath: '/data/acme-2024.xlsx'
+      })
+      expect(getUndoStack()).toEqual([savedRow])
+    })
+  })
+
+  describe('excel:createReport', () => {
+    const file = { path: '/data/acme-2024.xlsx', auftraggeber: 'ACME', jahr: 2024, active: true, hourlyRate: 80, kmRate: 0.3 }
+    const paths = { pdfPath: '/data/reports/Bericht ACME 2024-03.pdf', csvPath: '/data/reports/Bericht ACME 2024-03.csv' }
+
+    beforeEach(() => {
+      vi.mocked(pathValidator.validateExcelPath).mockImplementation((p) => p)
+      vi.mocked(configService.findFileByPath).mockReturnValue(file)
+      vi.mocked(reportService.createMonthlyReport).mockResolvedValue(paths)
+    })
+
+    it('should create the report with the rates of the file', async () => {
+      const result = await handlers['excel:createReport']({}, '/data/acme-2024.xlsx', 3)
+
+      expect(reportService.createMonthlyReport).toHaveBeenCalledWith(file, 3, { hourlyRate: 80, kmRate: 0.3 })
+      expect(result).toEqual({ success: true, ...paths })
+    })
+
+    it('should let explicit rates override the file rates', async () => {
+      await handlers['excel:createReport']({}, '/data/acme-2024.xlsx', 3, { hourlyRate: 95 })
+
+      expect(reportService.createMonthlyReport).toHaveBeenCalledWith(file, 3, { hourlyRate: 95, kmRate: 0.3 })
+    })
+
+    it('should reject unconfigured files and invalid input', async () => {
+      vi.mocked(configService.findFileByPath).mockReturnValueOnce(null)
+
+      expect(await handlers['excel:createReport']({}, '/data/other.xlsx', 3)).toEqual({
+        success: false,
+        error: 'Datei ist nicht konfiguriert: /data/other.xlsx'
+      })
+      expect(await handlers['excel:createReport']({}, '/data/acme-2024.xlsx', 13)).toEqual({
+        success: false,
+        error: 'Ungültige Berichtsanfrage'
+      })
+      expect(await handlers['excel:createReport']({}, '/data/acme-2024.xlsx', 3, { kmRate: -1 })).toEqual({
+        success: false,
+        error: 'Ungültige Berichtsanfrage'
+      })
+      expect(reportService.createMonthlyReport).not.toHaveBeenCalled()
+    })
+
+    it('should return the error message on failure', async () => {
+      vi.mocked(reportService.createMonthlyReport).mockRejectedValueOnce(new Error('Sheet "März" nicht gefunden'))
+
+      const result = await handlers['excel:createReport']({}, '/data/acme-2024.xlsx', 3)
+
+      expect(result).toEqual({ success: false, error: 'Sheet "März" nicht gefunden' })
+    })
+  })
 })
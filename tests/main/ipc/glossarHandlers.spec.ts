@@ -4,13 +4,36 @@ import { ipcMain } from 'electron'
 // Mock services before importing handler
 vi.mock('@main/services/glossar', () => ({
   normalizeText: vi.fn((text) => text),
+  matchTerm: vi.fn(() => []),
   getAllKnownTerms: vi.fn(),
   clearGlossarCache: vi.fn(),
-  ensureGlossar: vi.fn()
+  ensureGlossar: vi.fn(),
+  buildTranscriptionVocabulary: vi.fn(() => []),
+  loadGlossar: vi.fn(),
+  saveGlossarEntries: vi.fn(),
+  addGlossarSynonym: vi.fn(),
+  addGlossarSynonyms: vi.fn(),
+  addGlossarBegriff: vi.fn(),
+  classifyNewThema: vi.fn(),
+  isGlossarKategorie: vi.fn((value) => ['Auftraggeber', 'Thema', 'Kunde', 'Sonstiges'].includes(value))
+}))
+
+vi.mock('@main/services/synonymSuggestions', () => ({
+  recordCorrections: vi.fn(),
+  getPendingSuggestions: vi.fn(),
+  findSuggestion: vi.fn(),
+  setSuggestionStatus: vi.fn()
 }))
 
 vi.mock('@main/services/config', () => ({
-  getActiveFiles: vi.fn()
+  getActiveFiles: vi.fn(),
+  findFileByPath: vi.fn(),
+  getConfig: vi.fn()
+}))
+
+vi.mock('@main/services/workbook', () => ({
+  isWorkbookLocked: vi.fn(),
+  isLockError: vi.fn((err: any) => err?.code === 'EBUSY')
 }))
 
 vi.mock('@main/utils/pathValidator', () => ({
@@ -20,10 +43,16 @@ vi.mock('@main/utils/pathValidator', () => ({
 import {
   registerGlossarHandlers,
   getCurrentGlossar,
+  getTranscriptionVocabulary,
+  learnSynonyms,
+  addLearnedSynonyms,
+  detectNewThema,
   reloadGlossar
 } from '@main/ipc/glossarHandlers'
 import * as glossarService from '@main/services/glossar'
 import * as configService from '@main/services/config'
+import * as suggestionService from '@main/services/synonymSuggestions'
+import * as workbookService from '@main/services/workbook'
 import * as pathValidator from '@main/utils/pathValidator'
 
 describe('glossarHandlers', () => {
@@ -47,6 +76,12 @@ describe('glossarHandlers', () => {
       expect(ipcMain.handle).toHaveBeenCalledWith('glossar:getEntries', expect.any(Function))
       expect(ipcMain.handle).toHaveBeenCalledWith('glossar:clearCache', expect.any(Function))
       expect(ipcMain.handle).toHaveBeenCalledWith('glossar:createFromData', expect.any(Function))
+      expect(ipcMain.handle).toHaveBeenCalledWith('glossar:getFileEntries', expect.any(Function))
+      expect(ipcMain.handle).toHaveBeenCalledWith('glossar:saveEntries', expect.any(Function))
+      expect(ipcMain.handle).toHaveBeenCalledWith('glossar:getSuggestions', expect.any(Function))
+      expect(ipcMain.handle).toHaveBeenCalledWith('glossar:acceptSuggestion', expect.any(Function))
+      expect(ipcMain.handle).toHaveBeenCalledWith('glossar:rejectSuggestion', expect.any(Function))
+      expect(ipcMain.handle).toHaveBeenCalledWith('glossar:addTerm', expect.any(Function))
     })
   })
 
@@ -174,6 +209,35 @@ describe('glossarHandlers', () => {
     })
   })
 
+  describe('glossar:match', () => {
+    it('should return ranked candidates from the loaded glossar', async () => {
+      const matches = [{ begriff: 'Lakowa', confidence: 0.92, method: 'phonetic' as const }]
+      vi.mocked(configService.getActiveFiles).mockReturnValue([
+        { path: '/file.xlsx', auftraggeber: 'Client1', jahr: 2024, active: true }
+      ])
+      vi.mocked(glossarService.ensureGlossar).mockResolvedValue({
+        eintraege: [],
+        byKategorie: new Map(),
+        lookupMap: new Map()
+      })
+      vi.mocked(glossarService.matchTerm).mockReturnValue(matches)
+
+      await handlers['glossar:load']()
+      const result = handlers['glossar:match']({}, 'Lakova')
+
+      expect(glossarService.matchTerm).toHaveBeenCalledWith('Lakova', expect.any(Object))
+      expect(result).toEqual(matches)
+    })
+
+    it('should return no candidates without glossar or for invalid input', async () => {
+      vi.mocked(configService.getActiveFiles).mockReturnValue([])
+      await handlers['glossar:load']()
+
+      expect(handlers['glossar:match']({}, 'Lakova')).toEqual([])
+      expect(handlers['glossar:match']({}, 123)).toEqual([])
+    })
+  })
+
   describe('glossar:getEntries', () => {
     it('should return entries when glossar is loaded', async () => {
       const mockEntries = [
@@ -206,6 +270,354 @@ describe('glossarHandlers', () => {
     })
   })
 
+  describe('glossar:getFileEntries', () => {
+    it('should return the entries of one file', async () => {
+      const eintraege = [{ kategorie: 'Thema' as const, begriff: 'Workshop', synonyme: ['WS'] }]
+      vi.mocked(pathValidator.validateExcelPath).mockReturnValue('/file.xlsx')
+      vi.mocked(glossarService.loadGlossar).mockResolvedValue({
+        eintraege,
+        byKategorie: new Map(),
+        lookupMap: new Map()
+      })
+
+      const result = await handlers['glossar:getFileEntries']({}, '/file.xlsx')
+
+      expect(glossarService.loadGlossar).toHaveBeenCalledWith('/file.xlsx')
+      expect(result).toEqual(eintraege)
+    })
+
+    it('should leave rows of unknown Kategorien out, so saving keeps them unchanged', async () => {
+      const known = { kategorie: 'Thema' as const, begriff: 'Workshop', synonyme: ['WS'] }
+      vi.mocked(pathValidator.validateExcelPath).mockImplementation((p) => p)
+      vi.mocked(configService.findFileByPath).mockReturnValue({ path: '/file.xlsx', auftraggeber: 'Client1', jahr: 2024, active: true })
+      vi.mocked(configService.getActiveFiles).mockReturnValue([])
+      vi.mocked(workbookService.isWorkbookLocked).mockReturnValue(false)
+      vi.mocked(glossarService.loadGlossar).mockResolvedValue({
+        eintraege: [
+          known,
+          { kategorie: 'Projekt' as any, begriff: 'Umbau Halle 3', synonyme: [] },
+          { kategorie: 'thema' as any, begriff: 'Schulung', synonyme: [] }
+        ],
+        byKategorie: new Map(),
+        lookupMap: new Map()
+      })
+
+      const loaded = await handlers['glossar:getFileEntries']({}, '/file.xlsx')
+      const saved = await handlers['glossar:saveEntries']({}, '/file.xlsx', loaded)
+
+      expect(loaded).toEqual([known])
+      expect(saved).toEqual({ success: true })
+      // Only the known entries are replaced, rewriting keeps the other rows as they are
+      expect(glossarService.saveGlossarEntries).toHaveBeenCalledWith('/file.xlsx', [known])
+    })
+
+    it('should return empty array when the file has no Glossar sheet', async () => {
+      vi.mocked(pathValidator.validateExcelPath).mockReturnValue('/file.xlsx')
+      vi.mocked(glossarService.loadGlossar).mockResolvedValue(null)
+
+      const result = await handlers['glossar:getFileEntries']({}, '/file.xlsx')
+
+      expect(result).toEqual([])
+    })
+
+    it('should return empty array for invalid paths', async () => {
+      const result = await handlers['glossar:getFileEntries']({}, '/file.txt')
+
+      expect(result).toEqual([])
+      expect(glossarService.loadGlossar).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('glossar:saveEntries', () => {
+    const file = { path: '/file.xlsx', auftraggeber: 'Client1', jahr: 2024, active: true }
+    const eintraege = [{ kategorie: 'Thema', begriff: 'Workshop', synonyme: ['WS'] }]
+
+    beforeEach(() => {
+      vi.mocked(pathValidator.validateExcelPath).mockImplementation((p) => p)
+      vi.mocked(configService.findFileByPath).mockReturnValue(file)
+      vi.mocked(configService.getActiveFiles).mockReturnValue([file])
+      vi.mocked(workbookService.isWorkbookLocked).mockReturnValue(false)
+      vi.mocked(glossarService.saveGlossarEntries).mockResolvedValue(undefined)
+    })
+
+    it('should write the entries and reload the glossar', async () => {
+      const result = await handlers['glossar:saveEntries']({}, '/file.xlsx', eintraege)
+
+      expect(glossarService.saveGlossarEntries).toHaveBeenCalledWith('/file.xlsx', eintraege)
+      expect(glossarService.ensureGlossar).toHaveBeenCalledWith('/file.xlsx', 'Client1')
+      expect(result).toEqual({ success: true })
+    })
+
+    it('should reject invalid entries', async () => {
+      const result = await handlers['glossar:saveEntries']({}, '/file.xlsx', [
+        { kategorie: 'Projekt', begriff: 'X', synonyme: [] }
+      ])
+
+      expect(result).toEqual({ success: false, error: 'Ungültige Glossar-Einträge' })
+      expect(glossarService.saveGlossarEntries).not.toHaveBeenCalled()
+    })
+
+    it('should reject unconfigured files', async () => {
+      vi.mocked(configService.findFileByPath).mockReturnValue(null)
+
+      const result = await handlers['glossar:saveEntries']({}, '/file.xlsx', eintraege)
+
+      expect(result).toEqual({ success: false, error: 'Datei ist nicht konfiguriert: /file.xlsx' })
+    })
+
+    it('should not write while the file is open in Excel', async () => {
+      vi.mocked(workbookService.isWorkbookLocked).mockReturnValue(true)
+
+      const result = await handlers['glossar:saveEntries']({}, '/file.xlsx', eintraege)
+
+      expect(result).toEqual({ success: false, error: 'Datei ist in Excel geöffnet: file.xlsx', locked: true })
+      expect(glossarService.saveGlossarEntries).not.toHaveBeenCalled()
+    })
+
+    it('should return validation errors of the service', async () => {
+      vi.mocked(glossarService.saveGlossarEntries).mockRejectedValue(
+        new Error('"WS" ist mehreren Begriffen zugeordnet')
+      )
+
+      const result = await handlers['glossar:saveEntries']({}, '/file.xlsx', eintraege)
+
+      expect(result).toEqual({ success: false, error: '"WS" ist mehreren Begriffen zugeordnet' })
+    })
+
+    it('should flag lock errors while writing', async () => {
+      vi.mocked(glossarService.saveGlossarEntries).mockRejectedValue(
+        Object.assign(new Error('EBUSY: resource busy'), { code: 'EBUSY' })
+      )
+
+      const result = await handlers['glossar:saveEntries']({}, '/file.xlsx', eintraege)
+
+      expect(result).toEqual({ success: false, error: 'EBUSY: resource busy', locked: true })
+    })
+  })
+
+  describe('synonym suggestions', () => {
+    const file = { path: '/data/hakobu.xlsx', auftraggeber: 'Hakobu', jahr: 2026, active: true }
+    const suggestion = {
+      id: 's1',
+      filePath: '/data/hakobu.xlsx',
+      kategorie: 'Auftraggeber' as const,
+      begriff: 'Hakobu',
+      synonym: 'Hakobo',
+      count: 3,
+      status: 'pending' as const,
+      lastSeen: '2026-01-15T10:00:00.000Z'
+    }
+    const parsed = {
+      auftraggeber: 'Hakobo',
+      thema: 'Rollout',
+      beschreibung: 'Workshop',
+      minuten: 90,
+      km: 0,
+      auslagen: 0,
+      datum: '2026-01-15'
+    }
+    const corrected = { ...parsed, auftraggeber: 'Hakobu' }
+
+    beforeEach(() => {
+      vi.mocked(configService.findFileByPath).mockReturnValue(file)
+      vi.mocked(configService.getActiveFiles).mockReturnValue([file])
+      vi.mocked(configService.getConfig).mockReturnValue({
+        settings: { synonymThreshold: 3, synonymAutoAdd: false }
+      } as any)
+      vi.mocked(workbookService.isWorkbookLocked).mockReturnValue(false)
+      vi.mocked(glossarService.addGlossarSynonym).mockResolvedValue(undefined)
+      vi.mocked(suggestionService.findSuggestion).mockResolvedValue(suggestion)
+      vi.mocked(suggestionService.setSuggestionStatus).mockResolvedValue(suggestion)
+    })
+
+    it('should return pending suggestions', async () => {
+      vi.mocked(suggestionService.getPendingSuggestions).mockResolvedValue([suggestion])
+
+      expect(await handlers['glossar:getSuggestions']()).toEqual([suggestion])
+    })
+
+    it('should add an accepted suggestion to the file and reload the glossar', async () => {
+      const result = await handlers['glossar:acceptSuggestion']({}, 's1')
+
+      expect(glossarService.addGlossarSynonym).toHaveBeenCalledWith('/data/hakobu.xlsx', 'Auftraggeber', 'Hakobu', 'Hakobo')
+      expect(suggestionService.setSuggestionStatus).toHaveBeenCalledWith('s1', 'accepted')
+      expect(glossarService.ensureGlossar).toHaveBeenCalledWith('/data/hakobu.xlsx', 'Hakobu')
+      expect(result).toEqual({ success: true })
+    })
+
+    it('should keep the suggestion pending if the file is open in Excel', async () => {
+      vi.mocked(workbookService.isWorkbookLocked).mockReturnValue(true)
+
+      const result = await handlers['glossar:acceptSuggestion']({}, 's1')
+
+      expect(result).toEqual({ success: false, error: 'Datei ist in Excel geöffnet: hakobu.xlsx', locked: true })
+      expect(suggestionService.setSuggestionStatus).not.toHaveBeenCalled()
+    })
+
+    it('should keep the suggestion pending if the Glossar rejects the synonym', async () => {
+      vi.mocked(glossarService.addGlossarSynonym).mockRejectedValue(new Error('"Hakobo" ist mehreren Begriffen zugeordnet'))
+
+      const result = await handlers['glossar:acceptSuggestion']({}, 's1')
+
+      expect(result).toEqual({ success: false, error: '"Hakobo" ist mehreren Begriffen zugeordnet' })
+      expect(suggestionService.setSuggestionStatus).not.toHaveBeenCalled()
+    })
+
+    it('should not accept unknown or already handled suggestions', async () => {
+      vi.mocked(suggestionService.findSuggestion).mockResolvedValueOnce(null)
+      expect(await handlers['glossar:acceptSuggestion']({}, 'missing')).toEqual({
+        success: false,
+        error: 'Vorschlag nicht gefunden'
+      })
+
+      vi.mocked(suggestionService.findSuggestion).mockResolvedValueOnce({ ...suggestion, status: 'rejected' })
+      expect((await handlers['glossar:acceptSuggestion']({}, 's1')).success).toBe(false)
+
+      expect(await handlers['glossar:acceptSuggestion']({}, 42)).toEqual({
+        success: false,
+        error: 'Vorschlag nicht gefunden'
+      })
+      expect(glossarService.addGlossarSynonym).not.toHaveBeenCalled()
+    })
+
+    it('should reject a suggestion', async () => {
+      expect(await handlers['glossar:rejectSuggestion']({}, 's1')).toBe(true)
+      expect(suggestionService.setSuggestionStatus).toHaveBeenCalledWith('s1', 'rejected')
+
+      vi.mocked(suggestionService.setSuggestionStatus).mockResolvedValueOnce(null)
+      expect(await handlers['glossar:rejectSuggestion']({}, 'missing')).toBe(false)
+    })
+
+    it('should count corrections with the configured threshold', async () => {
+      vi.mocked(suggestionService.recordCorrections).mockResolvedValue([suggestion])
+
+      expect(await learnSynonyms('/data/hakobu.xlsx', parsed, corrected)).toEqual([])
+
+      expect(suggestionService.recordCorrections).toHaveBeenCalledWith('/data/hakobu.xlsx', parsed, corrected, 3)
+      expect(glossarService.addGlossarSynonym).not.toHaveBeenCalled()
+    })
+
+    it('should return ready synonyms with synonymAutoAdd without writing the Glossar', async () => {
+      vi.mocked(configService.getConfig).mockReturnValue({
+        settings: { synonymThreshold: 3, synonymAutoAdd: true }
+      } as any)
+      vi.mocked(suggestionService.recordCorrections).mockResolvedValue([suggestion])
+
+      expect(await learnSynonyms('/data/hakobu.xlsx', parsed, corrected)).toEqual([suggestion])
+
+      expect(glossarService.addGlossarSynonym).not.toHaveBeenCalled()
+      expect(glossarService.addGlossarSynonyms).not.toHaveBeenCalled()
+    })
+
+    it('should add learned synonyms with one write per file', async () => {
+      const other = { ...suggestion, id: 's2', kategorie: 'Thema' as const, begriff: 'Rollout', synonym: 'Rolaut' }
+
+      await addLearnedSynonyms([suggestion, other, suggestion])
+
+      expect(glossarService.addGlossarSynonyms).toHaveBeenCalledTimes(1)
+      expect(glossarService.addGlossarSynonyms).toHaveBeenCalledWith('/data/hakobu.xlsx', [suggestion, other])
+      expect(suggestionService.setSuggestionStatus).toHaveBeenCalledWith('s1', 'accepted')
+      expect(suggestionService.setSuggestionStatus).toHaveBeenCalledWith('s2', 'accepted')
+      expect(glossarService.ensureGlossar).toHaveBeenCalledTimes(1)
+    })
+
+    it('should leave learned synonyms pending while the file is open in Excel', async () => {
+      vi.mocked(workbookService.isWorkbookLocked).mockReturnValue(true)
+
+      await expect(addLearnedSynonyms([suggestion])).resolves.toBeUndefined()
+
+      expect(glossarService.addGlossarSynonyms).not.toHaveBeenCalled()
+      expect(suggestionService.setSuggestionStatus).not.toHaveBeenCalled()
+    })
+
+    it('should not touch the Glossar without learned synonyms', async () => {
+      await addLearnedSynonyms([])
+
+      expect(glossarService.addGlossarSynonyms).not.toHaveBeenCalled()
+      expect(glossarService.ensureGlossar).not.toHaveBeenCalled()
+    })
+
+    it('should never throw', async () => {
+      vi.mocked(suggestionService.recordCorrections).mockRejectedValue(new Error('EACCES'))
+      vi.mocked(glossarService.addGlossarSynonyms).mockRejectedValueOnce(new Error('EACCES'))
+
+      await expect(learnSynonyms('/data/hakobu.xlsx', parsed, corrected)).resolves.toEqual([])
+      await expect(addLearnedSynonyms([suggestion])).resolves.toBeUndefined()
+      expect(suggestionService.setSuggestionStatus).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('new Themen', () => {
+    const file = { path: '/data/hakobu.xlsx', auftraggeber: 'Hakobu', jahr: 2026, active: true }
+    const glossar = { eintraege: [], byKategorie: new Map(), lookupMap: new Map() }
+
+    beforeEach(() => {
+      vi.mocked(pathValidator.validateExcelPath).mockImplementation((p) => p)
+      vi.mocked(configService.findFileByPath).mockReturnValue(file)
+      vi.mocked(configService.getActiveFiles).mockReturnValue([file])
+      vi.mocked(workbookService.isWorkbookLocked).mockReturnValue(false)
+      vi.mocked(glossarService.addGlossarBegriff).mockResolvedValue(undefined)
+    })
+
+    it('should offer a Thema the file\'s Glossar does not know', async () => {
+      vi.mocked(glossarService.loadGlossar).mockResolvedValue(glossar)
+      vi.mocked(glossarService.classifyNewThema).mockReturnValue('Kunde')
+
+      const result = await detectNewThema('/data/hakobu.xlsx', 'Müller GmbH')
+
+      expect(glossarService.classifyNewThema).toHaveBeenCalledWith('Müller GmbH', glossar)
+      expect(result).toEqual({ filePath: '/data/hakobu.xlsx', thema: 'Müller GmbH', kategorie: 'Kunde' })
+    })
+
+    it('should offer the Thema when the file has no Glossar sheet', async () => {
+      vi.mocked(glossarService.loadGlossar).mockResolvedValue(null)
+      vi.mocked(glossarService.classifyNewThema).mockReturnValue('Thema')
+
+      const result = await detectNewThema('/data/hakobu.xlsx', 'Rollout')
+
+      expect(glossarService.classifyNewThema).toHaveBeenCalledWith('Rollout', expect.objectContaining({ eintraege: [] }))
+      expect(result).toEqual({ filePath: '/data/hakobu.xlsx', thema: 'Rollout', kategorie: 'Thema' })
+    })
+
+    it('should not offer known or missing Themen', async () => {
+      vi.mocked(glossarService.loadGlossar).mockResolvedValue(glossar)
+      vi.mocked(glossarService.classifyNewThema).mockReturnValue(null)
+
+      expect(await detectNewThema('/data/hakobu.xlsx', 'Rollout')).toBeUndefined()
+      expect(await detectNewThema('/data/hakobu.xlsx', null)).toBeUndefined()
+    })
+
+    it('should never throw', async () => {
+      vi.mocked(glossarService.loadGlossar).mockRejectedValue(new Error('EACCES'))
+
+      await expect(detectNewThema('/data/hakobu.xlsx', 'Rollout')).resolves.toBeUndefined()
+    })
+
+    it('should add the term to the file\'s Glossar and reload', async () => {
+      const result = await handlers['glossar:addTerm']({}, '/data/hakobu.xlsx', 'Kunde', ' Müller GmbH ')
+
+      expect(glossarService.addGlossarBegriff).toHaveBeenCalledWith('/data/hakobu.xlsx', 'Kunde', 'Müller GmbH')
+      expect(glossarService.ensureGlossar).toHaveBeenCalledWith('/data/hakobu.xlsx', 'Hakobu')
+      expect(result).toEqual({ success: true })
+    })
+
+    it('should reject invalid terms', async () => {
+      const result = await handlers['glossar:addTerm']({}, '/data/hakobu.xlsx', 'Projekt', 'X')
+
+      expect(result).toEqual({ success: false, error: 'Ungültiger Glossar-Begriff' })
+      expect(glossarService.addGlossarBegriff).not.toHaveBeenCalled()
+    })
+
+    it('should not write while the file is open in Excel', async () => {
+      vi.mocked(workbookService.isWorkbookLocked).mockReturnValue(true)
+
+      const result = await handlers['glossar:addTerm']({}, '/data/hakobu.xlsx', 'Thema', 'Rollout')
+
+      expect(result).toEqual({ success: false, error: 'Datei ist in Excel geöffnet: hakobu.xlsx', locked: true })
+      expect(glossarService.addGlossarBegriff).not.toHaveBeenCalled()
+    })
+  })
+
   describe('glossar:clearCache', () => {
     it('should clear glossar cache', async () => {
       handlers['glossar:clearCache']()
@@ -405,4 +817,27 @@ describe('glossarHandlers', () => {
       expect(merged!.lookupMap.get('b')).toBe('B')
     })
   })
+
+  describe('getTranscriptionVocabulary', () => {
+    it('should build the vocabulary from per-file glossars of successful loads', async () => {
+      const mockGlossar = { eintraege: [], byKategorie: new Map(), lookupMap: new Map() }
+      vi.mocked(configService.getActiveFiles).mockReturnValue([
+        { path: '/file1.xlsx', auftraggeber: 'Client1', jahr: 2024, active: true },
+        { path: '/file2.xlsx', auftraggeber: 'Client2', jahr: 2024, active: true }
+      ])
+      vi.mocked(glossarService.ensureGlossar)
+        .mockRejectedValueOnce(new Error('Load failed'))
+        .mockResolvedValueOnce(mockGlossar)
+      vi.mocked(glossarService.buildTranscriptionVocabulary).mockReturnValue(['Client2'])
+
+      await reloadGlossar()
+      const vocabulary = getTranscriptionVocabulary('Client2')
+
+      expect(glossarService.buildTranscriptionVocabulary).toHaveBeenCalledWith(
+        [{ auftraggeber: 'Client2', glossar: mockGlossar }],
+        'Client2'
+      )
+      expect(vocabulary).toEqual(['Client2'])
+    })
+  })
 })
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { ipcMain } from 'electron'
+
+// Mock services before importing handler
+vi.mock('@main/services/history', () => ({
+  queryHistory: vi.fn()
+}))
+
+import { registerHistoryHandlers } from '@main/ipc/historyHandlers'
+import * as historyService from '@main/services/history'
+
+describe('historyHandlers', () => {
+  const handlers: Record<string, Function> = {}
+  const entry = {
+    id: '1',
+    timestamp: '2026-01-15T10:00:00.000Z',
+    action: 'delete' as const,
+    filePath: '/data/acme.xlsx',
+    sheet: 'Januar',
+    row: 8
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    vi.mocked(ipcMain.handle).mockImplementation((channel: string, handler: Function) => {
+      handlers[channel] = handler
+    })
+    vi.mocked(historyService.queryHistory).mockResolvedValue([entry])
+
+    registerHistoryHandlers()
+  })
+
+  it('should register the history handler', () => {
+    expect(ipcMain.handle).toHaveBeenCalledWith('history:query', expect.any(Function))
+  })
+
+  describe('history:query', () => {
+    it('should pass the validated query to the service', async () => {
+      const query = { filePath: '/data/acme.xlsx', from: '2026-01-01', to: '2026-01-31', search: 'Workshop', limit: 50 }
+
+      const result = await handlers['history:query']({}, query)
+
+      expect(historyService.queryHistory).toHaveBeenCalledWith(query)
+      expect(result).toEqual([entry])
+    })
+
+    it('should query everything without filter', async () => {
+      await handlers['history:query']({})
+
+      expect(historyService.queryHistory).toHaveBeenCalledWith({})
+    })
+
+    it('should return an empty list for invalid queries', async () => {
+      const result = await handlers['history:query']({}, { from: '15.01.2026' })
+
+      expect(result).toEqual([])
+      expect(historyService.queryHistory).not.toHaveBeenCalled()
+    })
+
+    it('should return an empty list when reading fails', async () => {
+      vi.mocked(historyService.queryHistory).mockRejectedValue(new Error('EACCES'))
+
+      expect(await handlers['history:query']({}, {})).toEqual([])
+    })
+  })
+})
@@ -4,6 +4,7 @@ import { ipcMain } from 'electron'
 // Mock services before importing handler
 vi.mock('@main/services/llm', () => ({
   parseActivity: vi.fn(),
+  parseActivities: vi.fn(),
   parseCorrection: vi.fn(),
   parseFollowUpAnswer: vi.fn(),
   isLLMReady: vi.fn()
@@ -15,24 +16,39 @@ vi.mock('@main/services/config', () => ({
 
 vi.mock('@main/services/glossar', () => ({
   getAllKnownTerms: vi.fn(),
-  normalizeText: vi.fn((text) => text)
+  resolveTerm: vi.fn((text) => ({ text, applied: null, candidates: [] }))
 }))
 
 vi.mock('@main/ipc/glossarHandlers', () => ({
   getCurrentGlossar: vi.fn()
 }))
 
+vi.mock('@main/services/offlineParser', () => ({
+  parseActivityOffline: vi.fn(),
+  parseActivitiesOffline: vi.fn(),
+  parseCorrectionOffline: vi.fn(),
+  parseFollowUpOffline: vi.fn()
+}))
+
 import { registerLLMHandlers } from '@main/ipc/llmHandlers'
 import * as llmService from '@main/services/llm'
 import * as configService from '@main/services/config'
 import * as glossarService from '@main/services/glossar'
 import * as glossarHandlers from '@main/ipc/glossarHandlers'
+import * as offlineParser from '@main/services/offlineParser'
+
+// resolveTerm result for a term found in the glossar as is
+const exactHit = (begriff: string) => {
+  const match = { begriff, confidence: 1, method: 'exact' as const }
+  return { text: begriff, applied: match, candidates: [match] }
+}
 
 describe('llmHandlers', () => {
   const handlers: Record<string, Function> = {}
 
   beforeEach(() => {
     vi.clearAllMocks()
+    vi.mocked(llmService.isLLMReady).mockResolvedValue(true)
 
     vi.mocked(ipcMain.handle).mockImplementation((channel: string, handler: Function) => {
       handlers[channel] = handler
@@ -44,6 +60,7 @@ describe('llmHandlers', () => {
   describe('registerLLMHandlers', () => {
     it('should register all LLM handlers', () => {
       expect(ipcMain.handle).toHaveBeenCalledWith('llm:parse', expect.any(Function))
+      expect(ipcMain.handle).toHaveBeenCalledWith('llm:parseMany', expect.any(Function))
       expect(ipcMain.handle).toHaveBeenCalledWith('llm:parseCorrection', expect.any(Function))
       expect(ipcMain.handle).toHaveBeenCalledWith('llm:parseFollowUp', expect.any(Function))
       expect(ipcMain.handle).toHaveBeenCalledWith('llm:isReady', expect.any(Function))
@@ -68,7 +85,7 @@ describe('llmHandlers', () => {
 
       const result = await handlers['llm:parse']({}, 'test transcript')
 
-      expect(llmService.parseActivity).toHaveBeenCalledWith('test transcript', [], [])
+      expect(llmService.parseActivity).toHaveBeenCalledWith('test transcript', [], [], '')
       expect(result).toEqual(mockActivity)
     })
 
@@ -81,7 +98,7 @@ describe('llmHandlers', () => {
 
       await handlers['llm:parse']({}, 'test transcript', clients, themes)
 
-      expect(llmService.parseActivity).toHaveBeenCalledWith('test transcript', clients, themes)
+      expect(llmService.parseActivity).toHaveBeenCalledWith('test transcript', clients, themes, '')
     })
 
     it('should get known terms from glossar when not provided', async () => {
@@ -106,7 +123,8 @@ describe('llmHandlers', () => {
       expect(llmService.parseActivity).toHaveBeenCalledWith(
         'test transcript',
         expect.arrayContaining(['ConfigClient1', 'GlossarClient1']),
-        ['GlossarTheme1']
+        ['GlossarTheme1'],
+        ''
       )
     })
 
@@ -124,15 +142,15 @@ describe('llmHandlers', () => {
         lookupMap: new Map()
       }
       vi.mocked(glossarHandlers.getCurrentGlossar).mockReturnValue(mockGlossar)
-      vi.mocked(glossarService.normalizeText)
-        .mockReturnValueOnce('Client1')
-        .mockReturnValueOnce('Theme1')
+      vi.mocked(glossarService.resolveTerm)
+        .mockReturnValueOnce(exactHit('Client1'))
+        .mockReturnValueOnce(exactHit('Theme1'))
       vi.mocked(configService.getActiveFiles).mockReturnValue([])
 
       const result = await handlers['llm:parse']({}, 'test transcript')
 
-      expect(glossarService.normalizeText).toHaveBeenCalledWith('client1', mockGlossar)
-      expect(glossarService.normalizeText).toHaveBeenCalledWith('theme1', mockGlossar)
+      expect(glossarService.resolveTerm).toHaveBeenCalledWith('client1', mockGlossar)
+      expect(glossarService.resolveTerm).toHaveBeenCalledWith('theme1', mockGlossar)
       expect(result.auftraggeber).toBe('Client1')
       expect(result.thema).toBe('Theme1')
     })
@@ -157,6 +175,48 @@ describe('llmHandlers', () => {
       expect(result.thema).toBeNull()
     })
 
+    it('should report how each field was matched against the glossar', async () => {
+      const lakowa = { begriff: 'Lakowa', confidence: 0.92, method: 'phonetic' as const }
+      const hakobu = { begriff: 'Hakobu', confidence: 0.6, method: 'fuzzy' as const }
+      vi.mocked(llmService.parseActivity).mockResolvedValue({ ...mockActivity, auftraggeber: 'Lakova', thema: 'Hakobo Rollout' })
+      vi.mocked(glossarHandlers.getCurrentGlossar).mockReturnValue({
+        eintraege: [],
+        byKategorie: new Map(),
+        lookupMap: new Map()
+      })
+      vi.mocked(glossarService.resolveTerm)
+        .mockReturnValueOnce({ text: 'Lakowa', applied: lakowa, candidates: [lakowa, hakobu] })
+        .mockReturnValueOnce({ text: 'Hakobo Rollout', applied: null, candidates: [hakobu] })
+      vi.mocked(configService.getActiveFiles).mockReturnValue([])
+
+      const result = await handlers['llm:parse']({}, 'test transcript')
+
+      expect(result.auftraggeber).toBe('Lakowa')
+      expect(result.thema).toBe('Hakobo Rollout')
+      expect(result.matches).toEqual({
+        auftraggeber: { source: 'fuzzy', confidence: 0.92, recognised: 'Lakova', alternatives: [hakobu] },
+        thema: { source: 'llm', alternatives: [hakobu] }
+      })
+    })
+
+    it('should mark exact hits and values without any glossar candidate', async () => {
+      vi.mocked(llmService.parseActivity).mockResolvedValue({ ...mockActivity, thema: 'Neues Projekt' })
+      vi.mocked(glossarHandlers.getCurrentGlossar).mockReturnValue({
+        eintraege: [],
+        byKategorie: new Map(),
+        lookupMap: new Map()
+      })
+      vi.mocked(glossarService.resolveTerm).mockReturnValueOnce(exactHit('Client1'))
+      vi.mocked(configService.getActiveFiles).mockReturnValue([])
+
+      const result = await handlers['llm:parse']({}, 'test transcript')
+
+      expect(result.matches).toEqual({
+        auftraggeber: { source: 'exact', alternatives: [] },
+        thema: { source: 'unknown', alternatives: [] }
+      })
+    })
+
     it('should use only provided clients when given non-empty array', async () => {
       vi.mocked(llmService.parseActivity).mockResolvedValue(mockActivity)
       vi.mocked(glossarHandlers.getCurrentGlossar).mockReturnValue(null)
@@ -169,11 +229,71 @@ describe('llmHandlers', () => {
       expect(llmService.parseActivity).toHaveBeenCalledWith(
         'test transcript',
         ['ProvidedClient'],
-        expect.any(Array)
+        expect.any(Array),
+        ''
+      )
+    })
+
+    it('should pass glossar synonyms as spelling examples', async () => {
+      const glossar = {
+        eintraege: [{ kategorie: 'Auftraggeber' as const, begriff: 'ACME', synonyme: ['Akme'] }],
+        byKategorie: new Map(),
+        lookupMap: new Map()
+      }
+      vi.mocked(glossarHandlers.getCurrentGlossar).mockReturnValue(glossar)
+      vi.mocked(glossarService.getAllKnownTerms).mockReturnValue({ auftraggeber: ['ACME'], themen: [], kunden: [] })
+      vi.mocked(configService.getActiveFiles).mockReturnValue([])
+      vi.mocked(llmService.parseActivity).mockResolvedValue(mockActivity)
+
+      await handlers['llm:parse']({}, 'Eine Stunde Akme')
+
+      expect(llmService.parseActivity).toHaveBeenCalledWith(
+        'Eine Stunde Akme',
+        ['ACME'],
+        [],
+        '- "Akme" → "ACME" (Auftraggeber)'
       )
     })
   })
 
+  describe('llm:parseMany', () => {
+    const activities = [
+      { auftraggeber: 'idt', thema: 'hakobu', beschreibung: 'Vormittag', minuten: 120, km: 0, auslagen: 0, datum: '2024-01-15' },
+      { auftraggeber: 'lakowa', thema: 'niwa', beschreibung: 'Danach', minuten: 60, km: 120, auslagen: 0, datum: '2024-01-15' }
+    ]
+
+    it('should return all parsed activities normalized via glossar', async () => {
+      const glossar = { eintraege: [], byKategorie: new Map(), lookupMap: new Map() }
+      vi.mocked(glossarHandlers.getCurrentGlossar).mockReturnValue(glossar as never)
+      vi.mocked(glossarService.getAllKnownTerms).mockReturnValue({ auftraggeber: ['IDT'], themen: [], kunden: [] })
+      vi.mocked(configService.getActiveFiles).mockReturnValue([])
+      vi.mocked(llmService.parseActivities).mockResolvedValue(activities)
+
+      const result = await handlers['llm:parseMany']({}, 'Vormittag IDT, danach Lakowa')
+
+      expect(llmService.parseActivities).toHaveBeenCalledWith('Vormittag IDT, danach Lakowa', ['IDT'], [], '')
+      expect(result).toHaveLength(2)
+      expect(glossarService.resolveTerm).toHaveBeenCalledWith('lakowa', glossar)
+      expect(glossarService.resolveTerm).toHaveBeenCalledWith('niwa', glossar)
+    })
+
+    it('should use the offline splitter when no LLM is configured', async () => {
+      vi.mocked(llmService.isLLMReady).mockResolvedValue(false)
+      vi.mocked(glossarHandlers.getCurrentGlossar).mockReturnValue(null)
+      vi.mocked(offlineParser.parseActivitiesOffline).mockReturnValue(activities)
+
+      const result = await handlers['llm:parseMany']({}, 'text', ['IDT'], ['Hakobu'])
+
+      expect(llmService.parseActivities).not.toHaveBeenCalled()
+      expect(offlineParser.parseActivitiesOffline).toHaveBeenCalledWith('text', {
+        clients: ['IDT'],
+        themes: ['Hakobu'],
+        glossar: null
+      })
+      expect(result).toEqual(activities)
+    })
+  })
+
   describe('llm:parseCorrection', () => {
     const existingActivity = {
       auftraggeber: 'Client1',
@@ -207,7 +327,8 @@ describe('llmHandlers', () => {
       expect(llmService.parseCorrection).toHaveBeenCalledWith(
         existingActivity,
         'correction transcript',
-        ['Client1']
+        ['Client1'],
+        ''
       )
       expect(result).toEqual(correctedActivity)
     })
@@ -227,9 +348,9 @@ describe('llmHandlers', () => {
       }
       vi.mocked(glossarHandlers.getCurrentGlossar).mockReturnValue(mockGlossar)
       vi.mocked(configService.getActiveFiles).mockReturnValue([])
-      vi.mocked(glossarService.normalizeText)
-        .mockReturnValueOnce('Client1')
-        .mockReturnValueOnce('Theme1')
+      vi.mocked(glossarService.resolveTerm)
+        .mockReturnValueOnce(exactHit('Client1'))
+        .mockReturnValueOnce(exactHit('Theme1'))
 
       const result = await handlers['llm:parseCorrection'](
         {},
@@ -263,7 +384,8 @@ describe('llmHandlers', () => {
       expect(llmService.parseCorrection).toHaveBeenCalledWith(
         existingActivity,
         'correction transcript',
-        expect.arrayContaining(['ConfigClient', 'GlossarClient'])
+        expect.arrayContaining(['ConfigClient', 'GlossarClient']),
+        ''
       )
     })
   })
@@ -306,7 +428,8 @@ describe('llmHandlers', () => {
         ['auftraggeber', 'minuten'],
         'What client and how long?',
         ['Client1'],
-        []
+        [],
+        ''
       )
       expect(result).toEqual(updatedActivity)
     })
@@ -340,7 +463,8 @@ describe('llmHandlers', () => {
         ['thema'],
         'What theme?',
         ['GlossarClient'],
-        ['GlossarTheme1', 'GlossarTheme2']
+        ['GlossarTheme1', 'GlossarTheme2'],
+        ''
       )
     })
 
@@ -359,9 +483,9 @@ describe('llmHandlers', () => {
       }
       vi.mocked(glossarHandlers.getCurrentGlossar).mockReturnValue(mockGlossar)
       vi.mocked(configService.getActiveFiles).mockReturnValue([])
-      vi.mocked(glossarService.normalizeText)
-        .mockReturnValueOnce('Client1')
-        .mockReturnValueOnce('Theme1')
+      vi.mocked(glossarService.resolveTerm)
+        .mockReturnValueOnce(exactHit('Client1'))
+        .mockReturnValueOnce(exactHit('Theme1'))
 
       const result = await handlers['llm:parseFollowUp'](
         {},
@@ -376,6 +500,69 @@ describe('llmHandlers', () => {
     })
   })
 
+  describe('offline fallback', () => {
+    const offlineActivity = {
+      auftraggeber: 'Client1',
+      thema: null,
+      beschreibung: 'Eine Stunde Client1',
+      minuten: 60,
+      km: 0,
+      auslagen: 0,
+      datum: '2024-01-15'
+    }
+
+    beforeEach(() => {
+      vi.mocked(llmService.isLLMReady).mockResolvedValue(false)
+      vi.mocked(configService.getActiveFiles).mockReturnValue([])
+      vi.mocked(glossarService.getAllKnownTerms).mockReturnValue({
+        auftraggeber: ['Client1'],
+        themen: [],
+        kunden: []
+      })
+    })
+
+    it('should use the offline parser when no LLM is configured', async () => {
+      const glossar = { eintraege: [], byKategorie: new Map(), lookupMap: new Map() }
+      vi.mocked(glossarHandlers.getCurrentGlossar).mockReturnValue(glossar as never)
+      vi.mocked(offlineParser.parseActivityOffline).mockReturnValue(offlineActivity)
+
+      const result = await handlers['llm:parse']({}, 'Eine Stunde Client1', ['Client1'], [])
+
+      expect(llmService.parseActivity).not.toHaveBeenCalled()
+      expect(offlineParser.parseActivityOffline).toHaveBeenCalledWith('Eine Stunde Client1', {
+        clients: ['Client1'],
+        themes: [],
+        glossar
+      })
+      expect(result).toEqual({ ...offlineActivity, matches: expect.any(Object) })
+    })
+
+    it('should use the offline parser for corrections', async () => {
+      vi.mocked(offlineParser.parseCorrectionOffline).mockReturnValue({ ...offlineActivity, minuten: 90 })
+
+      const result = await handlers['llm:parseCorrection']({}, offlineActivity, 'anderthalb Stunden')
+
+      expect(llmService.parseCorrection).not.toHaveBeenCalled()
+      expect(offlineParser.parseCorrectionOffline).toHaveBeenCalled()
+      expect(result.minuten).toBe(90)
+    })
+
+    it('should use the offline parser for follow-up answers', async () => {
+      vi.mocked(offlineParser.parseFollowUpOffline).mockReturnValue({ ...offlineActivity, thema: 'Beratung' })
+
+      const result = await handlers['llm:parseFollowUp']({}, offlineActivity, 'Beratung', ['thema'], 'Welches Thema?')
+
+      expect(llmService.parseFollowUpAnswer).not.toHaveBeenCalled()
+      expect(offlineParser.parseFollowUpOffline).toHaveBeenCalledWith(
+        offlineActivity,
+        'Beratung',
+        ['thema'],
+        expect.objectContaining({ clients: expect.arrayContaining(['Client1']) })
+      )
+      expect(result.thema).toBe('Beratung')
+    })
+  })
+
   describe('llm:isReady', () => {
     it('should return true when LLM is ready', async () => {
       vi.mocked(llmService.isLLMReady).mockResolvedValue(true)
@@ -9,8 +9,13 @@ vi.mock('@main/services/whisper', () => ({
   getWhisperMode: vi.fn()
 }))
 
+vi.mock('@main/ipc/glossarHandlers', () => ({
+  getTranscriptionVocabulary: vi.fn(() => [])
+}))
+
 import { registerWhisperHandlers } from '@main/ipc/whisperHandlers'
 import * as whisperService from '@main/services/whisper'
+import * as glossarHandlers from '@main/ipc/glossarHandlers'
 
 describe('whisperHandlers', () => {
   const handlers: Record<string, Function> = {}
@@ -55,6 +60,20 @@ describe('whisperHandlers', () => {
 
       expect(whisperService.initWhisper).toHaveBeenCalled()
     })
+
+    it('should forward model download progress to the renderer', async () => {
+      vi.mocked(whisperService.initWhisper).mockImplementation(async (onProgress) => {
+        onProgress?.({ status: 'progress', file: 'ggml-base.bin', progress: 42 })
+      })
+
+      await handlers['whisper:init']()
+
+      expect(mockMainWindow.webContents.send).toHaveBeenCalledWith('whisper:progress', {
+        status: 'progress',
+        file: 'ggml-base.bin',
+        progress: 42
+      })
+    })
   })
 
   describe('whisper:transcribe', () => {
@@ -69,7 +88,7 @@ describe('whisperHandlers', () => {
       const pcmData = new ArrayBuffer(1024)
       const result = await handlers['whisper:transcribe']({}, pcmData)
 
-      expect(whisperService.transcribe).toHaveBeenCalledWith(pcmData, undefined)
+      expect(whisperService.transcribe).toHaveBeenCalledWith(pcmData, undefined, expect.objectContaining({ onProgress: expect.any(Function) }))
       expect(result).toEqual(mockTranscriptionResult)
     })
 
@@ -101,7 +120,7 @@ describe('whisperHandlers', () => {
 
       await handlers['whisper:transcribe']({}, pcmData, originalBlob)
 
-      expect(whisperService.transcribe).toHaveBeenCalledWith(pcmData, originalBlob)
+      expect(whisperService.transcribe).toHaveBeenCalledWith(pcmData, originalBlob, expect.objectContaining({ onProgress: expect.any(Function) }))
     })
 
     it('should convert Buffer original blob to ArrayBuffer', async () => {
@@ -114,7 +133,22 @@ describe('whisperHandlers', () => {
 
       expect(whisperService.transcribe).toHaveBeenCalledWith(
         expect.any(ArrayBuffer),
-        expect.any(ArrayBuffer)
+        expect.any(ArrayBuffer),
+        expect.objectContaining({ onProgress: expect.any(Function) })
+      )
+    })
+
+    it('should pass glossar vocabulary for the given Auftraggeber', async () => {
+      vi.mocked(whisperService.transcribe).mockResolvedValue(mockTranscriptionResult)
+      vi.mocked(glossarHandlers.getTranscriptionVocabulary).mockReturnValue(['IDT', 'Hakobu'])
+
+      await handlers['whisper:transcribe']({}, new ArrayBuffer(8), new ArrayBuffer(8), 'IDT')
+
+      expect(glossarHandlers.getTranscriptionVocabulary).toHaveBeenCalledWith('IDT')
+      expect(whisperService.transcribe).toHaveBeenCalledWith(
+        expect.any(ArrayBuffer),
+        expect.any(ArrayBuffer),
+        expect.objectContaining({ vocabulary: ['IDT', 'Hakobu'] })
       )
     })
 
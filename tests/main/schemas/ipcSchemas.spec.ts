@@ -9,6 +9,12 @@ import {
   FileConfigUpdateSchema,
   AuftraggeberLookupSchema,
   MonthSchema,
+  ReportRatesSchema,
+  SaveOptionsSchema,
+  SaveBatchSchema,
+  HistoryQuerySchema,
+  GlossarEntriesSchema,
+  NewGlossarTermSchema,
   StringInputSchema,
   type ValidatedActivity,
   type ValidatedSettingsUpdate,
@@ -244,6 +250,41 @@ describe('ipcSchemas', () => {
       }
     })
 
+    it('should accept backup settings', () => {
+      const result = SettingsUpdateSchema.safeParse({
+        backupRetention: { keepLast: 20, keepDailyDays: 14, keepWeeklyWeeks: 8 },
+        backupRoot: '/home/user/Backups',
+        backupCompress: true
+      })
+      expect(result.success).toBe(true)
+    })
+
+    it('should accept synonym learning settings', () => {
+      expect(SettingsUpdateSchema.safeParse({ synonymThreshold: 3, synonymAutoAdd: true }).success).toBe(true)
+    })
+
+    it('should reject a synonym threshold outside 1-20', () => {
+      expect(SettingsUpdateSchema.safeParse({ synonymThreshold: 0 }).success).toBe(false)
+      expect(SettingsUpdateSchema.safeParse({ synonymThreshold: 21 }).success).toBe(false)
+      expect(SettingsUpdateSchema.safeParse({ synonymThreshold: 2.5 }).success).toBe(false)
+    })
+
+    it('should accept an empty backup root', () => {
+      expect(SettingsUpdateSchema.safeParse({ backupRoot: '' }).success).toBe(true)
+    })
+
+    it('should reject relative backup roots and path traversal', () => {
+      expect(SettingsUpdateSchema.safeParse({ backupRoot: 'backups' }).success).toBe(false)
+      expect(SettingsUpdateSchema.safeParse({ backupRoot: '/home/user/../etc' }).success).toBe(false)
+    })
+
+    it('should reject a retention that keeps no backup', () => {
+      const result = SettingsUpdateSchema.safeParse({
+        backupRetention: { keepLast: 0, keepDailyDays: 0, keepWeeklyWeeks: 0 }
+      })
+      expect(result.success).toBe(false)
+    })
+
     it('should produce correct ValidatedSettingsUpdate type', () => {
       const update: ValidatedSettingsUpdate = {
         hotkey: 'Alt+R',
@@ -273,6 +314,24 @@ describe('ipcSchemas', () => {
 
       const result = DraftActivitySchema.safeParse(draft)
       expect(result.success).toBe(true)
+      expect(DraftActivitySchema.safeParse({ ...draft, queuedFilePath: '/data/file.xlsx' }).success).toBe(true)
+      expect(DraftActivitySchema.safeParse({ ...draft, parsedActivity: draft.activity }).success).toBe(true)
+    })
+
+    it('should validate the saved row of a saved entry', () => {
+      const draft = {
+        id: 1,
+        activity: { auftraggeber: 'Client', thema: 'Theme', beschreibung: 'Test', minuten: 30, km: 0, auslagen: 0, datum: '2026-01-15' },
+        transcript: 'Voice transcript',
+        timestamp: '2026-01-15T10:00:00Z',
+        saved: true,
+        savedFilePath: '/data/file.xlsx'
+      }
+      const savedRow = { filePath: '/data/file.xlsx', sheet: 'Januar', row: 8, fingerprint: 'abc123' }
+
+      expect(DraftActivitySchema.parse({ ...draft, savedRow })).toMatchObject({ savedFilePath: '/data/file.xlsx', savedRow })
+      expect(DraftActivitySchema.safeParse({ ...draft, savedRow: { ...savedRow, row: 0 } }).success).toBe(false)
+      expect(DraftActivitySchema.safeParse({ ...draft, savedFilePath: '/data/file.txt' }).success).toBe(false)
     })
 
     it('should reject missing required fields', () => {
@@ -388,6 +447,19 @@ describe('ipcSchemas', () => {
       expect(result.success).toBe(true)
     })
 
+    it('should validate a sheet layout', () => {
+      const layout = {
+        sheetNaming: 'monthNumber',
+        columns: { datum: 'B', thema: 'C', taetigkeit: 'D', zeit: 'E', hotel: 'AA' },
+        headerRow: 3,
+        timeFormat: 'minutes'
+      }
+
+      expect(FileConfigUpdateSchema.safeParse({ layout }).success).toBe(true)
+      expect(FileConfigUpdateSchema.safeParse({ layout: { ...layout, columns: { ...layout.columns, zeit: 'e' } } }).success).toBe(false)
+      expect(FileConfigUpdateSchema.safeParse({ layout: { ...layout, timeFormat: 'seconds' } }).success).toBe(false)
+    })
+
     it('should reject invalid year (below 2000)', () => {
       const update = { jahr: 1999 }
       const result = FileConfigUpdateSchema.safeParse(update)
@@ -454,6 +526,115 @@ describe('ipcSchemas', () => {
     })
   })
 
+  describe('ReportRatesSchema', () => {
+    it('should accept optional non-negative rates', () => {
+      expect(ReportRatesSchema.safeParse({}).success).toBe(true)
+      expect(ReportRatesSchema.safeParse({ hourlyRate: 85.5, kmRate: 0.3 }).success).toBe(true)
+      expect(FileConfigUpdateSchema.safeParse({ hourlyRate: 85.5 }).success).toBe(true)
+    })
+
+    it('should reject negative or non-numeric rates', () => {
+      expect(ReportRatesSchema.safeParse({ kmRate: -0.3 }).success).toBe(false)
+      expect(ReportRatesSchema.safeParse({ hourlyRate: '80' }).success).toBe(false)
+    })
+  })
+
+  describe('SaveOptionsSchema', () => {
+    const activity = {
+      auftraggeber: 'Client',
+      thema: 'Theme',
+      beschreibung: 'Test',
+      minuten: 30,
+      km: 0,
+      auslagen: 0,
+      datum: '2026-01-15'
+    }
+
+    it('should accept transcript and recognised activity for the history', () => {
+      expect(SaveOptionsSchema.safeParse({}).success).toBe(true)
+      expect(SaveOptionsSchema.safeParse({ allowDuplicate: true, transcript: 'Test', parsedActivity: activity }).success).toBe(true)
+    })
+
+    it('should reject an invalid recognised activity', () => {
+      expect(SaveOptionsSchema.safeParse({ parsedActivity: { ...activity, beschreibung: '' } }).success).toBe(false)
+      expect(SaveOptionsSchema.safeParse({ transcript: 'x'.repeat(20001) }).success).toBe(false)
+    })
+  })
+
+  describe('SaveBatchSchema', () => {
+    const activity = {
+      auftraggeber: 'Client',
+      thema: 'Theme',
+      beschreibung: 'Test',
+      minuten: 30,
+      km: 0,
+      auslagen: 0,
+      datum: '2026-01-15'
+    }
+
+    it('should accept drafts with optional save options', () => {
+      expect(SaveBatchSchema.safeParse([{ activity }, { activity, options: { allowDuplicate: true } }]).success).toBe(true)
+    })
+
+    it('should reject empty, oversized or invalid batches', () => {
+      expect(SaveBatchSchema.safeParse([]).success).toBe(false)
+      expect(SaveBatchSchema.safeParse(Array.from({ length: 201 }, () => ({ activity }))).success).toBe(false)
+      expect(SaveBatchSchema.safeParse([{ activity: { ...activity, beschreibung: '' } }]).success).toBe(false)
+    })
+  })
+
+  describe('HistoryQuerySchema', () => {
+    it('should accept an empty or complete query', () => {
+      expect(HistoryQuerySchema.safeParse({}).success).toBe(true)
+      expect(HistoryQuerySchema.safeParse({
+        filePath: '/data/acme.xlsx',
+        from: '2026-01-01',
+        to: '2026-01-31',
+        search: 'Workshop',
+        limit: 100
+      }).success).toBe(true)
+    })
+
+    it('should reject invalid dates, limits and paths', () => {
+      expect(HistoryQuerySchema.safeParse({ from: '01.01.2026' }).success).toBe(false)
+      expect(HistoryQuerySchema.safeParse({ limit: 0 }).success).toBe(false)
+      expect(HistoryQuerySchema.safeParse({ filePath: '../etc/passwd' }).success).toBe(false)
+    })
+  })
+
+  describe('GlossarEntriesSchema', () => {
+    it('should accept entries of the known Kategorien', () => {
+      expect(GlossarEntriesSchema.safeParse([]).success).toBe(true)
+      expect(GlossarEntriesSchema.safeParse([
+        { kategorie: 'Auftraggeber', begriff: 'ACME', synonyme: ['Akme'] },
+        { kategorie: 'Sonstiges', begriff: 'Reise', synonyme: [] }
+      ]).success).toBe(true)
+    })
+
+    it('should reject unknown Kategorien and empty Begriffe', () => {
+      expect(GlossarEntriesSchema.safeParse([{ kategorie: 'Projekt', begriff: 'X', synonyme: [] }]).success).toBe(false)
+      expect(GlossarEntriesSchema.safeParse([{ kategorie: 'Thema', begriff: '', synonyme: [] }]).success).toBe(false)
+    })
+
+    it('should reject synonyms containing a comma', () => {
+      expect(GlossarEntriesSchema.safeParse([
+        { kategorie: 'Thema', begriff: 'Workshop', synonyme: ['WS, Schulung'] }
+      ]).success).toBe(false)
+    })
+  })
+
+  describe('NewGlossarTermSchema', () => {
+    it('should accept a trimmed Begriff of a known Kategorie', () => {
+      expect(NewGlossarTermSchema.parse({ kategorie: 'Kunde', begriff: ' Müller GmbH ' }))
+        .toEqual({ kategorie: 'Kunde', begriff: 'Müller GmbH' })
+    })
+
+    it('should reject unknown Kategorien and blank Begriffe', () => {
+      expect(NewGlossarTermSchema.safeParse({ kategorie: 'Projekt', begriff: 'X' }).success).toBe(false)
+      expect(NewGlossarTermSchema.safeParse({ kategorie: 'Thema', begriff: '   ' }).success).toBe(false)
+    })
+  })
+
   describe('MonthSchema', () => {
     it('should accept valid months 1-12', () => {
       for (let month = 1; month <= 12; month++) {
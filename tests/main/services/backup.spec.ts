@@ -1,12 +1,21 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 
 // Create the mocks using vi.hoisted so they're available during vi.mock
-const { mockStat, mockMkdir, mockCopyFile, mockReaddir, mockUnlink } = vi.hoisted(() => ({
+const { mockStat, mockMkdir, mockCopyFile, mockReaddir, mockUnlink, mockReadFile, mockWriteFile, mockRename, mockConstants, mockSettings } = vi.hoisted(() => ({
   mockStat: vi.fn(),
   mockMkdir: vi.fn(),
   mockCopyFile: vi.fn(),
   mockReaddir: vi.fn(),
-  mockUnlink: vi.fn()
+  mockUnlink: vi.fn(),
+  mockReadFile: vi.fn(),
+  mockWriteFile: vi.fn(),
+  mockRename: vi.fn(),
+  mockConstants: { COPYFILE_EXCL: 1 },
+  mockSettings: {
+    backupRetention: { keepLast: 50, keepDailyDays: 0, keepWeeklyWeeks: 0 },
+    backupRoot: '',
+    backupCompress: false
+  }
 }))
 
 vi.mock('fs/promises', () => ({
@@ -15,22 +24,48 @@ vi.mock('fs/promises', () => ({
   copyFile: mockCopyFile,
   readdir: mockReaddir,
   unlink: mockUnlink,
+  readFile: mockReadFile,
+  writeFile: mockWriteFile,
+  rename: mockRename,
+  constants: mockConstants,
   default: {
     stat: mockStat,
     mkdir: mockMkdir,
     copyFile: mockCopyFile,
     readdir: mockReaddir,
-    unlink: mockUnlink
+    unlink: mockUnlink,
+    readFile: mockReadFile,
+    writeFile: mockWriteFile,
+    rename: mockRename,
+    constants: mockConstants
   }
 }))
 
-import { createBackup, listBackups, restoreBackup } from '@main/services/backup'
+vi.mock('@main/services/config', () => ({
+  getConfig: () => ({ settings: mockSettings })
+}))
+
+import {
+  createBackup,
+  getBackupDir,
+  getBackupUsage,
+  listBackups,
+  parseBackupTimestamp,
+  readBackup,
+  restoreBackup,
+  selectExpiredBackups
+} from '@main/services/backup'
+import { unzipSingleFile, zipSingleFile } from '@main/utils/zip'
+import { getTempPath } from '@main/services/workbook'
 
 describe('backup service', () => {
   beforeEach(() => {
     vi.clearAllMocks()
     vi.useFakeTimers()
     vi.setSystemTime(new Date('2026-01-15T10:30:45'))
+    mockSettings.backupRetention = { keepLast: 50, keepDailyDays: 0, keepWeeklyWeeks: 0 }
+    mockSettings.backupRoot = ''
+    mockSettings.backupCompress = false
   })
 
   describe('createBackup', () => {
@@ -46,11 +81,42 @@ describe('backup service', () => {
       expect(mockMkdir).toHaveBeenCalledWith('/data/backups', { recursive: true })
       expect(mockCopyFile).toHaveBeenCalledWith(
         '/data/file.xlsx',
-        '/data/backups/file_2026-01-15_10-30-45.xlsx'
+        '/data/backups/file_2026-01-15_10-30-45.xlsx',
+        mockConstants.COPYFILE_EXCL
       )
       expect(result).toBe('/data/backups/file_2026-01-15_10-30-45.xlsx')
     })
 
+    it('should not overwrite a backup made within the same second', async () => {
+      const existing = new Set<string>()
+      mockStat.mockResolvedValue({})
+      mockMkdir.mockResolvedValue(undefined)
+      mockReaddir.mockResolvedValue([])
+      mockCopyFile.mockImplementation(async (_src: string, dest: string) => {
+        if (existing.has(dest)) throw Object.assign(new Error('EEXIST'), { code: 'EEXIST' })
+        existing.add(dest)
+      })
+
+      const first = await createBackup('/data/file.xlsx')
+      const second = await createBackup('/data/file.xlsx')
+
+      expect(first).toBe('/data/backups/file_2026-01-15_10-30-45.xlsx')
+      expect(second).toBe('/data/backups/file_2026-01-15_10-30-45-2.xlsx')
+      expect(parseBackupTimestamp(second)).toBe('2026-01-15T10:30:45')
+
+      mockReaddir.mockResolvedValue([...existing].map(path => path.split('/').pop()))
+      expect(await listBackups('/data/file.xlsx')).toEqual([second, first])
+    })
+
+    it('should rethrow copy errors other than an existing backup', async () => {
+      mockStat.mockResolvedValue({})
+      mockMkdir.mockResolvedValue(undefined)
+      mockCopyFile.mockRejectedValue(Object.assign(new Error('ENOSPC'), { code: 'ENOSPC' }))
+
+      await expect(createBackup('/data/file.xlsx')).rejects.toThrow('ENOSPC')
+      expect(mockCopyFile).toHaveBeenCalledTimes(1)
+    })
+
     it('should throw error if source file does not exist', async () => {
       mockStat.mockRejectedValue(new Error('ENOENT'))
 
@@ -104,6 +170,114 @@ describe('backup service', () => {
     })
   })
 
+  describe('backup location and compression', () => {
+    beforeEach(() => {
+      mockStat.mockResolvedValue({})
+      mockMkdir.mockResolvedValue(undefined)
+      mockReaddir.mockResolvedValue([])
+    })
+
+    it('should store backups below the configured backup root', async () => {
+      mockSettings.backupRoot = '/local/backups'
+      mockCopyFile.mockResolvedValue(undefined)
+
+      const result = await createBackup('/sync/2026/file.xlsx')
+
+      expect(getBackupDir('/sync/2026/file.xlsx')).toMatch(/^\/local\/backups\/2026-[0-9a-f]{8}$/)
+      expect(result).toBe(`${getBackupDir('/sync/2026/file.xlsx')}/file_2026-01-15_10-30-45.xlsx`)
+      expect(mockMkdir).toHaveBeenCalledWith(getBackupDir('/sync/2026/file.xlsx'), { recursive: true })
+    })
+
+    it('should keep equally named folders apart', () => {
+      mockSettings.backupRoot = '/local/backups'
+
+      expect(getBackupDir('/sync/a/2026/file.xlsx')).not.toBe(getBackupDir('/sync/b/2026/file.xlsx'))
+    })
+
+    it('should zip the backup when compression is enabled', async () => {
+      mockSettings.backupCompress = true
+      mockReadFile.mockResolvedValue(Buffer.from('workbook bytes'))
+      mockWriteFile.mockResolvedValue(undefined)
+
+      const result = await createBackup('/data/file.xlsx')
+
+      expect(result).toBe('/data/backups/file_2026-01-15_10-30-45.xlsx.zip')
+      expect(mockCopyFile).not.toHaveBeenCalled()
+      const [path, data] = mockWriteFile.mock.calls[0]
+      expect(path).toBe(result)
+      expect(mockWriteFile.mock.calls[0][2]).toEqual({ flag: 'wx' })
+      expect(unzipSingleFile(data).toString()).toBe('workbook bytes')
+    })
+
+    it('should unzip compressed backups when reading', async () => {
+      mockReadFile.mockResolvedValue(zipSingleFile('file.xlsx', Buffer.from('workbook bytes')))
+
+      const data = await readBackup('/data/backups/file_2026-01-10_08-00-00.xlsx.zip')
+
+      expect(data.toString()).toBe('workbook bytes')
+    })
+  })
+
+  describe('selectExpiredBackups', () => {
+    const now = new Date('2026-01-15T12:00:00')
+    const path = (timestamp: string): string => `/data/backups/file_${timestamp}.xlsx`
+    // Newest first, as returned by listBackups
+    const backups = [
+      path('2026-01-15_11-00-00'),
+      path('2026-01-15_09-00-00'),
+      path('2026-01-14_17-00-00'),
+      path('2026-01-14_08-00-00'),
+      path('2026-01-12_10-00-00'), // Monday
+      path('2026-01-09_10-00-00'), // Friday of the previous week
+      path('2026-01-06_10-00-00'),
+      path('2025-12-01_10-00-00')
+    ]
+
+    it('should keep only the newest N without daily/weekly retention', () => {
+      expect(selectExpiredBackups(backups, { keepLast: 6, keepDailyDays: 0, keepWeeklyWeeks: 0 }, now)).toEqual([
+        path('2026-01-06_10-00-00'),
+        path('2025-12-01_10-00-00')
+      ])
+    })
+
+    it('should keep the newest backup per day within the daily period', () => {
+      const expired = selectExpiredBackups(backups, { keepLast: 1, keepDailyDays: 2, keepWeeklyWeeks: 0 }, now)
+
+      expect(expired).toEqual([
+        path('2026-01-15_09-00-00'),
+        path('2026-01-14_08-00-00'),
+        path('2026-01-12_10-00-00'),
+        path('2026-01-09_10-00-00'),
+        path('2026-01-06_10-00-00'),
+        path('2025-12-01_10-00-00')
+      ])
+    })
+
+    it('should keep the newest backup per week within the weekly period', () => {
+      const expired = selectExpiredBackups(backups, { keepLast: 1, keepDailyDays: 0, keepWeeklyWeeks: 2 }, now)
+
+      // Kept: newest overall (week of Jan 12) and Jan 9 (week of Jan 5)
+      expect(expired).not.toContain(path('2026-01-15_11-00-00'))
+      expect(expired).not.toContain(path('2026-01-09_10-00-00'))
+      expect(expired).toContain(path('2026-01-12_10-00-00'))
+      expect(expired).toContain(path('2026-01-06_10-00-00'))
+      expect(expired).toContain(path('2025-12-01_10-00-00'))
+    })
+
+    it('should never select files without a timestamp', () => {
+      expect(selectExpiredBackups(['/data/backups/file_copy.xlsx'], { keepLast: 0, keepDailyDays: 0, keepWeeklyWeeks: 0 }, now)).toEqual([])
+    })
+  })
+
+  describe('getBackupUsage', () => {
+    it('should count the backups and sum their sizes', async () => {
+      mockReaddir.mockResolvedValue(['file_2026-01-10_08-00-00.xlsx', 'file_2026-01-12_08-00-00.xlsx.zip'])
+      mockStat.mockImplementation(async (p: string) => ({ size: p.endsWith('.zip') ? 200 : 1000 }))
+
+      expect(await getBackupUsage('/data/file.xlsx')).toEqual({ count: 2, bytes: 1200 })
+    })
+  })
+
   describe('listBackups', () => {
     it('should return sorted list of backup paths', async () => {
       mockReaddir.mockResolvedValue([
@@ -123,6 +297,40 @@ describe('backup service', () => {
       ])
     })
 
+    it('should include compressed backups and backups from before a backup root was set', async () => {
+      mockSettings.backupRoot = '/local/backups'
+      mockReaddir.mockImplementation(async (dir: string) =>
+        dir === '/data/backups'
+          ? ['file_2026-01-10_08-00-00.xlsx']
+          : ['file_2026-01-12_14-22-33.xlsx.zip']
+      )
+
+      const result = await listBackups('/data/file.xlsx')
+
+      expect(result).toEqual([
+        `${getBackupDir('/data/file.xlsx')}/file_2026-01-12_14-22-33.xlsx.zip`,
+        '/data/backups/file_2026-01-10_08-00-00.xlsx'
+      ])
+    })
+
+    it('should sort backups made within the same second by their counter', async () => {
+      mockReaddir.mockResolvedValue([
+        'file_2026-01-15_10-30-45-2.xlsx',
+        'file_2026-01-15_10-30-44.xlsx',
+        'file_2026-01-15_10-30-45-10.xlsx',
+        'file_2026-01-15_10-30-45.xlsx'
+      ])
+
+      const result = await listBackups('/data/file.xlsx')
+
+      expect(result).toEqual([
+        '/data/backups/file_2026-01-15_10-30-45-10.xlsx',
+        '/data/backups/file_2026-01-15_10-30-45-2.xlsx',
+        '/data/backups/file_2026-01-15_10-30-45.xlsx',
+        '/data/backups/file_2026-01-15_10-30-44.xlsx'
+      ])
+    })
+
     it('should return empty array if backup directory does not exist', async () => {
       mockReaddir.mockRejectedValue(new Error('ENOENT'))
 
@@ -160,6 +368,24 @@ describe('backup service', () => {
     })
   })
 
+  describe('parseBackupTimestamp', () => {
+    it('should read the creation time from the file name', () => {
+      expect(parseBackupTimestamp('/data/backups/LV ACME_2026_2026-01-15_10-30-45.xlsx')).toBe('2026-01-15T10:30:45')
+    })
+
+    it('should read compressed backups', () => {
+      expect(parseBackupTimestamp('/data/backups/file_2026-01-15_10-30-45.xlsx.zip')).toBe('2026-01-15T10:30:45')
+    })
+
+    it('should read backups with a counter', () => {
+      expect(parseBackupTimestamp('/data/backups/file_2026-01-15_10-30-45-2.xlsx')).toBe('2026-01-15T10:30:45')
+    })
+
+    it('should return null for files without a timestamp', () => {
+      expect(parseBackupTimestamp('/data/backups/copy of file.xlsx')).toBeNull()
+    })
+  })
+
   describe('restoreBackup', () => {
     it('should restore backup to original location', async () => {
       mockStat.mockResolvedValue({})
@@ -173,7 +399,8 @@ describe('backup service', () => {
       expect(mockCopyFile).toHaveBeenNthCalledWith(
         1,
         '/data/file.xlsx',
-        '/data/backups/file_2026-01-15_10-30-45.xlsx'
+        '/data/backups/file_2026-01-15_10-30-45.xlsx',
+        mockConstants.COPYFILE_EXCL
       )
       expect(mockCopyFile).toHaveBeenNthCalledWith(
         2,
@@ -182,6 +409,42 @@ describe('backup service', () => {
       )
     })
 
+    it('should unzip compressed backups over the original', async () => {
+      mockStat.mockResolvedValue({})
+      mockMkdir.mockResolvedValue(undefined)
+      mockCopyFile.mockResolvedValue(undefined)
+      mockReaddir.mockResolvedValue([])
+      mockReadFile.mockResolvedValue(zipSingleFile('file.xlsx', Buffer.from('old state')))
+
+      await restoreBackup('/data/backups/file_2026-01-10_08-00-00.xlsx.zip', '/data/file.xlsx')
+
+      expect(mockWriteFile).toHaveBeenCalledWith(getTempPath('/data/file.xlsx'), Buffer.from('old state'))
+      expect(mockRename).toHaveBeenCalledWith(getTempPath('/data/file.xlsx'), '/data/file.xlsx')
+    })
+
+    it('should keep the original if the unzipped backup cannot be moved into place', async () => {
+      mockStat.mockResolvedValue({})
+      mockMkdir.mockResolvedValue(undefined)
+      mockCopyFile.mockResolvedValue(undefined)
+      mockReaddir.mockResolvedValue([])
+      mockReadFile.mockResolvedValue(zipSingleFile('file.xlsx', Buffer.from('old state')))
+      mockWriteFile.mockResolvedValue(undefined)
+      mockRename.mockRejectedValueOnce(new Error('EBUSY'))
+      mockUnlink.mockResolvedValue(undefined)
+
+      await expect(restoreBackup('/data/backups/file_2026-01-10_08-00-00.xlsx.zip', '/data/file.xlsx')).rejects.toThrow('EBUSY')
+      expect(mockWriteFile).not.toHaveBeenCalledWith('/data/file.xlsx', expect.anything())
+      expect(mockUnlink).toHaveBeenCalledWith(getTempPath('/data/file.xlsx'))
+    })
+
+    it('should not touch the original if the archive is damaged', async () => {
+      mockReadFile.mockResolvedValue(Buffer.from('not a zip'))
+
+      await expect(restoreBackup('/data/backups/file_2026-01-10_08-00-00.xlsx.zip', '/data/file.xlsx')).rejects.toThrow('Ungültiges ZIP-Archiv')
+      expect(mockCopyFile).not.toHaveBeenCalled()
+      expect(mockWriteFile).not.toHaveBeenCalled()
+    })
+
     it('should restore even if original file does not exist', async () => {
       // First call (createBackup) fails because original doesn't exist
       mockStat.mockRejectedValue(new Error('ENOENT'))
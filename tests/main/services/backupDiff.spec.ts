@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { mockWriteFile, mockUnlink } = vi.hoisted(() => ({
+  mockWriteFile: vi.fn(),
+  mockUnlink: vi.fn()
+}))
+
+vi.mock('fs/promises', () => ({
+  writeFile: mockWriteFile,
+  unlink: mockUnlink,
+  default: { writeFile: mockWriteFile, unlink: mockUnlink }
+}))
+
+vi.mock('@main/services/excel', () => ({
+  readYearActivities: vi.fn()
+}))
+
+vi.mock('@main/services/backup', () => ({
+  isCompressedBackup: (p: string) => p.endsWith('.zip'),
+  readBackup: vi.fn().mockResolvedValue(Buffer.from('workbook'))
+}))
+
+import { diffBackup } from '@main/services/backupDiff'
+import { readYearActivities } from '@main/services/excel'
+import type { BookedActivity, XlsxFileConfig } from '@shared/types'
+
+const file: XlsxFileConfig = { path: '/data/acme.xlsx', auftraggeber: 'ACME', jahr: 2026, active: true }
+const backupPath = '/data/backups/acme_2026-03-01_10-00-00.xlsx'
+
+function booked(row: number, taetigkeit: string, zeit: number | null = 1, sheet = 'März'): BookedActivity {
+  return { auftraggeber: 'ACME', filePath: file.path, sheet, row, datum: '2026-03-02', thema: 'Projekt X', taetigkeit, zeit, km: 0, hotel: 0 }
+}
+
+describe('backupDiff', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  function mockRows(backupRows: BookedActivity[], currentRows: BookedActivity[]): void {
+    vi.mocked(readYearActivities).mockImplementation(async (f) => (f.path === backupPath ? backupRows : currentRows))
+  }
+
+  it('should read the backup with the layout of the configured file', async () => {
+    mockRows([], [])
+
+    await diffBackup({ ...file, layout: undefined }, backupPath)
+
+    expect(readYearActivities).toHaveBeenCalledWith(expect.objectContaining({ path: backupPath, jahr: 2026 }))
+    expect(readYearActivities).toHaveBeenCalledWith(expect.objectContaining({ path: file.path }))
+  })
+
+  it('should match rows by content, not by row number', async () => {
+    // "Workshop" was deleted after the backup, so "Telefonat" moved up a row
+    mockRows(
+      [booked(8, 'Workshop'), booked(9, 'Telefonat')],
+      [booked(8, 'Telefonat'), booked(9, 'Review')]
+    )
+
+    const diff = await diffBackup(file, backupPath)
+
+    expect(diff.onlyInBackup.map(r => r.taetigkeit)).toEqual(['Workshop'])
+    expect(diff.onlyInCurrent.map(r => r.taetigkeit)).toEqual(['Review'])
+    expect(diff.unchanged).toBe(1)
+  })
+
+  it('should report changed values as removed and added', async () => {
+    mockRows([booked(8, 'Workshop', 1)], [booked(8, 'Workshop', 2)])
+
+    const diff = await diffBackup(file, backupPath)
+
+    expect(diff.onlyInBackup).toEqual([expect.objectContaining({ zeit: 1 })])
+    expect(diff.onlyInCurrent).toEqual([expect.objectContaining({ zeit: 2 })])
+    expect(diff.unchanged).toBe(0)
+  })
+
+  it('should count identical rows separately', async () => {
+    mockRows([booked(8, 'Workshop'), booked(9, 'Workshop')], [booked(8, 'Workshop')])
+
+    const diff = await diffBackup(file, backupPath)
+
+    expect(diff.onlyInBackup).toHaveLength(1)
+    expect(diff.onlyInCurrent).toHaveLength(0)
+    expect(diff.unchanged).toBe(1)
+  })
+
+  it('should treat equal rows on different sheets as different', async () => {
+    mockRows([booked(8, 'Workshop', 1, 'März')], [booked(8, 'Workshop', 1, 'April')])
+
+    const diff = await diffBackup(file, backupPath)
+
+    expect(diff.onlyInBackup).toHaveLength(1)
+    expect(diff.onlyInCurrent).toHaveLength(1)
+  })
+
+  it('should read zipped backups from a temp file and remove it afterwards', async () => {
+    vi.mocked(readYearActivities).mockResolvedValue([])
+
+    await diffBackup(file, `${backupPath}.zip`)
+
+    const tempPath = mockWriteFile.mock.calls[0][0] as string
+    expect(tempPath).toMatch(/aktivitaeten-backup-[0-9a-f]{8}\.xlsx$/)
+    expect(mockWriteFile).toHaveBeenCalledWith(tempPath, Buffer.from('workbook'))
+    expect(readYearActivities).toHaveBeenCalledWith(expect.objectContaining({ path: tempPath }))
+    expect(mockUnlink).toHaveBeenCalledWith(tempPath)
+  })
+
+  it('should propagate read errors', async () => {
+    vi.mocked(readYearActivities).mockRejectedValue(new Error('Kaputt'))
+
+    await expect(diffBackup(file, backupPath)).rejects.toThrow('Kaputt')
+  })
+})
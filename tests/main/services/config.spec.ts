@@ -41,6 +41,9 @@ import {
   getActiveFiles,
   removeXlsxFile,
   findFileForAuftraggeber,
+  findFileByPath,
+  findPreviousYearFile,
+  findYearFile,
   getSettings,
   updateSettings,
   getApiKey
@@ -87,6 +90,23 @@ settings:
       expect(config.settings.ttsEnabled).toBe(true)
     })
 
+    it('should fill in missing backup retention values', async () => {
+      mockExistsSync.mockReturnValue(true)
+      mockReadFile.mockResolvedValue(`
+settings:
+  backupRetention:
+    keepDailyDays: 14
+`)
+
+      const config = await loadConfig()
+
+      expect(config.settings.backupRetention).toEqual({ keepLast: 50, keepDailyDays: 14, keepWeeklyWeeks: 0 })
+      expect(config.settings.backupRoot).toBe('')
+      expect(config.settings.backupCompress).toBe(false)
+      expect(config.settings.synonymThreshold).toBe(3)
+      expect(config.settings.synonymAutoAdd).toBe(false)
+    })
+
     it('should migrate plaintext API key to secure storage', async () => {
       mockExistsSync.mockReturnValue(true)
       mockHasStoredApiKey.mockResolvedValue(false)
@@ -239,6 +259,26 @@ settings: {}
       expect(newFile?.auftraggeber).toBe('New Client')
     })
 
+    it('should keep the layout of a new file', async () => {
+      const layout = {
+        sheetNaming: 'monthName' as const,
+        columns: { datum: 'A', thema: 'B', taetigkeit: 'C', zeit: 'D' },
+        headerRow: 7,
+        timeFormat: 'dayFraction' as const
+      }
+
+      await updateXlsxFile('/new.xlsx', { auftraggeber: 'New Client', active: true, layout })
+
+      expect(findFileByPath('/new.xlsx')?.layout).toEqual(layout)
+      expect(findFileByPath('/missing.xlsx')).toBeNull()
+    })
+
+    it('should keep the report rates of a new file', async () => {
+      await updateXlsxFile('/new.xlsx', { auftraggeber: 'New Client', jahr: 2027, hourlyRate: 90, kmRate: 0.3 })
+
+      expect(findFileByPath('/new.xlsx')).toMatchObject({ hourlyRate: 90, kmRate: 0.3 })
+    })
+
     it('should use current year as default for new files', async () => {
       vi.useFakeTimers()
       vi.setSystemTime(new Date('2026-06-15'))
@@ -310,6 +350,65 @@ settings: {}
     })
   })
 
+  describe('findPreviousYearFile', () => {
+    beforeEach(async () => {
+      mockExistsSync.mockReturnValue(true)
+      mockReadFile.mockResolvedValue(`
+xlsxBasePath: /test
+xlsxFiles:
+  - path: /acme2024.xlsx
+    auftraggeber: ACME Corp
+    jahr: 2024
+    active: false
+  - path: /acme2026.xlsx
+    auftraggeber: ACME Corp
+    jahr: 2026
+    active: false
+  - path: /other2026.xlsx
+    auftraggeber: Other
+    jahr: 2026
+    active: true
+settings: {}
+`)
+      await loadConfig()
+    })
+
+    it('should return the latest earlier file, active or not', () => {
+      expect(findPreviousYearFile('acme corp', 2027)?.path).toBe('/acme2026.xlsx')
+      expect(findPreviousYearFile('ACME Corp', 2026)?.path).toBe('/acme2024.xlsx')
+    })
+
+    it('should return null without an earlier file', () => {
+      expect(findPreviousYearFile('ACME Corp', 2024)).toBeNull()
+      expect(findPreviousYearFile('Unknown', 2027)).toBeNull()
+    })
+  })
+
+  describe('findYearFile', () => {
+    beforeEach(async () => {
+      mockExistsSync.mockReturnValue(true)
+      mockReadFile.mockResolvedValue(`
+xlsxBasePath: /test
+xlsxFiles:
+  - path: /acme2026.xlsx
+    auftraggeber: ACME Corp
+    jahr: 2026
+    active: false
+settings: {}
+`)
+      await loadConfig()
+    })
+
+    it('should find the file of the year, active or not', () => {
+      expect(findYearFile('acme corp ', 2026)?.path).toBe('/acme2026.xlsx')
+      expect(findFileForAuftraggeber('ACME Corp', 2026)).toBeNull()
+    })
+
+    it('should return null for other years', () => {
+      expect(findYearFile('ACME Corp', 2027)).toBeNull()
+    })
+  })
+
   describe('findFileForAuftraggeber', () => {
     beforeEach(async () => {
       mockExistsSync.mockReturnValue(true)
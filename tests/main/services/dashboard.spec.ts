@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('@main/services/excel', () => ({
+  queryActivitiesWithErrors: vi.fn()
+}))
+
+import { getDashboard, getIsoWeek, summarizeActivities } from '@main/services/dashboard'
+import * as excelService from '@main/services/excel'
+import type { BookedActivity } from '@shared/types'
+
+function booked(auftraggeber: string, datum: string, thema: string, zeit: number | null, km = 0, hotel = 0): BookedActivity {
+  return { auftraggeber, filePath: `/data/${auftraggeber}.xlsx`, sheet: 'März', row: 8, datum, thema, taetigkeit: 'Beratung', zeit, km, hotel }
+}
+
+const rows = [
+  booked('ACME', '2026-03-02', 'Rollout', 2, 40),
+  booked('Beispiel', '2026-03-03', 'Workshop', 1.5, 0, 120),
+  booked('ACME', '2026-03-10', 'Workshop', 4.25),
+  booked('ACME', '2026-03-11', '', null, 12.5)
+]
+
+describe('dashboard', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('getIsoWeek', () => {
+    it('should number weeks per ISO 8601', () => {
+      expect(getIsoWeek('2026-03-02')).toBe('2026-W10')
+      expect(getIsoWeek('2026-03-08')).toBe('2026-W10')
+      expect(getIsoWeek('2027-01-01')).toBe('2026-W53')
+      expect(getIsoWeek('2024-12-30')).toBe('2025-W01')
+    })
+  })
+
+  describe('summarizeActivities', () => {
+    it('should total hours, km and Auslagen', () => {
+      const summary = summarizeActivities(rows, '2026-03-01', '2026-03-31')
+
+      expect(summary).toMatchObject({ from: '2026-03-01', to: '2026-03-31', totalHours: 7.75, totalKm: 52.5, totalAuslagen: 120 })
+      expect(summary.rows).toBe(rows)
+    })
+
+    it('should group per Auftraggeber and Thema, largest first', () => {
+      const summary = summarizeActivities(rows, '2026-03-01', '2026-03-31')
+
+      expect(summary.byAuftraggeber).toEqual([
+        { key: 'ACME', hours: 6.25, km: 52.5, auslagen: 0, rowIndexes: [0, 2, 3] },
+        { key: 'Beispiel', hours: 1.5, km: 0, auslagen: 120, rowIndexes: [1] }
+      ])
+      expect(summary.byThema.map((g) => [g.key, g.hours])).toEqual([
+        ['Workshop', 5.75],
+        ['Rollout', 2],
+        ['Ohne Thema', 0]
+      ])
+    })
+
+    it('should group per ISO week in chronological order', () => {
+      const summary = summarizeActivities(rows, '2026-03-01', '2026-03-31')
+
+      expect(summary.byWeek.map((g) => [g.key, g.hours, g.rowIndexes])).toEqual([
+        ['2026-W10', 3.5, [0, 1]],
+        ['2026-W11', 4.25, [2, 3]]
+      ])
+    })
+
+    it('should return empty groups without rows', () => {
+      const summary = summarizeActivities([], '2026-03-01', '2026-03-31')
+
+      expect(summary.totalHours).toBe(0)
+      expect(summary.byAuftraggeber).toEqual([])
+      expect(summary.byWeek).toEqual([])
+    })
+  })
+
+  describe('getDashboard', () => {
+    it('should read all given files for the period', async () => {
+      const files = [{ path: '/data/ACME.xlsx', auftraggeber: 'ACME', jahr: 2026, active: true }]
+      vi.mocked(excelService.queryActivitiesWithErrors).mockResolvedValue({ rows, errors: [] })
+
+      const summary = await getDashboard(files, '2026-03-01', '2026-03-31')
+
+      expect(excelService.queryActivitiesWithErrors).toHaveBeenCalledWith(files, '2026-03-01', '2026-03-31')
+      expect(summary.totalHours).toBe(7.75)
+      expect(summary.errors).toEqual([])
+    })
+
+    it('should report files that could not be read', async () => {
+      const files = [
+        { path: '/data/ACME.xlsx', auftraggeber: 'ACME', jahr: 2026, active: true },
+        { path: '/data/Beispiel.xlsx', auftraggeber: 'Beispiel', jahr: 2026, active: true }
+      ]
+      const errors = [{ filePath: '/data/Beispiel.xlsx', auftraggeber: 'Beispiel', jahr: 2026, error: 'File locked' }]
+      vi.mocked(excelService.queryActivitiesWithErrors).mockResolvedValue({ rows: rows.slice(0, 1), errors })
+
+      const summary = await getDashboard(files, '2026-03-01', '2026-03-31')
+
+      expect(summary.totalHours).toBe(2)
+      expect(summary.errors).toEqual(errors)
+    })
+  })
+})
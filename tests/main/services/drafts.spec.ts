@@ -133,6 +133,33 @@ describe('drafts service', () => {
       expect(savedDrafts.map((d: DraftActivity) => d.id)).toEqual([1, 3])
     })
 
+    it('should keep saved entries with their row across save and load', async () => {
+      mockExistsSync.mockReturnValue(true)
+      mockWriteFile.mockResolvedValue(undefined)
+      const savedRow = { filePath: '/data/acme-2026.xlsx', sheet: 'Januar', row: 8, fingerprint: 'abc123' }
+      const saved: DraftActivity = { ...mockDraft, id: 2, saved: true, savedFilePath: '/data/acme-2026.xlsx', savedRow }
+
+      await saveDrafts([mockDraft, saved])
+      mockReadFile.mockResolvedValue(mockWriteFile.mock.calls[0][1])
+      const result = await loadDrafts()
+
+      expect(result).toEqual([mockDraft, saved])
+    })
+
+    it('should keep only the newest saved entries', async () => {
+      mockExistsSync.mockReturnValue(true)
+      mockWriteFile.mockResolvedValue(undefined)
+      const savedRow = { filePath: '/data/acme-2026.xlsx', sheet: 'Januar', row: 8, fingerprint: 'abc123' }
+      const saved = Array.from({ length: 55 }, (_, i) => ({ ...mockDraft, id: i + 2, saved: true, savedRow }))
+
+      await saveDrafts([mockDraft, ...saved])
+
+      const savedDrafts = JSON.parse(mockWriteFile.mock.calls[0][1] as string)
+      expect(savedDrafts).toHaveLength(51)
+      expect(savedDrafts[0].id).toBe(1)
+      expect(savedDrafts[1].id).toBe(7)
+    })
+
     it('should format JSON with indentation', async () => {
       mockExistsSync.mockReturnValue(true)
       mockWriteFile.mockResolvedValue(undefined)
@@ -10,6 +10,12 @@ vi.mock('@main/services/debugLog', () => ({
   debugLog: vi.fn()
 }))
 
+vi.mock('@main/services/journal', () => ({
+  recordPending: vi.fn().mockResolvedValue('journal-1'),
+  completePending: vi.fn().mockResolvedValue(undefined),
+  listPending: vi.fn().mockResolvedValue([])
+}))
+
 // Create mock cell and sheet objects
 const createMockCell = (value: unknown = undefined) => ({
   value: vi.fn().mockImplementation((val?: unknown) => {
@@ -30,6 +36,7 @@ const createMockWorkbook = (sheets: Record<string, ReturnType<typeof createMockS
 })
 
 vi.mock('@main/services/workbook', () => ({
+  assertWorkbookWritable: vi.fn(),
   loadWorkbook: vi.fn(),
   saveWorkbook: vi.fn().mockResolvedValue(undefined),
   XlsxPopulate: {
@@ -40,9 +47,26 @@ vi.mock('@main/services/workbook', () => ({
   }
 }))
 
-import { validateExcelFile, addActivity, getActivities, type Activity } from '@main/services/excel'
+import {
+  validateExcelFile,
+  addActivity,
+  addActivities,
+  getActivities,
+  queryActivities,
+  queryActivitiesWithErrors,
+  readYearActivities,
+  readMonthActivities,
+  updateActivity,
+  deleteActivity,
+  findDuplicateActivity,
+  replayJournal,
+  createEmptyYearWorkbook,
+  type Activity
+} from '@main/services/excel'
 import { createBackup } from '@main/services/backup'
-import { loadWorkbook, saveWorkbook } from '@main/services/workbook'
+import { completePending, listPending, recordPending } from '@main/services/journal'
+import { assertWorkbookWritable, loadWorkbook, saveWorkbook } from '@main/services/workbook'
+import { DEFAULT_SHEET_LAYOUT, type SheetLayout } from '@main/services/sheetLayout'
 
 describe('excel service', () => {
   beforeEach(() => {
@@ -167,6 +191,46 @@ describe('excel service', () => {
       expect(createBackup).toHaveBeenCalledWith('/path/to/file.xlsx')
     })
 
+    it('should not create a backup while the workbook is open in Excel', async () => {
+      vi.mocked(fsp.stat).mockResolvedValue({ size: 1024 } as any)
+      vi.mocked(assertWorkbookWritable).mockImplementationOnce(() => {
+        throw Object.assign(new Error('Datei ist in Excel geöffnet: file.xlsx'), { code: 'ELOCKED' })
+      })
+
+      const activity: Activity = {
+        datum: '2026-01-15',
+        thema: 'Test',
+        taetigkeit: 'Testing',
+        zeit: 2,
+        km: 0,
+        hotel: 0
+      }
+
+      await expect(addActivity('/path/to/file.xlsx', activity)).rejects.toThrow('Datei ist in Excel geöffnet')
+      expect(createBackup).not.toHaveBeenCalled()
+      expect(saveWorkbook).not.toHaveBeenCalled()
+    })
+
+    it('should pass ignoreOwnerFile on to the lock check and save', async () => {
+      vi.mocked(fsp.stat).mockResolvedValue({ size: 1024 } as any)
+      const mockWorkbook = createMockWorkbook({ Januar: createMockSheet({}) })
+      vi.mocked(loadWorkbook).mockResolvedValue(mockWorkbook as any)
+
+      const activity: Activity = {
+        datum: '2026-01-15',
+        thema: 'Test',
+        taetigkeit: 'Testing',
+        zeit: 2,
+        km: 0,
+        hotel: 0
+      }
+
+      await addActivity('/path/to/file.xlsx', activity, undefined, { ignoreOwnerFile: true })
+
+      expect(assertWorkbookWritable).toHaveBeenCalledWith('/path/to/file.xlsx', { ignoreOwnerFile: true })
+      expect(saveWorkbook).toHaveBeenCalledWith(mockWorkbook, '/path/to/file.xlsx', { ignoreOwnerFile: true })
+    })
+
     it('should throw error for missing month sheet', async () => {
       vi.mocked(fsp.stat).mockResolvedValue({ size: 1024 } as any)
       const mockWorkbook = createMockWorkbook({})
@@ -201,7 +265,7 @@ describe('excel service', () => {
 
       await addActivity('/path/to/file.xlsx', activity)
 
-      expect(saveWorkbook).toHaveBeenCalledWith(mockWorkbook, '/path/to/file.xlsx')
+      expect(saveWorkbook).toHaveBeenCalledWith(mockWorkbook, '/path/to/file.xlsx', {})
     })
 
     it('should map date to correct month sheet', async () => {
@@ -463,6 +527,656 @@ describe('excel service', () => {
     })
   })
 
+  describe('queryActivities', () => {
+    const acme = { path: '/data/acme-2024.xlsx', auftraggeber: 'ACME', jahr: 2024, active: true }
+    const beispiel = { path: '/data/beispiel-2024.xlsx', auftraggeber: 'Beispiel', jahr: 2024, active: true }
+
+    beforeEach(() => {
+      vi.mocked(fsp.stat).mockResolvedValue({ size: 1024 } as any)
+    })
+
+    it('should read rows found by the writer logic within the date range', async () => {
+      const mockSheet = createMockSheet({
+        'A7': 'Datum',
+        'B7': 'Thema',
+        'C7': 'Tätigkeit',
+        'A8': new Date(2024, 0, 15),
+        'B8': 'Rollout',
+        'C8': 'Workshop',
+        'D8': 0.125,
+        'A9': new Date(2024, 0, 25),
+        'B9': 'Later',
+        'C9': 'Out of range',
+        'A10': '16.01.2024',
+        'C10': 'Telefonat'
+      })
+      vi.mocked(loadWorkbook).mockResolvedValue(createMockWorkbook({ Januar: mockSheet }) as any)
+
+      const booked = await queryActivities([acme], '2024-01-15', '2024-01-21')
+
+      expect(booked).toEqual([
+        {
+          auftraggeber: 'ACME',
+          filePath: '/data/acme-2024.xlsx',
+          sheet: 'Januar',
+          row: 8,
+          datum: '2024-01-15',
+          thema: 'Rollout',
+          taetigkeit: 'Workshop',
+          zeit: 3,
+          km: 0,
+          hotel: 0
+        },
+        expect.objectContaining({ row: 10, datum: '2024-01-16', taetigkeit: 'Telefonat' })
+      ])
+    })
+
+    it('should only open the month sheets within the range', async () => {
+      const mockWorkbook = createMockWorkbook({})
+      vi.mocked(loadWorkbook).mockResolvedValue(mockWorkbook as any)
+
+      // Configured layout, so no sheets are probed for detection
+      await queryActivities([{ ...acme, layout: DEFAULT_SHEET_LAYOUT }], '2024-01-30', '2024-02-02')
+
+      expect(mockWorkbook.sheet).toHaveBeenCalledTimes(2)
+      expect(mockWorkbook.sheet).toHaveBeenCalledWith('Januar')
+      expect(mockWorkbook.sheet).toHaveBeenCalledWith('Februar')
+    })
+
+    it('should not open files of other years', async () => {
+      await queryActivities([{ ...acme, jahr: 2023 }], '2024-01-01', '2024-01-31')
+
+      expect(loadWorkbook).not.toHaveBeenCalled()
+    })
+
+    it('should merge files sorted by date and skip unreadable ones', async () => {
+      const acmeSheet = createMockSheet({ 'A8': new Date(2024, 0, 17), 'B8': 'A', 'C8': 'Later' })
+      const beispielSheet = createMockSheet({ 'A8': new Date(2024, 0, 16), 'B8': 'B', 'C8': 'Earlier' })
+      vi.mocked(loadWorkbook).mockImplementation(async (path: string) => {
+        if (path === acme.path) return createMockWorkbook({ Januar: acmeSheet }) as any
+        if (path === beispiel.path) return createMockWorkbook({ Januar: beispielSheet }) as any
+        throw new Error('File locked')
+      })
+
+      const booked = await queryActivities(
+        [acme, beispiel, { ...acme, path: '/data/broken.xlsx' }],
+        '2024-01-01',
+        '2024-01-31'
+      )
+
+      expect(booked.map(b => [b.auftraggeber, b.datum])).toEqual([
+        ['Beispiel', '2024-01-16'],
+        ['ACME', '2024-01-17']
+      ])
+    })
+  })
+
+  describe('queryActivitiesWithErrors', () => {
+    const acme = { path: '/data/acme-2024.xlsx', auftraggeber: 'ACME', jahr: 2024, active: true }
+
+    beforeEach(() => {
+      vi.mocked(fsp.stat).mockResolvedValue({ size: 1024 } as any)
+    })
+
+    it('should return the rows of readable files and an error per unreadable file', async () => {
+      const acmeSheet = createMockSheet({ 'A8': new Date(2024, 0, 17), 'B8': 'A', 'C8': 'Workshop' })
+      vi.mocked(loadWorkbook).mockImplementation(async (path: string) => {
+        if (path === acme.path) return createMockWorkbook({ Januar: acmeSheet }) as any
+        throw new Error('File locked')
+      })
+
+      const result = await queryActivitiesWithErrors(
+        [{ ...acme, path: '/data/broken.xlsx', auftraggeber: 'Beispiel' }, acme],
+        '2024-01-01',
+        '2024-01-31'
+      )
+
+      expect(result.rows.map(b => [b.auftraggeber, b.datum])).toEqual([['ACME', '2024-01-17']])
+      expect(result.errors).toEqual([
+        { filePath: '/data/broken.xlsx', auftraggeber: 'Beispiel', jahr: 2024, error: 'File locked' }
+      ])
+    })
+  })
+
+  describe('readYearActivities', () => {
+    const acme = { path: '/data/acme-2024.xlsx', auftraggeber: 'ACME', jahr: 2024, active: true, layout: DEFAULT_SHEET_LAYOUT }
+
+    beforeEach(() => {
+      vi.mocked(fsp.stat).mockResolvedValue({ size: 1024 } as any)
+    })
+
+    it('should read all month sheets of the year', async () => {
+      const mockWorkbook = createMockWorkbook({
+        Januar: createMockSheet({ 'A8': new Date(2024, 0, 15), 'B8': 'Rollout', 'C8': 'Workshop' }),
+        Dezember: createMockSheet({ 'A8': new Date(2024, 11, 20), 'B8': 'Abschluss', 'C8': 'Review' })
+      })
+      vi.mocked(loadWorkbook).mockResolvedValue(mockWorkbook as any)
+
+      const booked = await readYearActivities(acme)
+
+      expect(mockWorkbook.sheet).toHaveBeenCalledTimes(12)
+      expect(booked.map(b => [b.sheet, b.datum])).toEqual([
+        ['Januar', '2024-01-15'],
+        ['Dezember', '2024-12-20']
+      ])
+    })
+
+    it('should throw instead of skipping unreadable files', async () => {
+      vi.mocked(loadWorkbook).mockRejectedValue(new Error('File locked'))
+
+      await expect(readYearActivities(acme)).rejects.toThrow('File locked')
+    })
+  })
+
+  describe('readMonthActivities', () => {
+    const acme = { path: '/data/acme-2024.xlsx', auftraggeber: 'ACME', jahr: 2024, active: true, layout: DEFAULT_SHEET_LAYOUT }
+
+    beforeEach(() => {
+      vi.mocked(fsp.stat).mockResolvedValue({ size: 1024 } as any)
+    })
+
+    it('should read only the month sheet, sorted by date', async () => {
+      const mockWorkbook = createMockWorkbook({
+        'März': createMockSheet({
+          'A8': new Date(2024, 2, 20), 'B8': 'Abschluss', 'C8': 'Review',
+          'A9': new Date(2024, 2, 4), 'B9': 'Rollout', 'C9': 'Workshop'
+        })
+      })
+      vi.mocked(loadWorkbook).mockResolvedValue(mockWorkbook as any)
+
+      const booked = await readMonthActivities(acme, 3)
+
+      expect(mockWorkbook.sheet).toHaveBeenCalledTimes(1)
+      expect(booked.map(b => b.datum)).toEqual(['2024-03-04', '2024-03-20'])
+    })
+
+    it('should throw instead of returning an empty month for unreadable files', async () => {
+      vi.mocked(loadWorkbook).mockRejectedValue(new Error('File locked'))
+
+      await expect(readMonthActivities(acme, 3)).rejects.toThrow('File locked')
+    })
+  })
+
+  describe('updateActivity / deleteActivity', () => {
+    // Sheet that keeps written values (and cells, for their style id) so rows
+    // can be read back; formulas[ref] marks a formula cell
+    const createStatefulSheet = (data: Record<string, unknown>, formulas: Record<string, string> = {}) => {
+      const cells = new Map<string, { _styleId?: number }>()
+      const cell = (ref: string) => {
+        if (!cells.has(ref)) {
+          cells.set(ref, {
+            value: vi.fn((...args: unknown[]) => {
+              if (args.length === 0) return data[ref]
+              data[ref] = args[0]
+              return undefined
+            }),
+            formula: vi.fn(() => formulas[ref])
+          } as { _styleId?: number })
+        }
+        return cells.get(ref)!
+      }
+      return {
+        cell: vi.fn(cell),
+        cells,
+        usedRange: vi.fn(() => ({
+          endCell: () => ({ rowNumber: () => 20 })
+        }))
+      }
+    }
+
+    const activity: Activity = {
+      datum: '2026-01-15',
+      thema: 'Rollout',
+      taetigkeit: 'Workshop',
+      zeit: 2,
+      km: 0,
+      hotel: 0
+    }
+
+    beforeEach(() => {
+      vi.mocked(fsp.stat).mockResolvedValue({ size: 1024 } as any)
+    })
+
+    async function saveRows(data: Record<string, unknown>, activities: Activity[]) {
+      const januar = createStatefulSheet(data)
+      const workbook = createMockWorkbook({ Januar: januar as any, Februar: createStatefulSheet({}) as any })
+      vi.mocked(loadWorkbook).mockResolvedValue(workbook as any)
+      const locations = []
+      for (const a of activities) {
+        locations.push(await addActivity('/path/to/file.xlsx', a))
+      }
+      return { workbook, locations }
+    }
+
+    it('should return the written row with a fingerprint', async () => {
+      const { locations } = await saveRows({}, [activity, { ...activity, thema: 'Second' }])
+
+      expect(locations.map(l => [l.sheet, l.row])).toEqual([['Januar', 8], ['Januar', 9]])
+      expect(locations[0].fingerprint).toMatch(/^[0-9a-f]{16}$/)
+      expect(locations[0].fingerprint).not.toBe(locations[1].fingerprint)
+    })
+
+    it('should overwrite the row in place and clear removed values', async () => {
+      const data: Record<string, unknown> = {}
+      const { locations } = await saveRows(data, [{ ...activity, km: 120 }])
+      vi.mocked(createBackup).mockClear()
+
+      const updated = await updateActivity('/path/to/file.xlsx', locations[0], { ...activity, zeit: 1.5, km: 0 })
+
+      expect(updated.row).toBe(8)
+      expect(data['D8']).toBe(1.5 / 24)
+      expect(data['E8']).toBeNull()
+      expect(updated.fingerprint).not.toBe(locations[0].fingerprint)
+      expect(createBackup).toHaveBeenCalledWith('/path/to/file.xlsx')
+      expect(saveWorkbook).toHaveBeenCalled()
+    })
+
+    it('should move the row when the date changes the month', async () => {
+      const data: Record<string, unknown> = {}
+      const { workbook, locations } = await saveRows(data, [activity, { ...activity, thema: 'Second' }])
+
+      const moved = await updateActivity('/path/to/file.xlsx', locations[0], { ...activity, datum: '2026-02-03' })
+
+      expect(moved).toMatchObject({ sheet: 'Februar', row: 8 })
+      expect(workbook.sheet).toHaveBeenCalledWith('Februar')
+      // Second row moved up into the freed row
+      expect(data['B8']).toBe('Second')
+      expect(data['B9']).toBeNull()
+    })
+
+    it('should refuse to touch a row changed in Excel', async () => {
+      const data: Record<string, unknown> = {}
+      const { locations } = await saveRows(data, [activity])
+      data['C8'] = 'Edited by hand'
+      vi.mocked(saveWorkbook).mockClear()
+      vi.mocked(createBackup).mockClear()
+
+      await expect(updateActivity('/path/to/file.xlsx', locations[0], activity)).rejects.toThrow('wurde in Excel verändert')
+      await expect(deleteActivity('/path/to/file.xlsx', locations[0])).rejects.toThrow('wurde in Excel verändert')
+      expect(createBackup).not.toHaveBeenCalled()
+      expect(saveWorkbook).not.toHaveBeenCalled()
+    })
+
+    it('should delete a row and move the rows below up', async () => {
+      const data: Record<string, unknown> = {}
+      const { locations } = await saveRows(data, [activity, { ...activity, thema: 'Second', km: 40 }])
+
+      await deleteActivity('/path/to/file.xlsx', locations[0])
+
+      expect(data['B8']).toBe('Second')
+      expect(data['E8']).toBe(40)
+      expect(data['B9']).toBeNull()
+      expect(data['C9']).toBeNull()
+      expect(createBackup).toHaveBeenCalledWith('/path/to/file.xlsx')
+    })
+
+    it('should move the layout columns with their style and leave side cells in place', async () => {
+      const data: Record<string, unknown> = { G8: 'Notiz 1', G9: 'Notiz 2' }
+      const januar = createStatefulSheet(data)
+      vi.mocked(loadWorkbook).mockResolvedValue(createMockWorkbook({ Januar: januar as any }) as any)
+      const first = await addActivity('/path/to/file.xlsx', activity)
+      await addActivity('/path/to/file.xlsx', { ...activity, thema: 'Second' })
+      januar.cell('B9')._styleId = 5
+
+      await deleteActivity('/path/to/file.xlsx', first)
+
+      expect(data['B8']).toBe('Second')
+      expect(januar.cell('B8')._styleId).toBe(5)
+      expect(data['G8']).toBe('Notiz 1')
+      expect(data['G9']).toBe('Notiz 2')
+    })
+
+    it('should stop moving rows at the first row that is not an activity', async () => {
+      const data: Record<string, unknown> = {}
+      const januar = createStatefulSheet(data)
+      vi.mocked(loadWorkbook).mockResolvedValue(createMockWorkbook({ Januar: januar as any }) as any)
+      const first = await addActivity('/path/to/file.xlsx', activity)
+      await addActivity('/path/to/file.xlsx', { ...activity, thema: 'Second' })
+      Object.assign(data, { B10: 'Summe', D10: 0.1667, A11: 46037, B11: 'Nachtrag', C11: 'Review' })
+
+      await deleteActivity('/path/to/file.xlsx', first)
+
+      expect(data['B8']).toBe('Second')
+      expect(data['B9']).toBeNull()
+      expect(data['B10']).toBe('Summe')
+      expect(data['D10']).toBe(0.1667)
+      expect(data['B11']).toBe('Nachtrag')
+    })
+
+    it('should keep formula cells in their row', async () => {
+      const data: Record<string, unknown> = {}
+      const formulas: Record<string, string> = {}
+      const januar = createStatefulSheet(data, formulas)
+      vi.mocked(loadWorkbook).mockResolvedValue(createMockWorkbook({ Januar: januar as any }) as any)
+      // Cached results of a per-row formula, e.g. Auslagen computed in Excel
+      const first = await addActivity('/path/to/file.xlsx', { ...activity, hotel: 48 })
+      await addActivity('/path/to/file.xlsx', { ...activity, thema: 'Second', hotel: 24 })
+      Object.assign(formulas, { F8: 'D8*24', F9: 'D9*24' })
+
+      await deleteActivity('/path/to/file.xlsx', first)
+
+      expect(data['B8']).toBe('Second')
+      expect(data['F8']).toBe(48)
+      expect(data['F9']).toBe(24)
+    })
+  })
+
+  describe('addActivities', () => {
+    const createStatefulSheet = (data: Record<string, unknown>) => ({
+      cell: vi.fn((ref: string) => ({
+        value: vi.fn((...args: unknown[]) => {
+          if (args.length === 0) return data[ref]
+          data[ref] = args[0]
+          return undefined
+        })
+      })),
+      usedRange: vi.fn(() => ({
+        endCell: () => ({ rowNumber: () => 20 })
+      }))
+    })
+
+    const activity: Activity = { datum: '2026-01-15', thema: 'Rollout', taetigkeit: 'Workshop', zeit: 2, km: 0, hotel: 0 }
+
+    beforeEach(() => {
+      vi.mocked(fsp.stat).mockResolvedValue({ size: 1024 } as any)
+    })
+
+    it('should write all rows with one load, one backup and one save', async () => {
+      const januar: Record<string, unknown> = {}
+      const februar: Record<string, unknown> = {}
+      vi.mocked(loadWorkbook).mockResolvedValue(createMockWorkbook({
+        Januar: createStatefulSheet(januar) as any,
+        Februar: createStatefulSheet(februar) as any
+      }) as any)
+
+      const results = await addActivities('/path/to/file.xlsx', [
+        { activity },
+        { activity: { ...activity, datum: '2026-02-02', thema: 'Support' } },
+        { activity: { ...activity, thema: 'Angebot', taetigkeit: 'Kalkulation' } }
+      ])
+
+      expect(results.map(r => 'location' in r && [r.location.sheet, r.location.row])).toEqual([
+        ['Januar', 8], ['Februar', 8], ['Januar', 9]
+      ])
+      expect('location' in results[0] && results[0].location.fingerprint).toMatch(/^[0-9a-f]{16}$/)
+      expect(januar['B9']).toBe('Angebot')
+      expect(februar['B8']).toBe('Support')
+      expect(loadWorkbook).toHaveBeenCalledTimes(1)
+      expect(createBackup).toHaveBeenCalledTimes(1)
+      expect(saveWorkbook).toHaveBeenCalledTimes(1)
+      expect(vi.mocked(createBackup).mock.invocationCallOrder[0])
+        .toBeLessThan(vi.mocked(saveWorkbook).mock.invocationCallOrder[0])
+    })
+
+    it('should report rows that cannot be written and still write the others', async () => {
+      const januar: Record<string, unknown> = {
+        'A8': new Date(2026, 0, 15), 'B8': 'Rollout', 'C8': 'Workshop', 'D8': 2 / 24
+      }
+      vi.mocked(loadWorkbook).mockResolvedValue(createMockWorkbook({ Januar: createStatefulSheet(januar) as any }) as any)
+
+      const results = await addActivities('/path/to/file.xlsx', [
+        { activity },
+        { activity: { ...activity, datum: '2026-05-04' } },
+        { activity: { ...activity, thema: 'Angebot', taetigkeit: 'Kalkulation' } },
+        { activity, allowDuplicate: true }
+      ])
+
+      expect(results[0]).toMatchObject({ error: 'Ähnlicher Eintrag vorhanden (Januar, Zeile 8)', duplicate: { row: 8 } })
+      expect(results[1]).toEqual({ error: 'Sheet "Mai" nicht gefunden' })
+      expect(results[2]).toMatchObject({ location: { sheet: 'Januar', row: 9 } })
+      expect(results[3]).toMatchObject({ location: { sheet: 'Januar', row: 10 } })
+      expect(saveWorkbook).toHaveBeenCalledTimes(1)
+    })
+
+    it('should catch duplicates within the batch', async () => {
+      vi.mocked(loadWorkbook).mockResolvedValue(createMockWorkbook({ Januar: createStatefulSheet({}) as any }) as any)
+
+      const results = await addActivities('/path/to/file.xlsx', [{ activity }, { activity }])
+
+      expect(results[0]).toMatchObject({ location: { row: 8 } })
+      expect(results[1]).toMatchObject({ error: 'Ähnlicher Eintrag vorhanden (Januar, Zeile 8)' })
+    })
+
+    it('should neither back up nor save when no row was written', async () => {
+      vi.mocked(loadWorkbook).mockResolvedValue(createMockWorkbook({}) as any)
+
+      const results = await addActivities('/path/to/file.xlsx', [{ activity }])
+
+      expect(results).toEqual([{ error: 'Sheet "Januar" nicht gefunden' }])
+      expect(createBackup).not.toHaveBeenCalled()
+      expect(saveWorkbook).not.toHaveBeenCalled()
+    })
+
+    it('should journal every row until the workbook is saved', async () => {
+      vi.mocked(loadWorkbook).mockResolvedValue(createMockWorkbook({ Januar: createStatefulSheet({}) as any }) as any)
+      vi.mocked(recordPending).mockResolvedValueOnce('journal-a').mockResolvedValueOnce('journal-b')
+      vi.mocked(saveWorkbook).mockRejectedValueOnce(new Error('EBUSY'))
+
+      await expect(addActivities('/path/to/file.xlsx', [
+        { activity },
+        { activity: { ...activity, thema: 'Angebot', taetigkeit: 'Kalkulation' } }
+      ], DEFAULT_SHEET_LAYOUT)).rejects.toThrow('EBUSY')
+
+      expect(recordPending).toHaveBeenCalledTimes(2)
+      expect(completePending).toHaveBeenCalledWith('journal-a')
+      expect(completePending).toHaveBeenCalledWith('journal-b')
+    })
+  })
+
+  describe('findDuplicateActivity', () => {
+    const data: Record<string, unknown> = {
+      'A8': new Date(2026, 0, 15), 'B8': 'Rollout', 'C8': 'Workshop mit Team', 'D8': 2 / 24,
+      'A9': new Date(2026, 0, 16), 'B9': 'Rollout', 'C9': 'Workshop mit Team', 'D9': 1 / 24
+    }
+    const activity: Activity = { datum: '2026-01-15', thema: 'Rollout', taetigkeit: 'Workshop mit Team', zeit: 2, km: 0, hotel: 0 }
+
+    beforeEach(() => {
+      vi.mocked(fsp.stat).mockResolvedValue({ size: 1024 } as any)
+      vi.mocked(loadWorkbook).mockResolvedValue(createMockWorkbook({ Januar: createMockSheet(data) }) as any)
+    })
+
+    it('should find a row with the same date and similar Thema and Tätigkeit', async () => {
+      const duplicate = await findDuplicateActivity('/path/to/file.xlsx', { ...activity, thema: 'Roll-out', taetigkeit: 'Workshop mit dem Team' }, DEFAULT_SHEET_LAYOUT)
+
+      expect(duplicate).toMatchObject({ sheet: 'Januar', row: 8, datum: '2026-01-15', thema: 'Rollout' })
+    })
+
+    it('should ignore other dates and different activities', async () => {
+      expect(await findDuplicateActivity('/path/to/file.xlsx', { ...activity, datum: '2026-01-17' }, DEFAULT_SHEET_LAYOUT)).toBeNull()
+      expect(await findDuplicateActivity('/path/to/file.xlsx', { ...activity, taetigkeit: 'Angebot geschrieben' }, DEFAULT_SHEET_LAYOUT)).toBeNull()
+      expect(await findDuplicateActivity('/path/to/file.xlsx', { ...activity, thema: 'Buchhaltung' }, DEFAULT_SHEET_LAYOUT)).toBeNull()
+    })
+
+    it('should return null if the month sheet is missing', async () => {
+      expect(await findDuplicateActivity('/path/to/file.xlsx', { ...activity, datum: '2026-05-04' }, DEFAULT_SHEET_LAYOUT)).toBeNull()
+    })
+  })
+
+  describe('journal', () => {
+    const activity: Activity = { datum: '2026-01-15', thema: 'Rollout', taetigkeit: 'Workshop mit Team', zeit: 2, km: 0, hotel: 0 }
+
+    beforeEach(() => {
+      vi.mocked(fsp.stat).mockResolvedValue({ size: 1024 } as any)
+    })
+
+    it('should journal an insert until the workbook is saved', async () => {
+      vi.mocked(loadWorkbook).mockResolvedValue(createMockWorkbook({ Januar: createMockSheet({}) }) as any)
+
+      await addActivity('/path/to/file.xlsx', activity, DEFAULT_SHEET_LAYOUT)
+
+      expect(recordPending).toHaveBeenCalledWith('/path/to/file.xlsx', activity, DEFAULT_SHEET_LAYOUT)
+      expect(vi.mocked(recordPending).mock.invocationCallOrder[0])
+        .toBeLessThan(vi.mocked(saveWorkbook).mock.invocationCallOrder[0])
+      expect(completePending).toHaveBeenCalledWith('journal-1')
+    })
+
+    it('should drop the journal entry when the save fails visibly', async () => {
+      vi.mocked(loadWorkbook).mockResolvedValue(createMockWorkbook({}) as any)
+
+      await expect(addActivity('/path/to/file.xlsx', activity)).rejects.toThrow('Sheet "Januar" nicht gefunden')
+      expect(completePending).toHaveBeenCalledWith('journal-1')
+    })
+
+    it('should replay pending inserts that did not reach the workbook', async () => {
+      const data: Record<string, unknown> = {
+        'A8': new Date(2026, 0, 15), 'B8': 'Rollout', 'C8': 'Workshop mit Team', 'D8': 2 / 24
+      }
+      vi.mocked(loadWorkbook).mockResolvedValue(createMockWorkbook({ Januar: createMockSheet(data) }) as any)
+      vi.mocked(listPending).mockResolvedValueOnce([
+        { id: 'written', filePath: '/path/to/file.xlsx', activity, createdAt: '' },
+        { id: 'lost', filePath: '/path/to/file.xlsx', activity: { ...activity, thema: 'Angebot' }, createdAt: '' },
+        { id: 'broken', filePath: '/path/to/file.txt', activity, createdAt: '' }
+      ])
+
+      const result = await replayJournal()
+
+      expect(result).toEqual({ replayed: 1, failed: 1 })
+      expect(saveWorkbook).toHaveBeenCalledTimes(1)
+      expect(recordPending).not.toHaveBeenCalled()
+      expect(completePending).toHaveBeenCalledWith('written')
+      expect(completePending).toHaveBeenCalledWith('lost')
+      expect(completePending).not.toHaveBeenCalledWith('broken')
+    })
+  })
+
+  describe('sheet layout', () => {
+    const layout: SheetLayout = {
+      sheetNaming: 'monthNumber',
+      columns: { datum: 'B', thema: 'C', taetigkeit: 'D', zeit: 'E' },
+      headerRow: 3,
+      timeFormat: 'minutes'
+    }
+
+    const createStatefulSheet = (data: Record<string, unknown>) => ({
+      cell: vi.fn((ref: string) => ({
+        value: vi.fn((...args: unknown[]) => {
+          if (args.length === 0) return data[ref]
+          data[ref] = args[0]
+          return undefined
+        }),
+        style: vi.fn(() => 'General')
+      })),
+      usedRange: vi.fn(() => ({
+        endCell: () => ({ rowNumber: () => 20 })
+      }))
+    })
+
+    const activity: Activity = { datum: '2026-03-02', thema: 'Rollout', taetigkeit: 'Workshop', zeit: 1.5, km: 30, hotel: 0 }
+
+    beforeEach(() => {
+      vi.mocked(fsp.stat).mockResolvedValue({ size: 1024 } as any)
+    })
+
+    it('should write into the configured sheet and columns', async () => {
+      const data: Record<string, unknown> = { 'C4': 'Alt', 'D4': 'Vorher' }
+      vi.mocked(loadWorkbook).mockResolvedValue(createMockWorkbook({ '03': createStatefulSheet(data) as any }) as any)
+
+      const location = await addActivity('/path/to/file.xlsx', activity, layout)
+
+      expect(location).toMatchObject({ sheet: '03', row: 5 })
+      expect(data['C5']).toBe('Rollout')
+      expect(data['E5']).toBe(90)
+      // No KM column in this layout
+      expect(Object.keys(data).some(ref => ref.startsWith('F'))).toBe(false)
+    })
+
+    it('should detect the layout from the header cells', async () => {
+      const data: Record<string, unknown> = {
+        'A2': 'Datum', 'B2': 'Projekt', 'C2': 'Beschreibung', 'D2': 'Stunden', 'E2': 'Kilometer'
+      }
+      vi.mocked(loadWorkbook).mockResolvedValue(createMockWorkbook({ 'Mär': createStatefulSheet(data) as any }) as any)
+
+      const location = await addActivity('/path/to/file.xlsx', activity)
+
+      expect(location).toMatchObject({ sheet: 'Mär', row: 3 })
+      expect(data['D3']).toBe(1.5)
+      expect(data['E3']).toBe(30)
+    })
+
+    it('should read rows in the configured time format', async () => {
+      const sheet = createStatefulSheet({ 'B4': new Date(2026, 2, 2), 'C4': 'Rollout', 'D4': 'Workshop', 'E4': 45 })
+      vi.mocked(loadWorkbook).mockResolvedValue(createMockWorkbook({ '03': sheet as any }) as any)
+
+      const booked = await queryActivities(
+        [{ path: '/data/acme-2026.xlsx', auftraggeber: 'ACME', jahr: 2026, active: true, layout }],
+        '2026-03-01',
+        '2026-03-31'
+      )
+
+      expect(booked).toEqual([expect.objectContaining({ sheet: '03', row: 4, datum: '2026-03-02', zeit: 0.75, km: 0 })])
+    })
+  })
+
+  describe('createEmptyYearWorkbook', () => {
+    const createSheet = (data: Record<string, unknown>, formulas: Record<string, string> = {}) => ({
+      cell: vi.fn((ref: string) => ({
+        value: vi.fn((...args: unknown[]) => {
+          if (args.length === 0) return data[ref]
+          data[ref] = args[0]
+          return undefined
+        }),
+        formula: vi.fn(() => formulas[ref])
+      })),
+      usedRange: vi.fn(() => ({
+        endCell: () => ({ rowNumber: () => 20 })
+      }))
+    })
+
+    beforeEach(() => {
+      vi.mocked(fsp.stat).mockResolvedValue({ size: 1024 } as any)
+    })
+
+    it('should clear the data rows of every month and save under the new path', async () => {
+      const januar: Record<string, unknown> = {
+        'B7': 'Thema', 'C7': 'Tätigkeit',
+        'A8': 45000, 'B8': 'Rollout', 'C8': 'Workshop', 'D8': 0.25, 'E8': 40,
+        'A9': 45001, 'B9': 'Rollout', 'C9': 'Review', 'D9': 0.125,
+        'C10': 'Summe', 'D10': 0.375
+      }
+      const dezember: Record<string, unknown> = { 'A8': 45290, 'B8': 'Abschluss', 'C8': 'Bericht' }
+      const workbook = createMockWorkbook({
+        Januar: createSheet(januar, { 'D10': 'SUM(D8:D9)' }) as any,
+        Dezember: createSheet(dezember) as any,
+        Glossar: createSheet({ 'A1': 'Kategorie' }) as any
+      })
+      vi.mocked(loadWorkbook).mockResolvedValue(workbook as any)
+
+      const layout = await createEmptyYearWorkbook('/data/LV ACME 2026.xlsx', '/data/LV ACME 2027.xlsx')
+
+      expect(layout).toEqual(DEFAULT_SHEET_LAYOUT)
+      // Header and Summe row with formula stay
+      expect(januar['B7']).toBe('Thema')
+      expect(januar['C10']).toBe('Summe')
+      expect(januar['B8']).toBeNull()
+      expect(januar['E8']).toBeNull()
+      expect(januar['C9']).toBeNull()
+      expect(dezember['C8']).toBeNull()
+      expect(saveWorkbook).toHaveBeenCalledWith(workbook, '/data/LV ACME 2027.xlsx')
+      expect(createBackup).not.toHaveBeenCalled()
+    })
+
+    it('should clear the other cells of data rows with a formula', async () => {
+      const januar: Record<string, unknown> = {
+        'B7': 'Thema', 'C7': 'Tätigkeit',
+        'A8': 45000, 'B8': 'Rollout', 'C8': 'Workshop', 'D8': 0.25, 'E8': 40,
+        'C9': 'Summe', 'D9': 0.25
+      }
+      const workbook = createMockWorkbook({
+        Januar: createSheet(januar, { 'D8': 'F8-G8', 'D9': 'SUM(D8:D8)' }) as any
+      })
+      vi.mocked(loadWorkbook).mockResolvedValue(workbook as any)
+
+      await createEmptyYearWorkbook('/data/LV ACME 2026.xlsx', '/data/LV ACME 2027.xlsx')
+
+      expect(januar['A8']).toBeNull()
+      expect(januar['B8']).toBeNull()
+      expect(januar['C8']).toBeNull()
+      expect(januar['E8']).toBeNull()
+      expect(januar['D8']).toBe(0.25) // Formula cell untouched
+      expect(januar['C9']).toBe('Summe')
+    })
+  })
+
   describe('Activity type structure', () => {
     it('should have all required fields', () => {
       const activity: Activity = {
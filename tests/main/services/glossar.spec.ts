@@ -24,6 +24,7 @@ vi.mock('@main/services/excel', () => ({
 }))
 
 vi.mock('@main/services/workbook', () => ({
+  assertWorkbookWritable: vi.fn(),
   loadWorkbook: mockLoadWorkbook.mockResolvedValue(mockWorkbook),
   saveWorkbook: mockSaveWorkbook.mockResolvedValue(undefined)
 }))
@@ -43,18 +44,47 @@ const createMockSheet = (name: string, data: Record<string, unknown> = {}) => ({
     return createMockCell(data[key])
   }),
   usedRange: vi.fn(() => ({
-    endCell: () => ({ rowNumber: () => 10 })
+    endCell: () => ({ rowNumber: () => 10, columnNumber: () => 3 })
   })),
   column: vi.fn(() => ({ width: vi.fn() }))
 })
 
+// Sheet that keeps written values, keyed by "row,col"
+const createStatefulSheet = (name: string, initial: Record<string, unknown> = {}) => {
+  const data: Record<string, unknown> = { ...initial }
+  const maxRow = (): number => Math.max(1, ...Object.keys(data).map(k => Number(k.split(',')[0])))
+  const maxCol = (): number => Math.max(1, ...Object.keys(data).map(k => Number(k.split(',')[1])))
+  return {
+    data,
+    name: vi.fn().mockReturnValue(name),
+    cell: vi.fn((row: number, col: number) => ({
+      value: (val?: unknown) => {
+        if (val === undefined) return data[`${row},${col}`]
+        if (val === null) delete data[`${row},${col}`]
+        else data[`${row},${col}`] = val
+      }
+    })),
+    usedRange: vi.fn(() => ({ endCell: () => ({ rowNumber: maxRow, columnNumber: maxCol }) })),
+    column: vi.fn(() => ({ width: vi.fn() }))
+  }
+}
+
 import {
   clearGlossarCache,
   normalizeText,
+  matchTerm,
+  resolveTerm,
   getKnownTerms,
   getAllKnownTerms,
+  buildTranscriptionVocabulary,
   loadGlossar,
   loadGlossarsFromPaths,
+  normalizeGlossarEntries,
+  saveGlossarEntries,
+  addGlossarSynonym,
+  addGlossarSynonyms,
+  addGlossarBegriff,
+  classifyNewThema,
   type Glossar,
   type GlossarEintrag
 } from '@main/services/glossar'
@@ -146,6 +176,73 @@ describe('glossar service', () => {
     })
   })
 
+  describe('matchTerm', () => {
+    const glossar: Glossar = {
+      eintraege: [],
+      byKategorie: new Map(),
+      lookupMap: new Map([
+        ['lakowa', 'Lakowa'],
+        ['idt', 'IDT'],
+        ['kowalski', 'Kowalski'],
+        ['rollout', 'Rollout'],
+        ['roll-out', 'Rollout'],
+        ['meeting', 'Meeting']
+      ])
+    }
+
+    it('should return an exact hit as the only candidate', () => {
+      expect(matchTerm('Roll-Out', glossar)).toEqual([{ begriff: 'Rollout', confidence: 1, method: 'exact' }])
+    })
+
+    it('should match similar sounding spellings phonetically', () => {
+      const [best] = matchTerm('Lakova', glossar)
+
+      expect(best).toEqual({ begriff: 'Lakowa', confidence: expect.any(Number), method: 'phonetic' })
+      expect(best.confidence).toBeGreaterThan(0.75)
+    })
+
+    it('should match spoken acronyms by their letter names', () => {
+      expect(matchTerm('Edete', glossar)[0]).toEqual(expect.objectContaining({ begriff: 'IDT', method: 'phonetic' }))
+      expect(normalizeText('Edete', glossar)).toBe('IDT')
+    })
+
+    it('should match Polish names', () => {
+      expect(normalizeText('Kowalsky', glossar)).toBe('Kowalski')
+    })
+
+    it('should offer uncertain matches as candidates without replacing', () => {
+      const [best] = matchTerm('La Cobra', glossar)
+
+      expect(best.begriff).toBe('Lakowa')
+      expect(best.confidence).toBeGreaterThanOrEqual(0.5)
+      expect(best.confidence).toBeLessThanOrEqual(0.75)
+      expect(normalizeText('La Cobra', glossar)).toBe('La Cobra')
+    })
+
+    it('should resolve to the best candidate only above the match threshold', () => {
+      const replaced = resolveTerm('Lakova', glossar)
+      const kept = resolveTerm('La Cobra', glossar)
+
+      expect(replaced.text).toBe('Lakowa')
+      expect(replaced.applied).toEqual(replaced.candidates[0])
+      expect(kept.text).toBe('La Cobra')
+      expect(kept.applied).toBeNull()
+      expect(kept.candidates[0].begriff).toBe('Lakowa')
+    })
+
+    it('should list each Begriff once, best first', () => {
+      const matches = matchTerm('Rolaut', glossar)
+
+      expect(matches.filter(m => m.begriff === 'Rollout')).toHaveLength(1)
+      expect(matches.map(m => m.confidence)).toEqual([...matches.map(m => m.confidence)].sort((a, b) => b - a))
+    })
+
+    it('should return no candidates for unrelated or empty text', () => {
+      expect(matchTerm('Buchhaltung', glossar)).toEqual([])
+      expect(matchTerm('   ', glossar)).toEqual([])
+    })
+  })
+
   describe('getKnownTerms', () => {
     it('should return terms for specified category', () => {
       const eintrag: GlossarEintrag = {
@@ -212,6 +309,42 @@ describe('glossar service', () => {
     })
   })
 
+  describe('buildTranscriptionVocabulary', () => {
+    function glossarWith(entries: Array<[GlossarEintrag['kategorie'], string]>): Glossar {
+      const eintraege = entries.map(([kategorie, begriff]) => ({ kategorie, begriff, synonyme: [] }))
+      const byKategorie = new Map<GlossarEintrag['kategorie'], GlossarEintrag[]>()
+      for (const e of eintraege) {
+        byKategorie.set(e.kategorie, [...(byKategorie.get(e.kategorie) ?? []), e])
+      }
+      return { eintraege, byKategorie, lookupMap: new Map() }
+    }
+
+    const sources = [
+      { auftraggeber: 'IDT', glossar: glossarWith([['Thema', 'Hakobu'], ['Thema', 'Lotus'], ['Kunde', 'Krzysztof']]) },
+      { auftraggeber: 'Lakowa', glossar: glossarWith([['Auftraggeber', 'Lakowa'], ['Thema', 'Niwa'], ['Thema', 'Airliquide']]) }
+    ]
+
+    it('should list Auftraggeber first and alternate terms between files', () => {
+      expect(buildTranscriptionVocabulary(sources)).toEqual([
+        'IDT', 'Lakowa', 'Hakobu', 'Niwa', 'Lotus', 'Airliquide', 'Krzysztof'
+      ])
+    })
+
+    it('should prioritise terms of the preferred Auftraggeber', () => {
+      expect(buildTranscriptionVocabulary(sources, 'lakowa')).toEqual([
+        'IDT', 'Lakowa', 'Niwa', 'Airliquide', 'Hakobu', 'Lotus', 'Krzysztof'
+      ])
+    })
+
+    it('should cut off terms beyond the size limit', () => {
+      expect(buildTranscriptionVocabulary(sources, 'Lakowa', 24)).toEqual(['IDT', 'Lakowa', 'Niwa'])
+    })
+
+    it('should return nothing without glossars', () => {
+      expect(buildTranscriptionVocabulary([])).toEqual([])
+    })
+  })
+
   describe('getAllKnownTerms', () => {
     it('should return terms grouped by category', () => {
       const auftraggeber: GlossarEintrag = {
@@ -512,6 +645,325 @@ describe('glossar service', () => {
     })
   })
 
+  describe('normalizeGlossarEntries', () => {
+    it('should trim terms and drop empty, repeated and self-referencing synonyms', () => {
+      const result = normalizeGlossarEntries([
+        { kategorie: 'Thema', begriff: ' Development ', synonyme: ['dev', ' Dev ', '', 'development', 'coding'] }
+      ])
+
+      expect(result).toEqual([
+        { kategorie: 'Thema', begriff: 'Development', synonyme: ['dev', 'coding'] }
+      ])
+    })
+
+    it('should reject a Begriff listed twice in one Kategorie', () => {
+      expect(() => normalizeGlossarEntries([
+        { kategorie: 'Thema', begriff: 'Workshop', synonyme: [] },
+        { kategorie: 'Thema', begriff: 'workshop', synonyme: [] }
+      ])).toThrow('Begriff "workshop" ist in Thema doppelt vorhanden')
+    })
+
+    it('should allow the same Begriff in different Kategorien', () => {
+      expect(() => normalizeGlossarEntries([
+        { kategorie: 'Auftraggeber', begriff: 'Müller', synonyme: [] },
+        { kategorie: 'Kunde', begriff: 'Müller', synonyme: [] }
+      ])).not.toThrow()
+    })
+
+    it('should reject a synonym assigned to two Begriffe', () => {
+      expect(() => normalizeGlossarEntries([
+        { kategorie: 'Thema', begriff: 'Workshop', synonyme: ['WS'] },
+        { kategorie: 'Thema', begriff: 'Webservice', synonyme: ['ws'] }
+      ])).toThrow('"ws" ist mehreren Begriffen zugeordnet')
+    })
+
+    it('should reject a synonym that is another Begriff', () => {
+      expect(() => normalizeGlossarEntries([
+        { kategorie: 'Thema', begriff: 'Workshop', synonyme: ['Schulung'] },
+        { kategorie: 'Thema', begriff: 'Schulung', synonyme: [] }
+      ])).toThrow('"Schulung" ist mehreren Begriffen zugeordnet')
+    })
+
+    it('should reject empty Begriffe', () => {
+      expect(() => normalizeGlossarEntries([
+        { kategorie: 'Thema', begriff: '  ', synonyme: [] }
+      ])).toThrow('Begriff darf nicht leer sein')
+    })
+  })
+
+  describe('saveGlossarEntries', () => {
+    it('should replace the entries and clear leftover rows', async () => {
+      const sheet = createStatefulSheet('Glossar', {
+        '1,1': 'Kategorie', '1,2': 'Begriff', '1,3': 'Synonyme',
+        '2,1': 'Thema', '2,2': 'Alt', '2,3': 'a',
+        '3,1': 'Thema', '3,2': 'Weg', '3,3': '',
+        '4,1': 'Kunde', '4,2': 'Beispiel GmbH', '4,3': ''
+      })
+      mockWorkbook.sheets.mockReturnValue([createMockSheet('Januar'), sheet])
+
+      await saveGlossarEntries('/path/to/file.xlsx', [
+        { kategorie: 'Thema', begriff: 'Neu', synonyme: ['alt', 'a'] }
+      ])
+
+      expect(sheet.data).toEqual({
+        '1,1': 'Kategorie', '1,2': 'Begriff', '1,3': 'Synonyme',
+        '2,1': 'Thema', '2,2': 'Neu', '2,3': 'alt, a'
+      })
+      expect(mockCreateBackup).toHaveBeenCalledWith('/path/to/file.xlsx')
+      expect(mockSaveWorkbook).toHaveBeenCalledWith(mockWorkbook, '/path/to/file.xlsx')
+    })
+
+    it('should keep rows with an unknown Kategorie', async () => {
+      const sheet = createStatefulSheet('Glossar', {
+        '2,1': 'Notiz', '2,2': 'Nicht löschen', '2,3': '',
+        '3,1': 'Thema', '3,2': 'Alt', '3,3': ''
+      })
+      mockWorkbook.sheets.mockReturnValue([sheet])
+
+      await saveGlossarEntries('/path/to/file.xlsx', [
+        { kategorie: 'Thema', begriff: 'Neu', synonyme: [] }
+      ])
+
+      expect(sheet.data).toEqual({
+        '2,1': 'Thema', '2,2': 'Neu', '2,3': '',
+        '3,1': 'Notiz', '3,2': 'Nicht löschen', '3,3': ''
+      })
+    })
+
+    it('should keep rows without Kategorie or Begriff as they are', async () => {
+      const sheet = createStatefulSheet('Glossar', {
+        '2,2': 'Ohne Kategorie', '2,3': 'x',
+        '3,1': 'Thema', '3,3': 'nur Synonym',
+        '4,1': 'Thema', '4,2': 'Alt', '4,3': '',
+        '6,1': 'Notiz', '6,2': 42
+      })
+      mockWorkbook.sheets.mockReturnValue([sheet])
+
+      await saveGlossarEntries('/path/to/file.xlsx', [
+        { kategorie: 'Thema', begriff: 'Neu', synonyme: [] }
+      ])
+
+      expect(sheet.data).toEqual({
+        '2,1': 'Thema', '2,2': 'Neu', '2,3': '',
+        '3,2': 'Ohne Kategorie', '3,3': 'x',
+        '4,1': 'Thema', '4,3': 'nur Synonym',
+        '5,1': 'Notiz', '5,2': 42
+      })
+    })
+
+    it('should move extra columns with their entry', async () => {
+      const sheet = createStatefulSheet('Glossar', {
+        '1,1': 'Kategorie', '1,2': 'Begriff', '1,3': 'Synonyme', '1,4': 'Bemerkung',
+        '2,1': 'Thema', '2,2': 'Weg', '2,3': '', '2,4': 'veraltet',
+        '3,1': 'Thema', '3,2': 'Rollout', '3,3': '', '3,4': 'seit 2024',
+        '4,1': 'Notiz', '4,2': 'Bleibt', '4,4': 'Rand'
+      })
+      mockWorkbook.sheets.mockReturnValue([sheet])
+
+      await saveGlossarEntries('/path/to/file.xlsx', [
+        { kategorie: 'Thema', begriff: 'Rollout', synonyme: ['Einführung'] }
+      ])
+
+      expect(sheet.data).toEqual({
+        '1,1': 'Kategorie', '1,2': 'Begriff', '1,3': 'Synonyme', '1,4': 'Bemerkung',
+        '2,1': 'Thema', '2,2': 'Rollout', '2,3': 'Einführung', '2,4': 'seit 2024',
+        '3,1': 'Notiz', '3,2': 'Bleibt', '3,4': 'Rand'
+      })
+    })
+
+    it('should keep Kategorien that differ only in case as they are', async () => {
+      const sheet = createStatefulSheet('Glossar', {
+        '2,1': 'Thema', '2,2': 'Workshop', '2,3': 'WS',
+        '3,1': 'Projekt', '3,2': 'Umbau Halle 3', '3,3': '',
+        '4,1': 'thema', '4,2': 'Schulung', '4,3': 'Training'
+      })
+      mockWorkbook.sheets.mockReturnValue([sheet])
+
+      await saveGlossarEntries('/path/to/file.xlsx', [
+        { kategorie: 'Thema', begriff: 'Workshop', synonyme: ['WS'] }
+      ])
+
+      expect(sheet.data).toEqual({
+        '2,1': 'Thema', '2,2': 'Workshop', '2,3': 'WS',
+        '3,1': 'Projekt', '3,2': 'Umbau Halle 3', '3,3': '',
+        '4,1': 'thema', '4,2': 'Schulung', '4,3': 'Training'
+      })
+    })
+
+    it('should create the Glossar sheet if missing', async () => {
+      const sheet = createStatefulSheet('Glossar')
+      mockWorkbook.sheets.mockReturnValue([createMockSheet('Januar')])
+      mockWorkbook.addSheet.mockReturnValue(sheet)
+
+      await saveGlossarEntries('/path/to/file.xlsx', [
+        { kategorie: 'Auftraggeber', begriff: 'ACME', synonyme: ['Akme'] }
+      ])
+
+      expect(mockWorkbook.addSheet).toHaveBeenCalledWith('Glossar')
+      expect(sheet.data).toEqual({
+        '1,1': 'Kategorie', '1,2': 'Begriff', '1,3': 'Synonyme',
+        '2,1': 'Auftraggeber', '2,2': 'ACME', '2,3': 'Akme'
+      })
+    })
+
+    it('should reload the sheet on the next load', async () => {
+      vi.mocked(fsp.stat).mockResolvedValue({ mtimeMs: 12345 } as any)
+      const sheet = createStatefulSheet('Glossar', { '2,1': 'Thema', '2,2': 'Alt', '2,3': '' })
+      mockWorkbook.sheets.mockReturnValue([sheet])
+      await loadGlossar('/path/to/file.xlsx')
+
+      await saveGlossarEntries('/path/to/file.xlsx', [
+        { kategorie: 'Thema', begriff: 'Neu', synonyme: [] }
+      ])
+      const result = await loadGlossar('/path/to/file.xlsx')
+
+      expect(result?.eintraege).toEqual([{ kategorie: 'Thema', begriff: 'Neu', synonyme: [] }])
+    })
+
+    it('should not touch the file when entries conflict', async () => {
+      await expect(saveGlossarEntries('/path/to/file.xlsx', [
+        { kategorie: 'Thema', begriff: 'A', synonyme: ['x'] },
+        { kategorie: 'Thema', begriff: 'B', synonyme: ['x'] }
+      ])).rejects.toThrow('"x" ist mehreren Begriffen zugeordnet')
+
+      expect(mockLoadWorkbook).not.toHaveBeenCalled()
+      expect(mockCreateBackup).not.toHaveBeenCalled()
+      expect(mockSaveWorkbook).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('addGlossarSynonym', () => {
+    it('should add the synonym to an existing Begriff', async () => {
+      const sheet = createStatefulSheet('Glossar', {
+        '2,1': 'Auftraggeber', '2,2': 'Hakobu', '2,3': 'Hakobo GmbH',
+        '3,1': 'Thema', '3,2': 'Rollout', '3,3': ''
+      })
+      mockWorkbook.sheets.mockReturnValue([sheet])
+
+      await addGlossarSynonym('/path/to/file.xlsx', 'Auftraggeber', 'hakobu', 'Hakobo')
+
+      expect(sheet.data['2,3']).toBe('Hakobo GmbH, Hakobo')
+      expect(sheet.data['3,2']).toBe('Rollout')
+      expect(mockCreateBackup).toHaveBeenCalledWith('/path/to/file.xlsx')
+      expect(mockSaveWorkbook).toHaveBeenCalled()
+    })
+
+    it('should create the Begriff if missing', async () => {
+      const sheet = createStatefulSheet('Glossar', { '2,1': 'Thema', '2,2': 'Rollout', '2,3': '' })
+      mockWorkbook.sheets.mockReturnValue([sheet])
+
+      await addGlossarSynonym('/path/to/file.xlsx', 'Auftraggeber', 'Hakobu', 'Hakobo')
+
+      expect(sheet.data).toEqual({
+        '2,1': 'Thema', '2,2': 'Rollout', '2,3': '',
+        '3,1': 'Auftraggeber', '3,2': 'Hakobu', '3,3': 'Hakobo'
+      })
+    })
+
+    it('should not write if the synonym is already known', async () => {
+      const sheet = createStatefulSheet('Glossar', { '2,1': 'Auftraggeber', '2,2': 'Hakobu', '2,3': 'hakobo' })
+      mockWorkbook.sheets.mockReturnValue([sheet])
+
+      await addGlossarSynonym('/path/to/file.xlsx', 'Auftraggeber', 'Hakobu', 'Hakobo')
+
+      expect(mockCreateBackup).not.toHaveBeenCalled()
+      expect(mockSaveWorkbook).not.toHaveBeenCalled()
+    })
+
+    it('should reject a synonym that belongs to another Begriff', async () => {
+      const sheet = createStatefulSheet('Glossar', {
+        '2,1': 'Thema', '2,2': 'Rollout', '2,3': 'Einführung',
+        '3,1': 'Thema', '3,2': 'Schulung', '3,3': ''
+      })
+      mockWorkbook.sheets.mockReturnValue([sheet])
+
+      await expect(addGlossarSynonym('/path/to/file.xlsx', 'Thema', 'Schulung', 'Einführung'))
+        .rejects.toThrow('"Einführung" ist mehreren Begriffen zugeordnet')
+      expect(mockSaveWorkbook).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('addGlossarSynonyms', () => {
+    it('should add all synonyms with one backup and save', async () => {
+      const sheet = createStatefulSheet('Glossar', {
+        '2,1': 'Auftraggeber', '2,2': 'Hakobu', '2,3': '',
+        '3,1': 'Thema', '3,2': 'Rollout', '3,3': 'rolaut'
+      })
+      mockWorkbook.sheets.mockReturnValue([sheet])
+
+      await addGlossarSynonyms('/path/to/file.xlsx', [
+        { kategorie: 'Auftraggeber', begriff: 'Hakobu', synonym: 'Hakobo' },
+        { kategorie: 'Thema', begriff: 'Rollout', synonym: 'Rolaut' },
+        { kategorie: 'Thema', begriff: 'Schulung', synonym: 'Schuhlung' }
+      ])
+
+      expect(sheet.data).toEqual({
+        '2,1': 'Auftraggeber', '2,2': 'Hakobu', '2,3': 'Hakobo',
+        '3,1': 'Thema', '3,2': 'Rollout', '3,3': 'rolaut',
+        '4,1': 'Thema', '4,2': 'Schulung', '4,3': 'Schuhlung'
+      })
+      expect(mockCreateBackup).toHaveBeenCalledTimes(1)
+      expect(mockSaveWorkbook).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('classifyNewThema', () => {
+    const kunde: GlossarEintrag = { kategorie: 'Kunde', begriff: 'Stadtwerke Nordhausen', synonyme: [] }
+    const glossar: Glossar = {
+      eintraege: [kunde],
+      byKategorie: new Map([['Kunde', [kunde]]]),
+      lookupMap: new Map([['rollout', 'Rollout'], ['stadtwerke nordhausen', 'Stadtwerke Nordhausen']])
+    }
+
+    it('should return null for Themen the glossar knows', () => {
+      expect(classifyNewThema('rollout', glossar)).toBeNull()
+      expect(classifyNewThema('Rolout', glossar)).toBeNull()
+    })
+
+    it('should suggest Kunde for legal forms and institutions', () => {
+      expect(classifyNewThema('Müller GmbH', glossar)).toBe('Kunde')
+      expect(classifyNewThema('Förderverein e.V.', glossar)).toBe('Kunde')
+      expect(classifyNewThema('Klinikum Mitte', glossar)).toBe('Kunde')
+    })
+
+    it('should follow the Kategorie of the closest known term', () => {
+      expect(classifyNewThema('Stadtwerke Süd', glossar)).toBe('Kunde')
+      expect(classifyNewThema('Datenmigration', glossar)).toBe('Thema')
+    })
+
+    it('should classify against an empty glossar', () => {
+      const empty: Glossar = { eintraege: [], byKategorie: new Map(), lookupMap: new Map() }
+
+      expect(classifyNewThema('Rollout', empty)).toBe('Thema')
+      expect(classifyNewThema('Müller GmbH', empty)).toBe('Kunde')
+    })
+  })
+
+  describe('addGlossarBegriff', () => {
+    it('should append the Begriff without synonyms', async () => {
+      const sheet = createStatefulSheet('Glossar', { '2,1': 'Thema', '2,2': 'Rollout', '2,3': 'Einführung' })
+      mockWorkbook.sheets.mockReturnValue([sheet])
+
+      await addGlossarBegriff('/path/to/file.xlsx', 'Kunde', 'Müller GmbH')
+
+      expect(sheet.data).toEqual({
+        '2,1': 'Thema', '2,2': 'Rollout', '2,3': 'Einführung',
+        '3,1': 'Kunde', '3,2': 'Müller GmbH', '3,3': ''
+      })
+      expect(mockCreateBackup).toHaveBeenCalledWith('/path/to/file.xlsx')
+    })
+
+    it('should not write terms already known as Begriff or synonym', async () => {
+      const sheet = createStatefulSheet('Glossar', { '2,1': 'Thema', '2,2': 'Rollout', '2,3': 'Einführung' })
+      mockWorkbook.sheets.mockReturnValue([sheet])
+
+      await addGlossarBegriff('/path/to/file.xlsx', 'Thema', 'rollout')
+      await addGlossarBegriff('/path/to/file.xlsx', 'Thema', 'Einführung ')
+
+      expect(mockSaveWorkbook).not.toHaveBeenCalled()
+    })
+  })
+
   describe('module exports', () => {
     it('should export clearGlossarCache', () => {
       expect(typeof clearGlossarCache).toBe('function')
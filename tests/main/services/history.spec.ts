@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { join } from 'path'
+
+const fsp = vi.hoisted(() => ({
+  appendFile: vi.fn(),
+  mkdir: vi.fn(),
+  open: vi.fn()
+}))
+
+vi.mock('fs/promises', () => ({ ...fsp, default: fsp }))
+
+import { appendHistory, getCorrectedFields, queryHistory } from '@main/services/history'
+
+const HISTORY_DIR = join('/tmp/test-home', '.aktivitaeten')
+const HISTORY_FILE = join(HISTORY_DIR, 'history.jsonl')
+
+const activity = {
+  auftraggeber: 'ACME',
+  thema: 'Rollout',
+  beschreibung: 'Workshop',
+  minuten: 90,
+  km: 0,
+  auslagen: 0,
+  datum: '2026-01-15'
+}
+
+function line(overrides: Record<string, unknown>): string {
+  return JSON.stringify({
+    id: 'x',
+    timestamp: '2026-01-15T10:00:00.000Z',
+    action: 'insert',
+    filePath: '/data/acme.xlsx',
+    sheet: 'Januar',
+    row: 8,
+    activity,
+    ...overrides
+  })
+}
+
+// File handle over the given content, as returned by fsp.open
+function historyFile(content: string) {
+  const data = Buffer.from(content, 'utf-8')
+  return {
+    stat: vi.fn(async () => ({ size: data.length })),
+    read: vi.fn(async (buffer: Buffer, offset: number, length: number, position: number) => {
+      data.copy(buffer, offset, position, position + length)
+      return { bytesRead: length, buffer }
+    }),
+    close: vi.fn()
+  }
+}
+
+describe('history', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('getCorrectedFields', () => {
+    it('should list the fields that differ', () => {
+      expect(getCorrectedFields(activity, { ...activity, thema: 'Support', minuten: 60 })).toEqual(['thema', 'minuten'])
+      expect(getCorrectedFields(activity, { ...activity })).toEqual([])
+    })
+  })
+
+  describe('appendHistory', () => {
+    it('should append one JSON line with the corrected fields', async () => {
+      const entry = await appendHistory({
+        action: 'insert',
+        filePath: '/data/acme.xlsx',
+        sheet: 'Januar',
+        row: 8,
+        activity,
+        transcript: 'Workshop Rollout eine Stunde',
+        parsedActivity: { ...activity, minuten: 60 }
+      })
+
+      expect(fsp.mkdir).toHaveBeenCalledWith(HISTORY_DIR, { recursive: true })
+      const [path, content] = vi.mocked(fsp.appendFile).mock.calls[0]
+      expect(path).toBe(HISTORY_FILE)
+      expect(content).toMatch(/\n$/)
+      expect((content as string).trim()).not.toContain('\n')
+      expect(JSON.parse(content as string)).toEqual(entry)
+      expect(entry).toMatchObject({ action: 'insert', row: 8, correctedFields: ['minuten'] })
+      expect(entry.id).toBeTruthy()
+      expect(entry.timestamp).toMatch(/^\d{4}-\d{2}-\d{2}T/)
+    })
+
+    it('should not record corrections without a recognised activity', async () => {
+      const entry = await appendHistory({ action: 'delete', filePath: '/data/acme.xlsx', sheet: 'Januar', row: 8 })
+
+      expect(entry.correctedFields).toBeUndefined()
+    })
+
+    it('should propagate write errors', async () => {
+      vi.mocked(fsp.appendFile).mockRejectedValueOnce(new Error('EACCES'))
+
+      await expect(
+        appendHistory({ action: 'delete', filePath: '/data/acme.xlsx', sheet: 'Januar', row: 8 })
+      ).rejects.toThrow('EACCES')
+    })
+  })
+
+  describe('queryHistory', () => {
+    it('should return an empty list without history file', async () => {
+      vi.mocked(fsp.open).mockRejectedValueOnce(Object.assign(new Error('ENOENT'), { code: 'ENOENT' }))
+
+      expect(await queryHistory()).toEqual([])
+    })
+
+    it('should return entries newest first and skip unreadable lines', async () => {
+      vi.mocked(fsp.open).mockResolvedValueOnce(historyFile([line({ id: '1' }), '{"id": "kaputt', line({ id: '2' }), ''].join('\n')) as any)
+
+      const entries = await queryHistory()
+
+      expect(entries.map(e => e.id)).toEqual(['2', '1'])
+    })
+
+    it('should filter by file, period and search text', async () => {
+      vi.mocked(fsp.open).mockResolvedValue(historyFile([
+        line({ id: '1', timestamp: '2026-01-10T09:00:00.000Z' }),
+        line({ id: '2', timestamp: '2026-01-20T09:00:00.000Z', transcript: 'Telefonat mit Müller' }),
+        line({ id: '3', timestamp: '2026-01-20T09:00:00.000Z', filePath: '/data/beispiel.xlsx' })
+      ].join('\n')) as any)
+
+      expect((await queryHistory({ filePath: '/data/acme.xlsx' })).map(e => e.id)).toEqual(['2', '1'])
+      expect((await queryHistory({ from: '2026-01-15', to: '2026-01-31' })).map(e => e.id)).toEqual(['3', '2'])
+      expect((await queryHistory({ search: 'müller' })).map(e => e.id)).toEqual(['2'])
+      expect((await queryHistory({ search: 'rollout' })).map(e => e.id)).toEqual(['3', '2', '1'])
+    })
+
+    it('should limit the number of entries', async () => {
+      vi.mocked(fsp.open).mockResolvedValueOnce(historyFile([line({ id: '1' }), line({ id: '2' }), line({ id: '3' })].join('\n')) as any)
+
+      expect((await queryHistory({ limit: 2 })).map(e => e.id)).toEqual(['3', '2'])
+    })
+
+    it('should compare the period with the local date of the timestamp', async () => {
+      vi.mocked(fsp.open).mockResolvedValue(historyFile([
+        line({ id: 'before', timestamp: new Date(2026, 0, 14, 23, 30).toISOString() }),
+        line({ id: 'start', timestamp: new Date(2026, 0, 15, 0, 30).toISOString() }),
+        line({ id: 'end', timestamp: new Date(2026, 0, 15, 23, 30).toISOString() }),
+        line({ id: 'after', timestamp: new Date(2026, 0, 16, 0, 30).toISOString() })
+      ].join('\n')) as any)
+
+      const entries = await queryHistory({ from: '2026-01-15', to: '2026-01-15' })
+
+      expect(entries.map(e => e.id)).toEqual(['end', 'start'])
+    })
+
+    it('should read lines across chunks and stop once the limit is reached', async () => {
+      const lines = Array.from({ length: 1000 }, (_, i) => line({ id: String(i), transcript: `Übergabe ${'ä'.repeat(i % 50)}` }))
+      const file = historyFile(lines.join('\n') + '\n')
+      vi.mocked(fsp.open).mockResolvedValue(file as any)
+
+      const all = await queryHistory({ limit: 5000 })
+      expect(all).toHaveLength(1000)
+      expect(all[0].id).toBe('999')
+      expect(all[999].transcript).toBe('Übergabe ')
+      const readsForAll = file.read.mock.calls.length
+
+      file.read.mockClear()
+      expect((await queryHistory({ limit: 2 })).map(e => e.id)).toEqual(['999', '998'])
+      expect(file.read).toHaveBeenCalledTimes(1)
+      expect(readsForAll).toBeGreaterThan(1)
+      expect(file.close).toHaveBeenCalledTimes(2)
+    })
+  })
+})
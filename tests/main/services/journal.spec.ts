@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { join } from 'path'
+
+const fsp = vi.hoisted(() => ({
+  mkdir: vi.fn(),
+  readdir: vi.fn(),
+  readFile: vi.fn(),
+  rename: vi.fn(),
+  unlink: vi.fn(),
+  writeFile: vi.fn()
+}))
+
+vi.mock('fs/promises', () => ({ ...fsp, default: fsp }))
+
+import { completePending, listPending, recordPending } from '@main/services/journal'
+
+const JOURNAL_DIR = join('/tmp/test-home', '.aktivitaeten', 'journal')
+const activity = { datum: '2026-01-15', thema: 'Rollout', taetigkeit: 'Workshop', zeit: 2, km: 0, hotel: 0 }
+
+describe('journal', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('recordPending', () => {
+    it('should write the entry via temp file and rename', async () => {
+      const id = await recordPending('/data/acme.xlsx', activity)
+
+      expect(id).toMatch(/^\d+-[0-9a-f]{8}$/)
+      expect(fsp.mkdir).toHaveBeenCalledWith(JOURNAL_DIR, { recursive: true })
+      const [tempPath, content] = vi.mocked(fsp.writeFile).mock.calls[0]
+      expect(tempPath).toBe(join(JOURNAL_DIR, `${id}.json.tmp`))
+      expect(JSON.parse(content as string)).toMatchObject({ id, filePath: '/data/acme.xlsx', activity })
+      expect(fsp.rename).toHaveBeenCalledWith(join(JOURNAL_DIR, `${id}.json.tmp`), join(JOURNAL_DIR, `${id}.json`))
+    })
+  })
+
+  describe('completePending', () => {
+    it('should remove the entry and only warn on failure', async () => {
+      await completePending('1-abc')
+      expect(fsp.unlink).toHaveBeenCalledWith(join(JOURNAL_DIR, '1-abc.json'))
+
+      vi.mocked(fsp.unlink).mockRejectedValueOnce(new Error('EPERM'))
+      await expect(completePending('1-abc')).resolves.toBeUndefined()
+    })
+  })
+
+  describe('listPending', () => {
+    it('should return entries oldest first and skip temp and unreadable files', async () => {
+      vi.mocked(fsp.readdir).mockResolvedValueOnce(['2-b.json', '1-a.json', '3-c.json.tmp', '4-d.json'] as any)
+      vi.mocked(fsp.readFile).mockImplementation(async (path) => {
+        if (String(path).endsWith('4-d.json')) return '{ broken'
+        const id = String(path).endsWith('1-a.json') ? '1-a' : '2-b'
+        return JSON.stringify({ id, filePath: '/data/acme.xlsx', activity, createdAt: '' })
+      })
+
+      const entries = await listPending()
+
+      expect(entries.map((e) => e.id)).toEqual(['1-a', '2-b'])
+    })
+
+    it('should return an empty list without journal folder', async () => {
+      vi.mocked(fsp.readdir).mockRejectedValueOnce(new Error('ENOENT'))
+
+      expect(await listPending()).toEqual([])
+    })
+  })
+})
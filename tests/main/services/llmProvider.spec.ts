@@ -0,0 +1,268 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { z } from 'zod'
+
+const { mockGetApiKey, mockGetConfig, mockStructuredInvoke, chatConstructor, azureConstructor } = vi.hoisted(() => ({
+  mockGetApiKey: vi.fn(),
+  mockGetConfig: vi.fn(),
+  mockStructuredInvoke: vi.fn(),
+  chatConstructor: vi.fn(),
+  azureConstructor: vi.fn()
+}))
+
+vi.mock('@langchain/openai', () => ({
+  ChatOpenAI: class MockChatOpenAI {
+    constructor(fields: unknown) {
+      chatConstructor(fields)
+    }
+    withStructuredOutput() {
+      return { invoke: mockStructuredInvoke }
+    }
+  },
+  AzureChatOpenAI: class MockAzureChatOpenAI {
+    constructor(fields: unknown) {
+      azureConstructor(fields)
+    }
+    withStructuredOutput() {
+      return { invoke: mockStructuredInvoke }
+    }
+  }
+}))
+
+vi.mock('@main/services/config', () => ({
+  getApiKey: mockGetApiKey,
+  getConfig: mockGetConfig
+}))
+
+vi.mock('@main/services/debugLog', () => ({
+  debugLog: vi.fn()
+}))
+
+import {
+  getLLMProvider,
+  resetLLMProvider,
+  isLLMProviderConfigured,
+  setMockFixture,
+  setMockResponses
+} from '@main/services/llmProvider'
+
+function useSettings(settings: Record<string, string>): void {
+  mockGetConfig.mockReturnValue({
+    settings: { llmProvider: 'openai', llmModel: '', llmBaseUrl: '', llmApiVersion: '', ...settings }
+  })
+}
+
+const TestSchema = z.object({
+  name: z.string(),
+  count: z.number().nullable()
+})
+
+describe('llmProvider', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    resetLLMProvider()
+    setMockResponses([])
+    useSettings({})
+  })
+
+  afterEach(() => {
+    delete process.env.OPENAI_MODEL
+    delete process.env.AZURE_OPENAI_API_KEY
+  })
+
+  describe('openai', () => {
+    it('should throw when no API key is configured', async () => {
+      mockGetApiKey.mockResolvedValue('')
+
+      await expect(getLLMProvider()).rejects.toThrow('OPENAI_API_KEY not found in settings or environment')
+    })
+
+    it('should use gpt-4o for parsing and gpt-4o-mini for file scanning', async () => {
+      mockGetApiKey.mockResolvedValue('sk-test')
+
+      const parse = await getLLMProvider('parse')
+      const scan = await getLLMProvider('fileScan')
+
+      expect(parse.model).toBe('gpt-4o')
+      expect(scan.model).toBe('gpt-4o-mini')
+    })
+
+    it('should prefer the model from settings over OPENAI_MODEL', async () => {
+      mockGetApiKey.mockResolvedValue('sk-test')
+      process.env.OPENAI_MODEL = 'gpt-4-turbo'
+      useSettings({ llmModel: 'gpt-4.1' })
+
+      const provider = await getLLMProvider()
+
+      expect(provider.model).toBe('gpt-4.1')
+    })
+
+    it('should cache providers until reset', async () => {
+      mockGetApiKey.mockResolvedValue('sk-test')
+
+      const first = await getLLMProvider()
+      const second = await getLLMProvider()
+      resetLLMProvider()
+      const third = await getLLMProvider()
+
+      expect(second).toBe(first)
+      expect(third).not.toBe(first)
+      expect(chatConstructor).toHaveBeenCalledTimes(2)
+    })
+
+    it('should forward structured calls to the chat model', async () => {
+      mockGetApiKey.mockResolvedValue('sk-test')
+      mockStructuredInvoke.mockResolvedValue({ name: 'x', count: 1 })
+
+      const provider = await getLLMProvider()
+      const result = await provider.invokeStructured(TestSchema, [{ role: 'user', content: 'hi' }])
+
+      expect(result).toEqual({ name: 'x', count: 1 })
+      expect(mockStructuredInvoke).toHaveBeenCalledWith([{ role: 'user', content: 'hi' }])
+    })
+  })
+
+  describe('local', () => {
+    it('should use the OpenAI-compatible endpoint without an API key', async () => {
+      mockGetApiKey.mockResolvedValue('')
+      useSettings({ llmProvider: 'local', llmBaseUrl: 'http://127.0.0.1:8080/v1', llmModel: 'qwen2.5' })
+
+      const provider = await getLLMProvider()
+
+      expect(provider.type).toBe('local')
+      expect(provider.model).toBe('qwen2.5')
+      expect(chatConstructor).toHaveBeenCalledWith(expect.objectContaining({
+        model: 'qwen2.5',
+        configuration: { baseURL: 'http://127.0.0.1:8080/v1' }
+      }))
+    })
+
+    it('should default to Ollama on localhost', async () => {
+      useSettings({ llmProvider: 'local' })
+
+      await getLLMProvider()
+
+      expect(chatConstructor).toHaveBeenCalledWith(expect.objectContaining({
+        configuration: { baseURL: 'http://localhost:11434/v1' }
+      }))
+    })
+  })
+
+  describe('azure', () => {
+    it('should require endpoint and deployment', async () => {
+      mockGetApiKey.mockResolvedValue('azure-key')
+      useSettings({ llmProvider: 'azure' })
+
+      await expect(getLLMProvider()).rejects.toThrow('Azure OpenAI benötigt Endpoint und Deployment-Name')
+    })
+
+    it('should create an Azure chat model with deployment settings', async () => {
+      mockGetApiKey.mockResolvedValue('azure-key')
+      useSettings({
+        llmProvider: 'azure',
+        llmBaseUrl: 'https://example.openai.azure.com',
+        llmModel: 'gpt-4o-prod'
+      })
+
+      const provider = await getLLMProvider()
+
+      expect(provider.type).toBe('azure')
+      expect(azureConstructor).toHaveBeenCalledWith(expect.objectContaining({
+        azureOpenAIApiKey: 'azure-key',
+        azureOpenAIEndpoint: 'https://example.openai.azure.com',
+        azureOpenAIApiDeploymentName: 'gpt-4o-prod',
+        azureOpenAIApiVersion: '2024-10-21'
+      }))
+    })
+
+    it('should prefer AZURE_OPENAI_API_KEY over the stored key', async () => {
+      mockGetApiKey.mockResolvedValue('sk-openai')
+      process.env.AZURE_OPENAI_API_KEY = 'azure-env-key'
+      useSettings({ llmProvider: 'azure', llmBaseUrl: 'https://example.openai.azure.com', llmModel: 'gpt-4o-prod' })
+
+      await getLLMProvider()
+
+      expect(azureConstructor).toHaveBeenCalledWith(expect.objectContaining({ azureOpenAIApiKey: 'azure-env-key' }))
+    })
+
+    it('should name the Azure key when none is found', async () => {
+      mockGetApiKey.mockResolvedValue('')
+      useSettings({ llmProvider: 'azure', llmBaseUrl: 'https://example.openai.azure.com', llmModel: 'gpt-4o-prod' })
+
+      await expect(getLLMProvider()).rejects.toThrow('AZURE_OPENAI_API_KEY not found')
+    })
+  })
+
+  describe('mock', () => {
+    beforeEach(() => {
+      useSettings({ llmProvider: 'mock' })
+    })
+
+    it('should return scripted responses in order', async () => {
+      setMockResponses([{ name: 'first', count: 1 }, { name: 'second', count: null }])
+      const provider = await getLLMProvider()
+
+      const a = await provider.invokeStructured(TestSchema, [])
+      const b = await provider.invokeStructured(TestSchema, [])
+
+      expect(a.name).toBe('first')
+      expect(b).toEqual({ name: 'second', count: null })
+    })
+
+    it('should answer with the fixture of the schema when no script is queued', async () => {
+      const FixtureSchema = z.object({ name: z.string(), count: z.number().nullable() })
+      setMockFixture(FixtureSchema, { name: 'Fixture', count: null })
+      const provider = await getLLMProvider()
+
+      const result = await provider.invokeStructured(FixtureSchema, [
+        { role: 'system', content: 'prompt' },
+        { role: 'user', content: 'Eine Stunde IDT' }
+      ])
+
+      expect(result).toEqual({ name: 'Fixture', count: null })
+    })
+
+    it('should fail for schemas without script or fixture', async () => {
+      const provider = await getLLMProvider()
+
+      await expect(provider.invokeStructured(TestSchema, [{ role: 'user', content: 'Eine Stunde IDT' }]))
+        .rejects.toThrow('Mock LLM: keine Antwort hinterlegt')
+    })
+
+    it('should reject scripted responses that do not match the schema', async () => {
+      setMockResponses([{ name: 42 }])
+      const provider = await getLLMProvider()
+
+      await expect(provider.invokeStructured(TestSchema, [])).rejects.toThrow()
+    })
+  })
+
+  describe('isLLMProviderConfigured', () => {
+    it('should require an API key for openai', async () => {
+      mockGetApiKey.mockResolvedValue('')
+      expect(await isLLMProviderConfigured()).toBe(false)
+
+      mockGetApiKey.mockResolvedValue('sk-test')
+      expect(await isLLMProviderConfigured()).toBe(true)
+    })
+
+    it('should not require an API key for local and mock', async () => {
+      mockGetApiKey.mockResolvedValue('')
+
+      useSettings({ llmProvider: 'local' })
+      expect(await isLLMProviderConfigured()).toBe(true)
+
+      useSettings({ llmProvider: 'mock' })
+      expect(await isLLMProviderConfigured()).toBe(true)
+    })
+
+    it('should require endpoint and deployment for azure', async () => {
+      mockGetApiKey.mockResolvedValue('azure-key')
+
+      useSettings({ llmProvider: 'azure' })
+      expect(await isLLMProviderConfigured()).toBe(false)
+
+      useSettings({ llmProvider: 'azure', llmBaseUrl: 'https://x.openai.azure.com', llmModel: 'dep' })
+      expect(await isLLMProviderConfigured()).toBe(true)
+    })
+  })
+})
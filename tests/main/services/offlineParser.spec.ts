@@ -0,0 +1,242 @@
+import { describe, it, expect } from 'vitest'
+import {
+  parseGermanNumber,
+  extractMinuten,
+  extractKm,
+  extractAuslagen,
+  extractDatum,
+  extractFields,
+  parseActivityOffline,
+  parseActivitiesOffline,
+  parseFollowUpOffline,
+  parseCorrectionOffline
+} from '@main/services/offlineParser'
+import type { Activity, Glossar } from '@shared/types'
+
+// Wednesday, 17 January 2024
+const TODAY = new Date(2024, 0, 17)
+
+function createGlossar(): Glossar {
+  const eintraege = [
+    { kategorie: 'Auftraggeber' as const, begriff: 'IDT', synonyme: ['idt gmbh'] },
+    { kategorie: 'Thema' as const, begriff: 'Hakobu', synonyme: ['hako'] },
+    { kategorie: 'Kunde' as const, begriff: 'Stadtwerke', synonyme: [] }
+  ]
+  return {
+    eintraege,
+    byKategorie: new Map(),
+    lookupMap: new Map([
+      ['idt', 'IDT'],
+      ['idt gmbh', 'IDT'],
+      ['hakobu', 'Hakobu'],
+      ['hako', 'Hakobu'],
+      ['stadtwerke', 'Stadtwerke']
+    ])
+  }
+}
+
+describe('offlineParser', () => {
+  describe('parseGermanNumber', () => {
+    it('should parse digits and decimal commas', () => {
+      expect(parseGermanNumber('42')).toBe(42)
+      expect(parseGermanNumber('12,50')).toBe(12.5)
+    })
+
+    it('should parse German number words', () => {
+      expect(parseGermanNumber('zwei')).toBe(2)
+      expect(parseGermanNumber('zwanzig')).toBe(20)
+      expect(parseGermanNumber('fünfundachtzig')).toBe(85)
+    })
+
+    it('should return null for non-numbers', () => {
+      expect(parseGermanNumber('Meeting')).toBeNull()
+    })
+  })
+
+  describe('extractMinuten', () => {
+    it('should recognise fractional hours', () => {
+      expect(extractMinuten('eine halbe Stunde telefoniert')).toBe(30)
+      expect(extractMinuten('anderthalb Stunden Workshop')).toBe(90)
+      expect(extractMinuten('dreiviertel Stunde')).toBe(45)
+      expect(extractMinuten('zweieinhalb Stunden')).toBe(150)
+    })
+
+    it('should recognise hours and minutes with digits or words', () => {
+      expect(extractMinuten('90 Minuten Meeting')).toBe(90)
+      expect(extractMinuten('zwei Stunden')).toBe(120)
+      expect(extractMinuten('1,5 h')).toBe(90)
+    })
+
+    it('should sum multiple mentions', () => {
+      expect(extractMinuten('2 Stunden und 15 Minuten')).toBe(135)
+    })
+
+    it('should return null when no duration is mentioned', () => {
+      expect(extractMinuten('Meeting mit IDT')).toBeNull()
+    })
+  })
+
+  describe('extractKm / extractAuslagen', () => {
+    it('should extract kilometers', () => {
+      expect(extractKm('120 km gefahren')).toBe(120)
+      expect(extractKm('achtzig Kilometer')).toBe(80)
+      expect(extractKm('keine Fahrt')).toBeNull()
+    })
+
+    it('should extract and sum expenses', () => {
+      expect(extractAuslagen('Hotel 89 Euro')).toBe(89)
+      expect(extractAuslagen('Parken 12,50 € und Essen 20 Euro')).toBe(32.5)
+    })
+  })
+
+  describe('extractDatum', () => {
+    it('should resolve relative days', () => {
+      expect(extractDatum('heute', TODAY)).toBe('2024-01-17')
+      expect(extractDatum('gestern', TODAY)).toBe('2024-01-16')
+      expect(extractDatum('vorgestern', TODAY)).toBe('2024-01-15')
+    })
+
+    it('should resolve weekdays before today', () => {
+      expect(extractDatum('letzten Montag', TODAY)).toBe('2024-01-15')
+      expect(extractDatum('letzten Mittwoch', TODAY)).toBe('2024-01-10')
+      expect(extractDatum('am Mittwoch', TODAY)).toBe('2024-01-17')
+    })
+
+    it('should resolve explicit dates', () => {
+      expect(extractDatum('am 3. Dezember', TODAY)).toBe('2024-12-03')
+      expect(extractDatum('am dritten März 2023', TODAY)).toBe('2023-03-03')
+      expect(extractDatum('am 05.01.2024', TODAY)).toBe('2024-01-05')
+      expect(extractDatum('am 12.', TODAY)).toBe('2024-01-12')
+    })
+
+    it('should use the 15th for month-only mentions', () => {
+      expect(extractDatum('im Januar', TODAY)).toBe('2024-01-15')
+      expect(extractDatum('letzten Monat', TODAY)).toBe('2023-12-15')
+    })
+
+    it('should put a later month without year into the previous year', () => {
+      expect(extractDatum('im November', TODAY)).toBe('2023-11-15')
+      expect(extractDatum('im November', new Date(2024, 10, 3))).toBe('2024-11-15')
+      expect(extractDatum('im März', new Date(2024, 5, 1))).toBe('2024-03-15')
+      expect(extractDatum('für Dezember 2024', TODAY)).toBe('2024-12-15')
+    })
+
+    it('should return null when no date is mentioned', () => {
+      expect(extractDatum('Meeting mit IDT', TODAY)).toBeNull()
+    })
+  })
+
+  describe('extractFields', () => {
+    it('should match glossar terms and synonyms', () => {
+      const fields = extractFields('Eine Stunde IDT GmbH zu hako', { glossar: createGlossar(), today: TODAY })
+
+      expect(fields.auftraggeber).toBe('IDT')
+      expect(fields.thema).toBe('Hakobu')
+      expect(fields.minuten).toBe(60)
+    })
+
+    it('should match configured clients and themes without glossar', () => {
+      const fields = extractFields('Workshop bei ACME zum Rollout', {
+        clients: ['ACME'],
+        themes: ['Rollout']
+      })
+
+      expect(fields.auftraggeber).toBe('ACME')
+      expect(fields.thema).toBe('Rollout')
+    })
+
+    it('should prefer an explicit "Thema X"', () => {
+      const fields = extractFields('IDT Stadtwerke, Thema ist Hakobu', { glossar: createGlossar() })
+
+      expect(fields.thema).toBe('Hakobu')
+    })
+
+    it('should take unknown words after "Thema" as the theme', () => {
+      const fields = extractFields('IDT Thema Netzplanung', { glossar: createGlossar() })
+
+      expect(fields.thema).toBe('Netzplanung')
+    })
+  })
+
+  describe('parseActivityOffline', () => {
+    it('should build a complete activity with defaults', () => {
+      const activity = parseActivityOffline(' Eine halbe Stunde IDT ', { glossar: createGlossar(), today: TODAY })
+
+      expect(activity).toEqual({
+        auftraggeber: 'IDT',
+        thema: null,
+        beschreibung: 'Eine halbe Stunde IDT',
+        minuten: 30,
+        km: 0,
+        auslagen: 0,
+        datum: '2024-01-17'
+      })
+    })
+  })
+
+  describe('parseActivitiesOffline', () => {
+    it('should split a day summary into separate activities', () => {
+      const activities = parseActivitiesOffline(
+        'Gestern Vormittag 2 Stunden IDT Thema Hakobu, danach eine Stunde Lakowa Niwa, 120 km',
+        { clients: ['IDT', 'Lakowa'], themes: ['Niwa'], glossar: createGlossar(), today: TODAY }
+      )
+
+      expect(activities).toHaveLength(2)
+      expect(activities[0]).toMatchObject({ auftraggeber: 'IDT', thema: 'Hakobu', minuten: 120, km: 0 })
+      expect(activities[1]).toMatchObject({ auftraggeber: 'Lakowa', thema: 'Niwa', minuten: 60, km: 120 })
+      // The date mentioned once applies to both
+      expect(activities.map(a => a.datum)).toEqual(['2024-01-16', '2024-01-16'])
+    })
+
+    it('should return a single activity when there is no separator', () => {
+      const activities = parseActivitiesOffline('Eine Stunde IDT', { glossar: createGlossar(), today: TODAY })
+
+      expect(activities).toHaveLength(1)
+      expect(activities[0].beschreibung).toBe('Eine Stunde IDT')
+    })
+  })
+
+  describe('parseFollowUpOffline', () => {
+    const existing: Activity = {
+      auftraggeber: 'IDT',
+      thema: null,
+      beschreibung: 'Meeting',
+      minuten: null,
+      km: 0,
+      auslagen: 0,
+      datum: '2024-01-17'
+    }
+
+    it('should fill only missing fields', () => {
+      const result = parseFollowUpOffline(existing, 'zwei Stunden, 50 km', ['minuten'])
+
+      expect(result.minuten).toBe(120)
+      expect(result.km).toBe(0)
+      expect(result.auftraggeber).toBe('IDT')
+    })
+
+    it('should use a bare answer as the theme', () => {
+      const result = parseFollowUpOffline(existing, 'Netzplanung.', ['thema'], { glossar: createGlossar() })
+
+      expect(result.thema).toBe('Netzplanung')
+    })
+  })
+
+  describe('parseCorrectionOffline', () => {
+    it('should overwrite only the corrected fields', () => {
+      const existing: Activity = {
+        auftraggeber: 'IDT',
+        thema: 'Hakobu',
+        beschreibung: 'Meeting',
+        minuten: 60,
+        km: 0,
+        auslagen: 0,
+        datum: '2024-01-17'
+      }
+
+      const result = parseCorrectionOffline(existing, 'nein, anderthalb Stunden und gestern', { today: TODAY })
+
+      expect(result).toEqual({ ...existing, minuten: 90, datum: '2024-01-16' })
+    })
+  })
+})
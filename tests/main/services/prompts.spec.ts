@@ -0,0 +1,174 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { mockExistsSync, mockReadFile, mockWriteFile, mockMkdir } = vi.hoisted(() => ({
+  mockExistsSync: vi.fn(),
+  mockReadFile: vi.fn(),
+  mockWriteFile: vi.fn(),
+  mockMkdir: vi.fn()
+}))
+
+vi.mock('fs', () => ({
+  existsSync: mockExistsSync,
+  default: { existsSync: mockExistsSync }
+}))
+
+vi.mock('fs/promises', () => ({
+  readFile: mockReadFile,
+  writeFile: mockWriteFile,
+  mkdir: mockMkdir,
+  default: {
+    readFile: mockReadFile,
+    writeFile: mockWriteFile,
+    mkdir: mockMkdir
+  }
+}))
+
+vi.mock('@main/services/debugLog', () => ({
+  debugLog: vi.fn()
+}))
+
+import {
+  DEFAULT_PROMPT_TEMPLATES,
+  PROMPT_TEMPLATE_VERSION,
+  buildPhoneticExamples,
+  ensurePromptTemplates,
+  formatTemplateFile,
+  getPromptPath,
+  getPromptTemplate,
+  renderPrompt
+} from '@main/services/prompts'
+import type { Glossar } from '@shared/types'
+
+function createGlossar(): Glossar {
+  return {
+    eintraege: [
+      { kategorie: 'Thema', begriff: 'Projekt X', synonyme: ['Projekt Iks'] },
+      { kategorie: 'Kunde', begriff: 'Stadtwerke', synonyme: [] },
+      { kategorie: 'Auftraggeber', begriff: 'ACME', synonyme: ['Akme', 'A.C.M.E.'] }
+    ],
+    byKategorie: new Map(),
+    lookupMap: new Map()
+  }
+}
+
+describe('prompts', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('default templates', () => {
+    it('should not contain customer-specific names', () => {
+      for (const template of Object.values(DEFAULT_PROMPT_TEMPLATES)) {
+        expect(template).not.toMatch(/IDT|Hakob|Lakow|Niwa|Krzysztof/)
+        expect(template).toContain('{examples}')
+      }
+    })
+  })
+
+  describe('renderPrompt', () => {
+    it('should replace every occurrence and keep unknown placeholders', () => {
+      expect(renderPrompt('{a} und {a}, {b}', { a: 'X' })).toBe('X und X, {b}')
+    })
+
+    it('should insert values literally', () => {
+      expect(renderPrompt('Antwort: {answer}', { answer: '$& {answer}' })).toBe('Antwort: $& {answer}')
+    })
+  })
+
+  describe('buildPhoneticExamples', () => {
+    it('should list synonyms per term, Auftraggeber first', () => {
+      expect(buildPhoneticExamples(createGlossar())).toBe(
+        '- "Akme", "A.C.M.E." → "ACME" (Auftraggeber)\n' +
+        '- "Projekt Iks" → "Projekt X" (Thema)'
+      )
+    })
+
+    it('should limit the number of examples', () => {
+      expect(buildPhoneticExamples(createGlossar(), 1).split('\n')).toHaveLength(1)
+    })
+
+    it('should return an empty string without glossar', () => {
+      expect(buildPhoneticExamples(null)).toBe('')
+    })
+  })
+
+  describe('getPromptTemplate', () => {
+    it('should use the default when no user template exists', async () => {
+      mockExistsSync.mockReturnValue(false)
+
+      expect(await getPromptTemplate('parse')).toBe(DEFAULT_PROMPT_TEMPLATES.parse)
+    })
+
+    it('should read the user template without comment lines', async () => {
+      mockExistsSync.mockReturnValue(true)
+      mockReadFile.mockResolvedValue('# Kommentar\nEigene Vorlage {clients}\n')
+
+      expect(await getPromptTemplate('correction')).toBe('Eigene Vorlage {clients}')
+      expect(mockReadFile).toHaveBeenCalledWith(getPromptPath('correction'), 'utf-8')
+    })
+
+    it('should keep # lines after the header block', async () => {
+      mockExistsSync.mockReturnValue(true)
+      mockReadFile.mockResolvedValue('# Kommentar\n# Hinweis\n\n# Aufgabe\nErfasse {clients}\n\n## Regeln\n- kurz\n')
+
+      expect(await getPromptTemplate('parse')).toBe('# Aufgabe\nErfasse {clients}\n\n## Regeln\n- kurz')
+    })
+
+    it('should fall back to the default when the file is empty', async () => {
+      mockExistsSync.mockReturnValue(true)
+      mockReadFile.mockResolvedValue('# nur Kommentare\n')
+
+      expect(await getPromptTemplate('followup')).toBe(DEFAULT_PROMPT_TEMPLATES.followup)
+    })
+  })
+
+  describe('ensurePromptTemplates', () => {
+    it('should write missing templates with a version header', async () => {
+      mockExistsSync.mockReturnValue(false)
+
+      await ensurePromptTemplates()
+
+      expect(mockWriteFile).toHaveBeenCalledTimes(3)
+      expect(mockWriteFile).toHaveBeenCalledWith(getPromptPath('parse'), formatTemplateFile('parse'), 'utf-8')
+      expect(formatTemplateFile('parse')).toContain(`(Version ${PROMPT_TEMPLATE_VERSION}, `)
+    })
+
+    it('should keep current templates untouched', async () => {
+      mockExistsSync.mockReturnValue(true)
+      mockReadFile.mockImplementation(async (path: string) =>
+        formatTemplateFile(path.endsWith('parse.txt') ? 'parse' : path.endsWith('correction.txt') ? 'correction' : 'followup')
+      )
+
+      await ensurePromptTemplates()
+
+      expect(mockWriteFile).not.toHaveBeenCalled()
+    })
+
+    it('should upgrade an unedited older template', async () => {
+      const outdated = formatTemplateFile('parse').replace(`(Version ${PROMPT_TEMPLATE_VERSION},`, '(Version 0,')
+      mockExistsSync.mockReturnValue(true)
+      mockReadFile.mockResolvedValue(outdated)
+
+      await ensurePromptTemplates()
+
+      expect(mockWriteFile).toHaveBeenCalledWith(getPromptPath('parse'), formatTemplateFile('parse'), 'utf-8')
+    })
+
+    it('should keep an edited older template and write the new default next to it', async () => {
+      const edited = formatTemplateFile('parse')
+        .replace(`(Version ${PROMPT_TEMPLATE_VERSION},`, '(Version 0,')
+        .concat('\nEigene Regel')
+      mockExistsSync.mockReturnValue(true)
+      mockReadFile.mockResolvedValue(edited)
+
+      await ensurePromptTemplates()
+
+      expect(mockWriteFile).not.toHaveBeenCalledWith(getPromptPath('parse'), expect.anything(), 'utf-8')
+      expect(mockWriteFile).toHaveBeenCalledWith(
+        expect.stringMatching(/parse\.default\.txt$/),
+        formatTemplateFile('parse'),
+        'utf-8'
+      )
+    })
+  })
+})
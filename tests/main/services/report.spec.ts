@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { join } from 'path'
+
+const { mockMkdir, mockWriteFile, mockPrintToPDF, mockDestroy } = vi.hoisted(() => ({
+  mockMkdir: vi.fn(),
+  mockWriteFile: vi.fn(),
+  mockPrintToPDF: vi.fn(),
+  mockDestroy: vi.fn()
+}))
+
+vi.mock('fs/promises', () => ({
+  mkdir: mockMkdir,
+  writeFile: mockWriteFile,
+  default: { mkdir: mockMkdir, writeFile: mockWriteFile }
+}))
+
+vi.mock('electron', () => ({
+  BrowserWindow: vi.fn(function () {
+    return {
+      loadURL: vi.fn().mockResolvedValue(undefined),
+      webContents: { printToPDF: mockPrintToPDF },
+      destroy: mockDestroy
+    }
+  })
+}))
+
+vi.mock('@main/services/excel', () => ({
+  readMonthActivities: vi.fn()
+}))
+
+import {
+  buildMonthlyReport,
+  createMonthlyReport,
+  formatReportCsv,
+  formatReportHtml,
+  getReportBasePath
+} from '@main/services/report'
+import * as excelService from '@main/services/excel'
+import type { BookedActivity, XlsxFileConfig } from '@shared/types'
+
+const file: XlsxFileConfig = { path: join('/data', 'LV ACME 2026.xlsx'), auftraggeber: 'ACME', jahr: 2026, active: true }
+
+function booked(datum: string, zeit: number | null, km = 0, hotel = 0, taetigkeit = 'Beratung'): BookedActivity {
+  return { auftraggeber: 'ACME', filePath: file.path, sheet: 'März', row: 8, datum, thema: 'Projekt X', taetigkeit, zeit, km, hotel }
+}
+
+describe('report', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(excelService.readMonthActivities).mockResolvedValue([
+      booked('2026-03-02', 1.5, 40),
+      booked('2026-03-05', 0.25, 0, 89.9),
+      booked('2026-03-09', null)
+    ])
+    mockPrintToPDF.mockResolvedValue(Buffer.from('%PDF'))
+  })
+
+  describe('buildMonthlyReport', () => {
+    it('should read the month of the file and sum hours, km and Auslagen', async () => {
+      const report = await buildMonthlyReport(file, 3)
+
+      expect(excelService.readMonthActivities).toHaveBeenCalledWith(file, 3)
+      expect(report).toMatchObject({
+        auftraggeber: 'ACME',
+        jahr: 2026,
+        month: 3,
+        totalHours: 1.75,
+        totalKm: 40,
+        totalAuslagen: 89.9,
+        hoursAmount: null,
+        kmAmount: null,
+        totalAmount: null
+      })
+      expect(report.rows).toHaveLength(3)
+    })
+
+    it('should multiply with the given rates', async () => {
+      const report = await buildMonthlyReport(file, 3, { hourlyRate: 80, kmRate: 0.3 })
+
+      expect(report.hoursAmount).toBe(140)
+      expect(report.kmAmount).toBe(12)
+      expect(report.totalAmount).toBe(241.9)
+    })
+
+    it('should fail instead of reporting zero hours for an unreadable file', async () => {
+      vi.mocked(excelService.readMonthActivities).mockRejectedValueOnce(new Error('Datei ist in Excel geöffnet: LV ACME 2026.xlsx'))
+
+      await expect(buildMonthlyReport(file, 3)).rejects.toThrow('Datei ist in Excel geöffnet')
+    })
+
+    it('should price only the rates that are set', async () => {
+      const report = await buildMonthlyReport(file, 3, { kmRate: 0.3 })
+
+      expect(report.hoursAmount).toBeNull()
+      expect(report.totalAmount).toBe(101.9)
+    })
+  })
+
+  describe('formatReportCsv', () => {
+    it('should use semicolons, decimal commas and a BOM', async () => {
+      const csv = formatReportCsv(await buildMonthlyReport(file, 3, { hourlyRate: 80 }))
+      const lines = csv.split('\r\n')
+
+      expect(csv.startsWith('\uFEFF')).toBe(true)
+      expect(lines[1]).toBe('02.03.2026;Projekt X;Beratung;1,50;40,00;0,00')
+      expect(lines[4]).toBe('Summe;;;1,75;40,00;89,90')
+      expect(lines[5]).toBe('Honorar;;;140,00 €;;')
+    })
+
+    it('should quote fields with separators', async () => {
+      vi.mocked(excelService.readMonthActivities).mockResolvedValueOnce([booked('2026-03-02', 1, 0, 0, 'Workshop; "Kickoff"')])
+
+      const csv = formatReportCsv(await buildMonthlyReport(file, 3))
+
+      expect(csv).toContain(';"Workshop; ""Kickoff""";')
+    })
+  })
+
+  describe('formatReportHtml', () => {
+    it('should escape cell content', async () => {
+      vi.mocked(excelService.readMonthActivities).mockResolvedValueOnce([booked('2026-03-02', 1, 0, 0, '<script>x</script>')])
+
+      const html = formatReportHtml(await buildMonthlyReport(file, 3))
+
+      expect(html).toContain('Monatsbericht ACME – März 2026')
+      expect(html).toContain('&lt;script&gt;x&lt;/script&gt;')
+      expect(html).not.toContain('<script>')
+    })
+  })
+
+  describe('createMonthlyReport', () => {
+    it('should write CSV and PDF into the reports folder next to the workbook', async () => {
+      const basePath = join('/data', 'reports', 'Bericht ACME 2026-03')
+
+      const paths = await createMonthlyReport(file, 3)
+
+      expect(getReportBasePath(file, 3)).toBe(basePath)
+      expect(paths).toEqual({ pdfPath: `${basePath}.pdf`, csvPath: `${basePath}.csv` })
+      expect(mockMkdir).toHaveBeenCalledWith(join('/data', 'reports'), { recursive: true })
+      expect(mockWriteFile).toHaveBeenCalledWith(`${basePath}.csv`, expect.stringContaining('Summe;'), 'utf-8')
+      expect(mockWriteFile).toHaveBeenCalledWith(`${basePath}.pdf`, Buffer.from('%PDF'))
+      expect(mockDestroy).toHaveBeenCalled()
+    })
+
+    it('should close the hidden window when printing fails', async () => {
+      mockPrintToPDF.mockRejectedValueOnce(new Error('print failed'))
+
+      await expect(createMonthlyReport(file, 3)).rejects.toThrow('print failed')
+      expect(mockDestroy).toHaveBeenCalled()
+    })
+  })
+})
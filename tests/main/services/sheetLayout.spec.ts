@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_SHEET_LAYOUT,
+  detectSheetLayout,
+  fromCellTime,
+  getSheetName,
+  resolveSheetLayout,
+  toCellTime,
+  type SheetLayout
+} from '@main/services/sheetLayout'
+
+const createMockSheet = (data: Record<string, unknown>, numberFormat = 'General') => ({
+  cell: (ref: string) => ({
+    value: () => data[ref],
+    style: () => numberFormat
+  })
+})
+
+const createMockWorkbook = (sheets: Record<string, ReturnType<typeof createMockSheet>>) => ({
+  sheet: (name: string) => sheets[name] || null
+})
+
+describe('sheetLayout', () => {
+  describe('getSheetName', () => {
+    it('should name month sheets per naming scheme', () => {
+      expect(getSheetName('monthName', 2)).toBe('März')
+      expect(getSheetName('monthShort', 2)).toBe('Mär')
+      expect(getSheetName('monthNumber', 2)).toBe('03')
+    })
+  })
+
+  describe('toCellTime / fromCellTime', () => {
+    it('should convert hours per time format', () => {
+      expect(toCellTime(6, 'dayFraction')).toBe(0.25)
+      expect(toCellTime(1.5, 'minutes')).toBe(90)
+      expect(toCellTime(1.5, 'hours')).toBe(1.5)
+      expect(fromCellTime(0.25, 'dayFraction')).toBe(6)
+      expect(fromCellTime(90, 'minutes')).toBe(1.5)
+    })
+  })
+
+  describe('detectSheetLayout', () => {
+    it('should detect the original template', () => {
+      const sheet = createMockSheet({
+        'A7': 'Datum', 'B7': 'Thema', 'C7': 'Tätigkeit', 'D7': 'Zeit', 'E7': 'KM', 'F7': 'Hotel'
+      }, '[h]:mm')
+      const workbook = createMockWorkbook({ Januar: sheet, Februar: sheet })
+
+      expect(detectSheetLayout(workbook as any)).toEqual(DEFAULT_SHEET_LAYOUT)
+    })
+
+    it('should detect other columns, sheet names and minutes', () => {
+      const sheet = createMockSheet({
+        'A1': 'Leistungsnachweis',
+        'B3': 'Datum', 'C3': 'Projekt', 'D3': 'Beschreibung der Leistung', 'E3': 'Minuten', 'G3': 'Auslagen (€)'
+      })
+      const workbook = createMockWorkbook({ '04': sheet })
+
+      expect(detectSheetLayout(workbook as any)).toEqual({
+        sheetNaming: 'monthNumber',
+        columns: { datum: 'B', thema: 'C', taetigkeit: 'D', zeit: 'E', hotel: 'G' },
+        headerRow: 3,
+        timeFormat: 'minutes'
+      })
+    })
+
+    it('should prefer a time number format over the header label', () => {
+      const headers = { 'A5': 'Datum', 'B5': 'Thema', 'C5': 'Tätigkeit', 'D5': 'Std.' }
+      const timeFormatted = createMockWorkbook({ Jan: createMockSheet(headers, 'hh:mm') })
+      const plain = createMockWorkbook({ Jan: createMockSheet(headers) })
+
+      expect(detectSheetLayout(timeFormatted as any)?.timeFormat).toBe('dayFraction')
+      expect(detectSheetLayout(plain as any)?.timeFormat).toBe('hours')
+    })
+
+    it('should return null without month sheets or header row', () => {
+      expect(detectSheetLayout(createMockWorkbook({ Tabelle1: createMockSheet({}) }) as any)).toBeNull()
+      expect(detectSheetLayout(createMockWorkbook({ Januar: createMockSheet({ 'A1': 'Datum' }) }) as any)).toBeNull()
+    })
+  })
+
+  describe('resolveSheetLayout', () => {
+    it('should prefer the configured layout and fall back to the default', () => {
+      const configured: SheetLayout = { ...DEFAULT_SHEET_LAYOUT, headerRow: 2 }
+      const workbook = createMockWorkbook({})
+
+      expect(resolveSheetLayout(workbook as any, configured)).toBe(configured)
+      expect(resolveSheetLayout(workbook as any)).toBe(DEFAULT_SHEET_LAYOUT)
+    })
+  })
+})
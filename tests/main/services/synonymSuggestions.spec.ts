@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { join } from 'path'
+
+const fsp = vi.hoisted(() => ({
+  mkdir: vi.fn(),
+  readFile: vi.fn(),
+  rename: vi.fn(),
+  writeFile: vi.fn()
+}))
+
+vi.mock('fs/promises', () => ({ ...fsp, default: fsp }))
+
+import {
+  recordCorrections,
+  getPendingSuggestions,
+  findSuggestion,
+  setSuggestionStatus
+} from '@main/services/synonymSuggestions'
+
+const SUGGESTIONS_FILE = join('/tmp/test-home', '.aktivitaeten', 'synonym-suggestions.json')
+
+const parsed = {
+  auftraggeber: 'Hakobo',
+  thema: 'Rollout',
+  beschreibung: 'Workshop',
+  minuten: 90,
+  km: 0,
+  auslagen: 0,
+  datum: '2026-01-15'
+}
+
+describe('synonymSuggestions', () => {
+  // In-memory suggestions file
+  let stored: string | null
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    stored = null
+    fsp.readFile.mockImplementation(async () => {
+      if (stored === null) throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' })
+      return stored
+    })
+    fsp.writeFile.mockImplementation(async (_path: string, content: string) => {
+      stored = content
+    })
+  })
+
+  describe('recordCorrections', () => {
+    it('should count a correction without proposing it below the threshold', async () => {
+      const ready = await recordCorrections('/data/hakobu.xlsx', parsed, { ...parsed, auftraggeber: 'Hakobu' }, 3)
+
+      expect(ready).toEqual([])
+      expect(fsp.rename).toHaveBeenCalledWith(`${SUGGESTIONS_FILE}.tmp`, SUGGESTIONS_FILE)
+      expect(JSON.parse(stored!)).toEqual([
+        expect.objectContaining({
+          filePath: '/data/hakobu.xlsx',
+          kategorie: 'Auftraggeber',
+          synonym: 'Hakobo',
+          begriff: 'Hakobu',
+          count: 1,
+          status: 'collecting'
+        })
+      ])
+    })
+
+    it('should propose the correction once it reaches the threshold', async () => {
+      const corrected = { ...parsed, auftraggeber: 'Hakobu' }
+      await recordCorrections('/data/hakobu.xlsx', parsed, corrected, 2)
+      const ready = await recordCorrections('/data/hakobu.xlsx', { ...parsed, auftraggeber: 'hakobo ' }, corrected, 2)
+
+      expect(ready).toEqual([expect.objectContaining({ synonym: 'Hakobo', begriff: 'Hakobu', count: 2, status: 'pending' })])
+      expect(await getPendingSuggestions()).toHaveLength(1)
+    })
+
+    it('should count Auftraggeber and Thema separately', async () => {
+      await recordCorrections('/data/hakobu.xlsx', parsed, { ...parsed, auftraggeber: 'Hakobu', thema: 'Roll-out' }, 3)
+
+      expect(JSON.parse(stored!).map((s: { kategorie: string }) => s.kategorie)).toEqual(['Auftraggeber', 'Thema'])
+    })
+
+    it('should count corrections per file', async () => {
+      const corrected = { ...parsed, auftraggeber: 'Hakobu' }
+      await recordCorrections('/data/hakobu-2025.xlsx', parsed, corrected, 2)
+      const ready = await recordCorrections('/data/hakobu-2026.xlsx', parsed, corrected, 2)
+
+      expect(ready).toEqual([])
+      expect(JSON.parse(stored!)).toHaveLength(2)
+    })
+
+    it('should ignore filled-in, cleared and case-only changes', async () => {
+      const ready = await recordCorrections(
+        '/data/hakobu.xlsx',
+        { ...parsed, auftraggeber: null, thema: 'rollout' },
+        { ...parsed, auftraggeber: 'Hakobu', thema: 'Rollout' },
+        1
+      )
+      await recordCorrections('/data/hakobu.xlsx', parsed, { ...parsed, thema: null }, 1)
+
+      expect(ready).toEqual([])
+      expect(fsp.readFile).not.toHaveBeenCalled()
+      expect(fsp.writeFile).not.toHaveBeenCalled()
+    })
+
+    it('should not propose rejected corrections again', async () => {
+      const corrected = { ...parsed, auftraggeber: 'Hakobu' }
+      const [suggestion] = await recordCorrections('/data/hakobu.xlsx', parsed, corrected, 1)
+      await setSuggestionStatus(suggestion.id, 'rejected')
+
+      const ready = await recordCorrections('/data/hakobu.xlsx', parsed, corrected, 1)
+
+      expect(ready).toEqual([])
+      expect(await findSuggestion(suggestion.id)).toEqual(expect.objectContaining({ count: 2, status: 'rejected' }))
+    })
+
+    it('should not lose counts of parallel saves', async () => {
+      const corrected = { ...parsed, auftraggeber: 'Hakobu' }
+      await Promise.all([
+        recordCorrections('/data/hakobu.xlsx', parsed, corrected, 5),
+        recordCorrections('/data/hakobu.xlsx', parsed, corrected, 5),
+        recordCorrections('/data/hakobu.xlsx', parsed, corrected, 5)
+      ])
+
+      expect(JSON.parse(stored!)[0].count).toBe(3)
+    })
+  })
+
+  describe('getPendingSuggestions', () => {
+    it('should return pending suggestions, most recent first', async () => {
+      stored = JSON.stringify([
+        { id: 'a', status: 'pending', lastSeen: '2026-01-10T10:00:00.000Z' },
+        { id: 'b', status: 'collecting', lastSeen: '2026-01-12T10:00:00.000Z' },
+        { id: 'c', status: 'pending', lastSeen: '2026-01-11T10:00:00.000Z' },
+        { id: 'd', status: 'accepted', lastSeen: '2026-01-13T10:00:00.000Z' }
+      ])
+
+      const pending = await getPendingSuggestions()
+
+      expect(pending.map(s => s.id)).toEqual(['c', 'a'])
+    })
+
+    it('should return an empty list without suggestions file', async () => {
+      expect(await getPendingSuggestions()).toEqual([])
+    })
+  })
+
+  describe('setSuggestionStatus', () => {
+    it('should return null for unknown ids', async () => {
+      expect(await setSuggestionStatus('missing', 'accepted')).toBeNull()
+      expect(fsp.writeFile).not.toHaveBeenCalled()
+    })
+  })
+})
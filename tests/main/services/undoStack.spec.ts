@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { clearUndoStack, getUndoStack, recordSave, relocateSave, takeLastSave } from '@main/services/undoStack'
+
+const row = (sheet: string, r: number, filePath = '/data/acme.xlsx') => ({ filePath, sheet, row: r, fingerprint: `fp${r}` })
+
+describe('undoStack', () => {
+  beforeEach(() => {
+    clearUndoStack()
+  })
+
+  it('should return saves newest first', () => {
+    recordSave(row('Januar', 8))
+    recordSave(row('Januar', 9))
+
+    expect(takeLastSave()).toEqual(row('Januar', 9))
+    expect(takeLastSave()).toEqual(row('Januar', 8))
+    expect(takeLastSave()).toBeUndefined()
+  })
+
+  it('should keep only the newest 50 saves', () => {
+    for (let r = 1; r <= 60; r++) recordSave(row('Januar', r))
+
+    const stack = getUndoStack()
+    expect(stack).toHaveLength(50)
+    expect(stack[0].row).toBe(11)
+  })
+
+  it('should follow a row corrected in place', () => {
+    recordSave(row('Januar', 8))
+    recordSave(row('Januar', 9))
+
+    relocateSave(row('Januar', 8), { ...row('Januar', 8), fingerprint: 'neu' })
+
+    expect(getUndoStack()).toEqual([{ ...row('Januar', 8), fingerprint: 'neu' }, row('Januar', 9)])
+  })
+
+  it('should drop a deleted row and move the rows below it up', () => {
+    recordSave(row('Januar', 8))
+    recordSave(row('Januar', 9))
+    recordSave(row('Februar', 9))
+    recordSave(row('Januar', 9, '/data/beispiel.xlsx'))
+
+    relocateSave(row('Januar', 8))
+
+    expect(getUndoStack()).toEqual([
+      { ...row('Januar', 9), row: 8 },
+      row('Februar', 9),
+      row('Januar', 9, '/data/beispiel.xlsx')
+    ])
+  })
+
+  it('should follow a row moved to another sheet', () => {
+    recordSave(row('Januar', 8))
+    recordSave(row('Januar', 9))
+
+    relocateSave(row('Januar', 8), row('Februar', 5))
+
+    expect(getUndoStack()).toEqual([row('Februar', 5), { ...row('Januar', 9), row: 8 }])
+  })
+})
@@ -1,11 +1,22 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 
 // Create the mocks using vi.hoisted so they're available during vi.mock
-const { mockGetApiKey, mockTranscriptionsCreate } = vi.hoisted(() => {
+const {
+  mockGetApiKey,
+  mockGetConfig,
+  mockTranscriptionsCreate,
+  mockTranscribeLocal,
+  mockIsLocalAvailable,
+  mockEnsureModel
+} = vi.hoisted(() => {
   const mockTranscriptionsCreate = vi.fn()
   return {
     mockGetApiKey: vi.fn(),
-    mockTranscriptionsCreate
+    mockGetConfig: vi.fn(),
+    mockTranscriptionsCreate,
+    mockTranscribeLocal: vi.fn(),
+    mockIsLocalAvailable: vi.fn(),
+    mockEnsureModel: vi.fn()
   }
 })
 
@@ -23,14 +34,31 @@ vi.mock('openai', () => {
 })
 
 vi.mock('@main/services/config', () => ({
-  getApiKey: mockGetApiKey
+  getApiKey: mockGetApiKey,
+  getConfig: mockGetConfig
 }))
 
-import { transcribe, initWhisper, isWhisperReady, getWhisperMode } from '@main/services/whisper'
+vi.mock('@main/services/whisperLocal', () => ({
+  transcribeLocal: mockTranscribeLocal,
+  isLocalWhisperAvailable: mockIsLocalAvailable,
+  ensureModel: mockEnsureModel
+}))
+
+vi.mock('@main/services/debugLog', () => ({
+  debugLog: vi.fn()
+}))
+
+function useWhisperSettings(whisperMode: 'auto' | 'cloud' | 'local'): void {
+  mockGetConfig.mockReturnValue({ settings: { whisperMode, whisperModel: 'base' } })
+}
+
+import { transcribe, initWhisper, isWhisperReady, getWhisperMode, buildVocabularyPrompt } from '@main/services/whisper'
 
 describe('whisper', () => {
   beforeEach(() => {
     vi.clearAllMocks()
+    useWhisperSettings('auto')
+    mockIsLocalAvailable.mockResolvedValue(false)
   })
 
   describe('transcribe', () => {
@@ -221,4 +249,89 @@ describe('whisper', () => {
       expect(result).toHaveProperty('mode')
     })
   })
+
+  describe('vocabulary prompt', () => {
+    it('should build no prompt without terms', () => {
+      expect(buildVocabularyPrompt([])).toBeUndefined()
+    })
+
+    it('should send glossar terms as prompt to the cloud API', async () => {
+      mockGetApiKey.mockResolvedValue('test-api-key')
+      mockTranscriptionsCreate.mockResolvedValue({ text: 'Hakobu', language: 'de' })
+
+      await transcribe(new Float32Array(10), new ArrayBuffer(100), { vocabulary: ['IDT', 'Hakobu'] })
+
+      expect(mockTranscriptionsCreate).toHaveBeenCalledWith(
+        expect.objectContaining({ prompt: 'Glossar: IDT, Hakobu.' })
+      )
+    })
+
+    it('should pass the prompt to local transcription', async () => {
+      useWhisperSettings('local')
+      mockTranscribeLocal.mockResolvedValue({ text: 'Lakowa', language: 'de' })
+
+      await transcribe(new Float32Array(10), undefined, { vocabulary: ['Lakowa'] })
+
+      expect(mockTranscribeLocal).toHaveBeenCalledWith(
+        expect.any(Float32Array),
+        'base',
+        expect.objectContaining({ prompt: 'Glossar: Lakowa.' })
+      )
+    })
+  })
+
+  describe('local mode', () => {
+    it('should transcribe PCM locally when local mode is selected', async () => {
+      useWhisperSettings('local')
+      mockTranscribeLocal.mockResolvedValue({ text: 'Lokaler Text', language: 'de' })
+
+      const pcm = new Float32Array([0.1, -0.1])
+      const result = await transcribe(pcm.buffer, new ArrayBuffer(100))
+
+      expect(mockTranscriptionsCreate).not.toHaveBeenCalled()
+      expect(mockTranscribeLocal).toHaveBeenCalledWith(expect.any(Float32Array), 'base', { onProgress: undefined, prompt: undefined })
+      expect(result).toEqual({ text: 'Lokaler Text', language: 'de', mode: 'local' })
+    })
+
+    it('should fall back to local when the cloud call fails in auto mode', async () => {
+      mockGetApiKey.mockResolvedValue('test-api-key')
+      mockTranscriptionsCreate.mockRejectedValue(new Error('Connection error.'))
+      mockIsLocalAvailable.mockResolvedValue(true)
+      mockTranscribeLocal.mockResolvedValue({ text: 'Fallback', language: 'de' })
+
+      const result = await transcribe(new Float32Array(10), new ArrayBuffer(100))
+
+      expect(result.mode).toBe('local')
+      expect(result.text).toBe('Fallback')
+    })
+
+    it('should not fall back when cloud mode is forced', async () => {
+      useWhisperSettings('cloud')
+      mockGetApiKey.mockResolvedValue('test-api-key')
+      mockTranscriptionsCreate.mockRejectedValue(new Error('Connection error.'))
+      mockIsLocalAvailable.mockResolvedValue(true)
+
+      await expect(transcribe(new Float32Array(10), new ArrayBuffer(100))).rejects.toThrow('Connection error.')
+      expect(mockTranscribeLocal).not.toHaveBeenCalled()
+    })
+
+    it('should report local mode without API key when whisper.cpp is available', async () => {
+      mockGetApiKey.mockResolvedValue('')
+      mockIsLocalAvailable.mockResolvedValue(true)
+
+      expect(await getWhisperMode()).toBe('local')
+      expect(await isWhisperReady()).toBe(true)
+    })
+
+    it('should download the model on init in local mode', async () => {
+      useWhisperSettings('local')
+      mockGetApiKey.mockResolvedValue('')
+      mockIsLocalAvailable.mockResolvedValue(true)
+      const onProgress = vi.fn()
+
+      await initWhisper(onProgress)
+
+      expect(mockEnsureModel).toHaveBeenCalledWith('base', onProgress)
+    })
+  })
 })
@@ -0,0 +1,217 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+const {
+  mockExecFile,
+  mockExistsSync,
+  mockWrite,
+  mockEnd,
+  mockReadFile,
+  mockWriteFile,
+  mockMkdir,
+  mockRm,
+  mockRename
+} = vi.hoisted(() => ({
+  mockExecFile: vi.fn(),
+  mockExistsSync: vi.fn(),
+  mockWrite: vi.fn((_chunk: unknown, cb: (err?: Error) => void) => cb()),
+  mockEnd: vi.fn((cb: () => void) => cb()),
+  mockReadFile: vi.fn(),
+  mockWriteFile: vi.fn(),
+  mockMkdir: vi.fn(),
+  mockRm: vi.fn(),
+  mockRename: vi.fn()
+}))
+
+vi.mock('child_process', () => ({
+  execFile: mockExecFile,
+  default: { execFile: mockExecFile }
+}))
+
+vi.mock('fs', () => {
+  const createWriteStream = vi.fn(() => ({ write: mockWrite, end: mockEnd, destroy: vi.fn() }))
+  return {
+    existsSync: mockExistsSync,
+    createWriteStream,
+    default: { existsSync: mockExistsSync, createWriteStream }
+  }
+})
+
+vi.mock('fs/promises', () => ({
+  readFile: mockReadFile,
+  writeFile: mockWriteFile,
+  mkdir: mockMkdir,
+  rm: mockRm,
+  rename: mockRename,
+  default: {
+    readFile: mockReadFile,
+    writeFile: mockWriteFile,
+    mkdir: mockMkdir,
+    rm: mockRm,
+    rename: mockRename
+  }
+}))
+
+vi.mock('@main/services/debugLog', () => ({
+  debugLog: vi.fn()
+}))
+
+import {
+  encodeWav,
+  ensureModel,
+  getModelPath,
+  isLocalWhisperAvailable,
+  resetLocalWhisper,
+  transcribeLocal
+} from '@main/services/whisperLocal'
+
+type ExecCallback = (err: Error | null, stdout: string) => void
+
+function execSucceeds(): void {
+  mockExecFile.mockImplementation((_bin: string, _args: string[], _opts: unknown, cb: ExecCallback) => cb(null, ''))
+}
+
+describe('whisperLocal', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    resetLocalWhisper()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    delete process.env.WHISPER_CPP_PATH
+  })
+
+  describe('encodeWav', () => {
+    it('should write a 16-bit mono WAV header', () => {
+      const wav = encodeWav(new Float32Array([0, 1, -1]))
+
+      expect(wav.toString('ascii', 0, 4)).toBe('RIFF')
+      expect(wav.toString('ascii', 8, 12)).toBe('WAVE')
+      expect(wav.readUInt16LE(22)).toBe(1)
+      expect(wav.readUInt32LE(24)).toBe(16000)
+      expect(wav.readUInt32LE(40)).toBe(6)
+      expect(wav.readInt16LE(46)).toBe(0x7fff)
+      expect(wav.readInt16LE(48)).toBe(-0x8000)
+    })
+  })
+
+  describe('isLocalWhisperAvailable', () => {
+    it('should probe the binary from WHISPER_CPP_PATH once', async () => {
+      process.env.WHISPER_CPP_PATH = '/opt/whisper/whisper-cli'
+      execSucceeds()
+
+      expect(await isLocalWhisperAvailable()).toBe(true)
+      expect(await isLocalWhisperAvailable()).toBe(true)
+      expect(mockExecFile).toHaveBeenCalledTimes(1)
+      expect(mockExecFile).toHaveBeenCalledWith('/opt/whisper/whisper-cli', ['--help'], expect.any(Object), expect.any(Function))
+    })
+
+    it('should return false when the binary cannot be started', async () => {
+      mockExecFile.mockImplementation((_bin: string, _args: string[], _opts: unknown, cb: ExecCallback) =>
+        cb(new Error('spawn whisper-cli ENOENT'), '')
+      )
+
+      expect(await isLocalWhisperAvailable()).toBe(false)
+    })
+  })
+
+  describe('ensureModel', () => {
+    it('should skip the download when the model exists', async () => {
+      mockExistsSync.mockReturnValue(true)
+      const fetchMock = vi.fn()
+      vi.stubGlobal('fetch', fetchMock)
+
+      const path = await ensureModel('base')
+
+      expect(path).toBe(getModelPath('base'))
+      expect(fetchMock).not.toHaveBeenCalled()
+    })
+
+    it('should download the model and report progress', async () => {
+      mockExistsSync.mockReturnValue(false)
+      const chunks = [new Uint8Array(50), new Uint8Array(50)]
+      const reader = {
+        read: vi.fn()
+          .mockResolvedValueOnce({ done: false, value: chunks[0] })
+          .mockResolvedValueOnce({ done: false, value: chunks[1] })
+          .mockResolvedValueOnce({ done: true, value: undefined })
+      }
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+        ok: true,
+        headers: new Headers({ 'content-length': '100' }),
+        body: { getReader: () => reader }
+      }))
+      const onProgress = vi.fn()
+
+      await ensureModel('tiny', onProgress)
+
+      expect(fetch).toHaveBeenCalledWith(expect.stringContaining('ggml-tiny.bin'))
+      expect(mockWrite).toHaveBeenCalledTimes(2)
+      expect(onProgress).toHaveBeenCalledWith({ status: 'progress', file: 'ggml-tiny.bin', progress: 50 })
+      expect(onProgress).toHaveBeenLastCalledWith({ status: 'done', file: 'ggml-tiny.bin', progress: 100 })
+      expect(mockRename).toHaveBeenCalledWith(`${getModelPath('tiny')}.part`, getModelPath('tiny'))
+    })
+
+    it('should throw when the download fails', async () => {
+      mockExistsSync.mockReturnValue(false)
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 404, headers: new Headers(), body: null }))
+
+      await expect(ensureModel('small')).rejects.toThrow('Whisper-Modell konnte nicht geladen werden: 404')
+    })
+  })
+
+  describe('transcribeLocal', () => {
+    beforeEach(() => {
+      mockExistsSync.mockReturnValue(true)
+      execSucceeds()
+    })
+
+    it('should run whisper.cpp on a WAV file and read the JSON output', async () => {
+      mockReadFile.mockResolvedValue(JSON.stringify({
+        result: { language: 'de' },
+        transcription: [{ text: ' Eine Stunde' }, { text: ' IDT.' }]
+      }))
+
+      const result = await transcribeLocal(new Float32Array(16000), 'base')
+
+      expect(mockWriteFile).toHaveBeenCalledWith(expect.stringMatching(/\.wav$/), expect.any(Buffer))
+      expect(mockExecFile).toHaveBeenCalledWith(
+        'whisper-cli',
+        expect.arrayContaining(['-m', getModelPath('base'), '-l', 'auto', '-oj']),
+        expect.any(Object),
+        expect.any(Function)
+      )
+      expect(result).toEqual({ text: 'Eine Stunde IDT.', language: 'de' })
+    })
+
+    it('should pass the vocabulary prompt to whisper.cpp', async () => {
+      mockReadFile.mockResolvedValue(JSON.stringify({ result: { language: 'de' }, transcription: [{ text: 'Hakobu' }] }))
+
+      await transcribeLocal(new Float32Array(100), 'base', { prompt: 'Glossar: Hakobu.' })
+
+      expect(mockExecFile).toHaveBeenCalledWith(
+        'whisper-cli',
+        expect.arrayContaining(['--prompt', 'Glossar: Hakobu.']),
+        expect.any(Object),
+        expect.any(Function)
+      )
+    })
+
+    it('should re-run with German forced for other languages', async () => {
+      mockReadFile
+        .mockResolvedValueOnce(JSON.stringify({ result: { language: 'en' }, transcription: [{ text: 'one hour' }] }))
+        .mockResolvedValueOnce(JSON.stringify({ result: { language: 'de' }, transcription: [{ text: 'eine Stunde' }] }))
+
+      const result = await transcribeLocal(new Float32Array(100), 'base')
+
+      expect(mockExecFile).toHaveBeenCalledTimes(2)
+      expect(mockExecFile).toHaveBeenLastCalledWith(
+        'whisper-cli',
+        expect.arrayContaining(['-l', 'de']),
+        expect.any(Object),
+        expect.any(Function)
+      )
+      expect(result.text).toBe('eine Stunde')
+    })
+  })
+})
@@ -2,10 +2,16 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 import * as fsp from 'fs/promises'
 
 // Create mocks using vi.hoisted to avoid initialization issues
-const { mockFromDataAsync, mockOutputAsync, mockDebugLog } = vi.hoisted(() => ({
+const { mockFromDataAsync, mockOutputAsync, mockDebugLog, mockExistsSync } = vi.hoisted(() => ({
   mockFromDataAsync: vi.fn(),
   mockOutputAsync: vi.fn(),
-  mockDebugLog: vi.fn()
+  mockDebugLog: vi.fn(),
+  mockExistsSync: vi.fn()
+}))
+
+vi.mock('fs', () => ({
+  existsSync: mockExistsSync,
+  default: { existsSync: mockExistsSync }
 }))
 
 // Mock debugLog
@@ -28,7 +34,17 @@ vi.mock('xlsx-populate', () => ({
   }
 }))
 
-import { loadWorkbook, saveWorkbook, XlsxPopulate } from '@main/services/workbook'
+import { join } from 'path'
+import {
+  assertWorkbookWritable,
+  getOwnerFilePaths,
+  getTempPath,
+  isLockError,
+  isWorkbookLocked,
+  loadWorkbook,
+  saveWorkbook,
+  XlsxPopulate
+} from '@main/services/workbook'
 import { debugLog } from '@main/services/debugLog'
 
 describe('workbook service', () => {
@@ -41,6 +57,7 @@ describe('workbook service', () => {
       outputAsync: mockOutputAsync
     }
     mockOutputAsync.mockResolvedValue(Buffer.from('mock output'))
+    mockExistsSync.mockReturnValue(false)
     mockFromDataAsync.mockResolvedValue(mockWorkbook)
   })
 
@@ -96,7 +113,21 @@ describe('workbook service', () => {
       await saveWorkbook(mockWorkbook as any, '/path/to/output.xlsx')
 
       expect(mockOutputAsync).toHaveBeenCalled()
-      expect(fsp.writeFile).toHaveBeenCalledWith('/path/to/output.xlsx', expect.any(Buffer))
+      expect(fsp.writeFile).toHaveBeenCalledWith(getTempPath('/path/to/output.xlsx'), expect.any(Buffer))
+      expect(fsp.rename).toHaveBeenCalledWith(getTempPath('/path/to/output.xlsx'), '/path/to/output.xlsx')
+    })
+
+    it('should write to a hidden temp file in the same folder', () => {
+      expect(getTempPath(join('/path', 'to', 'output.xlsx'))).toBe(join('/path', 'to', `.output.xlsx.${process.pid}.tmp`))
+    })
+
+    it('should remove the temp file and keep the workbook when the rename fails', async () => {
+      vi.mocked(fsp.writeFile).mockResolvedValue(undefined)
+      vi.mocked(fsp.rename).mockRejectedValueOnce(new Error('EBUSY'))
+      vi.mocked(fsp.unlink).mockResolvedValue(undefined)
+
+      await expect(saveWorkbook(mockWorkbook as any, '/path/to/output.xlsx')).rejects.toThrow('EBUSY')
+      expect(fsp.unlink).toHaveBeenCalledWith(getTempPath('/path/to/output.xlsx'))
     })
 
     it('should log saving messages', async () => {
@@ -123,6 +154,82 @@ describe('workbook service', () => {
     })
   })
 
+  describe('lock detection', () => {
+    const filePath = join('/data', 'LV ACME 2026.xlsx')
+
+    it('should detect the Excel owner file', () => {
+      expect(getOwnerFilePaths(filePath)).toEqual([
+        join('/data', '~$LV ACME 2026.xlsx'),
+        join('/data', '~$ ACME 2026.xlsx')
+      ])
+
+      mockExistsSync.mockReturnValueOnce(false).mockReturnValueOnce(false)
+      expect(isWorkbookLocked(filePath)).toBe(false)
+
+      mockExistsSync.mockReturnValueOnce(true)
+      expect(isWorkbookLocked(filePath)).toBe(true)
+    })
+
+    it('should only shorten the owner file name of long names', () => {
+      expect(getOwnerFilePaths(join('/data', 'ABfoo.xlsx'))).toEqual([join('/data', '~$ABfoo.xlsx')])
+      expect(getOwnerFilePaths(join('/data', 'Acme2026.xlsx'))).toEqual([
+        join('/data', '~$Acme2026.xlsx'),
+        join('/data', '~$cme2026.xlsx')
+      ])
+    })
+
+    it('should only treat ELOCKED as a lock error', () => {
+      expect(isLockError(Object.assign(new Error('locked'), { code: 'ELOCKED' }))).toBe(true)
+      expect(isLockError(Object.assign(new Error('busy'), { code: 'EBUSY' }))).toBe(false)
+      expect(isLockError(Object.assign(new Error('perm'), { code: 'EPERM' }))).toBe(false)
+      expect(isLockError(Object.assign(new Error('gone'), { code: 'ENOENT' }))).toBe(false)
+      expect(isLockError(new Error('plain'))).toBe(false)
+      expect(isLockError(null)).toBe(false)
+    })
+
+    it('should not write a workbook that is open in Excel', async () => {
+      mockExistsSync.mockReturnValueOnce(true)
+
+      const error = await saveWorkbook(mockWorkbook as any, filePath).catch((err) => err)
+
+      expect(error.message).toBe('Datei ist in Excel geöffnet: LV ACME 2026.xlsx')
+      expect(isLockError(error)).toBe(true)
+      expect(fsp.writeFile).not.toHaveBeenCalled()
+    })
+
+    it('should write despite a stale owner file when asked to', async () => {
+      mockExistsSync.mockReturnValue(true)
+      vi.mocked(fsp.writeFile).mockResolvedValue(undefined)
+      vi.mocked(fsp.rename).mockResolvedValueOnce(undefined)
+
+      await saveWorkbook(mockWorkbook as any, filePath, { ignoreOwnerFile: true })
+
+      expect(fsp.rename).toHaveBeenCalledWith(getTempPath(filePath), filePath)
+      expect(() => assertWorkbookWritable(filePath)).toThrow('Datei ist in Excel geöffnet')
+      expect(() => assertWorkbookWritable(filePath, { ignoreOwnerFile: true })).not.toThrow()
+    })
+
+    it('should report EBUSY on rename as locked while an owner file exists', async () => {
+      vi.mocked(fsp.writeFile).mockResolvedValue(undefined)
+      vi.mocked(fsp.rename).mockRejectedValueOnce(Object.assign(new Error('EBUSY: resource busy'), { code: 'EBUSY' }))
+      // No owner file before the write, Excel opened the file meanwhile
+      mockExistsSync.mockReturnValueOnce(false).mockReturnValueOnce(false).mockReturnValueOnce(true)
+
+      await expect(saveWorkbook(mockWorkbook as any, filePath)).rejects.toThrow('Datei ist in Excel geöffnet')
+    })
+
+    it('should not report EPERM without an owner file as locked', async () => {
+      vi.mocked(fsp.writeFile).mockResolvedValue(undefined)
+      vi.mocked(fsp.rename).mockRejectedValueOnce(Object.assign(new Error('EPERM: operation not permitted'), { code: 'EPERM' }))
+
+      const error = await saveWorkbook(mockWorkbook as any, filePath).catch((err) => err)
+
+      expect(error.message).toBe('Datei kann nicht geschrieben werden: LV ACME 2026.xlsx')
+      expect(error.code).toBe('EPERM')
+      expect(isLockError(error)).toBe(false)
+    })
+  })
+
   describe('XlsxPopulate re-export', () => {
     it('should export XlsxPopulate', () => {
       expect(XlsxPopulate).toBeDefined()
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { join } from 'path'
+
+const { mockExistsSync } = vi.hoisted(() => ({
+  mockExistsSync: vi.fn()
+}))
+
+vi.mock('fs', () => ({
+  existsSync: mockExistsSync,
+  default: { existsSync: mockExistsSync }
+}))
+
+vi.mock('@main/services/excel', () => ({
+  createEmptyYearWorkbook: vi.fn()
+}))
+
+vi.mock('@main/services/config', () => ({
+  findPreviousYearFile: vi.fn(),
+  getConfig: vi.fn(),
+  updateXlsxFile: vi.fn()
+}))
+
+import { getYearFileName, rolloverYear } from '@main/services/yearRollover'
+import * as excelService from '@main/services/excel'
+import * as configService from '@main/services/config'
+import type { SheetLayout } from '@shared/types'
+
+const layout: SheetLayout = {
+  sheetNaming: 'monthName',
+  columns: { datum: 'A', thema: 'B', taetigkeit: 'C', zeit: 'D', km: 'E', hotel: 'F' },
+  headerRow: 7,
+  timeFormat: 'dayFraction'
+}
+
+describe('yearRollover', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockExistsSync.mockReturnValue(false)
+    vi.mocked(configService.getConfig).mockReturnValue({ xlsxBasePath: '/base', xlsxFiles: [], settings: {} } as any)
+    vi.mocked(excelService.createEmptyYearWorkbook).mockResolvedValue(layout)
+  })
+
+  describe('getYearFileName', () => {
+    it('should follow the LV naming convention', () => {
+      expect(getYearFileName('ACME', 2027)).toBe('LV ACME 2027.xlsx')
+      expect(getYearFileName('A/B: GmbH', 2027)).toBe('LV AB GmbH 2027.xlsx')
+    })
+  })
+
+  describe('rolloverYear', () => {
+    const previous = { path: join('/data', 'LV ACME 2026.xlsx'), auftraggeber: 'ACME', jahr: 2026, active: true, layout }
+
+    it('should clone the previous year next to it and register it', async () => {
+      vi.mocked(configService.findPreviousYearFile).mockReturnValue(previous)
+      const target = join('/data', 'LV ACME 2027.xlsx')
+
+      const file = await rolloverYear('acme', 2027)
+
+      expect(excelService.createEmptyYearWorkbook).toHaveBeenCalledWith(previous.path, target, layout)
+      expect(configService.updateXlsxFile).toHaveBeenCalledWith(target, {
+        auftraggeber: 'ACME',
+        jahr: 2027,
+        active: true,
+        layout
+      })
+      expect(file).toEqual({ path: target, auftraggeber: 'ACME', jahr: 2027, active: true, layout })
+    })
+
+    it('should carry the report rates over to the new year', async () => {
+      vi.mocked(configService.findPreviousYearFile).mockReturnValue({ ...previous, hourlyRate: 90, kmRate: 0.3 })
+      const target = join('/data', 'LV ACME 2027.xlsx')
+
+      const file = await rolloverYear('ACME', 2027)
+
+      expect(configService.updateXlsxFile).toHaveBeenCalledWith(target, {
+        auftraggeber: 'ACME',
+        jahr: 2027,
+        active: true,
+        layout,
+        hourlyRate: 90,
+        kmRate: 0.3
+      })
+      expect(file).toMatchObject({ hourlyRate: 90, kmRate: 0.3 })
+    })
+
+    it('should use a template with its own layout', async () => {
+      vi.mocked(configService.findPreviousYearFile).mockReturnValue(null)
+
+      const file = await rolloverYear('Neukunde', 2027, '/templates/LV Vorlage.xlsx')
+
+      expect(excelService.createEmptyYearWorkbook).toHaveBeenCalledWith(
+        '/templates/LV Vorlage.xlsx',
+        join('/base', 'LV Neukunde 2027.xlsx'),
+        undefined
+      )
+      expect(file.path).toBe(join('/base', 'LV Neukunde 2027.xlsx'))
+    })
+
+    it('should fail without previous file or template', async () => {
+      vi.mocked(configService.findPreviousYearFile).mockReturnValue(null)
+
+      await expect(rolloverYear('ACME', 2027)).rejects.toThrow('Keine Vorjahresdatei für Auftraggeber "ACME" gefunden')
+      expect(excelService.createEmptyYearWorkbook).not.toHaveBeenCalled()
+    })
+
+    it('should not overwrite an existing file', async () => {
+      vi.mocked(configService.findPreviousYearFile).mockReturnValue(previous)
+      mockExistsSync.mockReturnValue(true)
+
+      await expect(rolloverYear('ACME', 2027)).rejects.toThrow('Datei existiert bereits')
+      expect(excelService.createEmptyYearWorkbook).not.toHaveBeenCalled()
+      expect(configService.updateXlsxFile).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest'
+import XlsxPopulate, { type Sheet, type Workbook } from 'xlsx-populate'
+import { copyCellStyle } from '@main/utils/cellStyle'
+
+// Runs against the real library: copyCellStyle relies on its cell internals
+describe('copyCellStyle', () => {
+  async function reload(workbook: Workbook): Promise<Sheet> {
+    const data = await workbook.outputAsync()
+    return (await XlsxPopulate.fromDataAsync(data as Buffer)).sheet(0)!
+  }
+
+  it('should copy a style set in this session', async () => {
+    const workbook = await XlsxPopulate.fromBlankAsync()
+    const sheet = workbook.sheet(0)!
+    sheet.cell('A2').style('bold', true).style('numberFormat', '[h]:mm')
+
+    copyCellStyle(sheet.cell('A2'), sheet.cell('A1'))
+
+    const saved = await reload(workbook)
+    expect(saved.cell('A1').style('bold')).toBe(true)
+    expect(saved.cell('A1').style('numberFormat')).toBe('[h]:mm')
+  })
+
+  it('should copy a style loaded from the file', async () => {
+    const original = await XlsxPopulate.fromBlankAsync()
+    original.sheet(0)!.cell('A2').style('fill', 'ffff00')
+    const loaded = await XlsxPopulate.fromDataAsync((await original.outputAsync()) as Buffer)
+    const sheet = loaded.sheet(0)!
+
+    copyCellStyle(sheet.cell('A2'), sheet.cell('A1'))
+
+    const saved = await reload(loaded)
+    expect(saved.cell('A1').style('fill')).toMatchObject({ type: 'solid', color: { rgb: 'FFFF00' } })
+  })
+
+  it('should reset the target when the source has no style', async () => {
+    const workbook = await XlsxPopulate.fromBlankAsync()
+    const sheet = workbook.sheet(0)!
+    sheet.cell('A1').style('italic', true)
+
+    copyCellStyle(sheet.cell('A2'), sheet.cell('A1'))
+
+    const saved = await reload(workbook)
+    expect(saved.cell('A1').style('italic')).toBe(false)
+  })
+})
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest'
+import { colognePhonetic, doubleMetaphone } from '@main/utils/phonetic'
+
+describe('phonetic', () => {
+  describe('colognePhonetic', () => {
+    it('should encode German words', () => {
+      expect(colognePhonetic('Müller-Lüdenscheidt')).toBe('65752682')
+      expect(colognePhonetic('Wikipedia')).toBe('3412')
+      expect(colognePhonetic('Breschnew')).toBe('17863')
+    })
+
+    it('should give the same code to similar sounding spellings', () => {
+      expect(colognePhonetic('Meier')).toBe(colognePhonetic('Mayr'))
+      expect(colognePhonetic('Lakova')).toBe(colognePhonetic('Lakowa'))
+      expect(colognePhonetic('Edete')).toBe(colognePhonetic('idete'))
+    })
+
+    it('should return an empty code without letters', () => {
+      expect(colognePhonetic('')).toBe('')
+      expect(colognePhonetic('42')).toBe('')
+    })
+  })
+
+  describe('doubleMetaphone', () => {
+    it('should return primary and alternate codes', () => {
+      expect(doubleMetaphone('Smith')).toEqual(['SM0', 'XMT'])
+      expect(doubleMetaphone('Schmidt')).toEqual(['XMT', 'SMT'])
+      expect(doubleMetaphone('Xavier')).toEqual(['SF', 'SFR'])
+      expect(doubleMetaphone('Wasserman')).toEqual(['ASRMN', 'FSRMN'])
+    })
+
+    it('should handle Polish spellings', () => {
+      expect(doubleMetaphone('Jankowski')).toEqual(['JNKSK', 'ANKFSK'])
+      expect(doubleMetaphone('Kowalski')[0]).toBe(doubleMetaphone('Kowalsky')[0])
+      expect(doubleMetaphone('Czerny')).toEqual(['SRN', 'XRN'])
+    })
+
+    it('should return empty codes without letters', () => {
+      expect(doubleMetaphone('')).toEqual(['', ''])
+    })
+  })
+})
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest'
+import { levenshteinDistance, similarity } from '@main/utils/similarity'
+
+describe('similarity', () => {
+  describe('levenshteinDistance', () => {
+    it('should count single-character edits', () => {
+      expect(levenshteinDistance('kitten', 'sitting')).toBe(3)
+      expect(levenshteinDistance('', 'abc')).toBe(3)
+      expect(levenshteinDistance('abc', 'abc')).toBe(0)
+    })
+  })
+
+  describe('similarity', () => {
+    it('should return a case-insensitive ratio between 0 and 1', () => {
+      expect(similarity('Rollout', 'rollout')).toBe(1)
+      expect(similarity('Rollout', 'Roll-out')).toBe(0.875)
+      expect(similarity('abc', 'xyz')).toBe(0)
+      expect(similarity('', '')).toBe(1)
+    })
+  })
+})
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest'
+import { inflateRawSync } from 'zlib'
+import { unzipSingleFile, zipSingleFile } from '@main/utils/zip'
+
+describe('zip', () => {
+  const data = Buffer.from('PK'.repeat(500) + 'Inhalt mit Umlauten: äöü')
+
+  it('should round-trip a file', () => {
+    expect(unzipSingleFile(zipSingleFile('Datei.xlsx', data))).toEqual(data)
+  })
+
+  it('should write a standard single-entry archive', () => {
+    const zip = zipSingleFile('Bericht ä.xlsx', data, new Date(2026, 0, 15, 10, 30, 44))
+    const name = Buffer.from('Bericht ä.xlsx', 'utf-8')
+
+    expect(zip.readUInt32LE(0)).toBe(0x04034b50)
+    expect(zip.readUInt16LE(8)).toBe(8) // Deflate
+    expect(zip.subarray(30, 30 + name.length)).toEqual(name)
+    expect(zip.readUInt16LE(12)).toBe(((2026 - 1980) << 9) | (1 << 5) | 15)
+    expect(zip.readUInt16LE(10)).toBe((10 << 11) | (30 << 5) | 22)
+
+    // End of central directory points at the central header
+    const end = zip.length - 22
+    expect(zip.readUInt32LE(end)).toBe(0x06054b50)
+    expect(zip.readUInt16LE(end + 10)).toBe(1)
+    expect(zip.readUInt32LE(zip.readUInt32LE(end + 16))).toBe(0x02014b50)
+
+    const compressed = zip.subarray(30 + name.length, 30 + name.length + zip.readUInt32LE(18))
+    expect(inflateRawSync(compressed)).toEqual(data)
+  })
+
+  it('should reject data that is not a zip archive', () => {
+    expect(() => unzipSingleFile(Buffer.from('plain text, definitely no archive'))).toThrow('Ungültiges ZIP-Archiv')
+  })
+
+  it('should detect corrupted content', () => {
+    const zip = zipSingleFile('Datei.xlsx', data)
+    zip.writeUInt32LE((zip.readUInt32LE(14) + 1) >>> 0, 14)
+
+    expect(() => unzipSingleFile(zip)).toThrow('Prüfsumme')
+  })
+})
@@ -79,6 +79,7 @@ vi.mock('fs/promises', async (importOriginal) => {
     readdir: vi.fn(),
     stat: vi.fn(),
     copyFile: vi.fn(),
+    rename: vi.fn(),
     unlink: vi.fn()
   }
 })